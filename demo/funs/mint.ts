@@ -6,7 +6,7 @@ export async function mint(sbirr: StableBirr, to: string) {
     to,
     amount: "1",
     usdAmount: "0.0067",
-    rate: 150,
+    rate: "150",
   });
   // await result.wait();
   const after = performance.now();
@@ -21,6 +21,10 @@ const recipient = process.env.METAMASK_ADDRESS!;
 
 async function main() {
   try {
+    // Checks the RPC is Polygon and CONTRACT_ADDRESS is the StableBirr proxy; mint, burn and the
+    // compliance calls below are refused until it passes.
+    await sbirr.connect();
+
     const testAccount = "0x0b44c56e29107b0964b3923f059ee64cc6d8041a";
 
     // // 2. Freeze the account (first time or already frozen)
@@ -0,0 +1,52 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../libraries/Conversion.sol";
+
+/**
+ * @title ConversionHarness
+ * @notice Exposes the internal `Conversion` library for tests.
+ *
+ * **Why this exists**
+ * `Conversion` only has internal functions, so nothing can call it directly. The SDK ships a
+ * bigint port of the library, and the parity tests call this harness with the same inputs to
+ * prove both return identical results and revert with identical errors.
+ */
+contract ConversionHarness {
+    function RATE_SCALE() external pure returns (uint256) {
+        return Conversion.RATE_SCALE;
+    }
+
+    function MIN_RATE() external pure returns (uint256) {
+        return Conversion.MIN_RATE;
+    }
+
+    function MAX_RATE() external pure returns (uint256) {
+        return Conversion.MAX_RATE;
+    }
+
+    function usdToEtb(
+        uint256 usdAmount,
+        uint256 rate
+    ) external pure returns (uint256) {
+        return Conversion.usdToEtb(usdAmount, rate);
+    }
+
+    function etbToUsd(
+        uint256 etbAmount,
+        uint256 rate
+    ) external pure returns (uint256) {
+        return Conversion.etbToUsd(etbAmount, rate);
+    }
+
+    function validateRate(uint256 rate) external pure returns (bool) {
+        return Conversion.validateRate(rate);
+    }
+
+    function calculateEtbAmount(
+        uint256 usdAmount,
+        uint256 rate
+    ) external pure returns (uint256) {
+        return Conversion.calculateEtbAmount(usdAmount, rate);
+    }
+}
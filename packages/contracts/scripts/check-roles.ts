@@ -1,9 +1,11 @@
 import { ethers } from "hardhat";
+import { resolveProxyAddress } from "./manifest";
 
 async function main() {
+  const [signer] = await ethers.getSigners();
   const contract = await ethers.getContractAt(
     "StableBirr",
-    "0xFaa6E8Ee77368613c804f51029CAb30677967F67"
+    resolveProxyAddress()
   );
 
   const admin = await contract.schnlAdmin();
@@ -12,14 +14,10 @@ async function main() {
   console.log("📋 Contract Roles:");
   console.log("Admin:", admin);
   console.log("Operator:", operator);
-  console.log(
-    "\n🔑 Your Address:",
-    "0x96b5586e4040859A60C844d4590a474F04Cde34C"
-  );
+  console.log("\n🔑 Your Address:", signer.address);
   console.log(
     "\n✅ Operator Match:",
-    operator.toLowerCase() ===
-      "0x96b5586e4040859A60C844d4590a474F04Cde34C".toLowerCase()
+    operator.toLowerCase() === signer.address.toLowerCase()
   );
 }
 
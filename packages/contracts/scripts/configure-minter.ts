@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { resolveProxyAddress } from "./manifest";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
@@ -8,7 +9,7 @@ async function main() {
 
   const contract = await ethers.getContractAt(
     "StableBirr",
-    "0xFaa6E8Ee77368613c804f51029CAb30677967F67"
+    resolveProxyAddress()
   );
 
   // Configure yourself as a minter with unlimited allowance
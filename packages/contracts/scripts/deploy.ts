@@ -1,8 +1,28 @@
-import { ethers, upgrades } from "hardhat";
+import { ethers, network, upgrades } from "hardhat";
+import {
+  MANIFEST_VERSION,
+  gitCommit,
+  manifestPath,
+  readManifest,
+  writeManifest,
+} from "./manifest";
 
 async function main() {
   console.log("🚀 Deploying StableBirr...\n");
 
+  // Refuse to silently replace the registry entry of a live deployment
+  const existing = readManifest();
+  if (
+    existing &&
+    network.name !== "localhost" &&
+    process.env.OVERWRITE_MANIFEST !== "true"
+  ) {
+    throw new Error(
+      `${manifestPath()} already records proxy ${existing.proxy}. ` +
+        "Use upgrade-proxy.ts, or set OVERWRITE_MANIFEST=true to replace it."
+    );
+  }
+
   // Get signers
   const [deployer] = await ethers.getSigners();
   console.log("Deploying with account:", deployer.address);
@@ -36,6 +56,7 @@ async function main() {
 
   await stableBirr.waitForDeployment();
   const proxyAddress = await stableBirr.getAddress();
+  const deployReceipt = await stableBirr.deploymentTransaction()?.wait();
 
   console.log("✅ StableBirr deployed!");
   console.log("   Proxy address:", proxyAddress);
@@ -63,10 +84,40 @@ async function main() {
   console.log("   Operator:", operator);
   console.log();
 
+  // Record the deployment
+  const deployBlock =
+    deployReceipt?.blockNumber ?? (await ethers.provider.getBlockNumber());
+  const now = new Date().toISOString();
+  const manifestFile = writeManifest({
+    version: MANIFEST_VERSION,
+    network: network.name,
+    chainId: Number((await ethers.provider.getNetwork()).chainId),
+    proxy: proxyAddress,
+    deployBlock,
+    deployTransaction: deployReceipt?.hash ?? null,
+    schnlAdmin: admin,
+    schnlOperator: operator,
+    implementations: [
+      {
+        address: implementationAddress,
+        block: deployBlock,
+        transactionHash: deployReceipt?.hash ?? null,
+        commit: gitCommit(),
+        activatedAt: now,
+      },
+    ],
+    updatedAt: now,
+  });
+
   console.log("✨ Deployment complete!");
   console.log();
-  console.log("📝 Save this address for interacting with the contract:");
-  console.log("   ", proxyAddress);
+  if (manifestFile) {
+    console.log("📝 Deployment manifest written to:", manifestFile);
+    console.log("   Scripts and the SDK read the proxy address from it.");
+  } else {
+    console.log("📝 Save this address for interacting with the contract:");
+    console.log("   ", proxyAddress);
+  }
 }
 
 main()
@@ -1,14 +1,11 @@
 import { ethers, upgrades } from "hardhat";
 import * as dotenv from "dotenv";
+import { resolveProxyAddress } from "./manifest";
 
 dotenv.config();
 
 async function getImplementationAddress() {
-  const proxyAddress = process.env.CONTRACT_ADDRESS;
-
-  if (!proxyAddress) {
-    throw new Error("CONTRACT_ADDRESS not found in .env");
-  }
+  const proxyAddress = resolveProxyAddress();
 
   console.log("Proxy Address:", proxyAddress);
 
@@ -0,0 +1,122 @@
+import { execSync } from "child_process";
+import * as fs from "fs";
+import * as path from "path";
+import { network } from "hardhat";
+
+/**
+ * Deployment Manifest Registry
+ *
+ * `deploy.ts` and `upgrade-proxy.ts` record every deployment in `deployments/<network>.json`
+ * (`seed-manifest.ts` writes it for proxies deployed before manifests existed),
+ * and the other scripts (and the SDK, via `loadDeploymentManifest`) read addresses from it
+ * instead of hardcoding them.
+ *
+ * **Format** (bump `MANIFEST_VERSION` on breaking changes)
+ * - `proxy`, `deployBlock`, `deployTransaction`: where and when the UUPS proxy was created.
+ *   Indexers start scanning at `deployBlock`.
+ * - `implementations`: every implementation the proxy has pointed at, oldest first; the last
+ *   entry is the current one.
+ * - `schnlAdmin`, `schnlOperator`: roles as of the last write.
+ * - `commit`: git commit of the sources each implementation was built from (`-dirty` when the
+ *   working tree had uncommitted changes).
+ */
+
+export const MANIFEST_VERSION = 1;
+
+export interface ImplementationRecord {
+  address: string;
+  /** Block of the deploy or upgrade transaction that activated it */
+  block: number;
+  transactionHash: string | null;
+  commit: string | null;
+  /** ISO timestamp */
+  activatedAt: string;
+}
+
+export interface DeploymentManifest {
+  version: typeof MANIFEST_VERSION;
+  /** Hardhat network name */
+  network: string;
+  chainId: number;
+  proxy: string;
+  deployBlock: number;
+  deployTransaction: string | null;
+  schnlAdmin: string;
+  schnlOperator: string;
+  implementations: ImplementationRecord[];
+  /** ISO timestamp of the last write */
+  updatedAt: string;
+}
+
+const DEPLOYMENTS_DIR = path.join(__dirname, "..", "deployments");
+
+/**
+ * Networks whose state disappears with the process; nothing is worth recording for them.
+ */
+const EPHEMERAL_NETWORKS = new Set(["hardhat"]);
+
+export function manifestPath(networkName: string = network.name): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+}
+
+export function readManifest(
+  networkName: string = network.name
+): DeploymentManifest | undefined {
+  const file = manifestPath(networkName);
+  if (!fs.existsSync(file)) return undefined;
+
+  const manifest = JSON.parse(fs.readFileSync(file, "utf8"));
+  if (manifest.version !== MANIFEST_VERSION) {
+    throw new Error(
+      `${file} has manifest version ${manifest.version}, expected ${MANIFEST_VERSION}`
+    );
+  }
+  return manifest as DeploymentManifest;
+}
+
+/**
+ * Write the manifest for the current network. Returns the file written, or `undefined` on
+ * ephemeral networks.
+ */
+export function writeManifest(
+  manifest: DeploymentManifest
+): string | undefined {
+  if (EPHEMERAL_NETWORKS.has(network.name)) return undefined;
+
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const file = manifestPath(manifest.network);
+  fs.writeFileSync(file, JSON.stringify(manifest, null, 2) + "\n");
+  return file;
+}
+
+/**
+ * Proxy address for scripts: `CONTRACT_ADDRESS` if set, otherwise the network's manifest.
+ */
+export function resolveProxyAddress(): string {
+  const address = process.env.CONTRACT_ADDRESS || readManifest()?.proxy;
+  if (!address) {
+    throw new Error(
+      `No CONTRACT_ADDRESS and no ${path.relative(
+        process.cwd(),
+        manifestPath()
+      )}; deploy first, seed it with seed-manifest.ts for an existing proxy, or set CONTRACT_ADDRESS`
+    );
+  }
+  return address;
+}
+
+/**
+ * Current git commit, suffixed with `-dirty` when tracked files have uncommitted changes, or
+ * `null` outside a git checkout.
+ */
+export function gitCommit(): string | null {
+  try {
+    const commit = execSync("git rev-parse HEAD", { encoding: "utf8" }).trim();
+    const dirty = execSync("git status --porcelain --untracked-files=no", {
+      encoding: "utf8",
+    }).trim();
+    return dirty ? `${commit}-dirty` : commit;
+  } catch {
+    return null;
+  }
+}
@@ -1,4 +1,5 @@
 import { ethers } from "hardhat";
+import { resolveProxyAddress } from "./manifest";
 
 /**
  * Simple Post-Deployment Setup Script
@@ -11,9 +12,7 @@ import { ethers } from "hardhat";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
-  const contractAddress =
-    process.env.CONTRACT_ADDRESS ||
-    "0xFaa6E8Ee77368613c804f51029CAb30677967F67";
+  const contractAddress = resolveProxyAddress();
 
   console.log("🚀 Post-Deployment Setup\n");
   console.log("Contract:", contractAddress);
@@ -0,0 +1,154 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, network, upgrades } from "hardhat";
+import {
+  MANIFEST_VERSION,
+  ImplementationRecord,
+  manifestPath,
+  readManifest,
+  writeManifest,
+} from "./manifest";
+
+/**
+ * Seed the deployment manifest of a proxy deployed before manifests existed
+ *
+ * The proxy comes from `CONTRACT_ADDRESS`, else the last proxy the OpenZeppelin plugin recorded
+ * in `.openzeppelin/`. Its deploy transaction comes from the same file (or `DEPLOY_TX`), and the
+ * implementation history is rebuilt from the proxy's `Upgraded` events. Commits are unknown for
+ * implementations deployed before the manifest, so they are recorded as `null`.
+ *
+ * `LOG_RANGE` caps the blocks per `eth_getLogs` call (default 10000) for RPCs with range limits.
+ */
+
+interface OpenZeppelinProxy {
+  address: string;
+  txHash?: string;
+  kind: string;
+}
+
+function openZeppelinProxies(chainId: bigint): OpenZeppelinProxy[] {
+  const dir = path.join(__dirname, "..", ".openzeppelin");
+  for (const name of [`${network.name}.json`, `unknown-${chainId}.json`]) {
+    const file = path.join(dir, name);
+    if (fs.existsSync(file)) {
+      return JSON.parse(fs.readFileSync(file, "utf8")).proxies ?? [];
+    }
+  }
+  return [];
+}
+
+async function main() {
+  const existing = readManifest();
+  if (existing && process.env.OVERWRITE_MANIFEST !== "true") {
+    throw new Error(
+      `${manifestPath()} already records proxy ${existing.proxy}. ` +
+        "Set OVERWRITE_MANIFEST=true to rebuild it."
+    );
+  }
+
+  const chainId = (await ethers.provider.getNetwork()).chainId;
+  const proxies = openZeppelinProxies(chainId);
+  const proxy =
+    process.env.CONTRACT_ADDRESS || proxies[proxies.length - 1]?.address;
+  if (!proxy) {
+    throw new Error(
+      `No CONTRACT_ADDRESS and no proxy in .openzeppelin/ for ${network.name}`
+    );
+  }
+  const proxyAddress = ethers.getAddress(proxy);
+  const deployTx =
+    process.env.DEPLOY_TX ||
+    proxies.find(
+      (proxy) => proxy.address.toLowerCase() === proxyAddress.toLowerCase()
+    )?.txHash;
+  if (!deployTx) {
+    throw new Error(
+      `No deploy transaction recorded for ${proxyAddress} in .openzeppelin/; set DEPLOY_TX`
+    );
+  }
+
+  console.log("🌱 Seeding deployment manifest...\n");
+  console.log("Proxy address:", proxyAddress);
+  console.log("Deploy transaction:", deployTx);
+
+  const deployReceipt = await ethers.provider.getTransactionReceipt(deployTx);
+  if (!deployReceipt) {
+    throw new Error(
+      `Deploy transaction ${deployTx} not found on ${network.name}`
+    );
+  }
+  const deployBlock = deployReceipt.blockNumber;
+  console.log("Deploy block:", deployBlock);
+
+  // Every implementation the proxy pointed at, including the one set by its constructor
+  const contract = await ethers.getContractAt("StableBirr", proxyAddress);
+  const head = await ethers.provider.getBlockNumber();
+  const range = Number(process.env.LOG_RANGE || 10_000);
+  const implementations: ImplementationRecord[] = [];
+  console.log(
+    `\n⏳ Reading Upgraded events in blocks ${deployBlock}-${head}...`
+  );
+  for (let from = deployBlock; from <= head; from += range) {
+    const events = await contract.queryFilter(
+      contract.filters.Upgraded(),
+      from,
+      Math.min(head, from + range - 1)
+    );
+    for (const event of events) {
+      // Upgrades to the implementation already active are not new history
+      const address = ethers.getAddress(event.args.implementation);
+      if (implementations[implementations.length - 1]?.address === address) {
+        continue;
+      }
+      const block = await event.getBlock();
+      implementations.push({
+        address,
+        block: event.blockNumber,
+        transactionHash: event.transactionHash,
+        commit: null,
+        activatedAt: new Date(block.timestamp * 1000).toISOString(),
+      });
+    }
+  }
+
+  const current = await upgrades.erc1967.getImplementationAddress(proxyAddress);
+  const last = implementations[implementations.length - 1];
+  if (!last || last.address.toLowerCase() !== current.toLowerCase()) {
+    throw new Error(
+      `Upgraded events end at ${
+        last?.address ?? "nothing"
+      }, but the proxy points at ${current}`
+    );
+  }
+  implementations.forEach((implementation) =>
+    console.log(`   ${implementation.address} (block ${implementation.block})`)
+  );
+
+  const file = writeManifest({
+    version: MANIFEST_VERSION,
+    network: network.name,
+    chainId: Number(chainId),
+    proxy: proxyAddress,
+    deployBlock,
+    deployTransaction: deployReceipt.hash,
+    schnlAdmin: await contract.schnlAdmin(),
+    schnlOperator: await contract.schnlOperator(),
+    implementations,
+    updatedAt: new Date().toISOString(),
+  });
+
+  console.log();
+  if (file) {
+    console.log("📝 Deployment manifest written to:", file);
+    console.log("   Commit it so the other scripts and SDK users can load it.");
+  } else {
+    console.log(`ℹ️  ${network.name} is ephemeral; nothing written.`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
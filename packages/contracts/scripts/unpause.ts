@@ -1,10 +1,9 @@
 import { ethers } from "hardhat";
+import { resolveProxyAddress } from "./manifest";
 
 async function main() {
   const [deployer] = await ethers.getSigners();
-  const contractAddress =
-    process.env.CONTRACT_ADDRESS ||
-    "0xA80E0bFE59546D4f40d96CdAab2701b179C66Be5";
+  const contractAddress = resolveProxyAddress();
 
   console.log("🔓 Unpausing StableBirr contract...\n");
   console.log("Contract:", contractAddress);
@@ -1,17 +1,24 @@
 import { ethers, upgrades } from "hardhat";
+import {
+  gitCommit,
+  manifestPath,
+  readManifest,
+  resolveProxyAddress,
+  writeManifest,
+} from "./manifest";
 
 /**
  * Upgrade existing StableBirr proxy to oracle-free version
  *
- * This upgrades the implementation while keeping the same proxy address
+ * This upgrades the implementation while keeping the same proxy address. The proxy comes from
+ * `CONTRACT_ADDRESS` or the network's deployment manifest, and the new implementation is
+ * appended to the manifest's history.
  */
 
 async function main() {
   const [deployer] = await ethers.getSigners();
 
-  const CONTRACT_ADDRESS = process.env.CONTRACT_ADDRESS;
-
-  if (!CONTRACT_ADDRESS) throw new Error("CONTRACT_ADDRESS Not Available.");
+  const CONTRACT_ADDRESS = resolveProxyAddress();
 
   console.log("🔄 Upgrading StableBirr proxy...\n");
   console.log("Proxy address:", CONTRACT_ADDRESS);
@@ -27,13 +34,36 @@ async function main() {
 
   console.log("⏳ Upgrading implementation...");
 
-  // Upgrade the proxy to the new implementation
-  const upgraded = await upgrades.upgradeProxy(CONTRACT_ADDRESS, StableBirrV2);
-  await upgraded.waitForDeployment();
+  // Validate and deploy the new implementation, then upgrade the proxy ourselves so the
+  // upgrade receipt (block and hash for the manifest) comes from our own transaction
+  const prepared = await upgrades.prepareUpgrade(
+    CONTRACT_ADDRESS,
+    StableBirrV2,
+    { kind: "uups" }
+  );
+  if (typeof prepared !== "string") {
+    throw new Error(
+      "prepareUpgrade returned a transaction, expected an address"
+    );
+  }
+  const proxy = await ethers.getContractAt("StableBirr", CONTRACT_ADDRESS);
+  const upgradeReceipt = await (
+    await proxy.upgradeToAndCall(prepared, "0x")
+  ).wait();
+  if (!upgradeReceipt) {
+    throw new Error(
+      "Upgrade transaction has no receipt; implementation history not updated"
+    );
+  }
 
   const newImplementation = await upgrades.erc1967.getImplementationAddress(
     CONTRACT_ADDRESS
   );
+  if (newImplementation.toLowerCase() !== prepared.toLowerCase()) {
+    throw new Error(
+      `Proxy points at ${newImplementation} after upgrading to ${prepared}`
+    );
+  }
 
   console.log("✅ Upgrade complete!");
   console.log("   Proxy address (unchanged):", CONTRACT_ADDRESS);
@@ -41,15 +71,47 @@ async function main() {
 
   // Verify the upgrade worked
   console.log("\n🔍 Verifying upgrade...");
-  const contract = await ethers.getContractAt("StableBirr", CONTRACT_ADDRESS);
-  const name = await contract.name();
-  const symbol = await contract.symbol();
-  const admin = await contract.schnlAdmin();
+  const name = await proxy.name();
+  const symbol = await proxy.symbol();
+  const admin = await proxy.schnlAdmin();
+
+  const operator = await proxy.schnlOperator();
 
   console.log("   Name:", name);
   console.log("   Symbol:", symbol);
   console.log("   Admin:", admin);
 
+  // Append to the implementation history
+  const manifest = readManifest();
+  if (
+    !manifest ||
+    manifest.proxy.toLowerCase() !== CONTRACT_ADDRESS.toLowerCase()
+  ) {
+    console.log(
+      `\n⚠️  ${manifestPath()} does not record this proxy; implementation history not updated.`
+    );
+  } else if (
+    manifest.implementations[
+      manifest.implementations.length - 1
+    ].address.toLowerCase() === newImplementation.toLowerCase()
+  ) {
+    console.log("\nℹ️  Implementation unchanged; manifest left as is.");
+  } else {
+    const now = new Date().toISOString();
+    manifest.implementations.push({
+      address: newImplementation,
+      block: upgradeReceipt.blockNumber,
+      transactionHash: upgradeReceipt.hash,
+      commit: gitCommit(),
+      activatedAt: now,
+    });
+    manifest.schnlAdmin = admin;
+    manifest.schnlOperator = operator;
+    manifest.updatedAt = now;
+    const file = writeManifest(manifest);
+    if (file) console.log("\n📝 Deployment manifest updated:", file);
+  }
+
   console.log("\n✨ Upgrade successful!");
   console.log("\n📝 Your contract address is still:", CONTRACT_ADDRESS);
   console.log("   (No need to update SDK or demo!)");
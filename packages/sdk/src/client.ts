@@ -50,12 +50,32 @@ export class StableBirr {
    *
    * @param config - Shared configuration describing how to reach the SBirr contract + NBE APIs.
    * @param config.network - Target chain identifier (`mainnet`, `polygon`, `amoy`, or `local`).
+   * @param config.chain - Alternatively, a custom EVM network (chain ID, RPC, contract address).
    * @param config.rpcUrl - Optional custom RPC endpoint if public infrastructure is insufficient.
+   * @param config.rpc - Alternatively, several RPC endpoints with failover, retries and quorum reads.
    * @param config.privateKey - Optional EOA private key; required for privileged calls like mint/burn.
+   * @param config.signer - Alternatively, any ethers.js `Signer` (hardware wallet, KMS, browser wallet).
+   * @param config.keystore - Alternatively, an encrypted JSON keystore plus password (or password provider).
+   * @param config.remoteSigner - Alternatively, a JSON-RPC signing service endpoint.
    * @param config.contractAddress - Optional override for the deployed SBirr contract address.
    */
   constructor(config: StableBirrConfig) {
     this.contract = new StableBirrContract(config);
     this.nbe = new NBE(config);
   }
+
+  /**
+   * Verify that the RPC and contract address are the StableBirr deployment for `config.network`
+   * (see `contract.verify()`). Privileged calls such as `mint` are refused until this resolves.
+   *
+   * ```ts
+   * const sbirr = await new StableBirr(config).connect();
+   * ```
+   *
+   * @throws IdentityMismatchError if the chain, code, implementation or token metadata is wrong.
+   */
+  public async connect(): Promise<this> {
+    await this.contract.verify();
+    return this;
+  }
 }
@@ -1,6 +1,11 @@
+/**
+ * Default proxy per network. The published package cannot read `deployments/<network>.json` from
+ * the contracts package, so these copy each manifest's `proxy`; pass `config.deployment` to use a
+ * manifest directly. `local` is the first proxy a fresh Hardhat node deploys.
+ */
 export const STABLEBIRR_ADDRESSES = {
   mainnet: "0xA80E0bFE59546D4f40d96CdAab2701b179C66Be5",
   polygon: "0xA80E0bFE59546D4f40d96CdAab2701b179C66Be5",
   amoy: "0x0000000000000000000000000000000000000000",
-  local: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+  local: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
 };
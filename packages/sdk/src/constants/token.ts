@@ -0,0 +1,6 @@
+/** ERC-20 metadata every StableBirr deployment reports (`StableBirrBase.initialize`). */
+export const STABLEBIRR_TOKEN = {
+  name: "StableBirr",
+  symbol: "SBirr",
+  decimals: 18,
+};
@@ -0,0 +1,140 @@
+import { z } from "zod/v4";
+import { ethers } from "ethers";
+import { ValidationError } from "@/core/errors";
+import type { Amount, Rate, TokenAmount } from "@/types";
+
+/** Decimals of SBirr and of the USD amounts recorded with mints. */
+export const TOKEN_DECIMALS = 18;
+
+/** Fixed-point scale of exchange rates, `Conversion.RATE_SCALE`. */
+export const RATE_SCALE = 10n ** 18n;
+
+/** Lowest rate `Conversion.sol` accepts: 1 ETB per USD. */
+export const MIN_RATE = 1n * RATE_SCALE;
+
+/** Highest rate `Conversion.sol` accepts: 1000 ETB per USD. */
+export const MAX_RATE = 1000n * RATE_SCALE;
+
+const DECIMAL_PATTERN = /^\d+(\.\d{1,18})?$/;
+
+const DecimalAmountSchema = z
+  .string()
+  .regex(
+    DECIMAL_PATTERN,
+    "Invalid amount: expected a decimal string with at most 18 fractional digits"
+  );
+
+const WeiAmountSchema = z
+  .bigint()
+  .min(0n, "Amount cannot be negative")
+  .max(ethers.MaxUint256, "Amount exceeds uint256");
+
+/**
+ * Zod schema for `Amount`: a `bigint` or `{ wei }` in base units, or a decimal string or
+ * `{ sbirr }` in whole tokens.
+ */
+export const AmountSchema = z.union([
+  WeiAmountSchema,
+  DecimalAmountSchema,
+  z.object({ wei: WeiAmountSchema }),
+  z.object({ sbirr: DecimalAmountSchema }),
+]);
+
+/**
+ * Convert an `Amount` to base units without going through floating point.
+ *
+ * @throws ValidationError if the amount is negative, has more than 18 fractional digits, is not
+ *   a decimal number or does not fit in a `uint256`.
+ */
+export function toWei(amount: Amount): bigint {
+  let wei: bigint;
+  if (typeof amount === "bigint") {
+    wei = amount;
+  } else if (typeof amount === "object" && amount !== null && "wei" in amount) {
+    wei = amount.wei;
+  } else {
+    const decimal =
+      typeof amount === "object" && amount !== null ? amount.sbirr : amount;
+    if (typeof decimal !== "string" || !DECIMAL_PATTERN.test(decimal)) {
+      throw new ValidationError(
+        `Invalid amount: ${String(
+          decimal
+        )}. Use a decimal string with at most 18 fractional digits, or bigint wei`
+      );
+    }
+    wei = ethers.parseUnits(decimal, TOKEN_DECIMALS);
+  }
+
+  if (typeof wei !== "bigint" || wei < 0n || wei > ethers.MaxUint256) {
+    throw new ValidationError(`Amount out of range: ${String(wei)}`);
+  }
+  return wei;
+}
+
+/**
+ * Both forms of an on-chain amount.
+ */
+export function toTokenAmount(wei: bigint): TokenAmount {
+  return { wei, formatted: ethers.formatUnits(wei, TOKEN_DECIMALS) };
+}
+
+/**
+ * Decimal whole-token string of an `Amount`, e.g. for JSON payloads and log messages.
+ */
+export function formatTokenAmount(amount: Amount): string {
+  return ethers.formatUnits(toWei(amount), TOKEN_DECIMALS);
+}
+
+const RateValueSchema = z.union([
+  z.bigint(),
+  z
+    .string()
+    .regex(
+      DECIMAL_PATTERN,
+      "Invalid rate: expected a decimal string with at most 18 fractional digits"
+    ),
+]);
+
+/**
+ * Zod schema for `Rate`, enforcing `MIN_RATE`..`MAX_RATE` like `Conversion.validateRate`.
+ */
+export const RateSchema = RateValueSchema.refine(
+  (rate) => {
+    // Runs even when the union failed; malformed strings are already reported there
+    if (typeof rate === "string" && !DECIMAL_PATTERN.test(rate)) return true;
+    const scaled =
+      typeof rate === "bigint" ? rate : ethers.parseUnits(rate, TOKEN_DECIMALS);
+    return scaled >= MIN_RATE && scaled <= MAX_RATE;
+  },
+  { message: "Rate must be between 1 and 1000 ETB per USD" }
+);
+
+/**
+ * Convert a `Rate` to its on-chain form, scaled by `RATE_SCALE`.
+ *
+ * @throws ValidationError if the rate is malformed or outside `MIN_RATE`..`MAX_RATE`.
+ */
+export function toScaledRate(rate: Rate): bigint {
+  let scaled: bigint;
+  if (typeof rate === "bigint") {
+    scaled = rate;
+  } else if (typeof rate === "string" && DECIMAL_PATTERN.test(rate)) {
+    scaled = ethers.parseUnits(rate, TOKEN_DECIMALS);
+  } else {
+    throw new ValidationError(
+      `Invalid rate: ${String(
+        rate
+      )}. Use a decimal string with at most 18 fractional digits, or a bigint scaled by 1e18`
+    );
+  }
+
+  if (scaled < MIN_RATE || scaled > MAX_RATE) {
+    throw new ValidationError(
+      `Rate out of range: ${ethers.formatUnits(
+        scaled,
+        TOKEN_DECIMALS
+      )}. Must be between 1 and 1000 ETB per USD`
+    );
+  }
+  return scaled;
+}
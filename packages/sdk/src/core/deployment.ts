@@ -0,0 +1,118 @@
+import { z } from "zod/v4";
+import { ethers } from "ethers";
+import { NetworkError, ValidationError } from "@/core/errors";
+import type { DeploymentImplementation, DeploymentManifest } from "@/types";
+
+/** Manifest format this SDK understands (`MANIFEST_VERSION` in `scripts/manifest.ts`). */
+export const DEPLOYMENT_MANIFEST_VERSION = 1;
+
+const AddressSchema = z
+  .string()
+  .refine((value) => ethers.isAddress(value), "Invalid address")
+  .transform((value) => ethers.getAddress(value));
+
+const HashSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{64}$/, "Invalid transaction hash");
+
+const BlockSchema = z.number().int().nonnegative();
+
+const ImplementationSchema = z.object({
+  address: AddressSchema,
+  block: BlockSchema,
+  transactionHash: HashSchema.nullable(),
+  commit: z.string().nullable(),
+  activatedAt: z.string(),
+});
+
+/**
+ * Zod schema for `DeploymentManifest`. Addresses are normalized to their checksummed form.
+ */
+export const DeploymentManifestSchema = z.object({
+  version: z.literal(DEPLOYMENT_MANIFEST_VERSION),
+  network: z.string().min(1),
+  chainId: z.number().int().positive(),
+  proxy: AddressSchema,
+  deployBlock: BlockSchema,
+  deployTransaction: HashSchema.nullable(),
+  schnlAdmin: AddressSchema,
+  schnlOperator: AddressSchema,
+  implementations: z
+    .array(ImplementationSchema)
+    .min(1, "Manifest records no implementation"),
+  updatedAt: z.string(),
+});
+
+/**
+ * Validate a manifest object (e.g. an imported `deployments/polygon.json`).
+ *
+ * @throws ValidationError if it is not a version 1 manifest.
+ */
+export function parseDeploymentManifest(value: unknown): DeploymentManifest {
+  const validation = DeploymentManifestSchema.safeParse(value);
+  if (!validation.success) {
+    throw new ValidationError("Invalid deployment manifest", validation.error);
+  }
+  return validation.data as DeploymentManifest;
+}
+
+/**
+ * Load and validate a manifest from a file path (Node.js / Bun only) or an `http(s)` URL.
+ *
+ * ```ts
+ * const deployment = await loadDeploymentManifest("../contracts/deployments/polygon.json");
+ * const sbirr = new StableBirr({ network: "polygon", rpcUrl, deployment });
+ * ```
+ *
+ * @throws ValidationError if the file is missing or not a valid manifest.
+ * @throws NetworkError if the URL cannot be fetched.
+ */
+export async function loadDeploymentManifest(
+  source: string
+): Promise<DeploymentManifest> {
+  let raw: string;
+  if (/^https?:\/\//i.test(source)) {
+    try {
+      const response = await fetch(source);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      raw = await response.text();
+    } catch (error: unknown) {
+      throw new NetworkError(
+        `Failed to fetch deployment manifest ${source}`,
+        error
+      );
+    }
+  } else {
+    const fs = await import("node:fs/promises");
+    try {
+      raw = await fs.readFile(source, "utf8");
+    } catch (error: unknown) {
+      throw new ValidationError(
+        `Failed to read deployment manifest ${source}`,
+        error
+      );
+    }
+  }
+
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error: unknown) {
+    throw new ValidationError(
+      `Deployment manifest ${source} is not valid JSON`,
+      error
+    );
+  }
+  return parseDeploymentManifest(value);
+}
+
+/**
+ * The implementation the proxy pointed at when the manifest was last written.
+ */
+export function currentImplementation(
+  manifest: DeploymentManifest
+): DeploymentImplementation {
+  return manifest.implementations[manifest.implementations.length - 1]!;
+}
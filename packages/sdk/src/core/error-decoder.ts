@@ -0,0 +1,270 @@
+import { ethers } from "ethers";
+import { StableBirr__factory } from "@/typechain-types";
+import {
+  StableBirrError,
+  ContractError,
+  NetworkError,
+  ContractRevertError,
+  InvalidAmountError,
+  InvalidAddressError,
+  ZeroAddressError,
+  InsufficientBalanceError,
+  InsufficientAllowanceError,
+  AccountBlacklistedError,
+  AccountFrozenError,
+  AccountAlreadyFrozenError,
+  AccountNotFrozenError,
+  IncidentReasonRequiredError,
+  SupplyCapExceededError,
+  NotAuthorizedMinterError,
+  MintAllowanceExceededError,
+  OnlySchnlAdminError,
+  OnlySchnlOperatorError,
+  EnforcedPauseError,
+  ExpectedPauseError,
+  PermitExpiredError,
+  InvalidPermitSignerError,
+} from "@/core/errors";
+
+/**
+ * The full StableBirr ABI, including every custom error inherited from OpenZeppelin
+ * (`EnforcedPause`, `ERC20InsufficientBalance`, …) and the Schnl access-control mixin.
+ */
+const STABLEBIRR_INTERFACE = StableBirr__factory.createInterface();
+
+/**
+ * ethers error codes that describe transport or mempool conditions rather than contract logic.
+ * Re-sending the same request later is expected to succeed.
+ */
+const RETRYABLE_ETHERS_CODES = new Set<string>([
+  "NETWORK_ERROR",
+  "TIMEOUT",
+  "SERVER_ERROR",
+  "NONCE_EXPIRED",
+  "REPLACEMENT_UNDERPRICED",
+]);
+
+/**
+ * Locate raw revert data inside an ethers/provider error.
+ *
+ * Providers disagree on where the bytes live (`error.data`, `error.info.error.data`,
+ * `error.error.data.data`, …), so we walk the nested objects breadth-first and return the first
+ * hex payload that is at least a 4-byte selector long.
+ */
+export function extractRevertData(error: unknown): string | undefined {
+  const queue: unknown[] = [error];
+  const seen = new Set<unknown>();
+
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || seen.has(current)) continue;
+    seen.add(current);
+
+    const record = current as Record<string, unknown>;
+    const data = record.data;
+    if (
+      typeof data === "string" &&
+      ethers.isHexString(data) &&
+      data.length >= 10
+    ) {
+      return data;
+    }
+
+    for (const key of ["data", "error", "info", "cause", "details"]) {
+      if (record[key] && typeof record[key] === "object")
+        queue.push(record[key]);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Decode revert data against the StableBirr ABI. Returns `null` for unknown selectors.
+ */
+export function decodeRevertData(data: string): ethers.ErrorDescription | null {
+  try {
+    return STABLEBIRR_INTERFACE.parseError(data);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Convert anything thrown while talking to the chain into the most specific `StableBirrError`.
+ *
+ * **Resolution order**
+ * 1. Errors that are already `StableBirrError`s pass through untouched.
+ * 2. Revert data decoded against the StableBirr ABI maps to a typed subclass carrying the decoded
+ *    arguments (`SupplyCapExceededError.cap`, `MintAllowanceExceededError.requested`, …).
+ * 3. Transport failures (timeouts, 5xx, nonce races) become retryable `NetworkError`s.
+ * 4. Everything else falls back to a generic `ContractError`, preserving the original error in
+ *    `details` so nothing is lost for debugging.
+ *
+ * @param error - Whatever ethers or the provider threw.
+ * @param context - Short description of the attempted action (e.g. "Mint failed").
+ */
+export function toStableBirrError(
+  error: unknown,
+  context: string
+): StableBirrError {
+  if (error instanceof StableBirrError) return error;
+
+  const data = extractRevertData(error);
+  const decoded = data ? decodeRevertData(data) : null;
+  if (decoded) return fromErrorDescription(decoded, context, error);
+
+  const code = (error as { code?: unknown } | null)?.code;
+  if (typeof code === "string" && RETRYABLE_ETHERS_CODES.has(code)) {
+    return new NetworkError(`${context}: ${describe(error)}`, error);
+  }
+
+  return new ContractError(context, error);
+}
+
+function fromErrorDescription(
+  decoded: ethers.ErrorDescription,
+  context: string,
+  cause: unknown
+): StableBirrError {
+  const args = decoded.args;
+
+  switch (decoded.name) {
+    case "InvalidAmount":
+      return new InvalidAmountError(
+        `${context}: amount must be non-zero`,
+        cause
+      );
+    case "InvalidAddress":
+      return new InvalidAddressError(`${context}: invalid address`, cause);
+    case "ZeroAddress":
+      return new ZeroAddressError(
+        `${context}: zero address not allowed`,
+        cause
+      );
+    case "InsufficientBalance":
+      return new InsufficientBalanceError(
+        `${context}: insufficient balance`,
+        decoded.name,
+        [],
+        undefined,
+        undefined,
+        undefined,
+        cause
+      );
+    case "ERC20InsufficientBalance":
+      return new InsufficientBalanceError(
+        `${context}: ${args[0]} has ${args[1]} but ${args[2]} is needed`,
+        decoded.name,
+        [...args],
+        args[0],
+        args[1],
+        args[2],
+        cause
+      );
+    case "ERC20InsufficientAllowance":
+      return new InsufficientAllowanceError(
+        `${context}: allowance of ${args[0]} is ${args[1]} but ${args[2]} is needed`,
+        args[0],
+        args[1],
+        args[2],
+        cause
+      );
+    case "AccountBlacklisted":
+      return new AccountBlacklistedError(
+        `${context}: account ${args[0]} is blacklisted`,
+        args[0],
+        cause
+      );
+    case "AccountFrozenState":
+      return new AccountFrozenError(
+        `${context}: account ${args[0]} is frozen`,
+        args[0],
+        cause
+      );
+    case "AccountAlreadyFrozen":
+      return new AccountAlreadyFrozenError(
+        `${context}: account ${args[0]} is already frozen`,
+        args[0],
+        cause
+      );
+    case "AccountNotFrozen":
+      return new AccountNotFrozenError(
+        `${context}: account ${args[0]} is not frozen`,
+        args[0],
+        cause
+      );
+    case "IncidentReasonRequired":
+      return new IncidentReasonRequiredError(
+        `${context}: a non-empty reason is required`,
+        cause
+      );
+    case "SupplyCapExceeded":
+      return new SupplyCapExceededError(
+        `${context}: supply cap ${args[0]} would be exceeded (attempted ${args[1]})`,
+        args[0],
+        args[1],
+        cause
+      );
+    case "NotAuthorizedMinter":
+      return new NotAuthorizedMinterError(
+        `${context}: ${args[0]} is not an authorized minter`,
+        args[0],
+        cause
+      );
+    case "MintAllowanceExceeded":
+      return new MintAllowanceExceededError(
+        `${context}: minter ${args[0]} has allowance ${args[1]} but requested ${args[2]}`,
+        args[0],
+        args[1],
+        args[2],
+        cause
+      );
+    case "OnlySchnlAdmin":
+      return new OnlySchnlAdminError(
+        `${context}: caller is not the Schnl Admin`,
+        cause
+      );
+    case "OnlySchnlOperator":
+      return new OnlySchnlOperatorError(
+        `${context}: caller is not the Schnl Operator`,
+        cause
+      );
+    case "EnforcedPause":
+      return new EnforcedPauseError(`${context}: contract is paused`, cause);
+    case "ExpectedPause":
+      return new ExpectedPauseError(
+        `${context}: contract is not paused`,
+        cause
+      );
+    case "ERC2612ExpiredSignature":
+      return new PermitExpiredError(
+        `${context}: permit expired at ${args[0]}`,
+        args[0],
+        cause
+      );
+    case "ERC2612InvalidSigner":
+      return new InvalidPermitSignerError(
+        `${context}: permit signed by ${args[0]} instead of owner ${args[1]}`,
+        args[0],
+        args[1],
+        cause
+      );
+    default:
+      return new ContractRevertError(
+        `${context}: ${decoded.signature}`,
+        decoded.name,
+        [...args],
+        cause
+      );
+  }
+}
+
+function describe(error: unknown): string {
+  if (error && typeof error === "object") {
+    const record = error as { shortMessage?: unknown; message?: unknown };
+    if (typeof record.shortMessage === "string") return record.shortMessage;
+    if (typeof record.message === "string") return record.message;
+  }
+  return String(error);
+}
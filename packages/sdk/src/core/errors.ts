@@ -1,4 +1,11 @@
 export class StableBirrError extends Error {
+  /**
+   * Whether repeating the exact same request later can succeed without anyone changing inputs or
+   * on-chain configuration (RPC hiccups, temporary pauses). Runbooks use this to decide between
+   * "retry with backoff" and "page a human".
+   */
+  public retryable: boolean = false;
+
   constructor(message: string, public code?: string, public details?: any) {
     super(message);
     this.name = "StableBirrError";
@@ -13,8 +20,8 @@ export class ValidationError extends StableBirrError {
 }
 
 export class ContractError extends StableBirrError {
-  constructor(message: string, details?: any) {
-    super(message, "CONTRACT_ERROR", details);
+  constructor(message: string, details?: any, code: string = "CONTRACT_ERROR") {
+    super(message, code, details);
     this.name = "ContractError";
   }
 }
@@ -23,5 +30,479 @@ export class NetworkError extends StableBirrError {
   constructor(message: string, details?: any) {
     super(message, "NETWORK_ERROR", details);
     this.name = "NetworkError";
+    this.retryable = true;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Decoded contract reverts
+// -----------------------------------------------------------------------------
+
+/**
+ * A revert whose custom error was decoded against the StableBirr ABI.
+ *
+ * `errorName` and `args` always carry the raw Solidity error so unmapped errors (UUPS, ECDSA, …)
+ * are still inspectable; the subclasses below add typed fields for the errors ops teams act on.
+ */
+export class ContractRevertError extends ContractError {
+  constructor(
+    message: string,
+    public errorName: string,
+    public args: readonly unknown[],
+    details?: any,
+    code: string = "CONTRACT_REVERT"
+  ) {
+    super(message, details, code);
+    this.name = "ContractRevertError";
+  }
+}
+
+export class InvalidAmountError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "InvalidAmount", [], details, "INVALID_AMOUNT");
+    this.name = "InvalidAmountError";
+  }
+}
+
+/**
+ * `Conversion.InvalidRate`: the rate is outside `MIN_RATE`..`MAX_RATE`. Thrown by the SDK's
+ * `Conversion` port; the deployed token does not call the library itself.
+ */
+export class InvalidRateError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "InvalidRate", [], details, "INVALID_RATE");
+    this.name = "InvalidRateError";
+  }
+}
+
+export class InvalidAddressError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "InvalidAddress", [], details, "INVALID_ADDRESS");
+    this.name = "InvalidAddressError";
+  }
+}
+
+export class ZeroAddressError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "ZeroAddress", [], details, "ZERO_ADDRESS");
+    this.name = "ZeroAddressError";
+  }
+}
+
+/**
+ * Covers both the StableBirr `InsufficientBalance()` guard in `burn` and OpenZeppelin's
+ * `ERC20InsufficientBalance(sender, balance, needed)`; the latter populates the optional fields.
+ */
+export class InsufficientBalanceError extends ContractRevertError {
+  constructor(
+    message: string,
+    errorName: string,
+    args: readonly unknown[],
+    public account?: string,
+    public balance?: bigint,
+    public needed?: bigint,
+    details?: any
+  ) {
+    super(message, errorName, args, details, "INSUFFICIENT_BALANCE");
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+export class InsufficientAllowanceError extends ContractRevertError {
+  constructor(
+    message: string,
+    public spender: string,
+    public allowance: bigint,
+    public needed: bigint,
+    details?: any
+  ) {
+    super(
+      message,
+      "ERC20InsufficientAllowance",
+      [spender, allowance, needed],
+      details,
+      "INSUFFICIENT_ALLOWANCE"
+    );
+    this.name = "InsufficientAllowanceError";
+  }
+}
+
+export class AccountBlacklistedError extends ContractRevertError {
+  constructor(message: string, public account: string, details?: any) {
+    super(
+      message,
+      "AccountBlacklisted",
+      [account],
+      details,
+      "ACCOUNT_BLACKLISTED"
+    );
+    this.name = "AccountBlacklistedError";
+  }
+}
+
+export class AccountFrozenError extends ContractRevertError {
+  constructor(message: string, public account: string, details?: any) {
+    super(message, "AccountFrozenState", [account], details, "ACCOUNT_FROZEN");
+    this.name = "AccountFrozenError";
+  }
+}
+
+export class AccountAlreadyFrozenError extends ContractRevertError {
+  constructor(message: string, public account: string, details?: any) {
+    super(
+      message,
+      "AccountAlreadyFrozen",
+      [account],
+      details,
+      "ACCOUNT_ALREADY_FROZEN"
+    );
+    this.name = "AccountAlreadyFrozenError";
+  }
+}
+
+export class AccountNotFrozenError extends ContractRevertError {
+  constructor(message: string, public account: string, details?: any) {
+    super(
+      message,
+      "AccountNotFrozen",
+      [account],
+      details,
+      "ACCOUNT_NOT_FROZEN"
+    );
+    this.name = "AccountNotFrozenError";
+  }
+}
+
+export class IncidentReasonRequiredError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(
+      message,
+      "IncidentReasonRequired",
+      [],
+      details,
+      "INCIDENT_REASON_REQUIRED"
+    );
+    this.name = "IncidentReasonRequiredError";
+  }
+}
+
+export class SupplyCapExceededError extends ContractRevertError {
+  constructor(
+    message: string,
+    public cap: bigint,
+    public attempted: bigint,
+    details?: any
+  ) {
+    super(
+      message,
+      "SupplyCapExceeded",
+      [cap, attempted],
+      details,
+      "SUPPLY_CAP_EXCEEDED"
+    );
+    this.name = "SupplyCapExceededError";
+  }
+}
+
+export class NotAuthorizedMinterError extends ContractRevertError {
+  constructor(message: string, public account: string, details?: any) {
+    super(
+      message,
+      "NotAuthorizedMinter",
+      [account],
+      details,
+      "NOT_AUTHORIZED_MINTER"
+    );
+    this.name = "NotAuthorizedMinterError";
+  }
+}
+
+export class MintAllowanceExceededError extends ContractRevertError {
+  constructor(
+    message: string,
+    public account: string,
+    public allowance: bigint,
+    public requested: bigint,
+    details?: any
+  ) {
+    super(
+      message,
+      "MintAllowanceExceeded",
+      [account, allowance, requested],
+      details,
+      "MINT_ALLOWANCE_EXCEEDED"
+    );
+    this.name = "MintAllowanceExceededError";
+  }
+}
+
+export class OnlySchnlAdminError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "OnlySchnlAdmin", [], details, "ONLY_SCHNL_ADMIN");
+    this.name = "OnlySchnlAdminError";
+  }
+}
+
+export class OnlySchnlOperatorError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "OnlySchnlOperator", [], details, "ONLY_SCHNL_OPERATOR");
+    this.name = "OnlySchnlOperatorError";
+  }
+}
+
+/**
+ * The contract is paused. Retryable: the identical call succeeds once Schnl Admin unpauses.
+ */
+export class EnforcedPauseError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "EnforcedPause", [], details, "CONTRACT_PAUSED");
+    this.name = "EnforcedPauseError";
+    this.retryable = true;
+  }
+}
+
+export class ExpectedPauseError extends ContractRevertError {
+  constructor(message: string, details?: any) {
+    super(message, "ExpectedPause", [], details, "CONTRACT_NOT_PAUSED");
+    this.name = "ExpectedPauseError";
+  }
+}
+
+export class PermitExpiredError extends ContractRevertError {
+  constructor(message: string, public deadline: bigint, details?: any) {
+    super(
+      message,
+      "ERC2612ExpiredSignature",
+      [deadline],
+      details,
+      "PERMIT_EXPIRED"
+    );
+    this.name = "PermitExpiredError";
+  }
+}
+
+export class InvalidPermitSignerError extends ContractRevertError {
+  constructor(
+    message: string,
+    public signer: string,
+    public owner: string,
+    details?: any
+  ) {
+    super(
+      message,
+      "ERC2612InvalidSigner",
+      [signer, owner],
+      details,
+      "INVALID_PERMIT_SIGNER"
+    );
+    this.name = "InvalidPermitSignerError";
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Deployment identity
+// -----------------------------------------------------------------------------
+
+/**
+ * `verify()` found that the provider or the address is not the StableBirr deployment the config
+ * names: wrong chain, no code, no proxy implementation, or unexpected token metadata. `check`
+ * names the failed check; `expected` and `actual` hold the compared values.
+ */
+export class IdentityMismatchError extends StableBirrError {
+  constructor(
+    message: string,
+    public check:
+      | "chainId"
+      | "address"
+      | "code"
+      | "implementation"
+      | "name"
+      | "symbol"
+      | "decimals",
+    public expected: unknown,
+    public actual: unknown,
+    details?: any
+  ) {
+    super(message, "IDENTITY_MISMATCH", details);
+    this.name = "IdentityMismatchError";
+  }
+}
+
+/**
+ * A privileged call was refused because the deployment has not been verified yet (or the last
+ * verification failed). Run `await sbirr.connect()` first.
+ */
+export class UnverifiedContractError extends StableBirrError {
+  constructor(message: string) {
+    super(message, "CONTRACT_NOT_VERIFIED");
+    this.name = "UnverifiedContractError";
+  }
+}
+
+// -----------------------------------------------------------------------------
+// RPC
+// -----------------------------------------------------------------------------
+
+/**
+ * Fewer than `required` RPC endpoints returned the same result for a quorum read. `results` maps
+ * each endpoint that answered to what it returned.
+ */
+export class QuorumNotReachedError extends NetworkError {
+  constructor(
+    message: string,
+    public method: string,
+    public required: number,
+    public results: Record<string, string>
+  ) {
+    super(message, results);
+    this.code = "QUORUM_NOT_REACHED";
+    this.name = "QuorumNotReachedError";
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Fees
+// -----------------------------------------------------------------------------
+
+/**
+ * Network fees are above the configured ceiling and the call is a non-urgent admin call. Retry
+ * once fees drop, or pass `options.urgent` to send anyway.
+ */
+export class FeeCeilingExceededError extends StableBirrError {
+  constructor(
+    message: string,
+    public currentFeePerGas: bigint,
+    public ceiling: bigint
+  ) {
+    super(message, "FEE_CEILING_EXCEEDED");
+    this.name = "FeeCeilingExceededError";
+    this.retryable = true;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Allowances
+// -----------------------------------------------------------------------------
+
+/**
+ * `safeApprove` compare-and-set refused: the allowance is no longer what the caller expected,
+ * e.g. because the spender used part of it. Re-read it and decide again.
+ */
+export class AllowanceChangedError extends StableBirrError {
+  constructor(
+    message: string,
+    public spender: string,
+    public expected: bigint,
+    public current: bigint
+  ) {
+    super(message, "ALLOWANCE_CHANGED");
+    this.name = "AllowanceChangedError";
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Relayer
+// -----------------------------------------------------------------------------
+
+/**
+ * The relayer refused a request because the owner used up their quota for the current window.
+ * Retry after `retryAfterMs`.
+ */
+export class RateLimitError extends StableBirrError {
+  constructor(
+    message: string,
+    public account: string,
+    public retryAfterMs: number,
+    details?: any
+  ) {
+    super(message, "RATE_LIMITED", details);
+    this.name = "RateLimitError";
+    this.retryable = true;
+  }
+}
+
+/**
+ * The relayer refused a well-formed request because the transfer would revert on-chain (e.g. a
+ * frozen or blacklisted party, insufficient balance). `violations` lists every blocking rule.
+ */
+export class RelayRejectedError extends StableBirrError {
+  constructor(
+    message: string,
+    public violations: { code: string; message: string; account?: string }[],
+    details?: any
+  ) {
+    super(message, "RELAY_REJECTED", details);
+    this.name = "RelayRejectedError";
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Transaction lifecycle
+// -----------------------------------------------------------------------------
+
+/**
+ * Base class for failures while following a submitted transaction. `hash` is the transaction
+ * being tracked (the original one, even if it was later replaced).
+ */
+export class TransactionLifecycleError extends StableBirrError {
+  constructor(
+    message: string,
+    code: string,
+    public hash: string,
+    details?: any
+  ) {
+    super(message, code, details);
+    this.name = "TransactionLifecycleError";
+  }
+}
+
+/**
+ * Waiting exceeded the configured timeout. The transaction may still be mined; waiting again is
+ * safe.
+ */
+export class TransactionTimeoutError extends TransactionLifecycleError {
+  constructor(message: string, hash: string, details?: any) {
+    super(message, "TRANSACTION_TIMEOUT", hash, details);
+    this.name = "TransactionTimeoutError";
+    this.retryable = true;
+  }
+}
+
+/**
+ * The caller's `AbortSignal` fired. Only the wait is cancelled; the transaction itself is not.
+ */
+export class TransactionAbortedError extends TransactionLifecycleError {
+  constructor(message: string, hash: string, details?: any) {
+    super(message, "TRANSACTION_ABORTED", hash, details);
+    this.name = "TransactionAbortedError";
+  }
+}
+
+/**
+ * The nonce was consumed by a different transaction (cancelled or replaced with other calldata).
+ * Speed-ups that keep the same call are followed transparently instead.
+ */
+export class TransactionReplacedError extends TransactionLifecycleError {
+  constructor(
+    message: string,
+    hash: string,
+    public reason: "cancelled" | "replaced",
+    public replacementHash?: string,
+    details?: any
+  ) {
+    super(message, "TRANSACTION_REPLACED", hash, details);
+    this.name = "TransactionReplacedError";
+  }
+}
+
+/**
+ * The node no longer knows the transaction and its nonce is still unused (evicted from the
+ * mempool). Re-sending the same call is expected to work.
+ */
+export class TransactionDroppedError extends TransactionLifecycleError {
+  constructor(message: string, hash: string, details?: any) {
+    super(message, "TRANSACTION_DROPPED", hash, details);
+    this.name = "TransactionDroppedError";
+    this.retryable = true;
   }
 }
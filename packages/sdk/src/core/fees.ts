@@ -0,0 +1,283 @@
+import { ethers } from "ethers";
+import { FeeCeilingExceededError, ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import type {
+  FeeConfig,
+  FeeHistory,
+  FeeStrategy,
+  FeeStrategyName,
+  FeeSuggestion,
+  TransactionOptions,
+} from "@/types";
+
+/** Reward percentiles requested from `eth_feeHistory` (economy, standard, fast). */
+export const FEE_HISTORY_PERCENTILES = [10, 50, 90];
+
+const PRESETS: Record<
+  FeeStrategyName,
+  { percentile: number; baseFeeMultiplierBps: bigint }
+> = {
+  economy: { percentile: 0, baseFeeMultiplierBps: 12_500n },
+  standard: { percentile: 1, baseFeeMultiplierBps: 20_000n },
+  fast: { percentile: 2, baseFeeMultiplierBps: 25_000n },
+};
+
+/**
+ * Price a transaction from fee history with one of the built-in presets.
+ *
+ * The tip is the median across blocks of the preset's reward percentile; `maxFeePerGas` leaves
+ * headroom over the next block's base fee so the transaction survives a few rising blocks.
+ */
+export function suggestFees(
+  history: FeeHistory,
+  strategy: FeeStrategyName
+): FeeSuggestion {
+  const preset = PRESETS[strategy];
+  if (!preset) throw new ValidationError(`Unknown fee strategy: ${strategy}`);
+
+  const baseFeePerGas = history.baseFeePerGas.at(-1) ?? 0n;
+  const tips = history.reward
+    .map((rewards) => rewards[preset.percentile])
+    .filter((tip): tip is bigint => tip !== undefined)
+    .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const maxPriorityFeePerGas = tips[Math.floor(tips.length / 2)] ?? 0n;
+
+  return {
+    baseFeePerGas,
+    maxPriorityFeePerGas,
+    maxFeePerGas:
+      (baseFeePerGas * preset.baseFeeMultiplierBps) / 10_000n +
+      maxPriorityFeePerGas,
+  };
+}
+
+/**
+ * Applies `StableBirrConfig.fees` and per-call `TransactionOptions` to outgoing transactions:
+ * strategy-based EIP-1559 pricing, gas-limit headroom, and the fee ceiling for non-urgent admin
+ * calls (reject or hold until fees drop).
+ *
+ * Explicit `gasPrice` / `maxFeePerGas` / `maxPriorityFeePerGas` always win and skip the ceiling.
+ */
+export class FeeManager {
+  private readonly ceiling?: bigint;
+  private readonly minPriorityFeePerGas: bigint;
+
+  constructor(
+    private readonly provider: ethers.Provider,
+    private readonly config: FeeConfig = {},
+    /** Tip floor for preset strategies (some chains reject tips below a minimum) */
+    minPriorityFeePerGas: bigint = 0n
+  ) {
+    this.ceiling =
+      config.ceiling !== undefined ? BigInt(config.ceiling) : undefined;
+    this.minPriorityFeePerGas = minPriorityFeePerGas;
+    if (config.gasLimitMultiplier !== undefined) {
+      validateMultiplier(config.gasLimitMultiplier);
+    }
+  }
+
+  /**
+   * Read the last `historyBlocks` blocks of fee data.
+   *
+   * Providers without raw JSON-RPC access (the ethers default provider) get a one-block history
+   * built from `getFeeData()`.
+   */
+  public async getFeeHistory(): Promise<FeeHistory> {
+    const blocks = this.config.historyBlocks ?? 10;
+    try {
+      if (this.provider instanceof ethers.JsonRpcApiProvider) {
+        const raw = await this.provider.send("eth_feeHistory", [
+          ethers.toQuantity(blocks),
+          "latest",
+          FEE_HISTORY_PERCENTILES,
+        ]);
+        return {
+          oldestBlock: Number(raw.oldestBlock),
+          baseFeePerGas: (raw.baseFeePerGas ?? []).map(BigInt),
+          gasUsedRatio: (raw.gasUsedRatio ?? []).map(Number),
+          reward: (raw.reward ?? []).map((rewards: string[]) =>
+            rewards.map(BigInt)
+          ),
+        };
+      }
+
+      const [block, feeData] = await Promise.all([
+        this.provider.getBlock("latest"),
+        this.provider.getFeeData(),
+      ]);
+      const tip = feeData.maxPriorityFeePerGas ?? 0n;
+      return {
+        oldestBlock: block?.number ?? 0,
+        baseFeePerGas: [block?.baseFeePerGas ?? 0n],
+        gasUsedRatio: [
+          block ? Number(block.gasUsed) / Number(block.gasLimit) : 0,
+        ],
+        reward: [[tip, tip, tip]],
+      };
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to fetch fee history");
+    }
+  }
+
+  /**
+   * Fees the SDK would attach right now with `strategy`.
+   */
+  public async suggest(
+    strategy: FeeStrategy = this.config.strategy ?? "standard"
+  ): Promise<FeeSuggestion> {
+    const history = await this.getFeeHistory();
+    if (typeof strategy === "function") return strategy(history);
+
+    const fees = suggestFees(history, strategy);
+    const shortfall = this.minPriorityFeePerGas - fees.maxPriorityFeePerGas;
+    if (shortfall <= 0n) return fees;
+    return {
+      baseFeePerGas: fees.baseFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas + shortfall,
+      maxFeePerGas: fees.maxFeePerGas + shortfall,
+    };
+  }
+
+  /**
+   * Signer that prices every transaction it sends with these settings.
+   *
+   * @param admin - Subject the call to the fee ceiling unless `options.urgent` is set.
+   */
+  public wrap(
+    signer: ethers.Signer,
+    options: TransactionOptions = {},
+    admin: boolean = false
+  ): ethers.Signer {
+    return new FeePricedSigner(signer, this, options, admin);
+  }
+
+  /**
+   * Fill in `gasLimit` and EIP-1559 fees on `tx` as configured.
+   *
+   * @throws FeeCeilingExceededError if a guarded call meets a fee spike (after `queueTimeout`
+   *   when `onSpike` is `"queue"`).
+   */
+  public async prepare(
+    signer: ethers.Signer,
+    tx: ethers.TransactionRequest,
+    options: TransactionOptions = {},
+    admin: boolean = false
+  ): Promise<ethers.TransactionRequest> {
+    const request = { ...tx };
+
+    const multiplier =
+      options.gasLimitMultiplier ?? this.config.gasLimitMultiplier ?? 1;
+    validateMultiplier(multiplier);
+    if (request.gasLimit == null && multiplier !== 1) {
+      const estimate = await signer.estimateGas(request);
+      request.gasLimit =
+        (estimate * BigInt(Math.round(multiplier * 1000))) / 1000n;
+    }
+
+    const priced =
+      request.gasPrice != null ||
+      request.maxFeePerGas != null ||
+      request.maxPriorityFeePerGas != null;
+    const strategy = options.feeStrategy ?? this.config.strategy;
+    const guarded = admin && !options.urgent && this.ceiling !== undefined;
+    if (priced || (!strategy && !guarded)) return request;
+
+    const fees = guarded
+      ? await this.underCeiling(strategy)
+      : await this.suggest(strategy);
+    request.maxFeePerGas = fees.maxFeePerGas;
+    request.maxPriorityFeePerGas = fees.maxPriorityFeePerGas;
+    return request;
+  }
+
+  private async underCeiling(
+    strategy: FeeStrategy | undefined
+  ): Promise<FeeSuggestion> {
+    const ceiling = this.ceiling!;
+    const deadline = Date.now() + (this.config.queueTimeout ?? 600_000);
+    const interval = this.config.queuePollingInterval ?? 15_000;
+
+    while (true) {
+      const fees = await this.suggest(strategy);
+      const current = fees.baseFeePerGas + fees.maxPriorityFeePerGas;
+      if (current <= ceiling) {
+        return {
+          ...fees,
+          maxFeePerGas:
+            fees.maxFeePerGas < ceiling ? fees.maxFeePerGas : ceiling,
+        };
+      }
+
+      if (this.config.onSpike !== "queue" || Date.now() >= deadline) {
+        throw new FeeCeilingExceededError(
+          `Network fee ${ethers.formatUnits(current, "gwei")} gwei is above ` +
+            `the ${ethers.formatUnits(ceiling, "gwei")} gwei ceiling`,
+          current,
+          ceiling
+        );
+      }
+      const wait = Math.min(interval, deadline - Date.now());
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
+
+function validateMultiplier(multiplier: number): void {
+  if (!Number.isFinite(multiplier) || multiplier <= 0) {
+    throw new ValidationError(
+      `Invalid gas limit multiplier: ${multiplier}. Must be a positive number.`
+    );
+  }
+}
+
+/**
+ * Per-call signer view: prices the transaction with `FeeManager.prepare`, then hands it to the
+ * underlying signer (which may itself be nonce-managed).
+ */
+class FeePricedSigner extends ethers.AbstractSigner {
+  constructor(
+    private readonly signer: ethers.Signer,
+    private readonly fees: FeeManager,
+    private readonly options: TransactionOptions,
+    private readonly admin: boolean
+  ) {
+    super(signer.provider);
+  }
+
+  public getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  public connect(provider: ethers.Provider | null): FeePricedSigner {
+    return new FeePricedSigner(
+      this.signer.connect(provider),
+      this.fees,
+      this.options,
+      this.admin
+    );
+  }
+
+  public override async sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    return this.signer.sendTransaction(
+      await this.fees.prepare(this.signer, tx, this.options, this.admin)
+    );
+  }
+
+  public signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return this.signer.signTransaction(tx);
+  }
+
+  public signMessage(message: string | Uint8Array): Promise<string> {
+    return this.signer.signMessage(message);
+  }
+
+  public signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.signer.signTypedData(domain, types, value);
+  }
+}
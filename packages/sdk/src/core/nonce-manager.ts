@@ -0,0 +1,258 @@
+import { ethers } from "ethers";
+import { StableBirrError } from "@/core/errors";
+import type { NonceManagerOptions } from "@/types";
+
+const NONCE_CONFLICT =
+  /nonce too low|nonce has already been used|replacement (transaction )?underpriced/i;
+
+const LOCK_RETRY_MS = 25;
+
+/**
+ * True when the node rejected a send because its nonce is already taken (mined or pending).
+ */
+function isNonceConflict(error: unknown): boolean {
+  const code = (error as { code?: unknown } | null)?.code;
+  if (code === "NONCE_EXPIRED" || code === "REPLACEMENT_UNDERPRICED") {
+    return true;
+  }
+  const message = (error as { message?: unknown } | null)?.message;
+  return typeof message === "string" && NONCE_CONFLICT.test(message);
+}
+
+/**
+ * Signer wrapper that hands out nonces locally so many writes from one key can be in flight at
+ * once.
+ *
+ * Sends are queued and broadcast one at a time in nonce order; gas estimation happens before the
+ * queue so slow estimates do not hold it up. The first send (and `resync()`) reads the pending
+ * nonce from the chain, which picks up transactions left in the mempool by a previous run. When
+ * the node answers "nonce too low" or "replacement underpriced" the send is retried with the next
+ * free nonce. A send that fails for any other reason does not consume its nonce.
+ *
+ * With `lockFile` set, each send also holds an exclusive file lock and records the next nonce in
+ * the file, so several processes can share one key (Node.js / Bun only).
+ *
+ * ```ts
+ * const signer = new NonceManagedSigner(wallet, { lockFile: "/var/run/sbirr/nonces.json" });
+ * await Promise.all(deposits.map((d) => contract.connect(signer).mint(...)));
+ * ```
+ */
+export class NonceManagedSigner extends ethers.AbstractSigner {
+  private nextNonce?: number;
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly lock?: NonceLockFile;
+
+  constructor(
+    /** Signer that signs and broadcasts the transactions */
+    public readonly signer: ethers.Signer,
+    private readonly options: NonceManagerOptions = {}
+  ) {
+    super(signer.provider);
+    if (options.lockFile) {
+      this.lock = new NonceLockFile(
+        options.lockFile,
+        options.lockTimeout ?? 30_000,
+        options.staleLockAfter ?? 60_000
+      );
+    }
+  }
+
+  public getAddress(): Promise<string> {
+    return this.signer.getAddress();
+  }
+
+  public connect(provider: ethers.Provider | null): NonceManagedSigner {
+    return new NonceManagedSigner(this.signer.connect(provider), this.options);
+  }
+
+  /**
+   * Next nonce this signer will use for `"pending"`; other block tags go to the chain.
+   */
+  public override async getNonce(blockTag?: ethers.BlockTag): Promise<number> {
+    if (blockTag === "pending" && this.nextNonce !== undefined && !this.lock) {
+      return this.nextNonce;
+    }
+    return this.signer.getNonce(blockTag);
+  }
+
+  /**
+   * Discard the local nonce and adopt the chain's pending nonce (also rewrites the lock file).
+   * Use after transactions were dropped and left a gap.
+   *
+   * @returns The nonce the next send will use.
+   */
+  public resync(): Promise<number> {
+    return this.enqueue(() =>
+      this.withLock(async () => {
+        const nonce = await this.signer.getNonce("pending");
+        await this.commit(nonce);
+        return nonce;
+      })
+    );
+  }
+
+  public override async sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    // An explicit nonce is the caller's responsibility.
+    if (tx.nonce != null) return this.signer.sendTransaction(tx);
+
+    const request = { ...tx };
+    if (request.gasLimit == null) {
+      request.gasLimit = await this.signer.estimateGas(request);
+    }
+    return this.enqueue(() => this.withLock(() => this.send(request)));
+  }
+
+  public signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return this.signer.signTransaction(tx);
+  }
+
+  public signMessage(message: string | Uint8Array): Promise<string> {
+    return this.signer.signMessage(message);
+  }
+
+  public signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.signer.signTypedData(domain, types, value);
+  }
+
+  private async send(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    const maxRetries = this.options.maxRetries ?? 3;
+    let nonce = await this.reserve();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const response = await this.signer.sendTransaction({ ...tx, nonce });
+        await this.commit(nonce + 1);
+        return response;
+      } catch (error: unknown) {
+        if (!isNonceConflict(error) || attempt >= maxRetries) throw error;
+        // Taken by a mined or pending transaction we did not send: skip past it.
+        nonce = Math.max(nonce + 1, await this.signer.getNonce("pending"));
+      }
+    }
+  }
+
+  private async reserve(): Promise<number> {
+    if (this.lock) {
+      const [recorded, chain] = await Promise.all([
+        this.lock.read(await this.getAddress()),
+        this.signer.getNonce("pending"),
+      ]);
+      return Math.max(recorded ?? 0, chain);
+    }
+    if (this.nextNonce === undefined) {
+      this.nextNonce = await this.signer.getNonce("pending");
+    }
+    return this.nextNonce;
+  }
+
+  private async commit(nonce: number): Promise<void> {
+    this.nextNonce = nonce;
+    if (this.lock) await this.lock.write(await this.getAddress(), nonce);
+  }
+
+  private async withLock<T>(task: () => Promise<T>): Promise<T> {
+    if (!this.lock) return task();
+    const release = await this.lock.acquire();
+    try {
+      return await task();
+    } finally {
+      await release();
+    }
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+/**
+ * `<path>.lock` is the mutex (created with `O_EXCL`); `<path>` holds `{ [address]: nextNonce }`.
+ */
+class NonceLockFile {
+  constructor(
+    private readonly path: string,
+    private readonly timeout: number,
+    private readonly staleAfter: number
+  ) {}
+
+  public async acquire(): Promise<() => Promise<void>> {
+    const fs = await import("node:fs/promises");
+    const lockPath = `${this.path}.lock`;
+    const deadline = Date.now() + this.timeout;
+
+    while (true) {
+      try {
+        const handle = await fs.open(lockPath, "wx");
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return () => fs.rm(lockPath, { force: true });
+      } catch (error: unknown) {
+        if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+          throw new StableBirrError(
+            `Failed to acquire nonce lock ${lockPath}`,
+            "NONCE_LOCK_ERROR",
+            error
+          );
+        }
+      }
+
+      const stat = await fs.stat(lockPath).catch(() => undefined);
+      if (stat && Date.now() - stat.mtimeMs > this.staleAfter) {
+        await fs.rm(lockPath, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new StableBirrError(
+          `Timed out after ${this.timeout}ms waiting for nonce lock ${lockPath}`,
+          "NONCE_LOCK_TIMEOUT"
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, LOCK_RETRY_MS));
+    }
+  }
+
+  public async read(address: string): Promise<number | undefined> {
+    return (await this.load())[address.toLowerCase()];
+  }
+
+  public async write(address: string, nonce: number): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const state = await this.load();
+    state[address.toLowerCase()] = nonce;
+    const tmp = `${this.path}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(state), "utf8");
+      await fs.rename(tmp, this.path);
+    } catch (error: unknown) {
+      throw new StableBirrError(
+        `Failed to write nonce file ${this.path}`,
+        "NONCE_LOCK_ERROR",
+        error
+      );
+    }
+  }
+
+  private async load(): Promise<Record<string, number>> {
+    const fs = await import("node:fs/promises");
+    try {
+      return JSON.parse(await fs.readFile(this.path, "utf8"));
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+      throw new StableBirrError(
+        `Failed to read nonce file ${this.path}`,
+        "NONCE_LOCK_ERROR",
+        error
+      );
+    }
+  }
+}
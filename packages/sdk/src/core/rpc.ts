@@ -0,0 +1,596 @@
+import { ethers } from "ethers";
+import {
+  IdentityMismatchError,
+  NetworkError,
+  QuorumNotReachedError,
+  ValidationError,
+} from "@/core/errors";
+import type {
+  FallbackRpcProviderOptions,
+  RpcConfig,
+  RpcEndpointHealth,
+} from "@/types";
+
+const DEFAULT_RETRIES = 3;
+const DEFAULT_RETRY_DELAY = 250;
+const DEFAULT_MAX_RETRY_DELAY = 10_000;
+const DEFAULT_TIMEOUT = 10_000;
+
+/** Weight of the newest sample in the latency and error-rate moving averages. */
+const SMOOTHING = 0.2;
+
+/** Score penalty (milliseconds of latency) of an endpoint that always fails. */
+const ERROR_PENALTY = 5_000;
+
+/** JSON-RPC error codes and messages public endpoints use for rate limiting. */
+const THROTTLE_CODES = new Set([-32005, -32029, 429]);
+const THROTTLE_MESSAGE =
+  /rate limit|too many requests|request limit|exceeded .*(capacity|quota)/i;
+
+type Payload = ethers.JsonRpcPayload;
+type Response = ethers.JsonRpcResult | ethers.JsonRpcError;
+
+interface Endpoint {
+  index: number;
+  url: string;
+  origin: string;
+  priority: number;
+  headers: Record<string, string>;
+  requests: number;
+  failures: number;
+  throttled: number;
+  consecutiveFailures: number;
+  errorRate: number;
+  latency?: number;
+  coolUntil: number;
+  chainVerified: boolean;
+  chainId?: number;
+  disabled?: string;
+}
+
+/** One endpoint failed at the transport level; another endpoint may still succeed. */
+class EndpointFailure extends Error {
+  constructor(
+    message: string,
+    public readonly throttled: boolean = false,
+    public readonly retryAfter?: number,
+    public readonly reason?: unknown
+  ) {
+    super(message);
+    this.name = "EndpointFailure";
+  }
+}
+
+/**
+ * JSON-RPC provider over several endpoints, for when a single public RPC (and its rate limits)
+ * is not good enough.
+ *
+ * **Failover and retries**
+ * Each request goes to the healthiest available endpoint: lowest `priority` first, then lowest
+ * score (moving-average latency plus a penalty for recent failures). Timeouts, network errors,
+ * HTTP 429/5xx and rate-limit JSON-RPC errors move the request to the next endpoint, and the
+ * failed endpoint cools down: for `Retry-After` when it was throttled, otherwise for an
+ * exponential backoff that doubles with each consecutive failure. Once every endpoint failed, the
+ * request waits for the first one to cool down and starts another round, up to `retries` rounds.
+ * Ordinary JSON-RPC errors such as reverts are answers, not failures, and are returned as-is.
+ *
+ * **Chain check**
+ * With `options.chainId`, every endpoint's `eth_chainId` is checked before its first use, and an
+ * endpoint on another chain is taken out of rotation.
+ *
+ * **Quorum reads**
+ * With `quorum`, matching `eth_call`s are pinned to a block every queried endpoint has, and are
+ * sent to `quorum.size` endpoints. Further endpoints are asked only while too few agree. Fewer
+ * than `size` identical results fail with `QuorumNotReachedError`.
+ *
+ * ```ts
+ * const provider = new FallbackRpcProvider(
+ *   {
+ *     endpoints: [
+ *       { url: process.env.ALCHEMY_URL!, priority: 0 },
+ *       { url: "https://polygon-rpc.com", priority: 1 },
+ *       { url: "https://polygon.llamarpc.com", priority: 1 },
+ *     ],
+ *     quorum: { size: 2 },
+ *   },
+ *   { chainId: 137 }
+ * );
+ * ```
+ *
+ * Event subscriptions poll `eth_getLogs` rather than install filters, because a filter ID only
+ * exists on the endpoint that created it. `StableBirrConfig.rpc` builds one of these.
+ */
+export class FallbackRpcProvider extends ethers.JsonRpcApiProvider {
+  private readonly endpoints: Endpoint[];
+  private readonly retries: number;
+  private readonly retryDelay: number;
+  private readonly maxRetryDelay: number;
+  private readonly timeout: number;
+  private readonly quorumSize: number;
+  private readonly expectedChainId?: number;
+  private readonly isQuorumCall?: (call: {
+    to: string;
+    data: string;
+  }) => boolean;
+
+  /**
+   * @throws ValidationError if the endpoints or limits are invalid.
+   */
+  constructor(config: RpcConfig, options: FallbackRpcProviderOptions = {}) {
+    super(undefined, { batchMaxCount: 1, polling: true });
+
+    this.endpoints = parseEndpoints(config);
+    this.retries = config.retries ?? DEFAULT_RETRIES;
+    this.retryDelay = config.retryDelay ?? DEFAULT_RETRY_DELAY;
+    this.maxRetryDelay = config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY;
+    this.timeout = config.timeout ?? DEFAULT_TIMEOUT;
+    this.quorumSize = config.quorum?.size ?? 1;
+    this.expectedChainId = options.chainId;
+    this.isQuorumCall = options.isQuorumCall;
+
+    if (!Number.isInteger(this.retries) || this.retries < 0) {
+      throw new ValidationError("rpc.retries must be a non-negative integer");
+    }
+    for (const [name, value] of Object.entries({
+      retryDelay: this.retryDelay,
+      maxRetryDelay: this.maxRetryDelay,
+      timeout: this.timeout,
+    })) {
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new ValidationError(`rpc.${name} must be a positive integer`);
+      }
+    }
+    if (
+      !Number.isInteger(this.quorumSize) ||
+      this.quorumSize < 1 ||
+      this.quorumSize > this.endpoints.length
+    ) {
+      throw new ValidationError(
+        `rpc.quorum.size must be between 1 and the number of endpoints (${this.endpoints.length})`
+      );
+    }
+  }
+
+  /**
+   * Per-endpoint request counts, failure rates and latency, in configuration order.
+   */
+  public health(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      index: endpoint.index,
+      origin: endpoint.origin,
+      priority: endpoint.priority,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      throttled: endpoint.throttled,
+      errorRate: endpoint.errorRate,
+      latency: endpoint.latency,
+      score: score(endpoint),
+      coolingDownUntil:
+        endpoint.coolUntil > now ? endpoint.coolUntil : undefined,
+      disabled: endpoint.disabled,
+    }));
+  }
+
+  public override async send(
+    method: string,
+    params: unknown[] | Record<string, unknown>
+  ): Promise<unknown> {
+    // Like JsonRpcProvider: nothing is sent (not even eth_chainId) before the first request
+    await this._start();
+    return await super.send(method, params);
+  }
+
+  /**
+   * When every endpoint is on the wrong chain, report the chain they are on instead of failing,
+   * so ethers finishes starting up and `verify()` can name the mismatch rather than hang.
+   */
+  public override async _detectNetwork(): Promise<ethers.Network> {
+    try {
+      return await super._detectNetwork();
+    } catch (error: unknown) {
+      if (
+        error instanceof IdentityMismatchError &&
+        typeof error.actual === "number"
+      ) {
+        return ethers.Network.from(error.actual);
+      }
+      throw error;
+    }
+  }
+
+  public override async _send(
+    payload: Payload | Payload[]
+  ): Promise<Response[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    return Promise.all(
+      payloads.map((single) =>
+        this.needsQuorum(single)
+          ? this.sendQuorum(single)
+          : this.sendWithFailover(single)
+      )
+    );
+  }
+
+  private needsQuorum(payload: Payload): boolean {
+    if (this.quorumSize < 2 || payload.method !== "eth_call") return false;
+    const call = Array.isArray(payload.params) ? payload.params[0] : undefined;
+    if (typeof call?.to !== "string") return false;
+    return this.isQuorumCall
+      ? this.isQuorumCall({ to: call.to, data: call.data ?? "0x" })
+      : true;
+  }
+
+  private async sendWithFailover(payload: Payload): Promise<Response> {
+    const failures: string[] = [];
+    let delivered = false;
+
+    // Endpoints that failed cool down, so each later round waits out their backoff first
+    for (let round = 0; round <= this.retries; round++) {
+      for (const endpoint of await this.available()) {
+        try {
+          const response = await this.sendTo(endpoint, payload);
+          // A raw transaction that timed out on one endpoint may still have reached the mempool
+          if (
+            delivered &&
+            payload.method === "eth_sendRawTransaction" &&
+            "error" in response &&
+            /already known|known transaction/i.test(
+              response.error.message ?? ""
+            )
+          ) {
+            return {
+              id: payload.id,
+              result: ethers.keccak256((payload.params as string[])[0]!),
+            };
+          }
+          return response;
+        } catch (error: unknown) {
+          if (!(error instanceof EndpointFailure)) throw error;
+          failures.push(`${endpoint.origin}: ${error.message}`);
+          delivered ||= ethers.isError(error.reason, "TIMEOUT");
+        }
+      }
+    }
+
+    throw new NetworkError(
+      `${payload.method} failed on every RPC endpoint`,
+      failures
+    );
+  }
+
+  private async sendQuorum(payload: Payload): Promise<Response> {
+    const candidates = this.ranked(this.enabled());
+    const pinned = await this.pinBlock(
+      payload,
+      candidates.slice(0, this.quorumSize)
+    );
+
+    const votes = new Map<string, { count: number; response: Response }>();
+    const results: Record<string, string> = {};
+    let next = 0;
+    while (true) {
+      const best = Math.max(0, ...[...votes.values()].map((v) => v.count));
+      if (best >= this.quorumSize) {
+        return [...votes.values()].find((v) => v.count === best)!.response;
+      }
+
+      const batch = candidates.slice(next, next + this.quorumSize - best);
+      next += batch.length;
+      if (batch.length === 0) {
+        throw new QuorumNotReachedError(
+          `${this.quorumSize} RPC endpoints did not agree on ${payload.method}`,
+          payload.method,
+          this.quorumSize,
+          results
+        );
+      }
+
+      const settled = await Promise.allSettled(
+        batch.map((endpoint) => this.sendTo(endpoint, pinned))
+      );
+      settled.forEach((outcome, i) => {
+        const label = `${batch[i]!.index}:${batch[i]!.origin}`;
+        if (outcome.status === "rejected") {
+          const reason: unknown = outcome.reason;
+          results[label] = `failed: ${
+            reason instanceof Error ? reason.message : String(reason)
+          }`;
+          return;
+        }
+        const key = voteKey(outcome.value);
+        results[label] = key;
+        const vote = votes.get(key);
+        if (vote) vote.count += 1;
+        else votes.set(key, { count: 1, response: outcome.value });
+      });
+    }
+  }
+
+  /**
+   * Replace a `latest` block tag with the lowest head among `endpoints`, so that endpoints a
+   * block or two behind still answer for the same state.
+   */
+  private async pinBlock(
+    payload: Payload,
+    endpoints: Endpoint[]
+  ): Promise<Payload> {
+    const params = payload.params as unknown[];
+    if (params[1] !== undefined && params[1] !== "latest") return payload;
+
+    const heads = await Promise.allSettled(
+      endpoints.map((endpoint) =>
+        this.sendTo(endpoint, {
+          jsonrpc: "2.0",
+          id: payload.id,
+          method: "eth_blockNumber",
+          params: [],
+        })
+      )
+    );
+    const numbers = heads.flatMap((head) =>
+      head.status === "fulfilled" && "result" in head.value
+        ? [Number(BigInt(head.value.result))]
+        : []
+    );
+    if (numbers.length === 0) return payload;
+    return {
+      ...payload,
+      params: [params[0], ethers.toQuantity(Math.min(...numbers))],
+    };
+  }
+
+  /**
+   * Endpoints to try this round, best first. When every endpoint is cooling down after a
+   * failure, waits for the first one to come back (at most `maxRetryDelay`).
+   */
+  private async available(): Promise<Endpoint[]> {
+    const enabled = this.enabled();
+    let ready = enabled.filter((endpoint) => endpoint.coolUntil <= Date.now());
+    if (ready.length === 0) {
+      const soonest = enabled.reduce((a, b) =>
+        a.coolUntil <= b.coolUntil ? a : b
+      );
+      await delay(Math.min(soonest.coolUntil - Date.now(), this.maxRetryDelay));
+      ready = [soonest];
+    }
+    return this.ranked(ready);
+  }
+
+  /**
+   * @throws IdentityMismatchError if every endpoint is on the wrong chain.
+   * @throws NetworkError if every endpoint is out of rotation for another reason.
+   */
+  private enabled(): Endpoint[] {
+    const enabled = this.endpoints.filter((endpoint) => !endpoint.disabled);
+    if (enabled.length > 0) return enabled;
+
+    const wrongChain = this.endpoints.find(
+      (endpoint) => endpoint.chainId !== undefined
+    );
+    if (wrongChain && this.endpoints.every((e) => e.chainId !== undefined)) {
+      throw new IdentityMismatchError(
+        `No RPC endpoint is on chain ${this.expectedChainId}`,
+        "chainId",
+        this.expectedChainId,
+        wrongChain.chainId,
+        this.health()
+      );
+    }
+    throw new NetworkError(
+      "Every RPC endpoint is out of rotation",
+      this.health()
+    );
+  }
+
+  private ranked(endpoints: Endpoint[]): Endpoint[] {
+    return [...endpoints].sort(
+      (a, b) => a.priority - b.priority || score(a) - score(b)
+    );
+  }
+
+  private async sendTo(
+    endpoint: Endpoint,
+    payload: Payload
+  ): Promise<Response> {
+    const started = Date.now();
+    endpoint.requests += 1;
+    try {
+      await this.checkChain(endpoint);
+      const response = await this.post(endpoint, payload);
+      const latency = Date.now() - started;
+      endpoint.latency =
+        endpoint.latency === undefined
+          ? latency
+          : endpoint.latency * (1 - SMOOTHING) + latency * SMOOTHING;
+      endpoint.errorRate *= 1 - SMOOTHING;
+      endpoint.consecutiveFailures = 0;
+      return response;
+    } catch (error: unknown) {
+      endpoint.failures += 1;
+      endpoint.errorRate = endpoint.errorRate * (1 - SMOOTHING) + SMOOTHING;
+      endpoint.consecutiveFailures += 1;
+      const throttled = error instanceof EndpointFailure && error.throttled;
+      if (throttled) endpoint.throttled += 1;
+      // Bench the endpoint so a dead or throttled one does not cost every request an attempt
+      endpoint.coolUntil =
+        Date.now() +
+        Math.min(
+          this.maxRetryDelay,
+          (throttled && error.retryAfter) ||
+            this.backoff(endpoint.consecutiveFailures)
+        );
+      throw error;
+    }
+  }
+
+  /**
+   * Take `endpoint` out of rotation if it is on another chain than `options.chainId`.
+   */
+  private async checkChain(endpoint: Endpoint): Promise<void> {
+    if (this.expectedChainId === undefined || endpoint.chainVerified) return;
+
+    const response = await this.post(endpoint, {
+      jsonrpc: "2.0",
+      id: 0,
+      method: "eth_chainId",
+      params: [],
+    });
+    if (!("result" in response)) {
+      throw new EndpointFailure("eth_chainId failed");
+    }
+    const chainId = Number(BigInt(response.result));
+    if (chainId !== this.expectedChainId) {
+      endpoint.chainId = chainId;
+      endpoint.disabled = `on chain ${chainId}, expected ${this.expectedChainId}`;
+      throw new EndpointFailure(endpoint.disabled);
+    }
+    endpoint.chainVerified = true;
+  }
+
+  private async post(endpoint: Endpoint, payload: Payload): Promise<Response> {
+    const request = new ethers.FetchRequest(endpoint.url);
+    Object.entries(endpoint.headers).forEach(([name, value]) =>
+      request.setHeader(name, value)
+    );
+    request.setHeader("content-type", "application/json");
+    request.body = JSON.stringify(payload);
+    request.timeout = this.timeout;
+    // Throttling is handled here, across endpoints, instead of by FetchRequest's own retries
+    request.retryFunc = async () => false;
+
+    let response: ethers.FetchResponse;
+    try {
+      response = await request.send();
+    } catch (error: unknown) {
+      throw new EndpointFailure(
+        ethers.isError(error, "TIMEOUT") ? "timed out" : "unreachable",
+        false,
+        undefined,
+        error
+      );
+    }
+
+    if (response.statusCode === 429) {
+      throw new EndpointFailure(
+        "rate limited (HTTP 429)",
+        true,
+        parseRetryAfter(response.getHeader("retry-after"))
+      );
+    }
+    if (!response.ok()) {
+      throw new EndpointFailure(`HTTP ${response.statusCode}`);
+    }
+
+    let body: unknown;
+    try {
+      body = response.bodyJson;
+    } catch (error: unknown) {
+      throw new EndpointFailure(
+        "invalid JSON response",
+        false,
+        undefined,
+        error
+      );
+    }
+    const result: unknown = Array.isArray(body) ? body[0] : body;
+    if (!isJsonRpcResponse(result)) {
+      throw new EndpointFailure("malformed JSON-RPC response");
+    }
+    if (
+      "error" in result &&
+      (THROTTLE_CODES.has(result.error.code) ||
+        THROTTLE_MESSAGE.test(result.error.message ?? ""))
+    ) {
+      throw new EndpointFailure(
+        `rate limited (${result.error.message ?? result.error.code})`,
+        true
+      );
+    }
+    return { ...result, id: payload.id };
+  }
+
+  /** Cooldown after `failures` consecutive failures: exponential with jitter. */
+  private backoff(failures: number): number {
+    const base = this.retryDelay * 2 ** (failures - 1);
+    return base / 2 + (Math.random() * base) / 2;
+  }
+}
+
+function parseEndpoints(config: RpcConfig): Endpoint[] {
+  if (!Array.isArray(config?.endpoints) || config.endpoints.length === 0) {
+    throw new ValidationError("rpc.endpoints must list at least one endpoint");
+  }
+  return config.endpoints.map((entry, index) => {
+    const endpoint = typeof entry === "string" ? { url: entry } : entry;
+    let origin: string;
+    try {
+      const url = new URL(endpoint.url);
+      if (url.protocol !== "http:" && url.protocol !== "https:") {
+        throw new Error(url.protocol);
+      }
+      origin = url.origin;
+    } catch {
+      throw new ValidationError(
+        `rpc.endpoints[${index}] is not an http(s) URL`
+      );
+    }
+    const priority = endpoint.priority ?? 0;
+    if (!Number.isFinite(priority)) {
+      throw new ValidationError(
+        `rpc.endpoints[${index}].priority must be a number`
+      );
+    }
+    return {
+      index,
+      url: endpoint.url,
+      origin,
+      priority,
+      headers: endpoint.headers ?? {},
+      requests: 0,
+      failures: 0,
+      throttled: 0,
+      consecutiveFailures: 0,
+      errorRate: 0,
+      coolUntil: 0,
+      chainVerified: false,
+    };
+  });
+}
+
+/** A JSON-RPC result, or an error object with a numeric `code`. */
+function isJsonRpcResponse(value: unknown): value is Response {
+  if (typeof value !== "object" || value === null) return false;
+  if ("result" in value) return true;
+  if (!("error" in value)) return false;
+  const { error } = value as { error: unknown };
+  return (
+    typeof error === "object" &&
+    error !== null &&
+    typeof (error as { code?: unknown }).code === "number"
+  );
+}
+
+function score(endpoint: Endpoint): number {
+  return (endpoint.latency ?? 0) + endpoint.errorRate * ERROR_PENALTY;
+}
+
+/** What a quorum compares: the result, or the revert data / error code. */
+function voteKey(response: Response): string {
+  return "result" in response
+    ? `result:${JSON.stringify(response.result)}`
+    : `error:${response.error.data ?? response.error.code}`;
+}
+
+/** `Retry-After` in milliseconds, from delta-seconds or an HTTP date. */
+function parseRetryAfter(value: string | undefined): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, Math.max(0, ms)));
+}
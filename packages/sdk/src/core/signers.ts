@@ -0,0 +1,320 @@
+import { ethers } from "ethers";
+import { NetworkError, StableBirrError, ValidationError } from "@/core/errors";
+import type {
+  KeystorePassword,
+  RemoteSignerConfig,
+  StableBirrConfig,
+} from "@/types";
+
+/** How long to wait for a remotely broadcast transaction to show up on the SDK's provider. */
+const REMOTE_BROADCAST_TIMEOUT = 60_000;
+
+/**
+ * Build the signer described by `config` (`privateKey`, `signer`, `keystore` or
+ * `remoteSigner`), bound to `provider`.
+ *
+ * @returns `undefined` for read-only configurations.
+ * @throws ValidationError if more than one signer source is configured.
+ */
+export function createSigner(
+  config: StableBirrConfig,
+  provider: ethers.Provider
+): ethers.Signer | undefined {
+  const sources = [
+    config.privateKey ? "privateKey" : undefined,
+    config.signer ? "signer" : undefined,
+    config.keystore ? "keystore" : undefined,
+    config.remoteSigner ? "remoteSigner" : undefined,
+  ].filter((source) => source !== undefined);
+  if (sources.length > 1) {
+    throw new ValidationError(
+      `Configure only one signer source, got ${sources.join(", ")}`
+    );
+  }
+
+  if (config.privateKey) return new ethers.Wallet(config.privateKey, provider);
+  if (config.signer) {
+    return config.signer.provider
+      ? config.signer
+      : config.signer.connect(provider);
+  }
+  if (config.keystore) {
+    return new KeystoreSigner(
+      config.keystore.json,
+      config.keystore.password,
+      provider
+    );
+  }
+  if (config.remoteSigner) {
+    return new RemoteSigner(config.remoteSigner, provider);
+  }
+  return undefined;
+}
+
+/**
+ * Signer backed by an encrypted JSON keystore.
+ *
+ * The address is read from the keystore without decrypting it; the (deliberately slow) scrypt
+ * decryption runs once, on the first signature, and the password function is only called then.
+ */
+export class KeystoreSigner extends ethers.AbstractSigner {
+  private wallet?: Promise<ethers.BaseWallet>;
+  private readonly address?: string;
+
+  /**
+   * @throws ValidationError if `json` is not an encrypted JSON keystore.
+   */
+  constructor(
+    private readonly json: string,
+    private readonly password: KeystorePassword,
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider);
+    if (!ethers.isKeystoreJson(json)) {
+      throw new ValidationError("Invalid keystore: expected encrypted JSON");
+    }
+    const address = JSON.parse(json).address;
+    if (typeof address === "string" && address !== "") {
+      this.address = ethers.getAddress(
+        address.startsWith("0x") ? address : `0x${address}`
+      );
+    }
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address ?? (await this.unlock()).address;
+  }
+
+  public connect(provider: ethers.Provider | null): KeystoreSigner {
+    return new KeystoreSigner(this.json, this.password, provider);
+  }
+
+  public async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return (await this.unlock()).signTransaction(tx);
+  }
+
+  public async signMessage(message: string | Uint8Array): Promise<string> {
+    return (await this.unlock()).signMessage(message);
+  }
+
+  public async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return (await this.unlock()).signTypedData(domain, types, value);
+  }
+
+  private unlock(): Promise<ethers.BaseWallet> {
+    this.wallet ??= (async () => {
+      try {
+        const password =
+          typeof this.password === "function"
+            ? await this.password()
+            : this.password;
+        return await ethers.Wallet.fromEncryptedJson(this.json, password);
+      } catch (error: unknown) {
+        // Let a corrected password (or a recovered secret store) be tried on the next call.
+        this.wallet = undefined;
+        throw new ValidationError("Failed to decrypt keystore", error);
+      }
+    })();
+    return this.wallet;
+  }
+}
+
+/**
+ * Signer that delegates every signature to an external JSON-RPC signing service.
+ *
+ * Transactions are fully populated (nonce, gas, fees, chain ID) through the SDK's provider
+ * first, so the service needs no node of its own. With `broadcast: "remote"` the service signs and
+ * broadcasts via `eth_sendTransaction`; with `"local"` it only signs (`eth_signTransaction`) and
+ * the SDK broadcasts.
+ */
+export class RemoteSigner extends ethers.AbstractSigner {
+  private address?: Promise<string>;
+  private requestId = 0;
+
+  constructor(
+    private readonly config: RemoteSignerConfig,
+    provider: ethers.Provider | null = null
+  ) {
+    super(provider);
+    if (config.address !== undefined) {
+      if (!ethers.isAddress(config.address)) {
+        throw new ValidationError(
+          `Invalid remote signer address: ${config.address}`
+        );
+      }
+      this.address = Promise.resolve(ethers.getAddress(config.address));
+    }
+  }
+
+  public getAddress(): Promise<string> {
+    this.address ??= this.rpc<string[]>("eth_accounts", [])
+      .then((accounts) => {
+        const [account] = accounts;
+        if (!account) {
+          throw new StableBirrError(
+            "Remote signer exposes no accounts",
+            "REMOTE_SIGNER_ERROR"
+          );
+        }
+        return ethers.getAddress(account);
+      })
+      .catch((error: unknown) => {
+        // Ask the service again on the next call instead of caching the failure.
+        this.address = undefined;
+        throw error;
+      });
+    return this.address;
+  }
+
+  public connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.config, provider);
+  }
+
+  public override async sendTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<ethers.TransactionResponse> {
+    const provider = this.requireProvider();
+    const populated = await this.populateTransaction(tx);
+
+    if (this.config.broadcast === "local") {
+      const signed = await this.rpc<string>("eth_signTransaction", [
+        await this.toRpcTransaction(populated),
+      ]);
+      return provider.broadcastTransaction(signed);
+    }
+
+    const hash = await this.rpc<string>("eth_sendTransaction", [
+      await this.toRpcTransaction(populated),
+    ]);
+    return this.waitForBroadcast(provider, hash);
+  }
+
+  public async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return this.rpc<string>("eth_signTransaction", [
+      await this.toRpcTransaction(tx),
+    ]);
+  }
+
+  public async signMessage(message: string | Uint8Array): Promise<string> {
+    const data =
+      typeof message === "string" ? ethers.toUtf8Bytes(message) : message;
+    return this.rpc<string>("personal_sign", [
+      ethers.hexlify(data),
+      await this.getAddress(),
+    ]);
+  }
+
+  public async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, any>
+  ): Promise<string> {
+    return this.rpc<string>("eth_signTypedData_v4", [
+      await this.getAddress(),
+      JSON.stringify(ethers.TypedDataEncoder.getPayload(domain, types, value)),
+    ]);
+  }
+
+  private requireProvider(): ethers.Provider {
+    if (!this.provider) {
+      throw new ValidationError("Remote signer is not connected to a provider");
+    }
+    return this.provider;
+  }
+
+  /**
+   * The service returned only a hash; fetch the transaction from our provider so callers get a
+   * full `TransactionResponse`.
+   */
+  private async waitForBroadcast(
+    provider: ethers.Provider,
+    hash: string
+  ): Promise<ethers.TransactionResponse> {
+    const deadline = Date.now() + REMOTE_BROADCAST_TIMEOUT;
+    for (
+      let delay = 250;
+      Date.now() < deadline;
+      delay = Math.min(delay * 2, 4000)
+    ) {
+      const response = await provider.getTransaction(hash);
+      if (response) return response;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    throw new NetworkError(
+      `Remote signer broadcast ${hash} but it did not reach the SDK provider within ${REMOTE_BROADCAST_TIMEOUT}ms`
+    );
+  }
+
+  private async toRpcTransaction(
+    tx: ethers.TransactionRequest
+  ): Promise<Record<string, unknown>> {
+    const quantity = (value: ethers.BigNumberish | null | undefined) =>
+      value == null ? undefined : ethers.toQuantity(value);
+    const resolved = await ethers.resolveProperties({
+      to: tx.to ? ethers.resolveAddress(tx.to, this.provider) : undefined,
+      from: tx.from
+        ? ethers.resolveAddress(tx.from, this.provider)
+        : this.getAddress(),
+    });
+    const rpc: Record<string, unknown> = {
+      from: resolved.from,
+      to: resolved.to,
+      data: tx.data ?? undefined,
+      value: quantity(tx.value),
+      nonce: quantity(tx.nonce),
+      gas: quantity(tx.gasLimit),
+      gasPrice: quantity(tx.gasPrice),
+      maxFeePerGas: quantity(tx.maxFeePerGas),
+      maxPriorityFeePerGas: quantity(tx.maxPriorityFeePerGas),
+      chainId: quantity(tx.chainId),
+      type: quantity(tx.type),
+      accessList: tx.accessList
+        ? ethers.accessListify(tx.accessList)
+        : undefined,
+    };
+    Object.keys(rpc).forEach(
+      (key) => rpc[key] === undefined && delete rpc[key]
+    );
+    return rpc;
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const request = new ethers.FetchRequest(this.config.url);
+    Object.entries(this.config.headers ?? {}).forEach(([name, value]) =>
+      request.setHeader(name, value)
+    );
+    request.setHeader("content-type", "application/json");
+    request.body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: ++this.requestId,
+      method,
+      params,
+    });
+
+    let body: { result?: T; error?: { code?: number; message?: string } };
+    try {
+      const response = await request.send();
+      response.assertOk();
+      body = response.bodyJson;
+    } catch (error: unknown) {
+      throw new NetworkError(
+        `Remote signer ${method} request to ${this.config.url} failed`,
+        error
+      );
+    }
+    if (body.error) {
+      throw new StableBirrError(
+        `Remote signer rejected ${method}: ${
+          body.error.message ?? "unknown error"
+        }`,
+        "REMOTE_SIGNER_ERROR",
+        body.error
+      );
+    }
+    return body.result as T;
+  }
+}
@@ -0,0 +1,356 @@
+import { ethers } from "ethers";
+import { StableBirr__factory } from "@/typechain-types";
+import {
+  ContractError,
+  NetworkError,
+  TransactionAbortedError,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionTimeoutError,
+} from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import type {
+  TransactionEventLog,
+  TransactionResult,
+  TransactionState,
+  TransactionStateChange,
+  WaitOptions,
+} from "@/types";
+
+const STABLEBIRR_INTERFACE = StableBirr__factory.createInterface();
+
+/** Consecutive polls without the node knowing the transaction before it counts as dropped. */
+const DROPPED_AFTER_POLLS = 10;
+
+/** How far back to look for the transaction that consumed our nonce. */
+const REPLACEMENT_SCAN_BLOCKS = 100;
+
+/** Polls spent looking for the transaction that consumed our nonce before giving up on it. */
+const REPLACEMENT_LOOKUP_POLLS = 3;
+
+/**
+ * A submitted StableBirr transaction with a tracked lifecycle.
+ *
+ * Every write method on `StableBirrContract` returns one of these instead of a bare
+ * `TransactionResponse`. `wait()` polls the receipt until the requested confirmation depth and
+ * resolves with a `TransactionResult` (receipt, fee, decoded events, duration). Along the way it:
+ *
+ * - follows speed-ups (same call re-sent with a higher fee) to the replacement transaction;
+ * - rejects with `TransactionReplacedError` when the nonce was used for something else;
+ * - rejects with `TransactionDroppedError` when the node forgets the transaction;
+ * - rejects with the decoded revert (`SupplyCapExceededError`, …) when it is mined but fails;
+ * - rejects with `TransactionTimeoutError` / `TransactionAbortedError` on timeout or abort,
+ *   leaving the transaction itself untouched.
+ *
+ * ```ts
+ * const tx = await sbirr.contract.mint(params);
+ * tx.onStateChange(({ state, confirmations }) => console.log(state, confirmations));
+ * const result = await tx.wait({ confirmations: 5, timeout: 120_000 });
+ * console.log(result.fee, result.events.map((e) => e.name));
+ * ```
+ */
+export class ManagedTransaction {
+  /** Hash returned at submission */
+  public readonly hash: string;
+  /** Sender nonce */
+  public readonly nonce: number;
+  /** Epoch milliseconds when the SDK handed the transaction to the provider */
+  public readonly submittedAt: number;
+
+  private currentHash: string;
+  private replacedBySpeedUp = false;
+  private currentState: TransactionState = "submitted";
+  private observedConfirmations = 0;
+  private readonly listeners = new Set<
+    (change: TransactionStateChange) => void
+  >();
+  private readonly startBlock: Promise<number | undefined>;
+
+  constructor(
+    /** Raw ethers response, for callers that need the full transaction envelope */
+    public readonly response: ethers.TransactionResponse,
+    private readonly provider: ethers.Provider
+  ) {
+    this.hash = response.hash;
+    this.currentHash = response.hash;
+    this.nonce = response.nonce;
+    this.submittedAt = Date.now();
+    this.startBlock = provider.getBlockNumber().catch(() => undefined);
+  }
+
+  /**
+   * Current lifecycle state.
+   */
+  public get state(): TransactionState {
+    return this.currentState;
+  }
+
+  /**
+   * Subscribe to state and confirmation-count changes observed by `wait()`.
+   *
+   * @returns Function that removes the listener.
+   */
+  public onStateChange(
+    listener: (change: TransactionStateChange) => void
+  ): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Wait until the transaction (or its speed-up) has `confirmations` confirmations.
+   *
+   * @param options - Wait options, or just the confirmation count (`tx.wait(3)`), as with ethers.
+   * @throws TransactionTimeoutError if `timeout` elapses first.
+   * @throws TransactionAbortedError if `signal` aborts first.
+   * @throws TransactionReplacedError if the nonce was used by a different call.
+   * @throws TransactionDroppedError if the node dropped the transaction.
+   * @throws ContractRevertError (decoded subclass) if the transaction reverted.
+   */
+  public async wait(
+    options: WaitOptions | number = {}
+  ): Promise<TransactionResult> {
+    if (typeof options === "number") options = { confirmations: options };
+    const confirmations = options.confirmations ?? 1;
+    const pollingInterval = options.pollingInterval ?? 1000;
+    const deadline =
+      options.timeout !== undefined ? Date.now() + options.timeout : undefined;
+    const tracker = { missingPolls: 0, lookupPolls: 0 };
+
+    while (true) {
+      this.checkAbort(options.signal);
+      if (deadline !== undefined && Date.now() >= deadline) {
+        throw new TransactionTimeoutError(
+          `Transaction ${this.hash} not confirmed within ${options.timeout}ms`,
+          this.hash
+        );
+      }
+
+      try {
+        const result = await this.poll(confirmations, tracker);
+        if (result) return result;
+      } catch (error: unknown) {
+        // RPC hiccups should not abort a wait; keep polling until the deadline.
+        if (!(error instanceof NetworkError)) throw error;
+      }
+
+      await this.sleep(pollingInterval, options.signal, deadline);
+    }
+  }
+
+  private async poll(
+    confirmations: number,
+    tracker: { missingPolls: number; lookupPolls: number }
+  ): Promise<TransactionResult | undefined> {
+    const receipt = await this.call(() =>
+      this.provider.getTransactionReceipt(this.currentHash)
+    );
+
+    if (receipt) {
+      tracker.missingPolls = 0;
+      if (receipt.status === 0) {
+        this.transition("failed", 0);
+        throw await this.decodeFailure(receipt);
+      }
+      const head = await this.call(() => this.provider.getBlockNumber());
+      const depth = Math.max(1, head - receipt.blockNumber + 1);
+      if (depth >= confirmations) {
+        this.transition("confirmed", depth);
+        return this.toResult(receipt, depth);
+      }
+      // A later wait() asking for more confirmations should not downgrade the state.
+      this.transition(
+        this.currentState === "confirmed" ? "confirmed" : "mined",
+        depth
+      );
+      return undefined;
+    }
+
+    if (this.currentState === "mined") this.transition("submitted", 0);
+
+    const sender = this.response.from;
+    const [pending, used] = await Promise.all([
+      this.call(() => this.provider.getTransaction(this.currentHash)),
+      this.call(() => this.provider.getTransactionCount(sender, "latest")),
+    ]);
+
+    if (used > this.nonce) {
+      await this.handleNonceConsumed(tracker);
+      return undefined;
+    }
+
+    tracker.missingPolls = pending ? 0 : tracker.missingPolls + 1;
+    if (tracker.missingPolls >= DROPPED_AFTER_POLLS) {
+      this.transition("dropped", 0);
+      throw new TransactionDroppedError(
+        `Transaction ${this.hash} was dropped from the mempool`,
+        this.hash
+      );
+    }
+    return undefined;
+  }
+
+  /**
+   * Our nonce is used but our hash is not mined: find the transaction that took the slot.
+   */
+  private async handleNonceConsumed(tracker: {
+    lookupPolls: number;
+  }): Promise<void> {
+    const replacement = await this.findReplacement();
+    // Mined between our receipt and nonce reads: the next poll picks up the receipt.
+    if (replacement?.hash === this.currentHash) return;
+    // Block reads can lag the nonce (provider caching); look again before calling it unknown.
+    if (!replacement && ++tracker.lookupPolls < REPLACEMENT_LOOKUP_POLLS)
+      return;
+    if (
+      replacement &&
+      replacement.to?.toLowerCase() === this.response.to?.toLowerCase() &&
+      replacement.data === this.response.data &&
+      replacement.value === this.response.value
+    ) {
+      this.currentHash = replacement.hash;
+      this.replacedBySpeedUp = true;
+      this.transition("replaced", 0);
+      return;
+    }
+
+    this.transition("replaced", 0);
+    const cancelled =
+      !!replacement &&
+      replacement.to?.toLowerCase() === this.response.from.toLowerCase() &&
+      replacement.value === 0n &&
+      replacement.data === "0x";
+    throw new TransactionReplacedError(
+      `Transaction ${this.hash} was ${cancelled ? "cancelled" : "replaced"}`,
+      this.hash,
+      cancelled ? "cancelled" : "replaced",
+      replacement?.hash
+    );
+  }
+
+  private async findReplacement(): Promise<ethers.TransactionResponse | null> {
+    const head = await this.call(() => this.provider.getBlockNumber());
+    const start = Math.max(
+      (await this.startBlock) ?? head - REPLACEMENT_SCAN_BLOCKS,
+      head - REPLACEMENT_SCAN_BLOCKS,
+      0
+    );
+    const sender = this.response.from.toLowerCase();
+
+    for (let number = head; number >= start; number--) {
+      const block = await this.call(() => this.provider.getBlock(number, true));
+      const match = block?.prefetchedTransactions.find(
+        (tx) => tx.from.toLowerCase() === sender && tx.nonce === this.nonce
+      );
+      if (match) return match;
+    }
+    return null;
+  }
+
+  /**
+   * Replay the reverted call at its block to recover the revert data, then decode it.
+   */
+  private async decodeFailure(
+    receipt: ethers.TransactionReceipt
+  ): Promise<Error> {
+    try {
+      await this.provider.call({
+        from: this.response.from,
+        to: this.response.to,
+        data: this.response.data,
+        value: this.response.value,
+        blockTag: receipt.blockNumber,
+      });
+    } catch (error: unknown) {
+      return toStableBirrError(error, `Transaction ${receipt.hash} reverted`);
+    }
+    return new ContractError(`Transaction ${receipt.hash} reverted`, receipt);
+  }
+
+  private toResult(
+    receipt: ethers.TransactionReceipt,
+    confirmations: number
+  ): TransactionResult {
+    const events: TransactionEventLog[] = [];
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.response.to?.toLowerCase()) {
+        continue;
+      }
+      const parsed = STABLEBIRR_INTERFACE.parseLog(log);
+      if (!parsed) continue;
+      const args: Record<string, unknown> = {};
+      parsed.fragment.inputs.forEach((input, i) => {
+        args[input.name] = parsed.args[i];
+      });
+      events.push({ name: parsed.name, logIndex: log.index, args });
+    }
+
+    return {
+      hash: receipt.hash,
+      originalHash: this.hash,
+      replaced: this.replacedBySpeedUp,
+      receipt,
+      blockNumber: receipt.blockNumber,
+      confirmations,
+      gasUsed: receipt.gasUsed,
+      effectiveGasPrice: receipt.gasPrice,
+      fee: receipt.fee,
+      events,
+      durationMs: Date.now() - this.submittedAt,
+    };
+  }
+
+  private transition(state: TransactionState, confirmations: number): void {
+    if (
+      state === this.currentState &&
+      confirmations === this.observedConfirmations
+    ) {
+      return;
+    }
+    this.currentState = state;
+    this.observedConfirmations = confirmations;
+    const change = { state, hash: this.currentHash, confirmations };
+    this.listeners.forEach((listener) => listener(change));
+  }
+
+  private checkAbort(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      throw new TransactionAbortedError(
+        `Stopped waiting for transaction ${this.hash}`,
+        this.hash,
+        signal.reason
+      );
+    }
+  }
+
+  private async call<T>(request: () => Promise<T>): Promise<T> {
+    try {
+      return await request();
+    } catch (error: unknown) {
+      throw toStableBirrError(
+        error,
+        `Failed to track transaction ${this.hash}`
+      );
+    }
+  }
+
+  private sleep(
+    ms: number,
+    signal: AbortSignal | undefined,
+    deadline: number | undefined
+  ): Promise<void> {
+    const duration =
+      deadline !== undefined
+        ? Math.max(0, Math.min(ms, deadline - Date.now()))
+        : ms;
+    return new Promise((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      };
+      const timer = setTimeout(done, duration);
+      signal?.addEventListener("abort", done, { once: true });
+    });
+  }
+}
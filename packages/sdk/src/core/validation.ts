@@ -1,5 +1,8 @@
 import { ethers } from "ethers";
+import type { z } from "zod/v4";
 import { ValidationError } from "@/core/errors";
+import { toWei, toScaledRate, formatTokenAmount } from "@/core/amount";
+import type { Amount, NetworkDefinition, Rate } from "@/types";
 
 export function validateAddress(address: string): string {
   if (!ethers.isAddress(address)) {
@@ -8,25 +11,78 @@ export function validateAddress(address: string): string {
   return address;
 }
 
-export function validateAmount(amount: string): string {
-  try {
-    const val = parseFloat(amount);
-    if (isNaN(val) || val <= 0) {
-      throw new ValidationError(
-        `Invalid amount: ${amount}. Must be positive number.`
-      );
-    }
-    return amount;
-  } catch (e) {
-    throw new ValidationError(`Invalid amount format: ${amount}`);
+/**
+ * Check that `amount` is a positive `Amount`. Exact: no floating point is involved, so large
+ * balances and 18-decimal values keep every digit.
+ */
+export function validateAmount<T extends Amount>(amount: T): T {
+  if (toWei(amount) === 0n) {
+    throw new ValidationError(
+      `Invalid amount: ${formatTokenAmount(amount)}. Must be positive.`
+    );
   }
+  return amount;
+}
+
+/**
+ * Check that `rate` is a well-formed `Rate` within `MIN_RATE`..`MAX_RATE`.
+ */
+export function validateRate<T extends Rate>(rate: T): T {
+  toScaledRate(rate);
+  return rate;
 }
 
-export function validateRate(rate: number): number {
-  if (rate <= 0) {
+/**
+ * Check that a custom network has a name, a positive integer chain ID, an RPC URL and, when set,
+ * a valid contract address.
+ */
+export function validateChain(chain: NetworkDefinition): NetworkDefinition {
+  if (!chain.name) {
+    throw new ValidationError("Custom network requires a name");
+  }
+  if (!Number.isInteger(chain.chainId) || chain.chainId <= 0) {
     throw new ValidationError(
-      `Invalid exchange rate: ${rate}. Must be positive.`
+      `Invalid chain ID for ${chain.name}: ${chain.chainId}`
     );
   }
-  return rate;
+  if (!chain.rpcUrl) {
+    throw new ValidationError(
+      `Custom network ${chain.name} requires an rpcUrl`
+    );
+  }
+  if (chain.contractAddress !== undefined) {
+    validateAddress(chain.contractAddress);
+  }
+  if (chain.minPriorityFee !== undefined && chain.minPriorityFee < 0n) {
+    throw new ValidationError(
+      `minPriorityFee for ${chain.name} cannot be negative`
+    );
+  }
+  return chain;
+}
+
+/**
+ * Run a Zod schema and convert failures into a `ValidationError` labelled with the operation.
+ */
+export function validateParams(
+  schema: z.ZodType,
+  params: unknown,
+  label: string
+): void {
+  const validation = schema.safeParse(params);
+  if (!validation.success) {
+    throw new ValidationError(`Invalid ${label} parameters`, validation.error);
+  }
+}
+
+/**
+ * Run a handler's argument builder, surfacing unit-conversion failures (e.g. too many decimals)
+ * as `ValidationError`s instead of raw ethers errors.
+ */
+export function buildCallArgs<T>(builder: () => T): T {
+  try {
+    return builder();
+  } catch (error: unknown) {
+    throw new ValidationError("Failed to encode call arguments", error);
+  }
 }
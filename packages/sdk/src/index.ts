@@ -1,15 +1,27 @@
 export { StableBirr } from "@/client";
 export { StableBirr as default } from "@/client";
+export { StableBirrMultiNetwork } from "@/multi-network";
 
 // Export types
 export * from "@/types";
 
 // Export error classes
 export * from "@/core/errors";
+export * from "@/core/error-decoder";
+export * from "@/core/transaction";
+export * from "@/core/nonce-manager";
+export * from "@/core/fees";
+export * from "@/core/signers";
+export * from "@/core/amount";
+export * from "@/core/deployment";
+export * from "@/core/rpc";
 
 // Export resources
 export * from "@/resources/contract";
 export * from "@/resources/nbe";
+export * from "@/resources/indexer";
+export * from "@/resources/bulk";
+export * from "@/resources/relayer";
 
 // Export utility namespaces
 export * as Utils from "@/utils/formatting";
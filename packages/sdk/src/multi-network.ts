@@ -0,0 +1,251 @@
+import type {
+  AmountAggregate,
+  MultiNetworkConfig,
+  NetworkAggregate,
+  NetworkClientConfig,
+  NetworkKey,
+  StableBirrConfig,
+  TokenAmount,
+} from "@/types";
+import { StableBirr } from "@/client";
+import { NETWORKS } from "@/constants/networks";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toTokenAmount } from "@/core/amount";
+
+const SIGNER_SOURCES = [
+  "privateKey",
+  "signer",
+  "keystore",
+  "remoteSigner",
+] as const;
+
+/**
+ * One SDK entry point for services that work on several chains at once (e.g. Polygon mainnet and
+ * Amoy), instead of one hand-configured `StableBirr` per chain.
+ *
+ * Each network gets its own `StableBirr` (provider, signer, contract, fees, nonce manager) built
+ * from shared `defaults` plus per-network overrides. Calls are routed by network key, custom EVM
+ * networks can be registered next to the built-in ones, and common reads are fanned out and
+ * summed.
+ *
+ * ```ts
+ * const sbirr = new StableBirrMultiNetwork({
+ *   defaults: { privateKey: process.env.PRIVATE_KEY },
+ *   networks: {
+ *     polygon: { rpcUrl: process.env.POLYGON_RPC_URL },
+ *     amoy: { rpcUrl: process.env.AMOY_RPC_URL, contractAddress: AMOY_PROXY },
+ *   },
+ * });
+ *
+ * await sbirr.network("amoy").contract.getBalance(treasury);
+ * const supply = await sbirr.getTotalSupply(); // { total, networks: { polygon, amoy }, ... }
+ * ```
+ *
+ * A `signer` that is already connected to a provider is bound to that provider's chain, so it
+ * cannot be shared through `defaults`; set it per network instead. The same goes for a nonce
+ * manager `lockFile`: nonces are per chain, so give each network its own file.
+ */
+export class StableBirrMultiNetwork {
+  private readonly clients = new Map<NetworkKey, StableBirr>();
+  private readonly defaults: MultiNetworkConfig["defaults"];
+
+  /**
+   * @throws ValidationError if a network's configuration is invalid (see `register`).
+   */
+  constructor(config: MultiNetworkConfig = {}) {
+    this.defaults = config.defaults;
+    if (this.defaults?.signer?.provider) {
+      throw new ValidationError(
+        "A signer connected to a provider only works on that provider's chain; configure it per network"
+      );
+    }
+
+    for (const [key, overrides] of Object.entries(config.networks ?? {})) {
+      this.register(key, overrides);
+    }
+    for (const [key, overrides] of Object.entries(config.chains ?? {})) {
+      this.register(key, overrides);
+    }
+  }
+
+  /**
+   * Add a network and return its client. Built-in networks (`mainnet`, `polygon`, `amoy`,
+   * `local`) need no `chain`; any other key must come with one.
+   *
+   * ```ts
+   * sbirr.register("base-sepolia", {
+   *   chain: { name: "Base Sepolia", chainId: 84532, rpcUrl, contractAddress },
+   * });
+   * ```
+   *
+   * @throws ValidationError if the key is already registered, a custom key has no `chain`, or
+   *   the merged configuration is rejected by `StableBirr`.
+   */
+  public register(
+    key: NetworkKey,
+    config: NetworkClientConfig & Pick<StableBirrConfig, "chain"> = {}
+  ): StableBirr {
+    if (this.clients.has(key)) {
+      throw new ValidationError(`Network ${key} is already registered`);
+    }
+    const builtIn = Object.keys(NETWORKS).includes(key);
+    if (!builtIn && !config.chain) {
+      throw new ValidationError(
+        `${key} is not a built-in network; pass its chain definition`
+      );
+    }
+
+    const client = new StableBirr({
+      ...this.merge(config),
+      network: builtIn ? (key as keyof typeof NETWORKS) : undefined,
+    });
+    this.clients.set(key, client);
+    return client;
+  }
+
+  /**
+   * Remove a network. Returns `false` if it was not registered.
+   */
+  public unregister(key: NetworkKey): boolean {
+    return this.clients.delete(key);
+  }
+
+  /**
+   * The client for `key`, for any call that targets one network.
+   *
+   * @throws ValidationError if the network is not registered.
+   */
+  public network(key: NetworkKey): StableBirr {
+    const client = this.clients.get(key);
+    if (!client) {
+      throw new ValidationError(`Network ${key} is not registered`);
+    }
+    return client;
+  }
+
+  /** Whether `key` is registered */
+  public has(key: NetworkKey): boolean {
+    return this.clients.has(key);
+  }
+
+  /** Registered network keys, in registration order */
+  public get networks(): NetworkKey[] {
+    return [...this.clients.keys()];
+  }
+
+  /**
+   * Verify every network's deployment (see `StableBirr.connect`). Every network is checked even
+   * if one fails, so the healthy ones are unlocked for privileged calls.
+   *
+   * @throws the first network's verification error, if any failed.
+   */
+  public async connect(networks?: NetworkKey[]): Promise<this> {
+    const results = await this.map((client) => client.connect(), networks);
+    const failed = Object.values(results.errors)[0];
+    if (failed) throw failed;
+    return this;
+  }
+
+  /**
+   * Run `read` on every network (or only `networks`) in parallel and collect the results. A
+   * failing network is reported in `errors` rather than rejecting the whole call.
+   *
+   * ```ts
+   * const paused = await sbirr.map((client) => client.contract.isPaused());
+   * ```
+   *
+   * @throws ValidationError if `networks` names an unregistered network.
+   */
+  public async map<T>(
+    read: (client: StableBirr, network: NetworkKey) => Promise<T>,
+    networks: NetworkKey[] = this.networks
+  ): Promise<NetworkAggregate<T>> {
+    const targets = networks.map((key) => [key, this.network(key)] as const);
+    const settled = await Promise.allSettled(
+      targets.map(([key, client]) => read(client, key))
+    );
+
+    const aggregate: NetworkAggregate<T> = {
+      networks: {},
+      errors: {},
+      complete: true,
+    };
+    settled.forEach((result, index) => {
+      const key = targets[index]![0];
+      if (result.status === "fulfilled") {
+        aggregate.networks[key] = result.value;
+      } else {
+        aggregate.errors[key] = toStableBirrError(
+          result.reason,
+          `Read on ${key} failed`
+        );
+        aggregate.complete = false;
+      }
+    });
+    return aggregate;
+  }
+
+  /**
+   * Total supply on every network, and their sum.
+   */
+  public async getTotalSupply(
+    networks?: NetworkKey[]
+  ): Promise<AmountAggregate> {
+    return this.sum((client) => client.contract.getTotalSupply(), networks);
+  }
+
+  /**
+   * Balance of `address` on every network, and their sum.
+   */
+  public async getBalance(
+    address: string,
+    networks?: NetworkKey[]
+  ): Promise<AmountAggregate> {
+    return this.sum((client) => client.contract.getBalance(address), networks);
+  }
+
+  /**
+   * Cumulative USD recorded by mints on every network, and their sum.
+   */
+  public async getTotalUSDConverted(
+    networks?: NetworkKey[]
+  ): Promise<AmountAggregate> {
+    return this.sum(
+      (client) => client.contract.getTotalUSDConverted(),
+      networks
+    );
+  }
+
+  /**
+   * Cumulative SBirr burned on every network, and their sum.
+   */
+  public async getTotalBurned(
+    networks?: NetworkKey[]
+  ): Promise<AmountAggregate> {
+    return this.sum((client) => client.contract.getTotalBurned(), networks);
+  }
+
+  private async sum(
+    read: (client: StableBirr) => Promise<TokenAmount>,
+    networks?: NetworkKey[]
+  ): Promise<AmountAggregate> {
+    const results = await this.map(read, networks);
+    const total = Object.values(results.networks).reduce(
+      (sum, amount) => sum + amount!.wei,
+      0n
+    );
+    return { ...results, total: toTokenAmount(total) };
+  }
+
+  /**
+   * `defaults` overlaid with `overrides`; a signer source in `overrides` replaces the default one.
+   */
+  private merge(overrides: NetworkClientConfig): NetworkClientConfig {
+    const defaults: NetworkClientConfig = { ...this.defaults };
+    if (SIGNER_SOURCES.some((source) => overrides[source] !== undefined)) {
+      for (const source of SIGNER_SOURCES) delete defaults[source];
+    }
+    return { ...defaults, ...overrides };
+  }
+}
@@ -0,0 +1,70 @@
+import { StableBirrError } from "@/core/errors";
+import type {
+  BulkJournal,
+  BulkJournalEntry,
+} from "@/resources/bulk/bulk.types";
+
+/**
+ * Keeps the journal in memory. Lets a run be retried within one process; nothing survives a
+ * restart.
+ */
+export class MemoryBulkJournal implements BulkJournal {
+  private readonly entries: BulkJournalEntry[] = [];
+
+  public async load(): Promise<BulkJournalEntry[]> {
+    return structuredClone(this.entries);
+  }
+
+  public async append(entry: BulkJournalEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+  }
+}
+
+/**
+ * Append-only JSON-lines journal (Node.js / Bun only).
+ *
+ * Each record is one `appendFile` of a single line, so a crash can at worst leave a truncated
+ * final line, which `load()` ignores.
+ */
+export class FileBulkJournal implements BulkJournal {
+  constructor(private readonly path: string) {}
+
+  public async load(): Promise<BulkJournalEntry[]> {
+    const fs = await import("node:fs/promises");
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.path, "utf8");
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw new StableBirrError(
+        `Failed to read bulk journal ${this.path}`,
+        "BULK_JOURNAL_ERROR",
+        error
+      );
+    }
+
+    const entries: BulkJournalEntry[] = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        entries.push(JSON.parse(line));
+      } catch {
+        // Torn write from a crash; the row it described is re-checked on resume.
+      }
+    }
+    return entries;
+  }
+
+  public async append(entry: BulkJournalEntry): Promise<void> {
+    const fs = await import("node:fs/promises");
+    try {
+      await fs.appendFile(this.path, `${JSON.stringify(entry)}\n`, "utf8");
+    } catch (error: unknown) {
+      throw new StableBirrError(
+        `Failed to write bulk journal ${this.path}`,
+        "BULK_JOURNAL_ERROR",
+        error
+      );
+    }
+  }
+}
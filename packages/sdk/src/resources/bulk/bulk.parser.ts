@@ -0,0 +1,111 @@
+import { ValidationError } from "@/core/errors";
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped `""`, CRLF or LF) into records keyed by the
+ * header row. Blank lines are ignored; surrounding whitespace is trimmed from every field.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows = splitCsv(text).filter((row) =>
+    row.some((field) => field.trim() !== "")
+  );
+  const [first, ...data] = rows;
+  if (!first) return [];
+
+  const header = first.map((field) => field.trim());
+  return data.map((row, index) => {
+    if (row.length !== header.length) {
+      throw new ValidationError(
+        `CSV row ${index + 1} has ${row.length} fields, expected ${
+          header.length
+        }`
+      );
+    }
+    const record: Record<string, string> = {};
+    header.forEach((name, i) => {
+      record[name] = (row[i] ?? "").trim();
+    });
+    return record;
+  });
+}
+
+/**
+ * Parse a JSON array of row objects.
+ */
+export function parseJsonRows(text: string): Record<string, unknown>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error: unknown) {
+    throw new ValidationError("Bulk input is not valid JSON", error);
+  }
+  if (
+    !Array.isArray(parsed) ||
+    parsed.some((row) => typeof row !== "object" || row === null)
+  ) {
+    throw new ValidationError("Bulk JSON input must be an array of objects");
+  }
+  return parsed;
+}
+
+/**
+ * Serialize records as CSV with a header row taken from the first record's keys. Fields that
+ * contain commas, quotes or line breaks are quoted; `undefined` becomes an empty field.
+ */
+export function formatCsv(records: Record<string, unknown>[]): string {
+  const [first] = records;
+  if (!first) return "";
+  const header = Object.keys(first);
+  const escape = (value: unknown) => {
+    const field = value === undefined || value === null ? "" : String(value);
+    return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  };
+  return (
+    [
+      header.join(","),
+      ...records.map((record) =>
+        header.map((name) => escape(record[name])).join(",")
+      ),
+    ].join("\n") + "\n"
+  );
+}
+
+function splitCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) throw new ValidationError("CSV input has an unterminated quote");
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
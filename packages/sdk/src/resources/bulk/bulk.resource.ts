@@ -0,0 +1,566 @@
+import { ethers } from "ethers";
+import type { z } from "zod/v4";
+import {
+  ContractError,
+  ContractRevertError,
+  FeeCeilingExceededError,
+  StableBirrError,
+  TransactionAbortedError,
+  TransactionDroppedError,
+  TransactionReplacedError,
+  TransactionTimeoutError,
+  ValidationError,
+} from "@/core/errors";
+import type { ManagedTransaction } from "@/core/transaction";
+import { TOKEN_DECIMALS, formatTokenAmount } from "@/core/amount";
+import type { Amount } from "@/types";
+import type { StableBirrContract } from "@/resources/contract/contract.resource";
+import {
+  BlacklistParamsSchema,
+  FreezeParamsSchema,
+  MintParamsSchema,
+  TransferParamsSchema,
+} from "@/resources/contract/contract.validator";
+import {
+  formatCsv,
+  parseCsv,
+  parseJsonRows,
+} from "@/resources/bulk/bulk.parser";
+import {
+  FileBulkJournal,
+  MemoryBulkJournal,
+} from "@/resources/bulk/bulk.journal";
+import type {
+  BulkJournal,
+  BulkJournalEntry,
+  BulkOperation,
+  BulkOperationParams,
+  BulkReport,
+  BulkRow,
+  BulkRowError,
+  BulkRowIssue,
+  BulkRowResult,
+  BulkRunOptions,
+} from "@/resources/bulk/bulk.types";
+
+type RowEntry = Extract<BulkJournalEntry, { type: "row" }>;
+
+interface OperationSpec<K extends BulkOperation> {
+  schema: z.ZodType;
+  toParams(record: Record<string, unknown>): BulkOperationParams[K];
+  send(
+    contract: StableBirrContract,
+    params: BulkOperationParams[K]
+  ): Promise<ManagedTransaction>;
+  /** Skip reason when the row's effect is already on-chain (idempotent operations only) */
+  applied?(
+    contract: StableBirrContract,
+    params: BulkOperationParams[K]
+  ): Promise<string | undefined>;
+}
+
+const text = (value: unknown) =>
+  value === undefined || value === null ? value : String(value);
+
+/**
+ * Amount columns become decimal SBirr strings, so `bigint` / `{ wei }` values from array input
+ * keep their unit and rows stay JSON- and CSV-safe. A blank cell counts as omitted (a mint then
+ * derives its amount from the rate); invalid values are left for the schema.
+ */
+const amount = (value: unknown) => {
+  if (typeof value === "string" && value.trim() === "") return undefined;
+  if (typeof value !== "bigint" && (typeof value !== "object" || !value)) {
+    return text(value);
+  }
+  try {
+    return formatTokenAmount(value as Amount);
+  } catch {
+    return String(value);
+  }
+};
+
+/** Rates become decimal strings too; a scaled `bigint` is formatted back to ETB per USD. */
+const rate = (value: unknown) =>
+  typeof value === "bigint"
+    ? ethers.formatUnits(value, TOKEN_DECIMALS)
+    : text(value);
+
+const OPERATIONS: { [K in BulkOperation]: OperationSpec<K> } = {
+  mint: {
+    schema: MintParamsSchema,
+    toParams: (record) =>
+      ({
+        to: text(record.to),
+        amount: amount(record.amount),
+        usdAmount: amount(record.usdAmount),
+        rate: rate(record.rate),
+      } as BulkOperationParams["mint"]),
+    send: (contract, params) => contract.mint(params),
+  },
+  transfer: {
+    schema: TransferParamsSchema,
+    toParams: (record) =>
+      ({
+        to: text(record.to),
+        amount: amount(record.amount),
+      } as BulkOperationParams["transfer"]),
+    send: (contract, params) => contract.transfer(params),
+  },
+  blacklist: {
+    schema: BlacklistParamsSchema,
+    toParams: (record) =>
+      ({ account: text(record.account) } as BulkOperationParams["blacklist"]),
+    send: (contract, params) => contract.blacklist(params),
+    applied: async (contract, params) =>
+      (await contract.isBlacklisted(params.account))
+        ? "Account already blacklisted"
+        : undefined,
+  },
+  freeze: {
+    schema: FreezeParamsSchema,
+    toParams: (record) =>
+      ({
+        account: text(record.account),
+        reason: text(record.reason),
+      } as BulkOperationParams["freeze"]),
+    send: (contract, params) => contract.freeze(params),
+    applied: async (contract, params) =>
+      (await contract.isFrozen(params.account))
+        ? "Account already frozen"
+        : undefined,
+  },
+};
+
+/**
+ * Resumable bulk execution of mint, transfer, blacklist and freeze from CSV/JSON input.
+ *
+ * **How a run works**
+ * 1. Every row is parsed and validated against the same Zod schema as the single-call method;
+ *    one bad row rejects the whole file before anything is sent.
+ * 2. Rows execute with bounded concurrency through the regular `StableBirrContract` methods.
+ * 3. Each step is appended to a journal: `sending` before broadcast, then `submitted` (hash,
+ *    nonce), then `confirmed` / `skipped` / `failed`.
+ * 4. Re-running with the same input and journal skips finished rows, re-attaches to submitted
+ *    transactions instead of re-sending them, and retries failed ones. A row whose send may have
+ *    gone out without a recorded hash is reported as `needs_review` rather than risk a duplicate
+ *    (blacklist/freeze rows are resolved by reading on-chain state instead).
+ *
+ * ```ts
+ * const report = await sbirr.contract.bulk.runFile("blacklist", "./sanctions.csv", {
+ *   journal: "./sanctions.journal",
+ *   concurrency: 4,
+ *   reportPath: "./sanctions.report.csv",
+ * });
+ * ```
+ */
+export class StableBirrBulk {
+  constructor(private readonly contract: StableBirrContract) {}
+
+  /**
+   * Parse CSV text, JSON text or an array of objects into rows for `operation`. Columns are
+   * matched by name to the operation's params (`to,amount,usdAmount,rate` for mint, …).
+   */
+  public parse<K extends BulkOperation>(
+    operation: K,
+    input: string | Record<string, unknown>[],
+    format?: "csv" | "json"
+  ): BulkRow<K>[] {
+    const spec = this.spec(operation);
+    const records =
+      typeof input !== "string"
+        ? input
+        : (format ?? detectFormat(input)) === "json"
+        ? parseJsonRows(input)
+        : parseCsv(input);
+
+    return records.map((record, index) => {
+      const params = spec.toParams(record);
+      const line = index + 1;
+      return {
+        line,
+        params,
+        rowId: ethers.id(JSON.stringify([operation, line, params])),
+      };
+    });
+  }
+
+  /**
+   * Validate every row; an empty array means the input is ready to run.
+   */
+  public validate<K extends BulkOperation>(
+    operation: K,
+    rows: BulkRow<K>[]
+  ): BulkRowIssue[] {
+    const spec = this.spec(operation);
+    return rows.flatMap((row) => {
+      const validation = spec.schema.safeParse(row.params);
+      if (validation.success) return [];
+      return [
+        {
+          line: row.line,
+          message: validation.error.issues
+            .map((issue) => `${issue.path.join(".")}: ${issue.message}`)
+            .join("; "),
+          details: validation.error,
+        },
+      ];
+    });
+  }
+
+  /**
+   * Read `path` (`.json` is parsed as JSON, anything else as CSV) and `run` it.
+   */
+  public async runFile<K extends BulkOperation>(
+    operation: K,
+    path: string,
+    options: BulkRunOptions<K> = {}
+  ): Promise<BulkReport<K>> {
+    const fs = await import("node:fs/promises");
+    let input: string;
+    try {
+      input = await fs.readFile(path, "utf8");
+    } catch (error: unknown) {
+      throw new ValidationError(`Failed to read bulk input ${path}`, error);
+    }
+    return this.run(operation, input, {
+      format: path.toLowerCase().endsWith(".json") ? "json" : "csv",
+      ...options,
+    });
+  }
+
+  /**
+   * Validate and execute every row, resuming from `options.journal` when it has entries.
+   *
+   * @throws ValidationError if any row is invalid (`details` lists each `BulkRowIssue`), or the
+   *   journal belongs to a different operation or input.
+   */
+  public async run<K extends BulkOperation>(
+    operation: K,
+    input: string | Record<string, unknown>[],
+    options: BulkRunOptions<K> = {}
+  ): Promise<BulkReport<K>> {
+    const startedAt = Date.now();
+    const rows = this.parse(operation, input, options.format);
+    const issues = this.validate(operation, rows);
+    if (issues.length > 0) {
+      throw new ValidationError(
+        `${issues.length} of ${rows.length} ${operation} rows are invalid`,
+        issues
+      );
+    }
+
+    const concurrency = options.concurrency ?? 1;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new ValidationError(
+        `Invalid concurrency: ${concurrency}. Must be a positive integer.`
+      );
+    }
+
+    const journal =
+      typeof options.journal === "string"
+        ? new FileBulkJournal(options.journal)
+        : options.journal ?? new MemoryBulkJournal();
+    const previous = await this.openJournal(journal, operation, rows);
+
+    const results: BulkRowResult<K>[] = rows.map((row) => ({
+      line: row.line,
+      rowId: row.rowId,
+      params: row.params,
+      status: "pending",
+      resumed: false,
+    }));
+
+    let next = 0;
+    let halted = false;
+    const worker = async () => {
+      while (next < rows.length && !halted && !options.signal?.aborted) {
+        const index = next++;
+        const row = rows[index]!;
+        const result = await this.processRow(
+          operation,
+          row,
+          previous.get(row.rowId),
+          journal,
+          options
+        );
+        results[index] = result;
+        options.onRow?.(result);
+        if (result.status === "failed" && options.continueOnError === false) {
+          halted = true;
+        }
+      }
+    };
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, rows.length) }, worker)
+    );
+
+    const report: BulkReport<K> = {
+      operation,
+      total: rows.length,
+      confirmed: count(results, "confirmed"),
+      skipped: count(results, "skipped"),
+      failed: count(results, "failed"),
+      needsReview: count(results, "needs_review"),
+      pending: count(results, "pending"),
+      startedAt,
+      finishedAt: Date.now(),
+      rows: results,
+    };
+    if (options.reportPath) await writeReport(options.reportPath, report);
+    return report;
+  }
+
+  private async openJournal(
+    journal: BulkJournal,
+    operation: BulkOperation,
+    rows: BulkRow[]
+  ): Promise<Map<string, RowEntry>> {
+    const inputHash = ethers.id(rows.map((row) => row.rowId).join(","));
+    const entries = await journal.load();
+    const header = entries.find((entry) => entry.type === "run");
+
+    if (!header) {
+      await journal.append({
+        type: "run",
+        operation,
+        inputHash,
+        at: Date.now(),
+      });
+    } else if (
+      header.operation !== operation ||
+      header.inputHash !== inputHash
+    ) {
+      throw new ValidationError(
+        `Bulk journal belongs to a different run (${header.operation}); use a new journal for this input`
+      );
+    }
+
+    const latest = new Map<string, RowEntry>();
+    for (const entry of entries) {
+      if (entry.type === "row") latest.set(entry.rowId, entry);
+    }
+    return latest;
+  }
+
+  private async processRow<K extends BulkOperation>(
+    operation: K,
+    row: BulkRow<K>,
+    previous: RowEntry | undefined,
+    journal: BulkJournal,
+    options: BulkRunOptions<K>
+  ): Promise<BulkRowResult<K>> {
+    const spec = this.spec(operation);
+    const base = { line: row.line, rowId: row.rowId, params: row.params };
+    const record = (entry: Omit<RowEntry, "type" | "rowId" | "line" | "at">) =>
+      journal.append({
+        type: "row",
+        rowId: row.rowId,
+        line: row.line,
+        at: Date.now(),
+        ...entry,
+      });
+    // The journal says a transaction for this row may exist, so only a definite outcome may
+    // overwrite it with `failed` (which the next run would re-send).
+    let inFlight =
+      previous?.status === "sending" || previous?.status === "submitted";
+    let sending = false;
+
+    try {
+      if (previous?.status === "confirmed" || previous?.status === "skipped") {
+        return {
+          ...base,
+          status: previous.status,
+          resumed: true,
+          transactionHash: previous.hash,
+          blockNumber: previous.blockNumber,
+          reason: previous.reason,
+        };
+      }
+
+      if (previous?.status === "submitted" && previous.hash) {
+        const tx = await this.contract.getTransaction(previous.hash);
+        if (tx) return await this.settle(base, tx, record, options, true);
+      }
+
+      const unresolved =
+        previous?.status === "sending" || previous?.status === "submitted";
+      const skip = await spec.applied?.(this.contract, row.params);
+      if (skip) {
+        await record({ status: "skipped", reason: skip });
+        return {
+          ...base,
+          status: "skipped",
+          resumed: unresolved,
+          reason: skip,
+        };
+      }
+      if (unresolved) {
+        return {
+          ...base,
+          status: "needs_review",
+          resumed: true,
+          transactionHash: previous.hash,
+          reason: previous.hash
+            ? "Transaction from a previous run is unknown to the node"
+            : "A previous run may have sent this row before recording its hash",
+        };
+      }
+
+      await record({ status: "sending" });
+      inFlight = sending = true;
+      const tx = await spec.send(this.contract, row.params);
+      sending = false;
+      await record({ status: "submitted", hash: tx.hash, nonce: tx.nonce });
+      return await this.settle(base, tx, record, options, false);
+    } catch (error: unknown) {
+      if (
+        error instanceof StableBirrError &&
+        error.code === "BULK_JOURNAL_ERROR"
+      ) {
+        throw error;
+      }
+      const failure = toRowError(error);
+      const settled = sending
+        ? failedBeforeBroadcast(error)
+        : !inFlight || isFinalOutcome(error);
+      if (!settled) {
+        return {
+          ...base,
+          status: "needs_review",
+          resumed: false,
+          error: failure,
+          reason: sending
+            ? "Send failed after the transaction may have been broadcast"
+            : "The transaction sent for this row is unresolved",
+        };
+      }
+      await record({ status: "failed", error: failure });
+      return { ...base, status: "failed", resumed: false, error: failure };
+    }
+  }
+
+  private async settle<K extends BulkOperation>(
+    base: Pick<BulkRowResult<K>, "line" | "rowId" | "params">,
+    tx: ManagedTransaction,
+    record: (
+      entry: Omit<RowEntry, "type" | "rowId" | "line" | "at">
+    ) => Promise<void>,
+    options: BulkRunOptions<K>,
+    resumed: boolean
+  ): Promise<BulkRowResult<K>> {
+    try {
+      const result = await tx.wait({
+        confirmations: options.confirmations,
+        timeout: options.timeout,
+      });
+      await record({
+        status: "confirmed",
+        hash: result.hash,
+        blockNumber: result.blockNumber,
+      });
+      return {
+        ...base,
+        status: "confirmed",
+        resumed,
+        transactionHash: result.hash,
+        blockNumber: result.blockNumber,
+      };
+    } catch (error: unknown) {
+      // Still in flight: leave the journal at `submitted` so the next run re-attaches.
+      if (
+        error instanceof TransactionTimeoutError ||
+        error instanceof TransactionAbortedError
+      ) {
+        return {
+          ...base,
+          status: "pending",
+          resumed,
+          transactionHash: tx.hash,
+          error: toRowError(error),
+        };
+      }
+      throw error;
+    }
+  }
+
+  private spec<K extends BulkOperation>(operation: K): OperationSpec<K> {
+    const spec = OPERATIONS[operation];
+    if (!spec) {
+      throw new ValidationError(`Unsupported bulk operation: ${operation}`);
+    }
+    return spec;
+  }
+}
+
+function detectFormat(input: string): "csv" | "json" {
+  return input.trimStart().startsWith("[") ? "json" : "csv";
+}
+
+function count(results: BulkRowResult[], status: BulkRowResult["status"]) {
+  return results.filter((result) => result.status === status).length;
+}
+
+/**
+ * Errors a send throws before anything reaches the network: invalid params, a revert during gas
+ * estimation, or a fee ceiling hold. Anything else (a timeout, a node error) may come after the
+ * transaction was broadcast.
+ */
+function failedBeforeBroadcast(error: unknown): boolean {
+  if (
+    error instanceof ValidationError ||
+    error instanceof ContractRevertError ||
+    error instanceof FeeCeilingExceededError
+  ) {
+    return true;
+  }
+  return (
+    error instanceof ContractError &&
+    (error.details as { code?: unknown } | undefined)?.code === "CALL_EXCEPTION"
+  );
+}
+
+/**
+ * Outcomes `wait()` reports for a broadcast transaction that mean it will never confirm.
+ */
+function isFinalOutcome(error: unknown): boolean {
+  return (
+    error instanceof ContractRevertError ||
+    error instanceof TransactionDroppedError ||
+    error instanceof TransactionReplacedError
+  );
+}
+
+function toRowError(error: unknown): BulkRowError {
+  return {
+    code:
+      error instanceof StableBirrError && error.code ? error.code : "UNKNOWN",
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
+
+async function writeReport(path: string, report: BulkReport): Promise<void> {
+  const fs = await import("node:fs/promises");
+  const body = path.toLowerCase().endsWith(".csv")
+    ? formatCsv(
+        report.rows.map((row) => ({
+          line: row.line,
+          ...(row.params as unknown as Record<string, unknown>),
+          status: row.status,
+          transactionHash: row.transactionHash,
+          blockNumber: row.blockNumber,
+          reason: row.reason,
+          errorCode: row.error?.code,
+          errorMessage: row.error?.message,
+        }))
+      )
+    : JSON.stringify(report, null, 2);
+  try {
+    await fs.writeFile(path, body, "utf8");
+  } catch (error: unknown) {
+    throw new StableBirrError(
+      `Failed to write bulk report ${path}`,
+      "BULK_REPORT_ERROR",
+      error
+    );
+  }
+}
@@ -0,0 +1,153 @@
+import type {
+  BlacklistParams,
+  FreezeParams,
+  MintParams,
+  TransferParams,
+} from "@/resources/contract/contract.types";
+
+/**
+ * Operations the bulk runner can execute, mapped to the params each row becomes.
+ */
+export interface BulkOperationParams {
+  mint: MintParams;
+  transfer: TransferParams;
+  blacklist: BlacklistParams;
+  freeze: FreezeParams;
+}
+
+export type BulkOperation = keyof BulkOperationParams;
+
+/**
+ * One input row after parsing. `line` is the 1-based data row number (CSV header excluded, or
+ * the JSON array position + 1) so reports point back at the spreadsheet.
+ */
+export interface BulkRow<K extends BulkOperation = BulkOperation> {
+  line: number;
+  /** Stable ID derived from the operation, line and params; keys the journal */
+  rowId: string;
+  params: BulkOperationParams[K];
+}
+
+/**
+ * A row that failed schema validation.
+ */
+export interface BulkRowIssue {
+  line: number;
+  message: string;
+  /** Zod issues (or the parse error) for the row */
+  details?: unknown;
+}
+
+/**
+ * Journal record written as a row moves through the run. The last record per `rowId` wins.
+ *
+ * - `sending`: about to call the contract (written before broadcasting).
+ * - `submitted`: broadcast with `hash` / `nonce`.
+ * - `confirmed`: mined successfully.
+ * - `skipped`: nothing to do (account already blacklisted / frozen).
+ * - `failed`: rejected before broadcast, or mined and reverted / dropped; safe to retry. A send
+ *   that fails in a way that does not rule out a broadcast leaves the row at `sending`.
+ */
+export type BulkJournalEntry =
+  | { type: "run"; operation: BulkOperation; inputHash: string; at: number }
+  | {
+      type: "row";
+      rowId: string;
+      line: number;
+      status: "sending" | "submitted" | "confirmed" | "skipped" | "failed";
+      hash?: string;
+      nonce?: number;
+      blockNumber?: number;
+      reason?: string;
+      error?: BulkRowError;
+      at: number;
+    };
+
+/**
+ * Pluggable persistence for the run journal. The SDK ships `FileBulkJournal` (append-only JSON
+ * lines) and `MemoryBulkJournal`.
+ */
+export interface BulkJournal {
+  load(): Promise<BulkJournalEntry[]>;
+  append(entry: BulkJournalEntry): Promise<void>;
+}
+
+export interface BulkRowError {
+  code: string;
+  message: string;
+}
+
+/**
+ * Final state of a row in the report.
+ *
+ * - `confirmed`: the transaction was mined (in this run or a previous one).
+ * - `skipped`: nothing to do (already blacklisted / frozen).
+ * - `failed`: reverted or rejected; re-running retries it.
+ * - `needs_review`: the row may have been broadcast (by this run or a previous one) but there is
+ *   no trace the runner can verify; it is never re-sent automatically.
+ * - `pending`: not finished: never attempted (run aborted or stopped after an error), or sent
+ *   but still unconfirmed when `timeout` hit. Re-running picks it up without re-sending.
+ */
+export type BulkRowStatus =
+  | "confirmed"
+  | "skipped"
+  | "failed"
+  | "needs_review"
+  | "pending";
+
+export interface BulkRowResult<K extends BulkOperation = BulkOperation> {
+  line: number;
+  rowId: string;
+  params: BulkOperationParams[K];
+  status: BulkRowStatus;
+  /** Set when the outcome was recovered from the journal instead of produced by this run */
+  resumed: boolean;
+  transactionHash?: string;
+  blockNumber?: number;
+  reason?: string;
+  error?: BulkRowError;
+}
+
+export interface BulkReport<K extends BulkOperation = BulkOperation> {
+  operation: K;
+  total: number;
+  confirmed: number;
+  skipped: number;
+  failed: number;
+  needsReview: number;
+  pending: number;
+  startedAt: number;
+  finishedAt: number;
+  rows: BulkRowResult<K>[];
+}
+
+/**
+ * Options for `sbirr.contract.bulk.run` / `runFile`.
+ */
+export interface BulkRunOptions<K extends BulkOperation = BulkOperation> {
+  /** Input format when `input` is a string. Detected from the content when omitted. */
+  format?: "csv" | "json";
+  /**
+   * Journal backend, or a file path for `FileBulkJournal`. Without one an interrupted run cannot
+   * be resumed safely.
+   */
+  journal?: BulkJournal | string;
+  /**
+   * Rows in flight at once. Values above 1 need `nonceManager` in the SDK config so concurrent
+   * sends from one key do not collide.
+   * @default 1
+   */
+  concurrency?: number;
+  /** Confirmations each transaction must reach. @default 1 */
+  confirmations?: number;
+  /** Per-row confirmation timeout in milliseconds */
+  timeout?: number;
+  /** Stop scheduling new rows; rows already sent are still awaited */
+  signal?: AbortSignal;
+  /** Keep going after a failed row. @default true */
+  continueOnError?: boolean;
+  /** Write the final report here as JSON (or CSV when the path ends in `.csv`) */
+  reportPath?: string;
+  /** Called as each row settles */
+  onRow?: (result: BulkRowResult<K>) => void;
+}
@@ -0,0 +1,4 @@
+export * from "@/resources/bulk/bulk.resource";
+export * from "@/resources/bulk/bulk.journal";
+export * from "@/resources/bulk/bulk.parser";
+export * from "@/resources/bulk/bulk.types";
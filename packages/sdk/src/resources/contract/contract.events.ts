@@ -0,0 +1,261 @@
+import type { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import type {
+  EventSubscriptionOptions,
+  StableBirrEvent,
+  StableBirrEventHandler,
+  StableBirrEventName,
+} from "@/resources/contract/contract.types";
+import * as EventsHandler from "@/resources/contract/handlers/events.handler";
+
+const DEFAULT_POLLING_INTERVAL = 4000;
+/** Upper bound on blocks scanned per poll so catching up after an outage stays RPC-friendly. */
+const MAX_BLOCK_RANGE = 2000;
+
+type ResolvedSubscriptionOptions = EventSubscriptionOptions & {
+  confirmations: number;
+  pollingInterval: number;
+};
+
+/**
+ * Typed, confirmation-aware event subscriptions, exposed as `sbirr.contract.events`.
+ *
+ * Each subscription tracks its own block cursor and polls `eth_getLogs` up to the confirmed head
+ * (`latest - confirmations`). Because delivery is driven by the cursor rather than a provider-side
+ * filter, subscriptions survive RPC disconnects and node restarts: a failed poll is reported to
+ * `onError` and the next one resumes from the last delivered block, so nothing is skipped or
+ * delivered twice.
+ *
+ * ```ts
+ * const stop = sbirr.contract.events.on("Minted", (e) => {
+ *   console.log(e.data.to, e.data.amount.formatted, e.transactionHash);
+ * }, { confirmations: 12 });
+ *
+ * for await (const e of sbirr.contract.events.iterate("Burned", { signal })) {
+ *   await settleRedemption(e.data.merchantId, e.data.amount.wei);
+ * }
+ * ```
+ */
+export class StableBirrEvents {
+  private readonly subscriptions = new Set<Subscription>();
+
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider
+  ) {}
+
+  /**
+   * Deliver every future `name` event to `handler`, in chain order. Handlers are awaited, so an
+   * async handler finishes before the next event is delivered.
+   *
+   * @returns Function that stops the subscription.
+   */
+  public on<K extends StableBirrEventName>(
+    name: K,
+    handler: StableBirrEventHandler<K>,
+    options: EventSubscriptionOptions = {}
+  ): () => void {
+    const subscription = new Subscription(
+      this.contract,
+      this.provider,
+      name,
+      handler as StableBirrEventHandler<StableBirrEventName>,
+      this.normalize(options),
+      () => this.subscriptions.delete(subscription)
+    );
+    this.subscriptions.add(subscription);
+    subscription.start();
+    return () => subscription.stop();
+  }
+
+  /**
+   * Resolve with the next `name` event. Rejects if `options.signal` aborts first.
+   */
+  public once<K extends StableBirrEventName>(
+    name: K,
+    options: EventSubscriptionOptions = {}
+  ): Promise<StableBirrEvent<K>> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        return reject(new ValidationError(`Waiting for ${name} was aborted`));
+      }
+      const onAbort = () => {
+        stop();
+        reject(new ValidationError(`Waiting for ${name} was aborted`));
+      };
+      const stop = this.on(
+        name,
+        (event) => {
+          stop();
+          options.signal?.removeEventListener("abort", onAbort);
+          resolve(event);
+        },
+        options
+      );
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Async-iterator form of `on` for worker loops. Events are buffered while the consumer is busy.
+   * Iteration ends when `options.signal` aborts or the loop exits (`break`/`return`).
+   */
+  public iterate<K extends StableBirrEventName>(
+    name: K,
+    options: EventSubscriptionOptions = {}
+  ): AsyncIterableIterator<StableBirrEvent<K>> {
+    const buffer: StableBirrEvent<K>[] = [];
+    const waiting: ((result: IteratorResult<StableBirrEvent<K>>) => void)[] =
+      [];
+    let done = false;
+
+    const finish = () => {
+      if (done) return;
+      done = true;
+      stop();
+      options.signal?.removeEventListener("abort", finish);
+      waiting
+        .splice(0)
+        .forEach((resolve) => resolve({ value: undefined, done: true }));
+    };
+
+    const stop = this.on(
+      name,
+      (event) => {
+        const next = waiting.shift();
+        if (next) next({ value: event, done: false });
+        else buffer.push(event);
+      },
+      options
+    );
+    if (options.signal?.aborted) finish();
+    else options.signal?.addEventListener("abort", finish, { once: true });
+
+    return {
+      next: () => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (done) return Promise.resolve({ value: undefined, done: true });
+        return new Promise((resolve) => waiting.push(resolve));
+      },
+      return: () => {
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+
+  /**
+   * Stop every active subscription created through this resource.
+   */
+  public removeAllListeners(): void {
+    [...this.subscriptions].forEach((subscription) => subscription.stop());
+  }
+
+  private normalize(
+    options: EventSubscriptionOptions
+  ): ResolvedSubscriptionOptions {
+    const confirmations = options.confirmations ?? 0;
+    const pollingInterval = options.pollingInterval ?? DEFAULT_POLLING_INTERVAL;
+    if (!Number.isInteger(confirmations) || confirmations < 0) {
+      throw new ValidationError("confirmations must be a non-negative integer");
+    }
+    if (!Number.isFinite(pollingInterval) || pollingInterval <= 0) {
+      throw new ValidationError("pollingInterval must be a positive number");
+    }
+    if (
+      options.fromBlock !== undefined &&
+      (!Number.isInteger(options.fromBlock) || options.fromBlock < 0)
+    ) {
+      throw new ValidationError("fromBlock must be a non-negative integer");
+    }
+    return { ...options, confirmations, pollingInterval };
+  }
+}
+
+/**
+ * One polling loop with its own cursor. Kept module-private; callers only see the stop function.
+ */
+class Subscription {
+  private nextBlock?: number;
+  private timer?: ReturnType<typeof setTimeout>;
+  private stopped = false;
+
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    private readonly name: StableBirrEventName,
+    private readonly handler: StableBirrEventHandler<StableBirrEventName>,
+    private readonly options: ResolvedSubscriptionOptions,
+    private readonly onStop: () => void
+  ) {
+    this.nextBlock = options.fromBlock;
+  }
+
+  public start(): void {
+    if (this.options.signal?.aborted) return this.stop();
+    this.options.signal?.addEventListener("abort", this.stop, { once: true });
+    void this.tick();
+  }
+
+  public stop = (): void => {
+    if (this.stopped) return;
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.options.signal?.removeEventListener("abort", this.stop);
+    this.onStop();
+  };
+
+  private async tick(): Promise<void> {
+    try {
+      await this.poll();
+    } catch (error: unknown) {
+      this.options.onError?.(
+        toStableBirrError(error, `${this.name} subscription poll failed`)
+      );
+    }
+    if (!this.stopped) {
+      this.timer = setTimeout(
+        () => void this.tick(),
+        this.options.pollingInterval
+      );
+    }
+  }
+
+  private async poll(): Promise<void> {
+    const latest = await this.provider.getBlockNumber();
+    const confirmedHead = latest - this.options.confirmations;
+    if (this.nextBlock === undefined) this.nextBlock = confirmedHead + 1;
+
+    while (!this.stopped && this.nextBlock <= confirmedHead) {
+      const toBlock = Math.min(
+        confirmedHead,
+        this.nextBlock + MAX_BLOCK_RANGE - 1
+      );
+      const events = await EventsHandler.fetchEvents(
+        this.contract,
+        this.provider,
+        this.name,
+        this.nextBlock,
+        toBlock
+      );
+      for (const event of events) {
+        if (this.stopped) return;
+        try {
+          await this.handler(event);
+        } catch (error: unknown) {
+          this.options.onError?.(
+            toStableBirrError(error, `${this.name} handler failed`)
+          );
+        }
+      }
+      this.nextBlock = toBlock + 1;
+    }
+  }
+}
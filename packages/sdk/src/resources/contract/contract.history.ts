@@ -0,0 +1,126 @@
+import type { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import type {
+  HistoryPage,
+  HistoryQueryOptions,
+  StableBirrEvent,
+  StableBirrEventName,
+} from "@/resources/contract/contract.types";
+import * as HistoryHandler from "@/resources/contract/handlers/history.handler";
+
+const DEFAULT_LIMIT = 1000;
+const DEFAULT_MAX_BLOCK_RANGE = 10_000;
+const DEFAULT_RETRIES = 3;
+
+/**
+ * Historical event queries, exposed as `sbirr.contract.history`.
+ *
+ * Public Polygon RPCs cap `eth_getLogs` ranges (and result counts), so a naive
+ * `queryFilter(filter, 0)` fails long before it covers a year of activity. `query` walks the
+ * requested range in chunks that shrink when the RPC rejects them and grow back afterwards,
+ * retries transient failures, de-duplicates logs and returns typed events in chain order. Large
+ * ranges are paged: each page carries an opaque cursor pinned to the original range and filters.
+ *
+ * ```ts
+ * let page = await sbirr.contract.history.query("Minted", { fromBlock: 52_000_000 });
+ * while (true) {
+ *   page.events.forEach((e) => auditLog.write(e));
+ *   if (!page.cursor) break;
+ *   page = await sbirr.contract.history.query("Minted", { cursor: page.cursor });
+ * }
+ * ```
+ */
+export class StableBirrHistory {
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    /** Start of queries without `fromBlock`: the deployment block when a manifest is configured */
+    private readonly defaultFromBlock: number = 0
+  ) {}
+
+  /**
+   * Fetch one page of `eventName` events.
+   *
+   * @throws ValidationError if the range, limits or cursor are invalid.
+   * @throws NetworkError if the RPC keeps failing after `retries` attempts.
+   */
+  public async query<K extends StableBirrEventName>(
+    eventName: K,
+    options: HistoryQueryOptions<K> = {}
+  ): Promise<HistoryPage<K>> {
+    const limits = this.resolveLimits(options);
+    const scan = options.cursor
+      ? HistoryHandler.decodeCursor(options.cursor, eventName)
+      : await this.resolveScan(eventName, options);
+
+    return HistoryHandler.scanPage(this.contract, this.provider, scan, limits);
+  }
+
+  /**
+   * Iterate every `eventName` event in the range, fetching pages lazily.
+   */
+  public async *iterate<K extends StableBirrEventName>(
+    eventName: K,
+    options: HistoryQueryOptions<K> = {}
+  ): AsyncGenerator<StableBirrEvent<K>> {
+    let page = await this.query(eventName, options);
+    while (true) {
+      yield* page.events;
+      if (!page.cursor) return;
+      page = await this.query(eventName, { ...options, cursor: page.cursor });
+    }
+  }
+
+  private async resolveScan<K extends StableBirrEventName>(
+    eventName: K,
+    options: HistoryQueryOptions<K>
+  ): Promise<HistoryHandler.HistoryScan<K>> {
+    const fromBlock = options.fromBlock ?? this.defaultFromBlock;
+    let toBlock: number;
+    if (options.toBlock === undefined || options.toBlock === "latest") {
+      try {
+        toBlock = await this.provider.getBlockNumber();
+      } catch (error: unknown) {
+        throw toStableBirrError(error, "Failed to resolve latest block");
+      }
+    } else {
+      toBlock = options.toBlock;
+    }
+
+    if (!Number.isInteger(fromBlock) || fromBlock < 0) {
+      throw new ValidationError("fromBlock must be a non-negative integer");
+    }
+    if (!Number.isInteger(toBlock) || toBlock < fromBlock) {
+      throw new ValidationError("toBlock must be an integer >= fromBlock");
+    }
+
+    return {
+      event: eventName,
+      next: fromBlock,
+      to: toBlock,
+      filters: options.filters,
+    };
+  }
+
+  private resolveLimits(
+    options: HistoryQueryOptions<StableBirrEventName>
+  ): HistoryHandler.ScanLimits {
+    const limits = {
+      limit: options.limit ?? DEFAULT_LIMIT,
+      maxBlockRange: options.maxBlockRange ?? DEFAULT_MAX_BLOCK_RANGE,
+      retries: options.retries ?? DEFAULT_RETRIES,
+    };
+    if (!Number.isInteger(limits.limit) || limits.limit <= 0) {
+      throw new ValidationError("limit must be a positive integer");
+    }
+    if (!Number.isInteger(limits.maxBlockRange) || limits.maxBlockRange <= 0) {
+      throw new ValidationError("maxBlockRange must be a positive integer");
+    }
+    if (!Number.isInteger(limits.retries) || limits.retries < 0) {
+      throw new ValidationError("retries must be a non-negative integer");
+    }
+    return limits;
+  }
+}
@@ -0,0 +1,303 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { validateAddress } from "@/core/validation";
+import { ManagedTransaction } from "@/core/transaction";
+import type { FeeManager } from "@/core/fees";
+import type {
+  WriteMethod,
+  WriteMethodParams,
+  EncodedCall,
+  OfflineBuildOptions,
+  UnsignedTransaction,
+  DecodedTransaction,
+  OfflineVerification,
+} from "@/resources/contract/contract.types";
+import * as CalldataHandler from "@/resources/contract/handlers/calldata.handler";
+
+/** Fields `verify` compares when the expected transaction carries them. */
+const VERIFIED_FIELDS = [
+  "from",
+  "to",
+  "data",
+  "value",
+  "nonce",
+  "chainId",
+  "gasLimit",
+  "maxFeePerGas",
+  "maxPriorityFeePerGas",
+] as const;
+
+/**
+ * Air-gapped signing workflow and calldata encoder, exposed as `sbirr.contract.offline`.
+ *
+ * 1. Online: `buildUnsigned` resolves nonce, chain ID, gas and EIP-1559 fees and returns the
+ *    unsigned serialized transaction.
+ * 2. Offline: an SDK instance holding the key (no RPC access needed) signs it with `sign`.
+ * 3. Online: `verify` checks the signed transaction still encodes the intended call, and
+ *    `broadcast` submits it as a `ManagedTransaction`.
+ *
+ * ```ts
+ * const unsigned = await online.contract.offline.buildUnsigned("pause", { reason: "INC-42" }, { from: admin });
+ * const raw = await airGapped.contract.offline.sign(unsigned.serialized);
+ * const tx = await online.contract.offline.broadcast(raw, unsigned);
+ * ```
+ */
+export class StableBirrOffline {
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    private readonly fees: FeeManager,
+    private readonly signer?: ethers.Signer
+  ) {}
+
+  /**
+   * Validate `params` as the SDK method `method` would and return the StableBirr calldata,
+   * e.g. for a custody platform that builds its own transactions.
+   *
+   * @throws ValidationError if the params are invalid.
+   */
+  public encode<K extends WriteMethod>(
+    method: K,
+    params: WriteMethodParams[K]
+  ): EncodedCall {
+    return CalldataHandler.encodeCall(this.contract, method, params);
+  }
+
+  /**
+   * Build a fully populated, unsigned EIP-1559 transaction for `method`.
+   *
+   * The nonce is the sender's pending nonce, gas is estimated from the sender (so a call that
+   * would revert fails here, decoded) and fees and gas headroom follow `config.fees` /
+   * `params.options` like a direct send. Any of them can be pinned through `params.options`.
+   *
+   * @throws ValidationError if the params are invalid or no sender is known.
+   * @throws ContractError if gas estimation reverts.
+   */
+  public async buildUnsigned<K extends WriteMethod>(
+    method: K,
+    params: WriteMethodParams[K],
+    options: OfflineBuildOptions = {}
+  ): Promise<UnsignedTransaction> {
+    const call = this.encode(method, params);
+    const from = await this.resolveFrom(options.from);
+
+    try {
+      const request = await this.fees.prepare(
+        new ethers.VoidSigner(from, this.provider),
+        {
+          from,
+          to: call.to,
+          data: call.data,
+          gasLimit: params.options?.gasLimit,
+          maxFeePerGas: params.options?.maxFeePerGas,
+          maxPriorityFeePerGas: params.options?.maxPriorityFeePerGas,
+        },
+        params.options
+      );
+      const [chainId, nonce, gasLimit, fees] = await Promise.all([
+        options.chainId !== undefined
+          ? BigInt(options.chainId)
+          : this.provider.getNetwork().then((network) => network.chainId),
+        params.options?.nonce ??
+          this.provider.getTransactionCount(from, "pending"),
+        request.gasLimit != null
+          ? BigInt(request.gasLimit)
+          : this.provider.estimateGas(request),
+        this.resolveFees(request),
+      ]);
+
+      const tx = ethers.Transaction.from({
+        type: 2,
+        to: call.to,
+        data: call.data,
+        value: 0n,
+        nonce,
+        chainId,
+        gasLimit,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      });
+
+      return {
+        ...call,
+        from,
+        value: 0n,
+        nonce,
+        chainId,
+        gasLimit,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+        serialized: tx.unsignedSerialized,
+        unsignedHash: tx.unsignedHash,
+      };
+    } catch (error: unknown) {
+      throw toStableBirrError(error, `Failed to build unsigned ${method}`);
+    }
+  }
+
+  /**
+   * Sign an unsigned serialized transaction with the configured signer. Needs no provider
+   * access, so it works on an air-gapped machine.
+   *
+   * @throws ValidationError if no signer is configured or `serialized` is not an unsigned
+   *   transaction.
+   */
+  public async sign(serialized: string): Promise<string> {
+    if (!this.signer) {
+      throw new ValidationError("Signer required to sign transactions");
+    }
+    const tx = this.parse(serialized);
+    if (tx.signature) {
+      throw new ValidationError("Transaction is already signed");
+    }
+    try {
+      return await this.signer.signTransaction(tx);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to sign transaction");
+    }
+  }
+
+  /**
+   * Decode a serialized transaction (signed or unsigned) for review, including the StableBirr
+   * method and arguments when it targets this contract.
+   *
+   * @throws ValidationError if `serialized` is not a valid transaction.
+   */
+  public decode(serialized: string): DecodedTransaction {
+    const tx = this.parse(serialized);
+    const toContract =
+      tx.to !== null &&
+      tx.to.toLowerCase() === String(this.contract.target).toLowerCase();
+    const call = toContract
+      ? CalldataHandler.decodeCall(this.contract, tx.data)
+      : null;
+
+    return {
+      signed: tx.signature !== null,
+      hash: tx.signature ? tx.hash! : undefined,
+      from: tx.signature ? tx.from! : undefined,
+      to: tx.to,
+      value: tx.value,
+      data: tx.data,
+      nonce: tx.nonce,
+      chainId: tx.chainId,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+      gasPrice: tx.gasPrice,
+      ...(call ?? {}),
+    };
+  }
+
+  /**
+   * Check that a signed transaction is what was intended: every field present on `expected`
+   * (an `UnsignedTransaction` from `buildUnsigned`, or an `EncodedCall` from `encode`) must match,
+   * including the recovered sender.
+   *
+   * @throws ValidationError if `signed` is not a valid transaction.
+   */
+  public verify(
+    signed: string,
+    expected: UnsignedTransaction | EncodedCall
+  ): OfflineVerification {
+    const transaction = this.decode(signed);
+    const mismatches: string[] = [];
+    if (!transaction.signed) mismatches.push("transaction is not signed");
+
+    const actual = transaction as unknown as Record<string, unknown>;
+    const wanted = expected as unknown as Record<string, unknown>;
+    for (const field of VERIFIED_FIELDS) {
+      if (wanted[field] === undefined) continue;
+      const want = normalize(wanted[field]);
+      const got = normalize(actual[field]);
+      if (want !== got) {
+        mismatches.push(`${field}: expected ${want}, got ${got}`);
+      }
+    }
+
+    return { valid: mismatches.length === 0, mismatches, transaction };
+  }
+
+  /**
+   * Broadcast a signed raw transaction. With `expected`, it is verified first and rejected on
+   * any mismatch.
+   *
+   * @throws ValidationError if the transaction is unsigned or fails verification.
+   */
+  public async broadcast(
+    signed: string,
+    expected?: UnsignedTransaction | EncodedCall
+  ): Promise<ManagedTransaction> {
+    if (expected) {
+      const verification = this.verify(signed, expected);
+      if (!verification.valid) {
+        throw new ValidationError(
+          `Signed transaction does not match: ${verification.mismatches.join(
+            "; "
+          )}`,
+          verification
+        );
+      }
+    } else if (!this.decode(signed).signed) {
+      throw new ValidationError("Cannot broadcast an unsigned transaction");
+    }
+
+    try {
+      const response = await this.provider.broadcastTransaction(signed);
+      return new ManagedTransaction(response, this.provider);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Broadcast failed");
+    }
+  }
+
+  private parse(serialized: string): ethers.Transaction {
+    try {
+      return ethers.Transaction.from(serialized);
+    } catch (error: unknown) {
+      throw new ValidationError("Invalid serialized transaction", error);
+    }
+  }
+
+  private async resolveFrom(from?: string): Promise<string> {
+    if (from !== undefined) return ethers.getAddress(validateAddress(from));
+    if (!this.signer) {
+      throw new ValidationError(
+        "Sender required: pass options.from or configure a signer"
+      );
+    }
+    return this.signer.getAddress();
+  }
+
+  /** Fees `FeeManager.prepare` left open fall back to ethers.js' defaults, as a direct send does. */
+  private async resolveFees(
+    request: ethers.TransactionRequest
+  ): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    if (request.maxFeePerGas != null && request.maxPriorityFeePerGas != null) {
+      return {
+        maxFeePerGas: BigInt(request.maxFeePerGas),
+        maxPriorityFeePerGas: BigInt(request.maxPriorityFeePerGas),
+      };
+    }
+    const feeData = await this.provider.getFeeData();
+    if (feeData.maxFeePerGas == null || feeData.maxPriorityFeePerGas == null) {
+      throw new ValidationError(
+        "Network does not report EIP-1559 fees; pass maxFeePerGas and maxPriorityFeePerGas in options"
+      );
+    }
+    return {
+      maxFeePerGas: BigInt(request.maxFeePerGas ?? feeData.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(
+        request.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas
+      ),
+    };
+  }
+}
+
+function normalize(value: unknown): string {
+  if (typeof value === "string" && ethers.isHexString(value)) {
+    return value.toLowerCase();
+  }
+  return String(value);
+}
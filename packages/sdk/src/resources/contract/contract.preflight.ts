@@ -0,0 +1,140 @@
+import type { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { ValidationError } from "@/core/errors";
+import {
+  validateAddress,
+  validateParams,
+  buildCallArgs,
+} from "@/core/validation";
+import type {
+  MintParams,
+  BurnParams,
+  TransferParams,
+  TransferFromParams,
+  PreflightOptions,
+  PreflightResult,
+} from "@/resources/contract/contract.types";
+import {
+  MintParamsSchema,
+  BurnParamsSchema,
+  TransferParamsSchema,
+  TransferFromParamsSchema,
+} from "@/resources/contract/contract.validator";
+import * as MintHandler from "@/resources/contract/handlers/mint.handler";
+import * as BurnHandler from "@/resources/contract/handlers/burn.handler";
+import * as TransferHandler from "@/resources/contract/handlers/transfer.handler";
+import * as PreflightHandler from "@/resources/contract/handlers/preflight.handler";
+
+/**
+ * Compliance preflight for value-moving operations, exposed as `sbirr.contract.preflight`.
+ *
+ * The contract rejects operations on paused state, blacklisted or frozen parties, insufficient
+ * balances, supply-cap overflow and exhausted minter allowances — but a failed transaction only
+ * reports the first rule it hit. Preflight reads `paused`, `isBlacklisted`, `isFrozen`,
+ * `balanceOf`, `supplyCap`, `totalSupply`, `minterAllowance` and `minterCanBurn` at a single block
+ * and returns every violated rule, so treasury UIs can show all blocking reasons at once.
+ *
+ * ```ts
+ * const check = await sbirr.contract.preflight.mint({ to, amount: "1500", usdAmount: "10", rate: "150" });
+ * if (!check.ok) check.violations.forEach((v) => console.warn(v.code, v.message));
+ * ```
+ */
+export class StableBirrPreflight {
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    private readonly signer?: ethers.Signer
+  ) {}
+
+  /**
+   * Check a mint against paused state, minter authorization and allowance, recipient
+   * blacklist/freeze status and the supply cap.
+   */
+  public async mint(
+    params: MintParams,
+    options: PreflightOptions = {}
+  ): Promise<PreflightResult> {
+    validateParams(MintParamsSchema, params, "mint");
+    const caller = await this.resolveCaller(options, "mint");
+    const args = buildCallArgs(() => MintHandler.buildMintArgs(params));
+    return PreflightHandler.preflightMint(
+      this.contract,
+      this.provider,
+      caller,
+      args
+    );
+  }
+
+  /**
+   * Check a burn against paused state, burn permission, the holder's balance and the holder's
+   * blacklist/freeze status.
+   */
+  public async burn(
+    params: BurnParams,
+    options: PreflightOptions = {}
+  ): Promise<PreflightResult> {
+    validateParams(BurnParamsSchema, params, "burn");
+    const caller = await this.resolveCaller(options, "burn");
+    const args = buildCallArgs(() => BurnHandler.buildBurnArgs(params));
+    return PreflightHandler.preflightBurn(
+      this.contract,
+      this.provider,
+      caller,
+      args
+    );
+  }
+
+  /**
+   * Check a transfer against paused state, the sender's balance and blacklist/freeze status of
+   * both parties. The sender is `options.caller` or the configured signer.
+   */
+  public async transfer(
+    params: TransferParams,
+    options: PreflightOptions = {}
+  ): Promise<PreflightResult> {
+    validateParams(TransferParamsSchema, params, "transfer");
+    const from = await this.resolveCaller(options, "transfer");
+    const args = buildCallArgs(() => TransferHandler.buildTransferArgs(params));
+    return PreflightHandler.preflightTransfer(
+      this.contract,
+      this.provider,
+      from,
+      args
+    );
+  }
+
+  /**
+   * Check a `transferFrom` against blacklist/freeze status of both `from` and `to`, the spender's
+   * allowance, paused state and the owner's balance. The spender is `options.caller` or the
+   * configured signer.
+   */
+  public async transferFrom(
+    params: TransferFromParams,
+    options: PreflightOptions = {}
+  ): Promise<PreflightResult> {
+    validateParams(TransferFromParamsSchema, params, "transferFrom");
+    const spender = await this.resolveCaller(options, "transferFrom");
+    const args = buildCallArgs(() =>
+      TransferHandler.buildTransferFromArgs(params)
+    );
+    return PreflightHandler.preflightTransferFrom(
+      this.contract,
+      this.provider,
+      spender,
+      args
+    );
+  }
+
+  private async resolveCaller(
+    options: PreflightOptions,
+    action: string
+  ): Promise<string> {
+    if (options.caller) return validateAddress(options.caller);
+    if (!this.signer) {
+      throw new ValidationError(
+        `Signer or options.caller required to preflight ${action}`
+      );
+    }
+    return this.signer.getAddress();
+  }
+}
@@ -2,18 +2,50 @@ import { ethers } from "ethers";
 import type { StableBirr } from "@/typechain-types";
 import { StableBirr__factory } from "@/typechain-types";
 import { STABLEBIRR_ADDRESSES } from "@/constants/addresses";
-import type { StableBirrConfig } from "@/types";
-import { ContractError, ValidationError } from "@/core/errors";
+import { NETWORKS } from "@/constants/networks";
+import type {
+  DeploymentManifest,
+  StableBirrConfig,
+  TokenAmount,
+  TransactionOptions,
+} from "@/types";
+import {
+  ValidationError,
+  AllowanceChangedError,
+  UnverifiedContractError,
+} from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import {
+  validateAddress,
+  validateChain,
+  buildCallArgs,
+} from "@/core/validation";
+import { ManagedTransaction } from "@/core/transaction";
+import { NonceManagedSigner } from "@/core/nonce-manager";
+import { FeeManager } from "@/core/fees";
+import { createSigner } from "@/core/signers";
+import { FallbackRpcProvider } from "@/core/rpc";
+import {
+  parseDeploymentManifest,
+  currentImplementation,
+} from "@/core/deployment";
+import { toWei, toTokenAmount } from "@/core/amount";
 import type {
   MintParams,
   BurnParams,
   TransferParams,
+  TransferFromParams,
+  ApproveParams,
+  SafeApproveParams,
   BlacklistParams,
   FreezeParams,
   UnfreezeParams,
   WipeFrozenParams,
   RescueParams,
   PermitParams,
+  SignPermitParams,
+  PermitSignature,
+  PermitAndTransferFromParams,
   UpdateAdminParams,
   UpdateOperatorParams,
   UpdateOracleParams,
@@ -24,6 +56,10 @@ import type {
   RemoveMinterParams,
   PauseParams,
   UnpauseParams,
+  MintRecord,
+  BurnRecord,
+  ContractState,
+  ContractIdentity,
 } from "@/resources/contract/contract.types";
 
 //
@@ -32,12 +68,17 @@ import {
   MintParamsSchema,
   BurnParamsSchema,
   TransferParamsSchema,
+  TransferFromParamsSchema,
+  ApproveParamsSchema,
+  SafeApproveParamsSchema,
   BlacklistParamsSchema,
   FreezeParamsSchema,
   UnfreezeParamsSchema,
   WipeFrozenParamsSchema,
   RescueParamsSchema,
   PermitParamsSchema,
+  SignPermitParamsSchema,
+  PermitAndTransferFromParamsSchema,
   UpdateAdminParamsSchema,
   UpdateOperatorParamsSchema,
   UpdateOracleParamsSchema,
@@ -52,11 +93,40 @@ import {
 import * as MintHandler from "@/resources/contract/handlers/mint.handler";
 import * as BurnHandler from "@/resources/contract/handlers/burn.handler";
 import * as TransferHandler from "@/resources/contract/handlers/transfer.handler";
+import * as ApproveHandler from "@/resources/contract/handlers/approve.handler";
 import * as BlacklistHandler from "@/resources/contract/handlers/blacklist.handler";
 import * as RescueHandler from "@/resources/contract/handlers/rescue.handler";
 import * as FreezeHandler from "@/resources/contract/handlers/freeze.handler";
 import * as PermitHandler from "@/resources/contract/handlers/permit.handler";
 import * as AdminHandler from "@/resources/contract/handlers/admin.handler";
+import * as RecordsHandler from "@/resources/contract/handlers/records.handler";
+import * as StateHandler from "@/resources/contract/handlers/state.handler";
+import * as IdentityHandler from "@/resources/contract/handlers/identity.handler";
+import { StableBirrSimulator } from "@/resources/contract/contract.simulator";
+import { StableBirrPreflight } from "@/resources/contract/contract.preflight";
+import { StableBirrEvents } from "@/resources/contract/contract.events";
+import { StableBirrHistory } from "@/resources/contract/contract.history";
+import { StableBirrSafe } from "@/resources/contract/contract.safe";
+import { StableBirrOffline } from "@/resources/contract/contract.offline";
+import { StableBirrIndexer } from "@/resources/indexer/indexer.resource";
+import type { IndexerOptions } from "@/resources/indexer/indexer.types";
+import { StableBirrRelayer } from "@/resources/relayer/relayer.resource";
+import { RelayerClient } from "@/resources/relayer/relayer.client";
+import type { RelayerOptions } from "@/resources/relayer/relayer.types";
+import { StableBirrBulk } from "@/resources/bulk/bulk.resource";
+
+/** Polygon PoS rejects tips below ~25-30 gwei; preset fee strategies never go lower. */
+const POLYGON_MIN_PRIORITY_FEE = ethers.parseUnits("30", "gwei");
+
+/** Reads that feed reconciliation; they need quorum agreement when `config.rpc.quorum` is set. */
+const DEFAULT_QUORUM_READS = [
+  "totalSupply",
+  "balanceOf",
+  "supplyCap",
+  "totalUSDConverted",
+  "totalBurned",
+  "totalFrozenWiped",
+];
 
 /**
  * Resource for interacting with the StableBirr smart contract.
@@ -67,12 +137,40 @@ import * as AdminHandler from "@/resources/contract/handlers/admin.handler";
  * - Strict schema validation (Zod/4) so mistakes are caught before hitting the chain.
  * - Deterministic handler modules so business logic stays isolated and testable.
  * - Rich errors (`ValidationError`, `ContractError`) that differentiate bad inputs from on-chain
- *   reverts, making it easier to alert the right ops team.
+ *   reverts, making it easier to alert the right ops team. Reverts are decoded against the
+ *   StableBirr ABI into typed subclasses (`SupplyCapExceededError`, `EnforcedPauseError`, …).
+ * - Managed transactions: every write returns a `ManagedTransaction` whose `wait()` tracks
+ *   confirmations, speed-ups, drops, timeouts and cancellation, and resolves with a rich
+ *   `TransactionResult`.
+ * - EIP-1559 fee strategies from `eth_feeHistory`, gas-limit headroom and a fee ceiling that
+ *   rejects or queues non-urgent admin calls during spikes (`config.fees`, `options`).
+ * - Optional local nonce management (`config.nonceManager`) so parallel writes from one key do
+ *   not collide.
+ * - Multiple RPC endpoints (`config.rpc`) with failover, backoff on throttling, health scoring
+ *   and quorum agreement for supply and balance reads.
  *
  * **What you get**
  * - Full coverage of administrative actions (oracle swaps, tolerance tweaks, pausing, role changes).
  * - Compliance controls (blacklist, freeze, wipe) in the same ergonomic style.
- * - Read helpers (balances, supply, oracle rate) for dashboards and reconciliation jobs.
+ * - Read helpers (balances, supply, roles, caps, mint/burn totals, allowances) for dashboards and
+ *   reconciliation jobs, with optional `blockTag` for historical reads and a single-block
+ *   `getState()` snapshot.
+ * - Mint/burn record lookups by record ID or originating transaction hash.
+ * - Dry runs for every write via `simulate` (success, decoded error, gas, expected state deltas).
+ * - Compliance preflight for mint/burn/transfer/transferFrom via `preflight`, listing every blocking rule.
+ * - Typed, confirmation-aware event subscriptions via `events` (callbacks or async iterators).
+ * - Paged historical event queries via `history` that adapt to RPC `eth_getLogs` range caps.
+ * - Resumable, journaled bulk runs from CSV/JSON via `bulk`.
+ * - Safe multisig proposals for admin actions via `safe` (MultiSend batches, Transaction Builder
+ *   export, `safeTxHash` for offline signing).
+ * - Air-gapped signing via `offline`: calldata for every write, unsigned serialized transactions,
+ *   decoding and verification of signed ones, and later broadcast.
+ * - A local, reorg-aware ledger index via `createIndexer` for balances, mint/burn ledgers and
+ *   compliance history.
+ * - Gasless transfers for users without gas: `createRelayer` runs a permit-based relayer service
+ *   (HTTP included) and `createRelayerClient` signs and submits requests to one.
+ * - Deployment identity checks via `verify()` (chain ID, proxy code, implementation, token
+ *   metadata); privileged writes are refused until they pass.
  *
  * **When to use**
  * Instantiate `StableBirrContract` once per signer/config and rely on its methods instead of manual
@@ -82,30 +180,127 @@ export class StableBirrContract {
   private contract: StableBirr;
   private provider: ethers.Provider;
   private signer?: ethers.Signer;
+  private network: string;
+  private chainId: number;
+  private verified?: ContractIdentity;
+  private manifest?: DeploymentManifest;
+
+  /**
+   * EIP-1559 pricing and fee-spike protection applied to every write (`config.fees`). Also usable
+   * directly, e.g. `fees.suggest("fast")`.
+   */
+  public readonly fees: FeeManager;
+
+  /**
+   * Dry-run variants of every write method. Each call runs `staticCall` + `estimateGas` against
+   * the latest block and reports the decoded outcome and expected state deltas without
+   * broadcasting anything.
+   */
+  public readonly simulate: StableBirrSimulator;
+
+  /**
+   * Rule-by-rule compliance checks for mint, burn, transfer and transferFrom. Reports every
+   * violated rule at once instead of the first revert.
+   */
+  public readonly preflight: StableBirrPreflight;
+
+  /**
+   * Typed subscriptions to `Minted`, `Burned`, `AccountFrozen`, `FrozenBalanceWiped`,
+   * `IncidentLogged`, `MinterConfigured` and `Transfer` with formatted payloads.
+   */
+  public readonly events: StableBirrEvents;
+
+  /**
+   * Historical event queries with adaptive block-range chunking and paging cursors.
+   */
+  public readonly history: StableBirrHistory;
+
+  /**
+   * Resumable bulk mint / transfer / blacklist / freeze from CSV or JSON with a run journal.
+   */
+  public readonly bulk: StableBirrBulk;
+
+  /**
+   * Admin actions as Safe multisig proposals instead of direct sends, for when `schnlAdmin` is a
+   * Safe.
+   */
+  public readonly safe: StableBirrSafe;
+
+  /**
+   * Calldata encoding and the build-unsigned / sign offline / verify / broadcast workflow.
+   */
+  public readonly offline: StableBirrOffline;
 
   /**
    * Initialize the StableBirrContract resource.
-   * @param config - Configuration object containing network, RPC URL, and private key.
-   * @throws {ValidationError} If contract address is not found for the specified network.
+   * @param config - Configuration object containing network, RPC URL, and signer source
+   *   (`privateKey`, `signer`, `keystore` or `remoteSigner`).
+   * @throws {ValidationError} If contract address is not found for the specified network, more
+   *   than one signer source is configured, `config.chain` or `config.rpc` is malformed, both
+   *   `rpcUrl` and `rpc` are set, or `config.deployment` is invalid, for another chain, or for a
+   *   different proxy than `contractAddress`.
    */
   constructor(config: StableBirrConfig) {
+    const chain = config.chain && validateChain(config.chain);
+    this.network = chain ? chain.name : config.network || "polygon";
+    this.chainId = chain
+      ? chain.chainId
+      : NETWORKS[config.network || "polygon"].chainId;
+
     // Setup provider
-    if (config.rpcUrl) {
-      this.provider = new ethers.JsonRpcProvider(config.rpcUrl);
+    if (config.rpc) {
+      if (config.rpcUrl) {
+        throw new ValidationError("Configure either rpcUrl or rpc, not both");
+      }
+      this.provider = new FallbackRpcProvider(config.rpc, {
+        chainId: this.chainId,
+        isQuorumCall: this.quorumFilter(config.rpc.quorum?.reads),
+      });
+    } else if (config.rpcUrl || chain) {
+      this.provider = new ethers.JsonRpcProvider(
+        config.rpcUrl || chain!.rpcUrl
+      );
     } else {
       const network = config.network || "polygon";
       this.provider = ethers.getDefaultProvider(network);
     }
 
     // Setup signer
-    if (config.privateKey) {
-      this.signer = new ethers.Wallet(config.privateKey, this.provider);
+    const signer = createSigner(config, this.provider);
+    if (signer) {
+      this.signer = config.nonceManager
+        ? new NonceManagedSigner(
+            signer,
+            config.nonceManager === true ? {} : config.nonceManager
+          )
+        : signer;
     }
 
     // Setup contract
+    if (config.deployment) {
+      this.manifest = parseDeploymentManifest(config.deployment);
+      if (this.manifest.chainId !== this.chainId) {
+        throw new ValidationError(
+          `Deployment manifest is for chain ${this.manifest.chainId}, but ${this.network} is chain ${this.chainId}`
+        );
+      }
+      if (
+        config.contractAddress &&
+        ethers.getAddress(validateAddress(config.contractAddress)) !==
+          this.manifest.proxy
+      ) {
+        throw new ValidationError(
+          `contractAddress ${config.contractAddress} does not match the manifest proxy ${this.manifest.proxy}`
+        );
+      }
+    }
+
     const address =
       config.contractAddress ||
-      STABLEBIRR_ADDRESSES[config.network || "polygon"];
+      this.manifest?.proxy ||
+      (chain
+        ? chain.contractAddress
+        : STABLEBIRR_ADDRESSES[config.network || "polygon"]);
     if (!address) {
       throw new ValidationError("Contract address not found for network");
     }
@@ -114,6 +309,40 @@ export class StableBirrContract {
       address,
       this.signer || this.provider
     );
+    this.fees = new FeeManager(
+      this.provider,
+      config.fees,
+      chain
+        ? chain.minPriorityFee ?? 0n
+        : config.network === "polygon" || config.network === "amoy"
+        ? POLYGON_MIN_PRIORITY_FEE
+        : 0n
+    );
+    this.simulate = new StableBirrSimulator(this.contract, this.signer);
+    this.preflight = new StableBirrPreflight(
+      this.contract,
+      this.provider,
+      this.signer
+    );
+    this.events = new StableBirrEvents(this.contract, this.provider);
+    this.history = new StableBirrHistory(
+      this.contract,
+      this.provider,
+      this.manifest?.deployBlock
+    );
+    this.bulk = new StableBirrBulk(this);
+    this.safe = new StableBirrSafe(
+      this.contract,
+      this.provider,
+      config.safe,
+      this.signer
+    );
+    this.offline = new StableBirrOffline(
+      this.contract,
+      this.provider,
+      this.fees,
+      this.signer
+    );
   }
 
   /**
@@ -123,6 +352,113 @@ export class StableBirrContract {
     return this.contract.target;
   }
 
+  /**
+   * The validated `config.deployment` manifest, if one was given.
+   */
+  public get deployment(): DeploymentManifest | undefined {
+    return this.manifest;
+  }
+
+  /**
+   * The nonce-managed signer when `config.nonceManager` is enabled, e.g. to call `resync()`.
+   */
+  public get nonceManager(): NonceManagedSigner | undefined {
+    return this.signer instanceof NonceManagedSigner ? this.signer : undefined;
+  }
+
+  /**
+   * The multi-endpoint provider when `config.rpc` is set, e.g. to read `health()`.
+   */
+  public get rpc(): FallbackRpcProvider | undefined {
+    return this.provider instanceof FallbackRpcProvider
+      ? this.provider
+      : undefined;
+  }
+
+  /**
+   * What the last successful `verify()` confirmed, or `undefined` before that.
+   */
+  public get identity(): ContractIdentity | undefined {
+    return this.verified;
+  }
+
+  /**
+   * Check that the provider and address are the StableBirr deployment the config names, and
+   * unlock privileged writes (mint, burn, compliance and admin calls) on success.
+   *
+   * **Checks**
+   * 1. The provider's chain ID equals the configured network's.
+   * 2. The address is set and has code.
+   * 3. The ERC-1967 implementation slot points at a contract.
+   * 4. `name()`, `symbol()` and `decimals()` match StableBirr's.
+   * 5. With `config.deployment`, the implementation is the manifest's latest one, so an upgrade
+   *    the manifest does not know about is caught.
+   *
+   * A failed verification locks privileged writes again until a later call succeeds.
+   *
+   * @throws IdentityMismatchError naming the failed check.
+   */
+  public async verify(): Promise<ContractIdentity> {
+    try {
+      this.verified = await IdentityHandler.verifyIdentity(
+        this.contract,
+        this.provider,
+        {
+          network: this.network,
+          chainId: this.chainId,
+          implementation:
+            this.manifest && currentImplementation(this.manifest).address,
+        }
+      );
+      return this.verified;
+    } catch (error: unknown) {
+      this.verified = undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * Create a local indexer bound to this contract and provider.
+   *
+   * @param options.path - JSON file to persist the index in (omit for in-memory).
+   * @param options.fromBlock - First block to index. Defaults to the manifest's `deployBlock` when
+   *   `config.deployment` is set.
+   * @throws ValidationError if the options are out of range.
+   */
+  public createIndexer(options: IndexerOptions = {}): StableBirrIndexer {
+    return new StableBirrIndexer(this.contract, this.provider, {
+      ...options,
+      fromBlock: options.fromBlock ?? this.manifest?.deployBlock,
+    });
+  }
+
+  /**
+   * Create a gasless transfer relayer that pays gas with this instance's signer. Call `listen()`
+   * on it to serve it over HTTP.
+   *
+   * @param options.rateLimit - Per-owner quota (relays and SBirr per window).
+   * @throws ValidationError if no signer is configured or the options are out of range.
+   */
+  public createRelayer(options: RelayerOptions = {}): StableBirrRelayer {
+    if (!this.signer) {
+      throw new ValidationError("Signer required to run a relayer");
+    }
+    return new StableBirrRelayer(
+      this,
+      this.contract,
+      this.provider,
+      this.signer,
+      options
+    );
+  }
+
+  /**
+   * Create a client for the relayer at `url`; transfers are signed by this instance's signer.
+   */
+  public createRelayerClient(url: string): RelayerClient {
+    return new RelayerClient(url, this.contract, this.provider, this.signer);
+  }
+
   /**
    * Mint new StableBirr tokens to a specific address.
    *
@@ -137,13 +473,13 @@ export class StableBirrContract {
    * - During treasury operations where Schnl Operator needs to issue SBirr to liquidity partners.
    *
    * @param params.to Recipient address.
-   * @param params.amount Amount of SBirr to mint (in wei).
-   * @param params.usdAmount USD amount deposited (wei, for audit parity).
-   * @param params.rate Human-supplied FX rate that must match the oracle within tolerance.
+   * @param params.amount Amount of SBirr to mint; derived from `usdAmount * rate` when omitted.
+   * @param params.usdAmount USD amount deposited (for audit parity).
+   * @param params.rate ETB-per-USD rate as a decimal string or a 1e18-scaled bigint (1..1000).
    * @throws ValidationError if the payload/signature is missing.
    * @throws ContractError if the on-chain call reverts (e.g., oracle mismatch).
    */
-  public async mint(params: MintParams): Promise<ethers.TransactionResponse> {
+  public async mint(params: MintParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for minting");
 
     const validation = MintParamsSchema.safeParse(params);
@@ -151,7 +487,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid mint parameters", validation.error);
     }
 
-    return MintHandler.mint(this.contract, this.signer, params);
+    return this.track(
+      MintHandler.mint(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -169,7 +511,7 @@ export class StableBirrContract {
    * @throws ValidationError if inputs are malformed or signer missing.
    * @throws ContractError when the contract reverts (insufficient balance, blacklisted, etc.).
    */
-  public async burn(params: BurnParams): Promise<ethers.TransactionResponse> {
+  public async burn(params: BurnParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for burning");
 
     const validation = BurnParamsSchema.safeParse(params);
@@ -177,7 +519,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid burn parameters", validation.error);
     }
 
-    return BurnHandler.burn(this.contract, this.signer, params);
+    return this.track(
+      BurnHandler.burn(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -187,13 +535,11 @@ export class StableBirrContract {
    * @param params - Parameters for transferring tokens.
    * @param params.to - Recipient address.
    * @param params.amount - Amount to transfer (in wei).
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
-  public async transfer(
-    params: TransferParams
-  ): Promise<ethers.TransactionResponse> {
+  public async transfer(params: TransferParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for transfer");
 
     const validation = TransferParamsSchema.safeParse(params);
@@ -204,7 +550,139 @@ export class StableBirrContract {
       );
     }
 
-    return TransferHandler.transfer(this.contract, this.signer, params);
+    return this.track(
+      TransferHandler.transfer(
+        this.contract,
+        this.signerFor(params.options),
+        params
+      )
+    );
+  }
+
+  /**
+   * Move tokens from `from` to `to` using the allowance `from` granted the signer. The contract
+   * applies the same blacklist/freeze checks to `from` and `to` as `transfer`; run
+   * `preflight.transferFrom` first to see every blocking rule.
+   *
+   * @throws ValidationError if parameters are invalid or signer is missing.
+   * @throws ContractError if the transfer reverts (insufficient allowance, blacklisted, frozen…).
+   */
+  public async transferFrom(
+    params: TransferFromParams
+  ): Promise<ManagedTransaction> {
+    if (!this.signer) {
+      throw new ValidationError("Signer required for transferFrom");
+    }
+
+    const validation = TransferFromParamsSchema.safeParse(params);
+    if (!validation.success) {
+      throw new ValidationError(
+        "Invalid transferFrom parameters",
+        validation.error
+      );
+    }
+
+    return this.track(
+      TransferHandler.transferFrom(
+        this.contract,
+        this.signerFor(params.options),
+        params
+      )
+    );
+  }
+
+  /**
+   * Set the allowance of `spender` over the signer's tokens (`"max"` for unlimited).
+   *
+   * Changing one non-zero allowance to another with a plain `approve` lets the spender front-run
+   * and spend both; prefer `safeApprove` for changes.
+   *
+   * @throws ValidationError if parameters are invalid or signer is missing.
+   */
+  public async approve(params: ApproveParams): Promise<ManagedTransaction> {
+    if (!this.signer) throw new ValidationError("Signer required for approve");
+
+    const validation = ApproveParamsSchema.safeParse(params);
+    if (!validation.success) {
+      throw new ValidationError("Invalid approve parameters", validation.error);
+    }
+
+    return this.track(
+      ApproveHandler.approve(
+        this.contract,
+        this.signerFor(params.options),
+        params
+      )
+    );
+  }
+
+  /**
+   * Change an allowance without the approve race.
+   *
+   * - With `expectedAllowance` (compare-and-set): the current allowance (pending block) must equal
+   *   it, otherwise `AllowanceChangedError` is thrown and nothing is sent.
+   * - Without it (set-to-zero-then-set): a non-zero allowance is reset to zero, the reset is
+   *   awaited, and only then is the new value approved.
+   *
+   * The contract has no atomic compare-and-set, so a spend landing between the read and the
+   * approval is still possible; both strategies shrink that window to one transaction.
+   *
+   * @returns The final `approve` transaction (the reset, if any, is already confirmed).
+   * @throws ValidationError if parameters are invalid or signer is missing.
+   * @throws AllowanceChangedError if the allowance differs from `expectedAllowance`.
+   */
+  public async safeApprove(
+    params: SafeApproveParams
+  ): Promise<ManagedTransaction> {
+    if (!this.signer) throw new ValidationError("Signer required for approve");
+
+    const validation = SafeApproveParamsSchema.safeParse(params);
+    if (!validation.success) {
+      throw new ValidationError("Invalid approve parameters", validation.error);
+    }
+    const [spender, amount] = buildCallArgs(() =>
+      ApproveHandler.buildApproveArgs(params)
+    );
+
+    let current: bigint;
+    try {
+      const owner = await this.signer.getAddress();
+      current = await this.contract.allowance(owner, spender, {
+        blockTag: "pending",
+      });
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to read allowance");
+    }
+
+    if (params.expectedAllowance !== undefined) {
+      const expected = buildCallArgs(() =>
+        ApproveHandler.parseAllowance(params.expectedAllowance!)
+      );
+      if (current !== expected) {
+        throw new AllowanceChangedError(
+          `Allowance of ${spender} is ${current}, expected ${expected}`,
+          spender,
+          expected,
+          current
+        );
+      }
+    } else if (current !== 0n && amount !== 0n && current !== amount) {
+      const reset = await this.approve({
+        spender,
+        amount: "0",
+        options: params.options,
+      });
+      await reset.wait();
+      // Chain the nonce: the provider's pending count can lag right after confirmation.
+      return this.approve({
+        ...params,
+        options: this.nonceManager
+          ? params.options
+          : { ...params.options, nonce: reset.nonce + 1 },
+      });
+    }
+
+    return this.approve(params);
   }
 
   /**
@@ -213,13 +691,11 @@ export class StableBirrContract {
    *
    * @param params - Parameters for blacklisting.
    * @param params.account - Address to blacklist.
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
-  public async blacklist(
-    params: BlacklistParams
-  ): Promise<ethers.TransactionResponse> {
+  public async blacklist(params: BlacklistParams): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for blacklisting");
 
@@ -231,7 +707,13 @@ export class StableBirrContract {
       );
     }
 
-    return BlacklistHandler.blacklist(this.contract, this.signer, params);
+    return this.track(
+      BlacklistHandler.blacklist(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -240,13 +722,13 @@ export class StableBirrContract {
    *
    * @param params - Parameters for unblacklisting.
    * @param params.account - Address to unblacklist.
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
   public async unblacklist(
     params: BlacklistParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for unblacklisting");
 
@@ -258,7 +740,13 @@ export class StableBirrContract {
       );
     }
 
-    return BlacklistHandler.unblacklist(this.contract, this.signer, params);
+    return this.track(
+      BlacklistHandler.unblacklist(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -268,9 +756,7 @@ export class StableBirrContract {
    *
    * @param params - Parameters describing the account and reason (case ID, incident ticket, etc.).
    */
-  public async freeze(
-    params: FreezeParams
-  ): Promise<ethers.TransactionResponse> {
+  public async freeze(params: FreezeParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for freeze");
 
     const validation = FreezeParamsSchema.safeParse(params);
@@ -278,7 +764,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid freeze parameters", validation.error);
     }
 
-    return FreezeHandler.freeze(this.contract, this.signer, params);
+    return this.track(
+      FreezeHandler.freeze(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -287,9 +779,7 @@ export class StableBirrContract {
    *
    * @param params - Parameters describing the account and unfreeze reason.
    */
-  public async unfreeze(
-    params: UnfreezeParams
-  ): Promise<ethers.TransactionResponse> {
+  public async unfreeze(params: UnfreezeParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for unfreeze");
 
     const validation = UnfreezeParamsSchema.safeParse(params);
@@ -300,7 +790,13 @@ export class StableBirrContract {
       );
     }
 
-    return FreezeHandler.unfreeze(this.contract, this.signer, params);
+    return this.track(
+      FreezeHandler.unfreeze(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -311,7 +807,7 @@ export class StableBirrContract {
    */
   public async wipeFrozenBalance(
     params: WipeFrozenParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for wiping frozen balance");
 
@@ -320,7 +816,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid wipe parameters", validation.error);
     }
 
-    return FreezeHandler.wipeFrozenBalance(this.contract, this.signer, params);
+    return this.track(
+      FreezeHandler.wipeFrozenBalance(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -331,13 +833,11 @@ export class StableBirrContract {
    * @param params.tokenAddress - Address of the token to rescue.
    * @param params.to - Recipient address for the rescued tokens.
    * @param params.amount - Amount to rescue.
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
-  public async rescue(
-    params: RescueParams
-  ): Promise<ethers.TransactionResponse> {
+  public async rescue(params: RescueParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for rescue");
 
     const validation = RescueParamsSchema.safeParse(params);
@@ -345,7 +845,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid rescue parameters", validation.error);
     }
 
-    return RescueHandler.rescue(this.contract, this.signer, params);
+    return this.track(
+      RescueHandler.rescue(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
@@ -359,13 +865,11 @@ export class StableBirrContract {
    * @param params.v - Recovery ID of the signature.
    * @param params.r - R output of the signature.
    * @param params.s - S output of the signature.
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
-  public async permit(
-    params: PermitParams
-  ): Promise<ethers.TransactionResponse> {
+  public async permit(params: PermitParams): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for permit execution");
 
@@ -374,7 +878,100 @@ export class StableBirrContract {
       throw new ValidationError("Invalid permit parameters", validation.error);
     }
 
-    return PermitHandler.permit(this.contract, this.signer, params);
+    return this.track(
+      PermitHandler.permit(
+        this.contract,
+        this.signerFor(params.options),
+        params
+      )
+    );
+  }
+
+  /**
+   * Sign an EIP-2612 permit with the configured signer, so a spender can submit it (and pay the
+   * gas) with `permit` or `permitAndTransferFrom`. Nothing is sent.
+   *
+   * @param params - Owner (must be the signer), spender, value and deadline (Unix seconds).
+   * @returns The signature together with the permit fields and the nonce it was signed for.
+   * @throws {ValidationError} If parameters are invalid, the deadline has passed, the signer is
+   *   missing or is not the owner.
+   */
+  public async signPermit(params: SignPermitParams): Promise<PermitSignature> {
+    if (!this.signer)
+      throw new ValidationError("Signer required to sign permits");
+
+    const validation = SignPermitParamsSchema.safeParse(params);
+    if (!validation.success) {
+      throw new ValidationError("Invalid permit parameters", validation.error);
+    }
+    if (params.deadline <= Math.floor(Date.now() / 1000)) {
+      throw new ValidationError("Permit deadline has already passed");
+    }
+
+    return PermitHandler.signPermit(
+      this.contract,
+      this.provider,
+      this.signer,
+      params
+    );
+  }
+
+  /**
+   * As the spender, submit an owner's permit and pull the funds with `transferFrom`.
+   *
+   * The permit is skipped when the allowance (pending block) already covers the amount, e.g.
+   * because someone else submitted the same signature first, which would otherwise make this
+   * call revert. Otherwise the permit is sent and confirmed before the transfer.
+   *
+   * @param params - A permit naming the signer as spender, plus the recipient and amount.
+   * @returns The `transferFrom` transaction (the permit, if sent, is already confirmed).
+   * @throws {ValidationError} If parameters are invalid, the signer is missing or is not the
+   *   permit's spender.
+   * @throws {ContractError} If either transaction fails on-chain.
+   */
+  public async permitAndTransferFrom(
+    params: PermitAndTransferFromParams
+  ): Promise<ManagedTransaction> {
+    if (!this.signer)
+      throw new ValidationError("Signer required for permit execution");
+
+    const validation = PermitAndTransferFromParamsSchema.safeParse(params);
+    if (!validation.success) {
+      throw new ValidationError("Invalid permit parameters", validation.error);
+    }
+    const { to, amount = params.value, options, ...permit } = params;
+
+    let allowance: bigint;
+    try {
+      const spender = await this.signer.getAddress();
+      if (ethers.getAddress(permit.spender) !== spender) {
+        throw new ValidationError(
+          `Permit spender ${permit.spender} is not the configured signer ${spender}`
+        );
+      }
+      allowance = await this.contract.allowance(permit.owner, spender, {
+        blockTag: "pending",
+      });
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to read allowance");
+    }
+
+    let transferOptions = options;
+    if (allowance < toWei(amount)) {
+      const permitTx = await this.permit({ ...permit, options });
+      await permitTx.wait();
+      // Chain the nonce: the provider's pending count can lag right after confirmation.
+      transferOptions = this.nonceManager
+        ? options
+        : { ...options, nonce: permitTx.nonce + 1 };
+    }
+
+    return this.transferFrom({
+      from: permit.owner,
+      to,
+      amount,
+      options: transferOptions,
+    });
   }
 
   /**
@@ -382,7 +979,7 @@ export class StableBirrContract {
    *
    * @param params - Parameters containing the pause reason.
    */
-  public async pause(params: PauseParams): Promise<ethers.TransactionResponse> {
+  public async pause(params: PauseParams): Promise<ManagedTransaction> {
     if (!this.signer) throw new ValidationError("Signer required for pausing");
 
     const validation = PauseParamsSchema.safeParse(params);
@@ -390,7 +987,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid pause parameters", validation.error);
     }
 
-    return AdminHandler.pause(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.pause(
+        this.contract,
+        this.privilegedSignerFor(params.options),
+        params
+      )
+    );
   }
 
   /**
@@ -398,9 +1001,7 @@ export class StableBirrContract {
    *
    * @param params - Parameters containing the unpause reason.
    */
-  public async unpause(
-    params: UnpauseParams
-  ): Promise<ethers.TransactionResponse> {
+  public async unpause(params: UnpauseParams): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for unpausing");
 
@@ -409,7 +1010,13 @@ export class StableBirrContract {
       throw new ValidationError("Invalid unpause parameters", validation.error);
     }
 
-    return AdminHandler.unpause(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.unpause(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
@@ -418,13 +1025,13 @@ export class StableBirrContract {
    *
    * @param params - Parameters for updating admin.
    * @param params.newAdmin - New admin address.
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
   public async updateSchnlAdmin(
     params: UpdateAdminParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for updating admin");
 
@@ -436,7 +1043,13 @@ export class StableBirrContract {
       );
     }
 
-    return AdminHandler.updateSchnlAdmin(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.updateSchnlAdmin(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
@@ -445,13 +1058,13 @@ export class StableBirrContract {
    *
    * @param params - Parameters for updating operator.
    * @param params.newOperator - New operator address.
-   * @returns Promise resolving to the transaction response.
+   * @returns Promise resolving to the managed transaction.
    * @throws {ValidationError} If parameters are invalid or signer is missing.
    * @throws {ContractError} If the transaction fails on-chain.
    */
   public async updateSchnlOperator(
     params: UpdateOperatorParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for updating operator");
 
@@ -463,7 +1076,13 @@ export class StableBirrContract {
       );
     }
 
-    return AdminHandler.updateSchnlOperator(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.updateSchnlOperator(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
@@ -472,7 +1091,7 @@ export class StableBirrContract {
    */
   public async setSupplyCap(
     params: SetSupplyCapParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for supply cap update");
 
@@ -484,7 +1103,13 @@ export class StableBirrContract {
       );
     }
 
-    return AdminHandler.setSupplyCap(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.setSupplyCap(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
@@ -511,7 +1136,7 @@ export class StableBirrContract {
    */
   public async configureMinter(
     params: ConfigureMinterParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for minter configuration");
 
@@ -523,7 +1148,13 @@ export class StableBirrContract {
       );
     }
 
-    return AdminHandler.configureMinter(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.configureMinter(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
@@ -538,7 +1169,7 @@ export class StableBirrContract {
    */
   public async removeMinter(
     params: RemoveMinterParams
-  ): Promise<ethers.TransactionResponse> {
+  ): Promise<ManagedTransaction> {
     if (!this.signer)
       throw new ValidationError("Signer required for removing minters");
 
@@ -550,21 +1181,31 @@ export class StableBirrContract {
       );
     }
 
-    return AdminHandler.removeMinter(this.contract, this.signer, params);
+    return this.track(
+      AdminHandler.removeMinter(
+        this.contract,
+        this.privilegedSignerFor(params.options, true),
+        params
+      )
+    );
   }
 
   /**
    * Check if an address is currently blacklisted.
    *
    * @param address - Address to check.
+   * @param blockTag - Block to read at (historical reads need an archive node). Defaults to latest.
    * @returns Promise resolving to true if blacklisted, false otherwise.
    * @throws {ContractError} If the check fails.
    */
-  public async isBlacklisted(address: string): Promise<boolean> {
+  public async isBlacklisted(
+    address: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<boolean> {
     try {
-      return await this.contract.isBlacklisted(address);
+      return await this.contract.isBlacklisted(address, this.at(blockTag));
     } catch (error: unknown) {
-      throw new ContractError("Failed to check blacklist status", error);
+      throw toStableBirrError(error, "Failed to check blacklist status");
     }
   }
 
@@ -573,14 +1214,18 @@ export class StableBirrContract {
    * status” badges or for back-office scripts that decide whether to initiate manual reviews.
    *
    * @param address - Address to check.
+   * @param blockTag - Block to read at. Defaults to latest.
    * @returns Promise resolving to true if frozen.
    * @throws {ContractError} If the check fails.
    */
-  public async isFrozen(address: string): Promise<boolean> {
+  public async isFrozen(
+    address: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<boolean> {
     try {
-      return await this.contract.isFrozen(address);
+      return await this.contract.isFrozen(address, this.at(blockTag));
     } catch (error: unknown) {
-      throw new ContractError("Failed to check freeze status", error);
+      throw toStableBirrError(error, "Failed to check freeze status");
     }
   }
 
@@ -588,37 +1233,49 @@ export class StableBirrContract {
    * Determine whether an address is currently authorized as a minter.
    *
    * @param address Address to check.
+   * @param blockTag Block to read at. Defaults to latest.
    * @returns Promise resolving to true if the minter is active.
    */
-  public async isMinter(address: string): Promise<boolean> {
+  public async isMinter(
+    address: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<boolean> {
     try {
-      return await this.contract.isMinter(address);
+      return await this.contract.isMinter(address, this.at(blockTag));
     } catch (error: unknown) {
-      throw new ContractError("Failed to check minter status", error);
+      throw toStableBirrError(error, "Failed to check minter status");
     }
   }
 
   /**
-   * Retrieve the remaining mint allowance for a minter. Returns the raw wei amount so you can
-   * render it however you like (convert to decimals client-side).
+   * Retrieve the remaining mint allowance for a minter, in wei and formatted.
    */
-  public async minterAllowance(address: string): Promise<string> {
+  public async minterAllowance(
+    address: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
     try {
-      const allowance = await this.contract.minterAllowance(address);
-      return allowance.toString();
+      const allowance = await this.contract.minterAllowance(
+        address,
+        this.at(blockTag)
+      );
+      return toTokenAmount(allowance);
     } catch (error: unknown) {
-      throw new ContractError("Failed to fetch minter allowance", error);
+      throw toStableBirrError(error, "Failed to fetch minter allowance");
     }
   }
 
   /**
    * Check if a minter is also authorized to initiate burn flows.
    */
-  public async minterCanBurn(address: string): Promise<boolean> {
+  public async minterCanBurn(
+    address: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<boolean> {
     try {
-      return await this.contract.minterCanBurn(address);
+      return await this.contract.minterCanBurn(address, this.at(blockTag));
     } catch (error: unknown) {
-      throw new ContractError("Failed to fetch canBurn flag", error);
+      throw toStableBirrError(error, "Failed to fetch canBurn flag");
     }
   }
 
@@ -626,30 +1283,396 @@ export class StableBirrContract {
    * Get the StableBirr balance of an address.
    *
    * @param address - Address to check balance for.
-   * @returns Promise resolving to the balance as a string (in ether units).
+   * @param blockTag - Block to read at. Defaults to latest.
+   * @returns Promise resolving to the balance in wei and formatted (e.g. `"1.5"`).
    * @throws {ContractError} If the check fails.
    */
-  public async getBalance(address: string): Promise<string> {
+  public async getBalance(
+    address: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
     try {
-      const balance = await this.contract.balanceOf(address);
-      return ethers.formatUnits(balance, 18);
+      const balance = await this.contract.balanceOf(address, this.at(blockTag));
+      return toTokenAmount(balance);
     } catch (error: unknown) {
-      throw new ContractError("Failed to get balance", error);
+      throw toStableBirrError(error, "Failed to get balance");
     }
   }
 
   /**
    * Get the total supply of StableBirr tokens.
    *
-   * @returns Promise resolving to the total supply as a string (in ether units).
+   * @param blockTag - Block to read at. Defaults to latest.
+   * @returns Promise resolving to the total supply in wei and formatted.
    * @throws {ContractError} If the check fails.
    */
-  public async getTotalSupply(): Promise<string> {
+  public async getTotalSupply(
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
+    try {
+      const supply = await this.contract.totalSupply(this.at(blockTag));
+      return toTokenAmount(supply);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get total supply");
+    }
+  }
+
+  /**
+   * Current Schnl Admin (in production, the admin Safe).
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getSchnlAdmin(blockTag?: ethers.BlockTag): Promise<string> {
+    try {
+      return await this.contract.schnlAdmin(this.at(blockTag));
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get Schnl Admin");
+    }
+  }
+
+  /**
+   * Current Schnl Operator.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getSchnlOperator(blockTag?: ethers.BlockTag): Promise<string> {
     try {
-      const supply = await this.contract.totalSupply();
-      return ethers.formatUnits(supply, 18);
+      return await this.contract.schnlOperator(this.at(blockTag));
     } catch (error: unknown) {
-      throw new ContractError("Failed to get total supply", error);
+      throw toStableBirrError(error, "Failed to get Schnl Operator");
+    }
+  }
+
+  /**
+   * Whether the contract is paused (mints, burns and transfers halted).
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async isPaused(blockTag?: ethers.BlockTag): Promise<boolean> {
+    try {
+      return await this.contract.paused(this.at(blockTag));
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to check pause status");
+    }
+  }
+
+  /**
+   * Maximum total supply; zero means uncapped.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getSupplyCap(blockTag?: ethers.BlockTag): Promise<TokenAmount> {
+    try {
+      const cap = await this.contract.supplyCap(this.at(blockTag));
+      return toTokenAmount(cap);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get supply cap");
+    }
+  }
+
+  /**
+   * Cumulative USD amount recorded by mints, for reserve reconciliation.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getTotalUSDConverted(
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
+    try {
+      const total = await this.contract.totalUSDConverted(this.at(blockTag));
+      return toTokenAmount(total);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get total USD converted");
+    }
+  }
+
+  /**
+   * Cumulative SBirr burned through `burn`.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getTotalBurned(
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
+    try {
+      const total = await this.contract.totalBurned(this.at(blockTag));
+      return toTokenAmount(total);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get total burned");
+    }
+  }
+
+  /**
+   * Cumulative SBirr wiped from frozen accounts.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getTotalFrozenWiped(
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
+    try {
+      const total = await this.contract.totalFrozenWiped(this.at(blockTag));
+      return toTokenAmount(total);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get total frozen wiped");
+    }
+  }
+
+  /**
+   * Next EIP-2612 permit nonce of `owner`.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   * @throws ValidationError if `owner` is not an address.
+   */
+  public async getPermitNonce(
+    owner: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<bigint> {
+    validateAddress(owner);
+    try {
+      return await this.contract.nonces(owner, this.at(blockTag));
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get permit nonce");
+    }
+  }
+
+  /**
+   * EIP-712 domain separator used to verify permits.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   */
+  public async getDomainSeparator(blockTag?: ethers.BlockTag): Promise<string> {
+    try {
+      return await this.contract.DOMAIN_SEPARATOR(this.at(blockTag));
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get domain separator");
+    }
+  }
+
+  /**
+   * ERC-20 allowance `owner` granted `spender`.
+   *
+   * @param blockTag - Block to read at. Defaults to latest.
+   * @throws ValidationError if either address is invalid.
+   */
+  public async getAllowance(
+    owner: string,
+    spender: string,
+    blockTag?: ethers.BlockTag
+  ): Promise<TokenAmount> {
+    validateAddress(owner);
+    validateAddress(spender);
+    try {
+      const allowance = await this.contract.allowance(
+        owner,
+        spender,
+        this.at(blockTag)
+      );
+      return toTokenAmount(allowance);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to get allowance");
+    }
+  }
+
+  /**
+   * Snapshot of governance and monetary state (roles, pause flag, implementation, supply, cap and
+   * the mint/burn/wipe totals), every value read at the same block. Pass the returned
+   * `blockNumber` to the per-account getters to read balances consistently with it.
+   *
+   * @param blockTag - Block to read at (historical reads need an archive node). Defaults to latest.
+   * @throws ValidationError if `blockTag` does not resolve to a block.
+   */
+  public async getState(blockTag?: ethers.BlockTag): Promise<ContractState> {
+    return StateHandler.getState(this.contract, this.provider, blockTag);
+  }
+
+  /**
+   * Fetch the on-chain `mintRecords` entry for a record ID.
+   *
+   * @param recordId - 32-byte record ID (see `computeMintRecordId`).
+   * @returns The typed record, or `null` if no mint produced that ID.
+   */
+  public async getMintRecord(recordId: string): Promise<MintRecord | null> {
+    return RecordsHandler.getMintRecord(
+      this.contract,
+      this.validateRecordId(recordId)
+    );
+  }
+
+  /**
+   * Fetch the on-chain `burnRecords` entry for a record ID.
+   *
+   * @returns The typed record, or `null` if no burn produced that ID.
+   */
+  public async getBurnRecord(recordId: string): Promise<BurnRecord | null> {
+    return RecordsHandler.getBurnRecord(
+      this.contract,
+      this.validateRecordId(recordId)
+    );
+  }
+
+  /**
+   * Resolve the mint record(s) created by a transaction.
+   *
+   * The contract never emits the record ID, so it is recomputed from each `Minted` log and the
+   * receipt's block timestamp, then looked up on-chain. Each result carries `transactionHash` and
+   * `blockNumber` so audit trails can link the record back to its transaction.
+   *
+   * @throws ValidationError if the transaction is unknown or not yet mined.
+   */
+  public async getMintRecordsByTransaction(
+    txHash: string
+  ): Promise<MintRecord[]> {
+    return RecordsHandler.getMintRecordsByTransaction(
+      this.contract,
+      this.provider,
+      this.validateRecordId(txHash, "transaction hash")
+    );
+  }
+
+  /**
+   * Resolve the burn record(s) created by a transaction (see `getMintRecordsByTransaction`).
+   */
+  public async getBurnRecordsByTransaction(
+    txHash: string
+  ): Promise<BurnRecord[]> {
+    return RecordsHandler.getBurnRecordsByTransaction(
+      this.contract,
+      this.provider,
+      this.validateRecordId(txHash, "transaction hash")
+    );
+  }
+
+  /**
+   * Compute the record ID `mint` stores for `params` when mined in a block with `timestamp`,
+   * exactly as `StableBirrOperations.mint` does.
+   *
+   * @param timestamp - Block timestamp in seconds.
+   */
+  public computeMintRecordId(
+    params: Pick<MintParams, "to" | "amount" | "usdAmount" | "rate">,
+    timestamp: number | bigint
+  ): string {
+    const [to, amount, usdAmount, rate] = buildCallArgs(() =>
+      MintHandler.buildMintArgs(params)
+    );
+    return RecordsHandler.computeMintRecordId(
+      validateAddress(to),
+      amount,
+      usdAmount,
+      rate,
+      timestamp
+    );
+  }
+
+  /**
+   * Compute the record ID `burn` stores for `params` when mined in a block with `timestamp`.
+   */
+  public computeBurnRecordId(
+    params: Pick<BurnParams, "from" | "amount" | "merchantId">,
+    timestamp: number | bigint
+  ): string {
+    const [from, amount, merchantId] = buildCallArgs(() =>
+      BurnHandler.buildBurnArgs(params)
+    );
+    return RecordsHandler.computeBurnRecordId(
+      validateAddress(from),
+      amount,
+      merchantId,
+      timestamp
+    );
+  }
+
+  /**
+   * Resume tracking a transaction by hash, e.g. after a process restart.
+   *
+   * @returns `null` when the node does not know the transaction.
+   * @throws ValidationError if `hash` is not a 32-byte hex string.
+   */
+  public async getTransaction(
+    hash: string
+  ): Promise<ManagedTransaction | null> {
+    if (!ethers.isHexString(hash, 32)) {
+      throw new ValidationError(`Invalid transaction hash: ${hash}`);
+    }
+    let response: ethers.TransactionResponse | null;
+    try {
+      response = await this.provider.getTransaction(hash);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to fetch transaction");
+    }
+    return response && new ManagedTransaction(response, this.provider);
+  }
+
+  /**
+   * Signer for one write call, applying `config.fees` and the call's `options`. Admin calls are
+   * subject to the fee ceiling.
+   */
+  private signerFor(
+    options: TransactionOptions | undefined,
+    admin: boolean = false
+  ): ethers.Signer {
+    return this.fees.wrap(this.signer!, options, admin);
+  }
+
+  /**
+   * `signerFor` for role-gated writes, refused until `verify()` has passed so a misconfigured RPC
+   * or address cannot receive privileged transactions.
+   */
+  private privilegedSignerFor(
+    options: TransactionOptions | undefined,
+    admin: boolean = false
+  ): ethers.Signer {
+    if (!this.verified) {
+      throw new UnverifiedContractError(
+        "Deployment not verified: call `await sbirr.connect()` before privileged calls"
+      );
+    }
+    return this.signerFor(options, admin);
+  }
+
+  /**
+   * Match `eth_call`s to this contract's `reads` (default `DEFAULT_QUORUM_READS`) for quorum.
+   */
+  private quorumFilter(
+    reads: string[] = DEFAULT_QUORUM_READS
+  ): (call: { to: string; data: string }) => boolean {
+    const contractInterface: ethers.Interface =
+      StableBirr__factory.createInterface();
+    const selectors = new Set(
+      reads.map((name) => {
+        const fragment = contractInterface.getFunction(name);
+        if (!fragment?.constant) {
+          throw new ValidationError(
+            `rpc.quorum.reads: ${name} is not a StableBirr view function`
+          );
+        }
+        return fragment.selector;
+      })
+    );
+    return (call) =>
+      call.to.toLowerCase() === String(this.contract.target).toLowerCase() &&
+      selectors.has(call.data.slice(0, 10));
+  }
+
+  /** Call overrides pinning a read to `blockTag`, or none for the latest block. */
+  private at(blockTag?: ethers.BlockTag): { blockTag?: ethers.BlockTag } {
+    return blockTag === undefined ? {} : { blockTag };
+  }
+
+  /**
+   * Wrap a submitted transaction in a lifecycle tracker bound to this resource's provider.
+   */
+  private async track(
+    submission: Promise<ethers.TransactionResponse>
+  ): Promise<ManagedTransaction> {
+    return new ManagedTransaction(await submission, this.provider);
+  }
+
+  private validateRecordId(value: string, label: string = "record ID"): string {
+    if (!ethers.isHexString(value, 32)) {
+      throw new ValidationError(`Invalid ${label}: ${value}`);
     }
+    return value;
   }
 }
@@ -0,0 +1,324 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import type { SafeConfig } from "@/types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { validateAddress } from "@/core/validation";
+import type {
+  BlacklistParams,
+  FreezeParams,
+  UnfreezeParams,
+  WipeFrozenParams,
+  RescueParams,
+  UpdateAdminParams,
+  UpdateOperatorParams,
+  SetSupplyCapParams,
+  ConfigureMinterParams,
+  RemoveMinterParams,
+  PauseParams,
+  UnpauseParams,
+  UpgradeParams,
+  WriteMethod,
+  WriteMethodParams,
+  SafeTransactionData,
+  SafeTransactionOptions,
+  SafeSignableTransaction,
+  SafeSignature,
+  SafeTransactionBuilderOptions,
+  SafeTransactionBuilderFile,
+} from "@/resources/contract/contract.types";
+import * as CalldataHandler from "@/resources/contract/handlers/calldata.handler";
+import * as SafeHandler from "@/resources/contract/handlers/safe.handler";
+
+/** Version string the Safe Transaction Builder app stamps on its own exports. */
+const TX_BUILDER_VERSION = "1.16.5";
+
+const SAFE_NONCE_ABI = ["function nonce() view returns (uint256)"];
+
+/**
+ * Safe multisig proposals for admin operations, exposed as `sbirr.contract.safe`.
+ *
+ * In production `schnlAdmin` is a Safe, so admin calls cannot be sent from an EOA. Every admin
+ * method here has the same params and validation as its `StableBirrContract` counterpart but
+ * returns the call the Safe must execute instead of broadcasting it (`options` is ignored).
+ * Proposals can be batched into one MultiSend transaction, exported for the Safe{Wallet}
+ * Transaction Builder, or bound to a Safe nonce to compute the `safeTxHash` that owners sign
+ * offline.
+ *
+ * ```ts
+ * const batch = sbirr.contract.safe.batch([
+ *   sbirr.contract.safe.blacklist({ account }),
+ *   sbirr.contract.safe.setSupplyCap({ cap: "5000000" }),
+ * ]);
+ * const prepared = await sbirr.contract.safe.prepare(batch);
+ * const signature = await sbirr.contract.safe.sign(prepared);
+ * ```
+ */
+export class StableBirrSafe {
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    private readonly config?: SafeConfig,
+    private readonly signer?: ethers.Signer
+  ) {}
+
+  /**
+   * Propose `blacklist(account)`.
+   */
+  public blacklist(params: BlacklistParams): SafeTransactionData {
+    return this.propose("blacklist", params);
+  }
+
+  /**
+   * Propose `unblacklist(account)`.
+   */
+  public unblacklist(params: BlacklistParams): SafeTransactionData {
+    return this.propose("unblacklist", params);
+  }
+
+  /**
+   * Propose `freeze(account, reason)`.
+   */
+  public freeze(params: FreezeParams): SafeTransactionData {
+    return this.propose("freeze", params);
+  }
+
+  /**
+   * Propose `unfreeze(account, reason)`.
+   */
+  public unfreeze(params: UnfreezeParams): SafeTransactionData {
+    return this.propose("unfreeze", params);
+  }
+
+  /**
+   * Propose `wipeFrozenBalance(account, caseId)`.
+   */
+  public wipeFrozenBalance(params: WipeFrozenParams): SafeTransactionData {
+    return this.propose("wipeFrozenBalance", params);
+  }
+
+  /**
+   * Propose `rescueERC20(token, to, amount)`.
+   */
+  public rescue(params: RescueParams): SafeTransactionData {
+    return this.propose("rescue", params);
+  }
+
+  /**
+   * Propose `pause(reason)`.
+   */
+  public pause(params: PauseParams): SafeTransactionData {
+    return this.propose("pause", params);
+  }
+
+  /**
+   * Propose `unpause(reason)`.
+   */
+  public unpause(params: UnpauseParams): SafeTransactionData {
+    return this.propose("unpause", params);
+  }
+
+  /**
+   * Propose `updateSchnlAdmin(newAdmin)`, e.g. to rotate to a new Safe.
+   */
+  public updateSchnlAdmin(params: UpdateAdminParams): SafeTransactionData {
+    return this.propose("updateSchnlAdmin", params);
+  }
+
+  /**
+   * Propose `updateSchnlOperator(newOperator)`.
+   */
+  public updateSchnlOperator(
+    params: UpdateOperatorParams
+  ): SafeTransactionData {
+    return this.propose("updateSchnlOperator", params);
+  }
+
+  /**
+   * Propose `setSupplyCap(cap)`; `cap` is in whole tokens, as for `StableBirrContract`.
+   */
+  public setSupplyCap(params: SetSupplyCapParams): SafeTransactionData {
+    return this.propose("setSupplyCap", params);
+  }
+
+  /**
+   * Propose `configureMinter(minter, allowance, canBurn)`; `"max"` becomes `2^256 - 1`.
+   */
+  public configureMinter(params: ConfigureMinterParams): SafeTransactionData {
+    return this.propose("configureMinter", params);
+  }
+
+  /**
+   * Propose `removeMinter(minter)`.
+   */
+  public removeMinter(params: RemoveMinterParams): SafeTransactionData {
+    return this.propose("removeMinter", params);
+  }
+
+  /**
+   * Propose a UUPS upgrade of the proxy to `newImplementation`, optionally running `data` on it.
+   * Deploy (and validate) the implementation first, e.g. with the contracts package's upgrade
+   * script.
+   */
+  public upgradeToAndCall(params: UpgradeParams): SafeTransactionData {
+    return this.propose("upgradeToAndCall", params);
+  }
+
+  /**
+   * Combine proposals into one Safe transaction: a delegatecall to MultiSendCallOnly
+   * (`config.safe.multiSendCallOnlyAddress`, default: the canonical v1.3.0 deployment). Batches
+   * passed in are flattened. All calls succeed or the whole batch reverts.
+   *
+   * @throws ValidationError if the list is empty.
+   */
+  public batch(transactions: SafeTransactionData[]): SafeTransactionData {
+    const multiSend =
+      this.config?.multiSendCallOnlyAddress ??
+      SafeHandler.DEFAULT_MULTI_SEND_CALL_ONLY;
+    return SafeHandler.buildMultiSend(validateAddress(multiSend), transactions);
+  }
+
+  /**
+   * Bind a proposal to a Safe, chain and nonce, producing the `safeTxHash` and the EIP-712 payload
+   * owners sign. Missing values come from `config.safe`, the provider and the Safe's `nonce()`.
+   *
+   * @throws ValidationError if no Safe address is given or configured.
+   */
+  public async prepare(
+    transaction: SafeTransactionData,
+    options: SafeTransactionOptions = {}
+  ): Promise<SafeSignableTransaction> {
+    const safeAddress = this.resolveSafe(options.safeAddress);
+    const [chainId, nonce] = await Promise.all([
+      this.resolveChainId(options.chainId),
+      options.nonce !== undefined
+        ? Promise.resolve(BigInt(options.nonce))
+        : this.readNonce(safeAddress),
+    ]);
+    return SafeHandler.buildSafeTransaction(
+      transaction,
+      safeAddress,
+      chainId,
+      nonce,
+      options
+    );
+  }
+
+  /**
+   * Compute the Safe transaction hash (`getTransactionHash` on the Safe) for a proposal.
+   */
+  public async getTransactionHash(
+    transaction: SafeTransactionData,
+    options: SafeTransactionOptions = {}
+  ): Promise<string> {
+    return (await this.prepare(transaction, options)).safeTxHash;
+  }
+
+  /**
+   * Sign a prepared transaction with the configured signer (EIP-712), as one Safe owner.
+   * Signatures from several owners can be collected offline and submitted together.
+   *
+   * @throws ValidationError if no signer is configured.
+   */
+  public async sign(prepared: SafeSignableTransaction): Promise<SafeSignature> {
+    if (!this.signer) {
+      throw new ValidationError("Signer required to sign Safe transactions");
+    }
+    try {
+      const { domain, types, message } = prepared.typedData;
+      const [signer, signature] = await Promise.all([
+        this.signer.getAddress(),
+        this.signer.signTypedData(domain, types, message),
+      ]);
+      return { signer, safeTxHash: prepared.safeTxHash, signature };
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to sign Safe transaction");
+    }
+  }
+
+  /**
+   * Export proposals as a Safe{Wallet} Transaction Builder batch file. MultiSend batches are
+   * expanded into their calls, since the Transaction Builder does its own batching.
+   *
+   * @throws ValidationError if no Safe address is given or configured.
+   */
+  public async toTransactionBuilderJson(
+    transactions: SafeTransactionData[],
+    options: SafeTransactionBuilderOptions = {}
+  ): Promise<SafeTransactionBuilderFile> {
+    const calls = transactions.flatMap((tx) => tx.transactions ?? [tx]);
+    if (calls.some((tx) => tx.operation !== 0)) {
+      throw new ValidationError(
+        "Transaction Builder files cannot contain delegatecalls"
+      );
+    }
+    const safeAddress = this.resolveSafe(options.safeAddress);
+    const chainId = await this.resolveChainId(options.chainId);
+
+    return {
+      version: "1.0",
+      chainId: chainId.toString(),
+      createdAt: Date.now(),
+      meta: {
+        name: options.name ?? "StableBirr admin batch",
+        description: options.description ?? "",
+        txBuilderVersion: TX_BUILDER_VERSION,
+        createdFromSafeAddress: safeAddress,
+        createdFromOwnerAddress: "",
+      },
+      transactions: calls.map((tx) => ({
+        to: tx.to,
+        value: tx.value,
+        data: tx.data,
+        contractMethod: null,
+        contractInputsValues: null,
+      })),
+    };
+  }
+
+  private propose<K extends WriteMethod>(
+    method: K,
+    params: WriteMethodParams[K]
+  ): SafeTransactionData {
+    return {
+      ...CalldataHandler.encodeCall(this.contract, method, params),
+      value: "0",
+      operation: 0,
+    };
+  }
+
+  private resolveSafe(address?: string): string {
+    const safe = address ?? this.config?.address;
+    if (!safe) {
+      throw new ValidationError(
+        "Safe address required: pass safeAddress or set config.safe"
+      );
+    }
+    return ethers.getAddress(validateAddress(safe));
+  }
+
+  private async resolveChainId(chainId?: bigint | number): Promise<bigint> {
+    if (chainId !== undefined) return BigInt(chainId);
+    try {
+      return (await this.provider.getNetwork()).chainId;
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to read chain ID");
+    }
+  }
+
+  private async readNonce(safeAddress: string): Promise<bigint> {
+    try {
+      const safe = new ethers.Contract(
+        safeAddress,
+        SAFE_NONCE_ABI,
+        this.provider
+      );
+      return await safe.getFunction("nonce")();
+    } catch (error: unknown) {
+      throw toStableBirrError(
+        error,
+        `Failed to read nonce of Safe ${safeAddress}`
+      );
+    }
+  }
+}
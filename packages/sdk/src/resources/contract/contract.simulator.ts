@@ -0,0 +1,649 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { ValidationError } from "@/core/errors";
+import { validateParams, buildCallArgs } from "@/core/validation";
+import type {
+  MintParams,
+  BurnParams,
+  TransferParams,
+  TransferFromParams,
+  ApproveParams,
+  BlacklistParams,
+  FreezeParams,
+  UnfreezeParams,
+  WipeFrozenParams,
+  RescueParams,
+  PermitParams,
+  UpdateAdminParams,
+  UpdateOperatorParams,
+  SetSupplyCapParams,
+  ConfigureMinterParams,
+  RemoveMinterParams,
+  PauseParams,
+  UnpauseParams,
+  SimulationResult,
+  StateDelta,
+} from "@/resources/contract/contract.types";
+import {
+  MintParamsSchema,
+  BurnParamsSchema,
+  TransferParamsSchema,
+  TransferFromParamsSchema,
+  ApproveParamsSchema,
+  BlacklistParamsSchema,
+  FreezeParamsSchema,
+  UnfreezeParamsSchema,
+  WipeFrozenParamsSchema,
+  RescueParamsSchema,
+  PermitParamsSchema,
+  UpdateAdminParamsSchema,
+  UpdateOperatorParamsSchema,
+  SetSupplyCapParamsSchema,
+  ConfigureMinterParamsSchema,
+  RemoveMinterParamsSchema,
+  PauseParamsSchema,
+  UnpauseParamsSchema,
+} from "@/resources/contract/contract.validator";
+import * as MintHandler from "@/resources/contract/handlers/mint.handler";
+import * as BurnHandler from "@/resources/contract/handlers/burn.handler";
+import * as TransferHandler from "@/resources/contract/handlers/transfer.handler";
+import * as ApproveHandler from "@/resources/contract/handlers/approve.handler";
+import * as RescueHandler from "@/resources/contract/handlers/rescue.handler";
+import * as PermitHandler from "@/resources/contract/handlers/permit.handler";
+import * as AdminHandler from "@/resources/contract/handlers/admin.handler";
+import * as SimulateHandler from "@/resources/contract/handlers/simulate.handler";
+
+/**
+ * Dry-run companion to `StableBirrContract`, exposed as `sbirr.contract.simulate`.
+ *
+ * Every write method has a same-named simulation that validates the payload with the same schema,
+ * runs `staticCall` + `estimateGas` from the configured signer against the latest block, and
+ * reports the expected state deltas (balances, supply, allowances, flags) read at that block.
+ * Nothing is broadcast, so treasury and compliance tools can show "what will happen and what it
+ * costs" before a human approves the real transaction.
+ *
+ * ```ts
+ * const preview = await sbirr.contract.simulate.mint({ to, amount: "1500", usdAmount: "10", rate: "150" });
+ * if (!preview.success) console.error(preview.error?.code);
+ * ```
+ */
+export class StableBirrSimulator {
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly signer?: ethers.Signer
+  ) {}
+
+  /**
+   * Simulate `mint`. Deltas: recipient balance, total supply, `totalUSDConverted`, and the
+   * signer's remaining minter allowance (omitted for unlimited minters).
+   */
+  public async mint(params: MintParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("mint");
+    validateParams(MintParamsSchema, params, "mint");
+    const args = buildCallArgs(() => MintHandler.buildMintArgs(params));
+    const [to, amount, usdAmount] = args;
+    const minter = await signer.getAddress();
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "mint",
+      args,
+      async (contract, blockTag) => {
+        const [balance, supply, converted, allowance] = await Promise.all([
+          contract.balanceOf(to, { blockTag }),
+          contract.totalSupply({ blockTag }),
+          contract.totalUSDConverted({ blockTag }),
+          contract.minterAllowance(minter, { blockTag }),
+        ]);
+        return [
+          {
+            field: "balanceOf",
+            account: to,
+            before: balance,
+            after: balance + amount,
+          },
+          { field: "totalSupply", before: supply, after: supply + amount },
+          {
+            field: "totalUSDConverted",
+            before: converted,
+            after: converted + usdAmount,
+          },
+          ...(allowance === ethers.MaxUint256
+            ? []
+            : [
+                {
+                  field: "minterAllowance",
+                  account: minter,
+                  before: allowance,
+                  after: allowance - amount,
+                },
+              ]),
+        ];
+      }
+    );
+  }
+
+  /**
+   * Simulate `burn`. Deltas: holder balance, total supply and `totalBurned`.
+   */
+  public async burn(params: BurnParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("burn");
+    validateParams(BurnParamsSchema, params, "burn");
+    const args = buildCallArgs(() => BurnHandler.buildBurnArgs(params));
+    const [from, amount] = args;
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "burn",
+      args,
+      async (contract, blockTag) => {
+        const [balance, supply, burned] = await Promise.all([
+          contract.balanceOf(from, { blockTag }),
+          contract.totalSupply({ blockTag }),
+          contract.totalBurned({ blockTag }),
+        ]);
+        return [
+          {
+            field: "balanceOf",
+            account: from,
+            before: balance,
+            after: balance - amount,
+          },
+          { field: "totalSupply", before: supply, after: supply - amount },
+          { field: "totalBurned", before: burned, after: burned + amount },
+        ];
+      }
+    );
+  }
+
+  /**
+   * Simulate `transfer` from the configured signer. Deltas: sender and recipient balances.
+   */
+  public async transfer(params: TransferParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("transfer");
+    validateParams(TransferParamsSchema, params, "transfer");
+    const args = buildCallArgs(() => TransferHandler.buildTransferArgs(params));
+    const [to, amount] = args;
+    const from = await signer.getAddress();
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "transfer",
+      args,
+      async (contract, blockTag) => {
+        if (from.toLowerCase() === to.toLowerCase()) return [];
+        const [fromBalance, toBalance] = await Promise.all([
+          contract.balanceOf(from, { blockTag }),
+          contract.balanceOf(to, { blockTag }),
+        ]);
+        return [
+          {
+            field: "balanceOf",
+            account: from,
+            before: fromBalance,
+            after: fromBalance - amount,
+          },
+          {
+            field: "balanceOf",
+            account: to,
+            before: toBalance,
+            after: toBalance + amount,
+          },
+        ];
+      }
+    );
+  }
+
+  /**
+   * Simulate `transferFrom` with the configured signer as spender. Deltas: owner and recipient
+   * balances, and the spender's allowance (omitted when unlimited).
+   */
+  public async transferFrom(
+    params: TransferFromParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("transferFrom");
+    validateParams(TransferFromParamsSchema, params, "transferFrom");
+    const args = buildCallArgs(() =>
+      TransferHandler.buildTransferFromArgs(params)
+    );
+    const [from, to, amount] = args;
+    const spender = await signer.getAddress();
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "transferFrom",
+      args,
+      async (contract, blockTag) => {
+        const [fromBalance, toBalance, allowance] = await Promise.all([
+          contract.balanceOf(from, { blockTag }),
+          contract.balanceOf(to, { blockTag }),
+          contract.allowance(from, spender, { blockTag }),
+        ]);
+        const deltas: StateDelta[] = [];
+        if (from.toLowerCase() !== to.toLowerCase()) {
+          deltas.push(
+            {
+              field: "balanceOf",
+              account: from,
+              before: fromBalance,
+              after: fromBalance - amount,
+            },
+            {
+              field: "balanceOf",
+              account: to,
+              before: toBalance,
+              after: toBalance + amount,
+            }
+          );
+        }
+        if (allowance !== ethers.MaxUint256) {
+          deltas.push({
+            field: "allowance",
+            account: spender,
+            before: allowance,
+            after: allowance - amount,
+          });
+        }
+        return deltas;
+      }
+    );
+  }
+
+  /**
+   * Simulate `approve` from the configured signer. Delta: `allowance(signer, spender)`.
+   */
+  public async approve(params: ApproveParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("approve");
+    validateParams(ApproveParamsSchema, params, "approve");
+    const args = buildCallArgs(() => ApproveHandler.buildApproveArgs(params));
+    const [spender, amount] = args;
+    const owner = await signer.getAddress();
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "approve",
+      args,
+      async (contract, blockTag) => [
+        {
+          field: "allowance",
+          account: spender,
+          before: await contract.allowance(owner, spender, { blockTag }),
+          after: amount,
+        },
+      ]
+    );
+  }
+
+  /**
+   * Simulate `blacklist`. Delta: `isBlacklisted(account)`.
+   */
+  public async blacklist(params: BlacklistParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("blacklist");
+    validateParams(BlacklistParamsSchema, params, "blacklist");
+    return this.simulateFlag(
+      signer,
+      "blacklist",
+      [params.account],
+      "isBlacklisted",
+      params.account,
+      true
+    );
+  }
+
+  /**
+   * Simulate `unblacklist`. Delta: `isBlacklisted(account)`.
+   */
+  public async unblacklist(params: BlacklistParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("unblacklist");
+    validateParams(BlacklistParamsSchema, params, "unblacklist");
+    return this.simulateFlag(
+      signer,
+      "unblacklist",
+      [params.account],
+      "isBlacklisted",
+      params.account,
+      false
+    );
+  }
+
+  /**
+   * Simulate `freeze`. Delta: `isFrozen(account)`.
+   */
+  public async freeze(params: FreezeParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("freeze");
+    validateParams(FreezeParamsSchema, params, "freeze");
+    return this.simulateFlag(
+      signer,
+      "freeze",
+      [params.account, params.reason],
+      "isFrozen",
+      params.account,
+      true
+    );
+  }
+
+  /**
+   * Simulate `unfreeze`. Delta: `isFrozen(account)`.
+   */
+  public async unfreeze(params: UnfreezeParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("unfreeze");
+    validateParams(UnfreezeParamsSchema, params, "unfreeze");
+    return this.simulateFlag(
+      signer,
+      "unfreeze",
+      [params.account, params.reason],
+      "isFrozen",
+      params.account,
+      false
+    );
+  }
+
+  /**
+   * Simulate `wipeFrozenBalance`. Deltas: the frozen balance (to zero), total supply and
+   * `totalFrozenWiped`.
+   */
+  public async wipeFrozenBalance(
+    params: WipeFrozenParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("wipeFrozenBalance");
+    validateParams(WipeFrozenParamsSchema, params, "wipe");
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "wipeFrozenBalance",
+      [params.account, params.caseId],
+      async (contract, blockTag) => {
+        const [balance, supply, wiped] = await Promise.all([
+          contract.balanceOf(params.account, { blockTag }),
+          contract.totalSupply({ blockTag }),
+          contract.totalFrozenWiped({ blockTag }),
+        ]);
+        return [
+          {
+            field: "balanceOf",
+            account: params.account,
+            before: balance,
+            after: 0n,
+          },
+          { field: "totalSupply", before: supply, after: supply - balance },
+          { field: "totalFrozenWiped", before: wiped, after: wiped + balance },
+        ];
+      }
+    );
+  }
+
+  /**
+   * Simulate `rescueERC20`. The rescued token is arbitrary, so no SBirr state deltas are reported.
+   */
+  public async rescue(params: RescueParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("rescue");
+    validateParams(RescueParamsSchema, params, "rescue");
+    const args = buildCallArgs(() => RescueHandler.buildRescueArgs(params));
+    return SimulateHandler.simulate(this.contract, signer, "rescueERC20", args);
+  }
+
+  /**
+   * Simulate `permit`. Deltas: `allowance(owner, spender)` and the owner's permit nonce.
+   */
+  public async permit(params: PermitParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("permit");
+    validateParams(PermitParamsSchema, params, "permit");
+    const args = buildCallArgs(() => PermitHandler.buildPermitArgs(params));
+    const [owner, spender, value] = args;
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "permit",
+      args,
+      async (contract, blockTag) => {
+        const [allowance, nonce] = await Promise.all([
+          contract.allowance(owner, spender, { blockTag }),
+          contract.nonces(owner, { blockTag }),
+        ]);
+        return [
+          {
+            field: "allowance",
+            account: owner,
+            before: allowance,
+            after: value,
+          },
+          { field: "nonces", account: owner, before: nonce, after: nonce + 1n },
+        ];
+      }
+    );
+  }
+
+  /**
+   * Simulate `pause`. Delta: `paused`.
+   */
+  public async pause(params: PauseParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("pause");
+    validateParams(PauseParamsSchema, params, "pause");
+    return this.simulateFlag(
+      signer,
+      "pause",
+      [params.reason],
+      "paused",
+      undefined,
+      true
+    );
+  }
+
+  /**
+   * Simulate `unpause`. Delta: `paused`.
+   */
+  public async unpause(params: UnpauseParams): Promise<SimulationResult> {
+    const signer = this.requireSigner("unpause");
+    validateParams(UnpauseParamsSchema, params, "unpause");
+    return this.simulateFlag(
+      signer,
+      "unpause",
+      [params.reason],
+      "paused",
+      undefined,
+      false
+    );
+  }
+
+  /**
+   * Simulate `updateSchnlAdmin`. Delta: `schnlAdmin`.
+   */
+  public async updateSchnlAdmin(
+    params: UpdateAdminParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("updateSchnlAdmin");
+    validateParams(UpdateAdminParamsSchema, params, "update admin");
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "updateSchnlAdmin",
+      [params.newAdmin],
+      async (contract, blockTag) => [
+        {
+          field: "schnlAdmin",
+          before: await contract.schnlAdmin({ blockTag }),
+          after: ethers.getAddress(params.newAdmin),
+        },
+      ]
+    );
+  }
+
+  /**
+   * Simulate `updateSchnlOperator`. Delta: `schnlOperator`.
+   */
+  public async updateSchnlOperator(
+    params: UpdateOperatorParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("updateSchnlOperator");
+    validateParams(UpdateOperatorParamsSchema, params, "update operator");
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "updateSchnlOperator",
+      [params.newOperator],
+      async (contract, blockTag) => [
+        {
+          field: "schnlOperator",
+          before: await contract.schnlOperator({ blockTag }),
+          after: ethers.getAddress(params.newOperator),
+        },
+      ]
+    );
+  }
+
+  /**
+   * Simulate `setSupplyCap`. Delta: `supplyCap`.
+   */
+  public async setSupplyCap(
+    params: SetSupplyCapParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("setSupplyCap");
+    validateParams(SetSupplyCapParamsSchema, params, "supply cap");
+    const args = buildCallArgs(() =>
+      AdminHandler.buildSetSupplyCapArgs(params)
+    );
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "setSupplyCap",
+      args,
+      async (contract, blockTag) => [
+        {
+          field: "supplyCap",
+          before: await contract.supplyCap({ blockTag }),
+          after: args[0],
+        },
+      ]
+    );
+  }
+
+  /**
+   * Simulate `configureMinter`. Deltas: `isMinter`, `minterAllowance` and `minterCanBurn`.
+   */
+  public async configureMinter(
+    params: ConfigureMinterParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("configureMinter");
+    validateParams(ConfigureMinterParamsSchema, params, "configure minter");
+    const args = buildCallArgs(() =>
+      AdminHandler.buildConfigureMinterArgs(params)
+    );
+    const [minter, allowance, canBurn] = args;
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "configureMinter",
+      args,
+      async (contract, blockTag) => {
+        const [active, currentAllowance, currentCanBurn] = await Promise.all([
+          contract.isMinter(minter, { blockTag }),
+          contract.minterAllowance(minter, { blockTag }),
+          contract.minterCanBurn(minter, { blockTag }),
+        ]);
+        return [
+          { field: "isMinter", account: minter, before: active, after: true },
+          {
+            field: "minterAllowance",
+            account: minter,
+            before: currentAllowance,
+            after: allowance,
+          },
+          {
+            field: "minterCanBurn",
+            account: minter,
+            before: currentCanBurn,
+            after: canBurn,
+          },
+        ];
+      }
+    );
+  }
+
+  /**
+   * Simulate `removeMinter`. Deltas: `isMinter`, `minterAllowance` and `minterCanBurn`.
+   */
+  public async removeMinter(
+    params: RemoveMinterParams
+  ): Promise<SimulationResult> {
+    const signer = this.requireSigner("removeMinter");
+    validateParams(RemoveMinterParamsSchema, params, "remove minter");
+
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      "removeMinter",
+      [params.minter],
+      async (contract, blockTag) => {
+        const [active, allowance, canBurn] = await Promise.all([
+          contract.isMinter(params.minter, { blockTag }),
+          contract.minterAllowance(params.minter, { blockTag }),
+          contract.minterCanBurn(params.minter, { blockTag }),
+        ]);
+        return [
+          {
+            field: "isMinter",
+            account: params.minter,
+            before: active,
+            after: false,
+          },
+          {
+            field: "minterAllowance",
+            account: params.minter,
+            before: allowance,
+            after: 0n,
+          },
+          {
+            field: "minterCanBurn",
+            account: params.minter,
+            before: canBurn,
+            after: false,
+          },
+        ];
+      }
+    );
+  }
+
+  /**
+   * Shared path for writes whose only effect is flipping a boolean getter.
+   */
+  private simulateFlag(
+    signer: ethers.Signer,
+    method: string,
+    args: readonly unknown[],
+    field: "isBlacklisted" | "isFrozen" | "paused",
+    account: string | undefined,
+    after: boolean
+  ): Promise<SimulationResult> {
+    return SimulateHandler.simulate(
+      this.contract,
+      signer,
+      method,
+      args,
+      async (contract, blockTag) => {
+        const before =
+          field === "paused"
+            ? await contract.paused({ blockTag })
+            : await contract[field](account!, { blockTag });
+        return [{ field, account, before, after }];
+      }
+    );
+  }
+
+  private requireSigner(action: string): ethers.Signer {
+    if (!this.signer) {
+      throw new ValidationError(`Signer required to simulate ${action}`);
+    }
+    return this.signer;
+  }
+}
@@ -1,4 +1,6 @@
-import type { TransactionOptions } from "@/types";
+import type { ethers } from "ethers";
+import type { Amount, Rate, TokenAmount, TransactionOptions } from "@/types";
+import type { StableBirrError } from "@/core/errors";
 
 /**
  * Parameters for minting StableBirr tokens.
@@ -6,12 +8,12 @@ import type { TransactionOptions } from "@/types";
 export interface MintParams {
   /** Recipient address (must be a valid Ethereum address) */
   to: string;
-  /** Amount of SBirr to mint (in wei) */
-  amount: string;
-  /** Corresponding USD amount deposited (for audit) */
-  usdAmount: string;
-  /** Human-provided exchange rate snapshot (must match oracle within tolerance) */
-  rate: number;
+  /** Amount of SBirr to mint. Derived from `usdAmount * rate` (truncated) when omitted */
+  amount?: Amount;
+  /** Corresponding USD amount deposited (for audit), 18 decimals like SBirr */
+  usdAmount: Amount;
+  /** ETB-per-USD rate snapshot recorded with the mint */
+  rate: Rate;
   /** Optional transaction overrides */
   options?: TransactionOptions;
 }
@@ -22,8 +24,8 @@ export interface MintParams {
 export interface BurnParams {
   /** Address to burn tokens from */
   from: string;
-  /** Amount of SBirr to burn (in wei) */
-  amount: string;
+  /** Amount of SBirr to burn */
+  amount: Amount;
   /** ID of the merchant initiating the burn (for audit) */
   merchantId: string;
   /** Optional transaction overrides */
@@ -36,12 +38,50 @@ export interface BurnParams {
 export interface TransferParams {
   /** Recipient address */
   to: string;
-  /** Amount to transfer (in wei) */
-  amount: string;
+  /** Amount to transfer */
+  amount: Amount;
   /** Optional transaction overrides */
   options?: TransactionOptions;
 }
 
+/**
+ * Parameters for `transferFrom`: move tokens out of `from` using the signer's allowance.
+ */
+export interface TransferFromParams {
+  /** Token owner the allowance was granted by */
+  from: string;
+  /** Recipient address */
+  to: string;
+  /** Amount to transfer */
+  amount: Amount;
+  /** Optional transaction overrides */
+  options?: TransactionOptions;
+}
+
+/**
+ * Parameters for approving a spender.
+ */
+export interface ApproveParams {
+  /** Address allowed to spend the signer's tokens */
+  spender: string;
+  /** New allowance, or "max" for unlimited */
+  amount: AllowanceValue;
+  /** Optional transaction overrides */
+  options?: TransactionOptions;
+}
+
+/**
+ * Parameters for `safeApprove`.
+ *
+ * With `expectedAllowance` the change is compare-and-set: it is refused unless the current
+ * allowance equals the expected value. Without it, a non-zero allowance is first reset to zero
+ * and confirmed before the new value is set.
+ */
+export interface SafeApproveParams extends ApproveParams {
+  /** Allowance (or "max") the caller believes is current */
+  expectedAllowance?: AllowanceValue;
+}
+
 /**
  * Parameters for blacklisting/unblacklisting an address.
  */
@@ -96,8 +136,8 @@ export interface RescueParams {
   tokenAddress: string;
   /** Recipient address for the rescued tokens */
   to: string;
-  /** Amount to rescue */
-  amount: string;
+  /** Amount to rescue (assumes 18 decimals) */
+  amount: Amount;
   /** Optional transaction overrides */
   options?: TransactionOptions;
 }
@@ -111,7 +151,7 @@ export interface PermitParams {
   /** Spender's address */
   spender: string;
   /** Amount to approve */
-  value: string;
+  value: Amount;
   /** Timestamp until which the permit is valid */
   deadline: number;
   /** Recovery ID of the signature */
@@ -124,6 +164,47 @@ export interface PermitParams {
   options?: TransactionOptions;
 }
 
+/**
+ * Parameters for signing an EIP-2612 permit with the configured signer.
+ */
+export interface SignPermitParams {
+  /** Token owner's address; must be the configured signer */
+  owner: string;
+  /** Spender's address */
+  spender: string;
+  /** Amount to approve */
+  value: Amount;
+  /** Unix timestamp (seconds) until which the permit is valid */
+  deadline: number;
+}
+
+/**
+ * A signed EIP-2612 permit. Spread it into `permit` (or `permitAndTransferFrom`) to submit it.
+ */
+export interface PermitSignature {
+  owner: string;
+  spender: string;
+  /** Amount approved, as a decimal SBirr string */
+  value: string;
+  deadline: number;
+  /** Owner's permit nonce the signature was made for */
+  nonce: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Parameters for `permitAndTransferFrom`: a permit naming the caller as spender plus the
+ * transfer it funds.
+ */
+export interface PermitAndTransferFromParams extends PermitParams {
+  /** Recipient address */
+  to: string;
+  /** Amount to transfer. Defaults to the permitted `value` */
+  amount?: Amount;
+}
+
 /**
  * Parameters for updating Schnl Admin.
  */
@@ -178,29 +259,28 @@ export interface SetOracleStalePeriodParams {
  * Parameters for updating the supply cap.
  */
 export interface SetSupplyCapParams {
-  /** New cap amount expressed in whole tokens (18 decimals precision will be applied) */
-  cap: string;
+  /** New cap; zero removes it */
+  cap: Amount;
   /** Optional transaction overrides */
   options?: TransactionOptions;
 }
 
 /**
- * Allowance value for minter configuration.
- * Use "max" for unlimited allowance, or a numeric string for a specific amount in SBirr tokens.
+ * Allowance value for minter configuration and approvals.
+ * Use "max" for unlimited allowance, or any `Amount`.
  */
-export type AllowanceValue = "max" | (string & {});
+export type AllowanceValue = "max" | Amount;
 
 /**
  * Parameters for configuring or updating an authorized minter.
  *
- * The SDK expects the allowance in human-readable token units (e.g., "1000000" for 1M SBirr). It
- * handles conversion to wei before invoking the contract. Set `allowance` to `"max"` for unlimited
- * authority, or provide a numeric string for a specific amount.
+ * The allowance is an `Amount`: a decimal string in whole tokens (e.g., "1000000" for 1M SBirr) or
+ * `bigint` wei. Set `allowance` to `"max"` for unlimited authority.
  */
 export interface ConfigureMinterParams {
   /** Address to authorize as a minter */
   minter: string;
-  /** Allowance: use "max" for unlimited, or a numeric string (e.g., "1000000") */
+  /** Allowance: use "max" for unlimited, or an amount (e.g., "1000000") */
   allowance: AllowanceValue;
   /** Whether this minter is also allowed to initiate burn flows */
   canBurn: boolean;
@@ -238,6 +318,18 @@ export interface UnpauseParams {
   options?: TransactionOptions;
 }
 
+/**
+ * Parameters for upgrading the proxy (`upgradeToAndCall`).
+ */
+export interface UpgradeParams {
+  /** Address of the new, already deployed implementation */
+  newImplementation: string;
+  /** Calldata to run on the new implementation after the upgrade (e.g. a reinitializer) */
+  data?: string;
+  /** Optional transaction overrides */
+  options?: TransactionOptions;
+}
+
 /**
  * Configuration for the StableBirrContract resource.
  */
@@ -245,3 +337,603 @@ export interface ContractConfig {
   /** Contract address override */
   address?: string;
 }
+
+/**
+ * A single piece of contract state a write is expected to change, read at the simulated block.
+ */
+export interface StateDelta {
+  /** Contract getter the value comes from (e.g. `balanceOf`, `totalSupply`, `paused`) */
+  field: string;
+  /** Account the getter is keyed by, when applicable */
+  account?: string;
+  /** Value at the simulated block */
+  before: bigint | boolean | string;
+  /** Value expected once the transaction is mined */
+  after: bigint | boolean | string;
+}
+
+/**
+ * Outcome of a dry run: nothing is broadcast, so this is safe to call from dashboards and
+ * approval workflows before anyone signs a real transaction.
+ */
+export interface SimulationResult {
+  /** Contract method that was simulated */
+  method: string;
+  /** Whether the call would succeed at `blockNumber` */
+  success: boolean;
+  /** Block the simulation and state reads were pinned to */
+  blockNumber: number;
+  /** Gas estimate (only when `success`) */
+  gasEstimate?: bigint;
+  /** `gasEstimate` multiplied by the current max fee per gas, in wei (only when `success`) */
+  estimatedCost?: bigint;
+  /** Decoded revert (only when `!success`) */
+  error?: StableBirrError;
+  /** Expected state changes (empty when the call would revert) */
+  stateDeltas: StateDelta[];
+}
+
+/**
+ * A compliance or capacity rule the contract would enforce against the requested operation.
+ * `code` matches the `code` of the error class the revert would decode to (see `core/errors`).
+ */
+export interface PreflightViolation {
+  /** Stable rule identifier, e.g. `ACCOUNT_FROZEN`, `SUPPLY_CAP_EXCEEDED` */
+  code: string;
+  /** Human-readable explanation suitable for UIs */
+  message: string;
+  /** Account the rule applies to, when applicable */
+  account?: string;
+  /** Raw values behind the decision (balances, caps, allowances in wei) */
+  values?: Record<string, bigint>;
+}
+
+/**
+ * Result of a preflight check. Unlike a simulation, which stops at the first revert, preflight
+ * evaluates every rule so all blocking reasons can be shown at once.
+ */
+export interface PreflightResult {
+  /** `true` when no rule is violated */
+  ok: boolean;
+  /** Block all state was read at */
+  blockNumber: number;
+  /** Every violated rule, in the order the contract would check them */
+  violations: PreflightViolation[];
+}
+
+/**
+ * Options for preflight checks.
+ */
+export interface PreflightOptions {
+  /**
+   * Address that will send the transaction (minter, burner or token sender). Defaults to the
+   * configured signer, so read-only dashboards can check on behalf of another wallet.
+   */
+  caller?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Contract state
+// -----------------------------------------------------------------------------
+
+/**
+ * Governance and monetary state read at a single block. Token amounts come in both forms (raw
+ * wei and formatted with 18 decimals), like the single-value getters.
+ */
+export interface ContractState {
+  /** Block every value was read at */
+  blockNumber: number;
+  /** Timestamp (seconds) of that block */
+  blockTimestamp: number;
+  name: string;
+  symbol: string;
+  decimals: number;
+  schnlAdmin: string;
+  schnlOperator: string;
+  paused: boolean;
+  /** ERC-1967 implementation behind the proxy */
+  implementation: string;
+  /** EIP-712 domain separator used by `permit` */
+  domainSeparator: string;
+  totalSupply: TokenAmount;
+  /** Zero means uncapped */
+  supplyCap: TokenAmount;
+  /** Cumulative USD backing recorded by mints */
+  totalUSDConverted: TokenAmount;
+  totalBurned: TokenAmount;
+  /** Cumulative balances wiped from frozen accounts */
+  totalFrozenWiped: TokenAmount;
+}
+
+// -----------------------------------------------------------------------------
+// Deployment identity
+// -----------------------------------------------------------------------------
+
+/**
+ * What `verify()` confirmed about the configured deployment.
+ */
+export interface ContractIdentity {
+  /** Configured network name */
+  network: string;
+  /** Chain ID reported by the provider, equal to the network's expected one */
+  chainId: number;
+  /** Checksummed proxy address */
+  address: string;
+  /** ERC-1967 implementation behind the proxy */
+  implementation: string;
+  name: string;
+  symbol: string;
+  decimals: number;
+  /** Block the checks were read at */
+  blockNumber: number;
+}
+
+// -----------------------------------------------------------------------------
+// Events
+// -----------------------------------------------------------------------------
+
+/**
+ * Payload of `Minted`. Amounts come in both forms; `wei` keeps the raw on-chain value for
+ * reconciliation.
+ */
+export interface MintedEvent {
+  /** Checksummed recipient */
+  to: string;
+  amount: TokenAmount;
+  usdAmount: TokenAmount;
+  /** ETB per USD rate used for the mint, e.g. `"150.0"` */
+  rate: string;
+  /** `rate` scaled by `RATE_SCALE` (1e18) as the contract stores it */
+  rateWei: bigint;
+  /** Block timestamp (seconds) emitted by the contract */
+  timestamp: number;
+}
+
+/**
+ * Payload of `Burned`.
+ */
+export interface BurnedEvent {
+  /** Checksummed holder the tokens were burned from */
+  from: string;
+  amount: TokenAmount;
+  merchantId: string;
+  timestamp: number;
+}
+
+/**
+ * Payload of `AccountFrozen`.
+ */
+export interface AccountFrozenEvent {
+  account: string;
+  /** Schnl Admin who executed the freeze */
+  triggeredBy: string;
+  reason: string;
+  timestamp: number;
+}
+
+/**
+ * Payload of `FrozenBalanceWiped`.
+ */
+export interface FrozenBalanceWipedEvent {
+  account: string;
+  triggeredBy: string;
+  amount: TokenAmount;
+  caseId: string;
+  timestamp: number;
+}
+
+/**
+ * Payload of `IncidentLogged`, emitted alongside every pause/unpause.
+ */
+export interface IncidentLoggedEvent {
+  /** `"PAUSE"` or `"UNPAUSE"` */
+  action: string;
+  triggeredBy: string;
+  reason: string;
+  timestamp: number;
+}
+
+/**
+ * Payload of `MinterConfigured`.
+ */
+export interface MinterConfiguredEvent {
+  minter: string;
+  /** Remaining allowance; `formatted` is `"unlimited"` for `MaxUint256` */
+  allowance: TokenAmount;
+  canBurn: boolean;
+}
+
+/**
+ * Payload of the ERC20 `Transfer` event (also emitted for mints and burns).
+ */
+export interface TransferEvent {
+  from: string;
+  to: string;
+  amount: TokenAmount;
+}
+
+/**
+ * Event name → decoded payload for every event `sbirr.contract.events` can deliver.
+ */
+export interface StableBirrEventMap {
+  Minted: MintedEvent;
+  Burned: BurnedEvent;
+  AccountFrozen: AccountFrozenEvent;
+  FrozenBalanceWiped: FrozenBalanceWipedEvent;
+  IncidentLogged: IncidentLoggedEvent;
+  MinterConfigured: MinterConfiguredEvent;
+  Transfer: TransferEvent;
+}
+
+export type StableBirrEventName = keyof StableBirrEventMap;
+
+/**
+ * A delivered event: the decoded payload plus the log position it came from.
+ */
+export interface StableBirrEvent<
+  K extends StableBirrEventName = StableBirrEventName
+> {
+  name: K;
+  data: StableBirrEventMap[K];
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export type StableBirrEventHandler<K extends StableBirrEventName> = (
+  event: StableBirrEvent<K>
+) => void | Promise<void>;
+
+/**
+ * Options shared by `events.on`, `events.once` and `events.iterate`.
+ */
+export interface EventSubscriptionOptions {
+  /**
+   * Blocks that must be mined on top of the event's block before it is delivered. Use a depth
+   * larger than the chain's typical reorg to never see events that later disappear.
+   * @default 0
+   */
+  confirmations?: number;
+  /**
+   * Block to start delivering from. Defaults to the first block after the current confirmed head,
+   * i.e. only new events.
+   */
+  fromBlock?: number;
+  /**
+   * How often to poll for new blocks, in milliseconds.
+   * @default 4000
+   */
+  pollingInterval?: number;
+  /** Stops the subscription (and ends async iteration) when aborted */
+  signal?: AbortSignal;
+  /**
+   * Called when a poll fails (RPC outage, disconnect) or a handler throws. The subscription keeps
+   * running and resumes from the last delivered block.
+   */
+  onError?: (error: StableBirrError) => void;
+}
+
+/**
+ * Indexed (topic-filterable) arguments per event. Omitted or `null` fields match any value;
+ * an array matches any of the listed addresses.
+ */
+export interface StableBirrEventFilters {
+  Minted: { to?: string | string[] | null };
+  Burned: { from?: string | string[] | null };
+  AccountFrozen: {
+    account?: string | string[] | null;
+    triggeredBy?: string | string[] | null;
+  };
+  FrozenBalanceWiped: {
+    account?: string | string[] | null;
+    triggeredBy?: string | string[] | null;
+  };
+  IncidentLogged: { triggeredBy?: string | string[] | null };
+  MinterConfigured: { minter?: string | string[] | null };
+  Transfer: {
+    from?: string | string[] | null;
+    to?: string | string[] | null;
+  };
+}
+
+/**
+ * Options for `history.query`.
+ */
+export interface HistoryQueryOptions<
+  K extends StableBirrEventName = StableBirrEventName
+> {
+  /**
+   * First block to scan (inclusive).
+   * @default the manifest's `deployBlock` with `config.deployment`, else 0
+   */
+  fromBlock?: number;
+  /** Last block to scan (inclusive). Resolved once and pinned into the cursor. @default "latest" */
+  toBlock?: number | "latest";
+  /** Topic filters on indexed arguments */
+  filters?: StableBirrEventFilters[K];
+  /**
+   * Cursor returned by a previous page. When present, `fromBlock`, `toBlock` and `filters` are
+   * taken from the cursor.
+   */
+  cursor?: string;
+  /**
+   * Maximum events per page. A page that fills up mid-block ends there and its cursor resumes
+   * after the last returned event.
+   * @default 1000
+   */
+  limit?: number;
+  /**
+   * Largest block range requested per `eth_getLogs` call. The range is halved whenever the RPC
+   * rejects it as too large and grows back after successful calls.
+   * @default 10000
+   */
+  maxBlockRange?: number;
+  /** Attempts per chunk on transient RPC failures. @default 3 */
+  retries?: number;
+}
+
+/**
+ * One page of historical events, in chain order.
+ */
+export interface HistoryPage<
+  K extends StableBirrEventName = StableBirrEventName
+> {
+  events: StableBirrEvent<K>[];
+  /** First block covered by this page */
+  fromBlock: number;
+  /** Last block covered by this page (inclusive); only partly covered when the page is full */
+  toBlock: number;
+  /** Pass to the next `query` call to continue; absent when the range is exhausted */
+  cursor?: string;
+}
+
+// -----------------------------------------------------------------------------
+// Mint / burn records
+// -----------------------------------------------------------------------------
+
+/**
+ * On-chain `mintRecords` entry. Amounts come in both forms; `rate` is formatted next to its raw value.
+ */
+export interface MintRecord {
+  /** `keccak256(abi.encodePacked(to, amount, usdAmount, rate, block.timestamp))` */
+  recordId: string;
+  to: string;
+  amount: TokenAmount;
+  usdAmount: TokenAmount;
+  rate: string;
+  rateWei: bigint;
+  /** Block timestamp (seconds) of the mint */
+  timestamp: number;
+  /** Originating transaction, when the record was resolved from a transaction hash */
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+/**
+ * On-chain `burnRecords` entry.
+ */
+export interface BurnRecord {
+  /** `keccak256(abi.encodePacked(from, amount, merchantId, block.timestamp))` */
+  recordId: string;
+  from: string;
+  amount: TokenAmount;
+  merchantId: string;
+  timestamp: number;
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+// -----------------------------------------------------------------------------
+// Safe multisig proposals
+// -----------------------------------------------------------------------------
+
+/**
+ * Safe operation type: `0` = CALL, `1` = DELEGATECALL (used only for MultiSend batches).
+ */
+export type SafeOperation = 0 | 1;
+
+/**
+ * A transaction for the Safe to execute, not yet bound to a Safe nonce.
+ */
+export interface SafeTransactionData extends EncodedCall {
+  /** Native value in wei, as a decimal string */
+  value: string;
+  operation: SafeOperation;
+  /** Batched calls, when this is a MultiSend batch */
+  transactions?: SafeTransactionData[];
+}
+
+/**
+ * Safe execution parameters used for the transaction hash. Everything except the Safe itself
+ * has a sensible default.
+ */
+export interface SafeTransactionOptions {
+  /** The Safe that will execute the transaction. Defaults to `config.safe.address`. */
+  safeAddress?: string;
+  /** Defaults to the provider's chain ID */
+  chainId?: bigint | number;
+  /** Safe nonce. Defaults to the Safe's current on-chain `nonce()`. */
+  nonce?: bigint | number;
+  /** @default 0 */
+  safeTxGas?: bigint | string;
+  /** @default 0 */
+  baseGas?: bigint | string;
+  /** @default 0 (no refund) */
+  gasPrice?: bigint | string;
+  /** @default ZeroAddress (native token) */
+  gasToken?: string;
+  /** @default ZeroAddress (tx.origin) */
+  refundReceiver?: string;
+}
+
+/**
+ * A Safe transaction bound to a Safe, chain and nonce: everything owners need to sign offline.
+ */
+export interface SafeSignableTransaction {
+  safeAddress: string;
+  chainId: bigint;
+  nonce: bigint;
+  transaction: SafeTransactionData;
+  /** EIP-712 `SafeTx` hash owners sign and the Safe checks in `execTransaction` */
+  safeTxHash: string;
+  /** EIP-712 payload for `signer.signTypedData` (hardware wallets, offline signers) */
+  typedData: {
+    domain: { chainId: string; verifyingContract: string };
+    types: Record<string, ethers.TypedDataField[]>;
+    message: Record<string, string | number>;
+  };
+}
+
+/**
+ * One owner's signature over a `safeTxHash`.
+ */
+export interface SafeSignature {
+  signer: string;
+  safeTxHash: string;
+  /** 65-byte ECDSA signature over the EIP-712 hash */
+  signature: string;
+}
+
+/**
+ * Options for `toTransactionBuilderJson`.
+ */
+export interface SafeTransactionBuilderOptions {
+  /** Defaults to `config.safe.address` */
+  safeAddress?: string;
+  /** Defaults to the provider's chain ID */
+  chainId?: bigint | number;
+  /** @default "StableBirr admin batch" */
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Batch file accepted by the Safe{Wallet} Transaction Builder app ("Drag and drop a JSON file").
+ */
+export interface SafeTransactionBuilderFile {
+  version: "1.0";
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: {
+    to: string;
+    value: string;
+    data: string;
+    contractMethod: null;
+    contractInputsValues: null;
+  }[];
+}
+
+// -----------------------------------------------------------------------------
+// Calldata and offline signing
+// -----------------------------------------------------------------------------
+
+/**
+ * Every state-changing SDK method, mapped to its params.
+ */
+export interface WriteMethodParams {
+  mint: MintParams;
+  burn: BurnParams;
+  transfer: TransferParams;
+  transferFrom: TransferFromParams;
+  approve: ApproveParams;
+  blacklist: BlacklistParams;
+  unblacklist: BlacklistParams;
+  freeze: FreezeParams;
+  unfreeze: UnfreezeParams;
+  wipeFrozenBalance: WipeFrozenParams;
+  rescue: RescueParams;
+  permit: PermitParams;
+  pause: PauseParams;
+  unpause: UnpauseParams;
+  updateSchnlAdmin: UpdateAdminParams;
+  updateSchnlOperator: UpdateOperatorParams;
+  setSupplyCap: SetSupplyCapParams;
+  configureMinter: ConfigureMinterParams;
+  removeMinter: RemoveMinterParams;
+  upgradeToAndCall: UpgradeParams;
+}
+
+export type WriteMethod = keyof WriteMethodParams;
+
+/**
+ * ABI-encoded StableBirr call.
+ */
+export interface EncodedCall {
+  /** Target contract (StableBirr, or MultiSendCallOnly for Safe batches) */
+  to: string;
+  data: string;
+  /** Contract function, e.g. `rescueERC20` for the SDK's `rescue`, or `multiSend` */
+  method: string;
+  /** Arguments by ABI input name, as strings */
+  args: Record<string, string>;
+}
+
+/**
+ * Where an unsigned transaction is sent from, plus chain overrides. Gas, fee and nonce overrides
+ * come from the method params' `options`, as for a direct send.
+ */
+export interface OfflineBuildOptions {
+  /** Signing account. Defaults to the configured signer's address. */
+  from?: string;
+  /** Defaults to the provider's chain ID */
+  chainId?: bigint | number;
+}
+
+/**
+ * A fully populated EIP-1559 transaction ready to carry to an offline signer.
+ */
+export interface UnsignedTransaction extends EncodedCall {
+  from: string;
+  value: bigint;
+  nonce: number;
+  chainId: bigint;
+  gasLimit: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  /** Unsigned RLP serialization; the only field the signing machine needs */
+  serialized: string;
+  /** Hash the signer signs (`keccak256(serialized)`) */
+  unsignedHash: string;
+}
+
+/**
+ * A serialized transaction (signed or not) decoded for review.
+ */
+export interface DecodedTransaction {
+  signed: boolean;
+  /** Transaction hash (signed only) */
+  hash?: string;
+  /** Recovered sender (signed only) */
+  from?: string;
+  to: string | null;
+  value: bigint;
+  data: string;
+  nonce: number;
+  chainId: bigint;
+  gasLimit: bigint;
+  maxFeePerGas: bigint | null;
+  maxPriorityFeePerGas: bigint | null;
+  gasPrice: bigint | null;
+  /** StableBirr function, when `to` is the StableBirr contract and `data` decodes */
+  method?: string;
+  args?: Record<string, string>;
+}
+
+/**
+ * Result of comparing a signed transaction with what was intended.
+ */
+export interface OfflineVerification {
+  /** `true` when the transaction is signed and every expected field matches */
+  valid: boolean;
+  /** Fields that differ, e.g. `nonce: expected 7, got 8` */
+  mismatches: string[];
+  transaction: DecodedTransaction;
+}
@@ -1,5 +1,6 @@
 import { z } from "zod/v4";
 import { ethers } from "ethers";
+import { AmountSchema, RateSchema } from "@/core/amount";
 
 // Reusable Schemas
 const AddressSchema = z
@@ -8,8 +9,6 @@ const AddressSchema = z
     message: "Invalid Ethereum address",
   });
 
-const AmountSchema = z.string().regex(/^\d+(\.\d+)?$/, "Invalid amount format");
-
 const HexStringSchema = z
   .string()
   .refine((val: string) => ethers.isHexString(val), {
@@ -21,9 +20,9 @@ const ReasonSchema = z.string().min(3, "Reason is required");
 // Contract Schemas
 export const MintParamsSchema = z.object({
   to: AddressSchema,
-  amount: AmountSchema,
+  amount: AmountSchema.optional(),
   usdAmount: AmountSchema,
-  rate: z.number().positive("Rate must be positive"),
+  rate: RateSchema,
 });
 
 export const BurnParamsSchema = z.object({
@@ -37,6 +36,21 @@ export const TransferParamsSchema = z.object({
   amount: AmountSchema,
 });
 
+export const TransferFromParamsSchema = z.object({
+  from: AddressSchema,
+  to: AddressSchema,
+  amount: AmountSchema,
+});
+
+export const ApproveParamsSchema = z.object({
+  spender: AddressSchema,
+  amount: z.union([z.literal("max"), AmountSchema]),
+});
+
+export const SafeApproveParamsSchema = ApproveParamsSchema.extend({
+  expectedAllowance: z.union([z.literal("max"), AmountSchema]).optional(),
+});
+
 export const BlacklistParamsSchema = z.object({
   account: AddressSchema,
 });
@@ -72,6 +86,18 @@ export const PermitParamsSchema = z.object({
   s: HexStringSchema,
 });
 
+export const SignPermitParamsSchema = z.object({
+  owner: AddressSchema,
+  spender: AddressSchema,
+  value: AmountSchema,
+  deadline: z.number().int().positive("Deadline must be positive"),
+});
+
+export const PermitAndTransferFromParamsSchema = PermitParamsSchema.extend({
+  to: AddressSchema,
+  amount: AmountSchema.optional(),
+});
+
 export const UpdateAdminParamsSchema = z.object({
   newAdmin: AddressSchema,
 });
@@ -117,3 +143,8 @@ export const PauseParamsSchema = z.object({
 export const UnpauseParamsSchema = z.object({
   reason: ReasonSchema,
 });
+
+export const UpgradeParamsSchema = z.object({
+  newImplementation: AddressSchema,
+  data: HexStringSchema.optional(),
+});
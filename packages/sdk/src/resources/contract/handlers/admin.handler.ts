@@ -1,5 +1,7 @@
 import { ethers } from "ethers";
-import { ContractError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toWei } from "@/core/amount";
+import { parseAllowance } from "@/resources/contract/handlers/approve.handler";
 import type {
   PauseParams,
   UnpauseParams,
@@ -30,7 +32,7 @@ export async function pause(
 
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to pause contract", error);
+    throw toStableBirrError(error, "Failed to pause contract");
   }
 }
 
@@ -49,7 +51,7 @@ export async function unpause(
       .unpause(params.reason, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to unpause contract", error);
+    throw toStableBirrError(error, "Failed to unpause contract");
   }
 }
 
@@ -68,7 +70,7 @@ export async function updateSchnlAdmin(
       .updateSchnlAdmin(params.newAdmin, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to update Schnl Admin", error);
+    throw toStableBirrError(error, "Failed to update Schnl Admin");
   }
 }
 
@@ -87,10 +89,17 @@ export async function updateSchnlOperator(
       .updateSchnlOperator(params.newOperator, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to update Schnl Operator", error);
+    throw toStableBirrError(error, "Failed to update Schnl Operator");
   }
 }
 
+/**
+ * Convert the cap into the `setSupplyCap(newCap)` argument.
+ */
+export function buildSetSupplyCapArgs(params: SetSupplyCapParams): [bigint] {
+  return [toWei(params.cap)];
+}
+
 /**
  * Update the circulating supply cap (pass "0" to disable the guard).
  */
@@ -102,13 +111,23 @@ export async function setSupplyCap(
   try {
     const tx = await contract
       .connect(signer)
-      .setSupplyCap(ethers.parseUnits(params.cap, 18), params.options || {});
+      .setSupplyCap(...buildSetSupplyCapArgs(params), params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to set supply cap", error);
+    throw toStableBirrError(error, "Failed to set supply cap");
   }
 }
 
+/**
+ * Convert minter params into `configureMinter(minter, allowance, canBurn)` arguments, expanding
+ * `"max"` to `2^256 - 1`.
+ */
+export function buildConfigureMinterArgs(
+  params: ConfigureMinterParams
+): [string, bigint, boolean] {
+  return [params.minter, parseAllowance(params.allowance), params.canBurn];
+}
+
 /**
  * Configure or update an authorized minter with a deterministic allowance.
  */
@@ -118,22 +137,15 @@ export async function configureMinter(
   params: ConfigureMinterParams
 ): Promise<ethers.TransactionResponse> {
   try {
-    const allowance =
-      params.allowance.toLowerCase() === "max"
-        ? ethers.MaxUint256
-        : ethers.parseUnits(params.allowance, 18);
-
     const tx = await contract
       .connect(signer)
       .configureMinter(
-        params.minter,
-        allowance,
-        params.canBurn,
+        ...buildConfigureMinterArgs(params),
         params.options || {}
       );
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to configure minter", error);
+    throw toStableBirrError(error, "Failed to configure minter");
   }
 }
 
@@ -151,6 +163,6 @@ export async function removeMinter(
       .removeMinter(params.minter, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to remove minter", error);
+    throw toStableBirrError(error, "Failed to remove minter");
   }
 }
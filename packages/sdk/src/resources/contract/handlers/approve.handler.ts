@@ -0,0 +1,39 @@
+import { ethers } from "ethers";
+import type {
+  AllowanceValue,
+  ApproveParams,
+} from "@/resources/contract/contract.types";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toWei } from "@/core/amount";
+import type { StableBirr } from "@/typechain-types";
+
+/**
+ * Convert an allowance to wei, expanding `"max"` to `2^256 - 1`.
+ */
+export function parseAllowance(value: AllowanceValue): bigint {
+  return typeof value === "string" && value.toLowerCase() === "max"
+    ? ethers.MaxUint256
+    : toWei(value);
+}
+
+/**
+ * Convert validated approve params into `approve(spender, amount)` arguments.
+ */
+export function buildApproveArgs(params: ApproveParams): [string, bigint] {
+  return [params.spender, parseAllowance(params.amount)];
+}
+
+export async function approve(
+  contract: StableBirr,
+  signer: ethers.Signer,
+  params: ApproveParams
+): Promise<ethers.TransactionResponse> {
+  try {
+    const tx = await contract
+      .connect(signer)
+      .approve(...buildApproveArgs(params), params.options || {});
+    return tx;
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Approve failed");
+  }
+}
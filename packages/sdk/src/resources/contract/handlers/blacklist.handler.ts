@@ -1,6 +1,6 @@
 import { ethers } from "ethers";
 import type { BlacklistParams } from "@/resources/contract/contract.types";
-import { ContractError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
 import type { StableBirr } from "@/typechain-types";
 
 export async function blacklist(
@@ -14,7 +14,7 @@ export async function blacklist(
       .blacklist(params.account, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Blacklist failed", error);
+    throw toStableBirrError(error, "Blacklist failed");
   }
 }
 
@@ -29,6 +29,6 @@ export async function unblacklist(
       .unblacklist(params.account, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Unblacklist failed", error);
+    throw toStableBirrError(error, "Unblacklist failed");
   }
 }
@@ -1,8 +1,16 @@
 import { ethers } from "ethers";
 import type { BurnParams } from "@/resources/contract/contract.types";
-import { ContractError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toWei } from "@/core/amount";
 import type { StableBirr } from "@/typechain-types";
 
+/**
+ * Convert validated burn params into `burn(from, amount, merchantId)` arguments.
+ */
+export function buildBurnArgs(params: BurnParams): [string, bigint, string] {
+  return [params.from, toWei(params.amount), params.merchantId];
+}
+
 export async function burn(
   contract: StableBirr,
   signer: ethers.Signer,
@@ -11,14 +19,9 @@ export async function burn(
   try {
     const tx = await contract
       .connect(signer)
-      .burn(
-        params.from,
-        ethers.parseUnits(params.amount, 18),
-        params.merchantId,
-        params.options || {}
-      );
+      .burn(...buildBurnArgs(params), params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Burn failed", error);
+    throw toStableBirrError(error, "Burn failed");
   }
 }
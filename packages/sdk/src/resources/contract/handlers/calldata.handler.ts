@@ -0,0 +1,228 @@
+import { ethers } from "ethers";
+import type { z } from "zod/v4";
+import type { StableBirr } from "@/typechain-types";
+import { validateParams, buildCallArgs } from "@/core/validation";
+import type {
+  EncodedCall,
+  WriteMethod,
+  WriteMethodParams,
+} from "@/resources/contract/contract.types";
+import {
+  MintParamsSchema,
+  BurnParamsSchema,
+  TransferParamsSchema,
+  TransferFromParamsSchema,
+  ApproveParamsSchema,
+  BlacklistParamsSchema,
+  FreezeParamsSchema,
+  UnfreezeParamsSchema,
+  WipeFrozenParamsSchema,
+  RescueParamsSchema,
+  PermitParamsSchema,
+  UpdateAdminParamsSchema,
+  UpdateOperatorParamsSchema,
+  SetSupplyCapParamsSchema,
+  ConfigureMinterParamsSchema,
+  RemoveMinterParamsSchema,
+  PauseParamsSchema,
+  UnpauseParamsSchema,
+  UpgradeParamsSchema,
+} from "@/resources/contract/contract.validator";
+import * as MintHandler from "@/resources/contract/handlers/mint.handler";
+import * as BurnHandler from "@/resources/contract/handlers/burn.handler";
+import * as TransferHandler from "@/resources/contract/handlers/transfer.handler";
+import * as ApproveHandler from "@/resources/contract/handlers/approve.handler";
+import * as RescueHandler from "@/resources/contract/handlers/rescue.handler";
+import * as PermitHandler from "@/resources/contract/handlers/permit.handler";
+import * as AdminHandler from "@/resources/contract/handlers/admin.handler";
+
+interface CallSpec<K extends WriteMethod> {
+  /** Contract function the SDK method calls */
+  fn: string;
+  schema: z.ZodType;
+  /** Label for validation errors, as used by the SDK method */
+  label: string;
+  args: (params: WriteMethodParams[K]) => readonly unknown[];
+}
+
+const CALLS: { [K in WriteMethod]: CallSpec<K> } = {
+  mint: {
+    fn: "mint",
+    schema: MintParamsSchema,
+    label: "mint",
+    args: MintHandler.buildMintArgs,
+  },
+  burn: {
+    fn: "burn",
+    schema: BurnParamsSchema,
+    label: "burn",
+    args: BurnHandler.buildBurnArgs,
+  },
+  transfer: {
+    fn: "transfer",
+    schema: TransferParamsSchema,
+    label: "transfer",
+    args: TransferHandler.buildTransferArgs,
+  },
+  transferFrom: {
+    fn: "transferFrom",
+    schema: TransferFromParamsSchema,
+    label: "transferFrom",
+    args: TransferHandler.buildTransferFromArgs,
+  },
+  approve: {
+    fn: "approve",
+    schema: ApproveParamsSchema,
+    label: "approve",
+    args: ApproveHandler.buildApproveArgs,
+  },
+  blacklist: {
+    fn: "blacklist",
+    schema: BlacklistParamsSchema,
+    label: "blacklist",
+    args: (params) => [params.account],
+  },
+  unblacklist: {
+    fn: "unblacklist",
+    schema: BlacklistParamsSchema,
+    label: "unblacklist",
+    args: (params) => [params.account],
+  },
+  freeze: {
+    fn: "freeze",
+    schema: FreezeParamsSchema,
+    label: "freeze",
+    args: (params) => [params.account, params.reason],
+  },
+  unfreeze: {
+    fn: "unfreeze",
+    schema: UnfreezeParamsSchema,
+    label: "unfreeze",
+    args: (params) => [params.account, params.reason],
+  },
+  wipeFrozenBalance: {
+    fn: "wipeFrozenBalance",
+    schema: WipeFrozenParamsSchema,
+    label: "wipe frozen balance",
+    args: (params) => [params.account, params.caseId],
+  },
+  rescue: {
+    fn: "rescueERC20",
+    schema: RescueParamsSchema,
+    label: "rescue",
+    args: RescueHandler.buildRescueArgs,
+  },
+  permit: {
+    fn: "permit",
+    schema: PermitParamsSchema,
+    label: "permit",
+    args: PermitHandler.buildPermitArgs,
+  },
+  pause: {
+    fn: "pause",
+    schema: PauseParamsSchema,
+    label: "pause",
+    args: (params) => [params.reason],
+  },
+  unpause: {
+    fn: "unpause",
+    schema: UnpauseParamsSchema,
+    label: "unpause",
+    args: (params) => [params.reason],
+  },
+  updateSchnlAdmin: {
+    fn: "updateSchnlAdmin",
+    schema: UpdateAdminParamsSchema,
+    label: "update admin",
+    args: (params) => [params.newAdmin],
+  },
+  updateSchnlOperator: {
+    fn: "updateSchnlOperator",
+    schema: UpdateOperatorParamsSchema,
+    label: "update operator",
+    args: (params) => [params.newOperator],
+  },
+  setSupplyCap: {
+    fn: "setSupplyCap",
+    schema: SetSupplyCapParamsSchema,
+    label: "set supply cap",
+    args: AdminHandler.buildSetSupplyCapArgs,
+  },
+  configureMinter: {
+    fn: "configureMinter",
+    schema: ConfigureMinterParamsSchema,
+    label: "configure minter",
+    args: AdminHandler.buildConfigureMinterArgs,
+  },
+  removeMinter: {
+    fn: "removeMinter",
+    schema: RemoveMinterParamsSchema,
+    label: "remove minter",
+    args: (params) => [params.minter],
+  },
+  upgradeToAndCall: {
+    fn: "upgradeToAndCall",
+    schema: UpgradeParamsSchema,
+    label: "upgrade",
+    args: (params) => [params.newImplementation, params.data ?? "0x"],
+  },
+};
+
+/**
+ * Validate `params` exactly as the SDK method `method` does and ABI-encode the resulting contract
+ * call. Argument values are listed by their ABI input names for reviewers.
+ *
+ * @throws ValidationError if the params fail the method's schema or cannot be converted.
+ */
+export function encodeCall<K extends WriteMethod>(
+  contract: StableBirr,
+  method: K,
+  params: WriteMethodParams[K]
+): EncodedCall {
+  const spec = CALLS[method] as CallSpec<K>;
+  validateParams(spec.schema, params, spec.label);
+  const args = buildCallArgs(() => spec.args(params));
+  const iface = contract.interface as ethers.Interface;
+  const fragment = iface.getFunction(spec.fn)!;
+
+  return {
+    to: ethers.getAddress(contract.target as string),
+    data: iface.encodeFunctionData(fragment, args),
+    method: fragment.name,
+    args: describeArgs(fragment, args),
+  };
+}
+
+/**
+ * Decode StableBirr calldata back into the contract method and its named arguments, or `null` if
+ * it does not match any StableBirr function.
+ */
+export function decodeCall(
+  contract: StableBirr,
+  data: string
+): Pick<EncodedCall, "method" | "args"> | null {
+  let parsed: ethers.TransactionDescription | null;
+  try {
+    parsed = contract.interface.parseTransaction({ data });
+  } catch {
+    // Known selector but malformed arguments.
+    return null;
+  }
+  if (!parsed) return null;
+  return {
+    method: parsed.name,
+    args: describeArgs(parsed.fragment, parsed.args),
+  };
+}
+
+function describeArgs(
+  fragment: ethers.FunctionFragment,
+  args: ArrayLike<unknown>
+): Record<string, string> {
+  return Object.fromEntries(
+    fragment.inputs.map((input, i) => [
+      input.name || String(i),
+      String(args[i]),
+    ])
+  );
+}
@@ -0,0 +1,140 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import type {
+  StableBirrEvent,
+  StableBirrEventFilters,
+  StableBirrEventMap,
+  StableBirrEventName,
+} from "@/resources/contract/contract.types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toTokenAmount } from "@/core/amount";
+
+type EventDecoder<K extends StableBirrEventName> = (
+  args: ethers.Result
+) => StableBirrEventMap[K];
+
+const address = (value: string) => ethers.getAddress(value);
+
+/**
+ * Per-event conversion from raw ABI values to SDK payloads (checksummed addresses, amounts as
+ * `TokenAmount`, timestamps as numbers).
+ */
+const DECODERS: { [K in StableBirrEventName]: EventDecoder<K> } = {
+  Minted: (args) => ({
+    to: address(args.to),
+    amount: toTokenAmount(args.amount),
+    usdAmount: toTokenAmount(args.usdAmount),
+    rate: ethers.formatUnits(args.rate, 18),
+    rateWei: args.rate,
+    timestamp: Number(args.timestamp),
+  }),
+  Burned: (args) => ({
+    from: address(args.from),
+    amount: toTokenAmount(args.amount),
+    merchantId: args.merchantId,
+    timestamp: Number(args.timestamp),
+  }),
+  AccountFrozen: (args) => ({
+    account: address(args.account),
+    triggeredBy: address(args.triggeredBy),
+    reason: args.reason,
+    timestamp: Number(args.timestamp),
+  }),
+  FrozenBalanceWiped: (args) => ({
+    account: address(args.account),
+    triggeredBy: address(args.triggeredBy),
+    amount: toTokenAmount(args.amount),
+    caseId: args.caseId,
+    timestamp: Number(args.timestamp),
+  }),
+  IncidentLogged: (args) => ({
+    action: args.action,
+    triggeredBy: address(args.triggeredBy),
+    reason: args.reason,
+    timestamp: Number(args.timestamp),
+  }),
+  MinterConfigured: (args) => ({
+    minter: address(args.minter),
+    allowance:
+      args.allowance === ethers.MaxUint256
+        ? { wei: args.allowance, formatted: "unlimited" }
+        : toTokenAmount(args.allowance),
+    canBurn: args.canBurn,
+  }),
+  Transfer: (args) => ({
+    from: address(args.from),
+    to: address(args.to),
+    amount: toTokenAmount(args.value),
+  }),
+};
+
+/**
+ * Decode a raw log emitted by the StableBirr contract into a typed SDK event.
+ */
+export function decodeEvent<K extends StableBirrEventName>(
+  contract: StableBirr,
+  name: K,
+  log: ethers.Log
+): StableBirrEvent<K> {
+  const parsed = contract.interface.parseLog(log);
+  if (!parsed || parsed.name !== name) {
+    throw new ValidationError(
+      `Log ${log.transactionHash}:${log.index} is not ${name}`,
+      log
+    );
+  }
+  return {
+    name,
+    data: (DECODERS[name] as EventDecoder<K>)(parsed.args),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+}
+
+/**
+ * Encode the `eth_getLogs` topics for `name`, restricting indexed arguments to `filters`.
+ */
+export function buildEventTopics<K extends StableBirrEventName>(
+  contract: StableBirr,
+  name: K,
+  filters: StableBirrEventFilters[K] = {}
+): Array<string | string[] | null> {
+  const fragment = contract.interface.getEvent(name);
+  const values = fragment.inputs.map((input) =>
+    input.indexed
+      ? (filters as Record<string, string | string[] | null | undefined>)[
+          input.name
+        ] ?? null
+      : null
+  );
+  return contract.interface.encodeFilterTopics(fragment, values) as Array<
+    string | string[] | null
+  >;
+}
+
+/**
+ * Fetch and decode every `name` event in `[fromBlock, toBlock]`, in chain order.
+ */
+export async function fetchEvents<K extends StableBirrEventName>(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  name: K,
+  fromBlock: number,
+  toBlock: number,
+  filters?: StableBirrEventFilters[K]
+): Promise<StableBirrEvent<K>[]> {
+  try {
+    const logs = await provider.getLogs({
+      address: await contract.getAddress(),
+      topics: buildEventTopics(contract, name, filters),
+      fromBlock,
+      toBlock,
+    });
+    return logs.map((log) => decodeEvent(contract, name, log));
+  } catch (error: unknown) {
+    throw toStableBirrError(error, `Failed to fetch ${name} events`);
+  }
+}
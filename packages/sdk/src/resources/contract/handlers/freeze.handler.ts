@@ -1,5 +1,5 @@
 import type { ethers } from "ethers";
-import { ContractError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
 import type {
   FreezeParams,
   UnfreezeParams,
@@ -21,7 +21,7 @@ export async function freeze(
       .freeze(params.account, params.reason, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to freeze account", error);
+    throw toStableBirrError(error, "Failed to freeze account");
   }
 }
 
@@ -39,7 +39,7 @@ export async function unfreeze(
       .unfreeze(params.account, params.reason, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to unfreeze account", error);
+    throw toStableBirrError(error, "Failed to unfreeze account");
   }
 }
 
@@ -57,6 +57,6 @@ export async function wipeFrozenBalance(
       .wipeFrozenBalance(params.account, params.caseId, params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Failed to wipe frozen balance", error);
+    throw toStableBirrError(error, "Failed to wipe frozen balance");
   }
 }
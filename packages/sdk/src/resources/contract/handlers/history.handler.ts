@@ -0,0 +1,261 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import type {
+  HistoryPage,
+  StableBirrEvent,
+  StableBirrEventFilters,
+  StableBirrEventName,
+} from "@/resources/contract/contract.types";
+import { NetworkError, ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import {
+  buildEventTopics,
+  decodeEvent,
+} from "@/resources/contract/handlers/events.handler";
+
+/**
+ * Messages public RPCs (Polygon, Alchemy, Infura, QuickNode, Ankr, …) use when an `eth_getLogs`
+ * range is too wide or would return too many logs. Matching these triggers a split instead of a
+ * retry.
+ */
+const RANGE_TOO_LARGE =
+  /block range|range (is )?too (large|wide|big)|too many (blocks|results|logs)|more than \d+ (results|logs)|query returned more than|response size|exceeds? (the )?(max(imum)? )?(block )?range/i;
+
+/**
+ * Rate limiting: Infura and others answer `-32005` "limit exceeded" both for throttling and (with
+ * one of the messages above) for oversized ranges. Without such a message it means "slow down",
+ * so the same range is retried after a delay instead of being split.
+ */
+const THROTTLED = /^-32005$|rate limit|limit exceeded|too many requests/i;
+
+/**
+ * Fully-resolved scan state. Serialized into the opaque cursor so later pages scan exactly the
+ * same range with the same filters even if the chain head moved.
+ */
+export interface HistoryScan<K extends StableBirrEventName> {
+  event: K;
+  next: number;
+  to: number;
+  filters?: StableBirrEventFilters[K];
+  /**
+   * Log index of the last event a previous page returned from block `next`; logs in that block
+   * up to and including it are skipped. Set when a page ends inside a block.
+   */
+  afterLogIndex?: number;
+}
+
+export interface ScanLimits {
+  limit: number;
+  maxBlockRange: number;
+  retries: number;
+}
+
+export function encodeCursor<K extends StableBirrEventName>(
+  scan: HistoryScan<K>
+): string {
+  return ethers.encodeBase64(ethers.toUtf8Bytes(JSON.stringify(scan)));
+}
+
+export function decodeCursor<K extends StableBirrEventName>(
+  cursor: string,
+  event: K
+): HistoryScan<K> {
+  let scan: HistoryScan<K>;
+  try {
+    scan = JSON.parse(ethers.toUtf8String(ethers.decodeBase64(cursor)));
+  } catch (error: unknown) {
+    throw new ValidationError("Malformed history cursor", error);
+  }
+  if (
+    scan.event !== event ||
+    !Number.isInteger(scan.next) ||
+    !Number.isInteger(scan.to) ||
+    (scan.afterLogIndex !== undefined && !Number.isInteger(scan.afterLogIndex))
+  ) {
+    throw new ValidationError(`History cursor does not belong to ${event}`);
+  }
+  return scan;
+}
+
+/**
+ * Whether an RPC error means "ask for fewer blocks" rather than "try again later".
+ */
+export function isRangeTooLargeError(error: unknown): boolean {
+  return errorMessages(error).some((message) => RANGE_TOO_LARGE.test(message));
+}
+
+/**
+ * Whether an RPC error is rate limiting that is not about the range size (see `THROTTLED`).
+ */
+export function isThrottledError(error: unknown): boolean {
+  return (
+    !isRangeTooLargeError(error) &&
+    errorMessages(error).some((message) => THROTTLED.test(message))
+  );
+}
+
+/** Messages and codes anywhere in a nested ethers / provider error. */
+function errorMessages(error: unknown): string[] {
+  const messages: string[] = [];
+  const queue: unknown[] = [error];
+  const seen = new Set<unknown>();
+  while (queue.length > 0) {
+    const current = queue.shift();
+    if (!current || typeof current !== "object" || seen.has(current)) continue;
+    seen.add(current);
+    const record = current as Record<string, unknown>;
+    for (const key of ["message", "shortMessage", "code"]) {
+      if (record[key] !== undefined) messages.push(String(record[key]));
+    }
+    for (const key of ["error", "info", "cause", "data"]) {
+      if (record[key] && typeof record[key] === "object")
+        queue.push(record[key]);
+    }
+  }
+  return messages;
+}
+
+/**
+ * Adaptive chunk size shared across calls so a scan remembers what the RPC accepted.
+ */
+export interface ChunkState {
+  range: number;
+  maxBlockRange: number;
+  retries: number;
+}
+
+/**
+ * Fetch logs for the largest chunk starting at `from` (ending at or before `maxTo`) the RPC accepts.
+ *
+ * The chunk size halves on "range too large" errors (down to a single block) and doubles back
+ * after each success. Rate limiting and transient failures are retried on the same range with
+ * exponential backoff; anything else is surfaced as a typed SDK error.
+ *
+ * @returns The logs and the last block the chunk covered.
+ */
+export async function fetchLogChunk(
+  provider: ethers.Provider,
+  filter: { address: string; topics: Array<string | string[] | null> },
+  from: number,
+  maxTo: number,
+  state: ChunkState,
+  context: string
+): Promise<{ logs: ethers.Log[]; to: number }> {
+  let attempt = 0;
+  while (true) {
+    const to = Math.min(maxTo, from + state.range - 1);
+    try {
+      const logs = await provider.getLogs({
+        ...filter,
+        fromBlock: from,
+        toBlock: to,
+      });
+      state.range = Math.min(state.maxBlockRange, state.range * 2);
+      return { logs, to };
+    } catch (error: unknown) {
+      if (isRangeTooLargeError(error) && state.range > 1) {
+        state.range = Math.max(1, Math.floor(state.range / 2));
+        continue;
+      }
+      const sdkError = isThrottledError(error)
+        ? new NetworkError(
+            `${context} for blocks ${from}-${to}: rate limited`,
+            error
+          )
+        : toStableBirrError(error, `${context} for blocks ${from}-${to}`);
+      if (sdkError.retryable && attempt < state.retries) {
+        attempt += 1;
+        await delay(250 * 2 ** attempt);
+        continue;
+      }
+      throw sdkError;
+    }
+  }
+}
+
+/**
+ * Scan one page of `scan` with adaptive chunking (see `fetchLogChunk`). Logs are de-duplicated by
+ * `transactionHash:logIndex` because some providers return overlapping results after splits.
+ *
+ * The last chunk can hold more events than `limits.limit`; the page is then cut at the limit and
+ * the cursor resumes after the last returned event, inside its block.
+ */
+export async function scanPage<K extends StableBirrEventName>(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  scan: HistoryScan<K>,
+  limits: ScanLimits
+): Promise<HistoryPage<K>> {
+  const filter = {
+    address: await contract.getAddress(),
+    topics: buildEventTopics(contract, scan.event, scan.filters),
+  };
+  const state: ChunkState = {
+    range: limits.maxBlockRange,
+    maxBlockRange: limits.maxBlockRange,
+    retries: limits.retries,
+  };
+  const seen = new Set<string>();
+  const events: StableBirrEvent<K>[] = [];
+
+  let from = scan.next;
+  while (from <= scan.to && events.length < limits.limit) {
+    const { logs, to } = await fetchLogChunk(
+      provider,
+      filter,
+      from,
+      scan.to,
+      state,
+      `Failed to fetch ${scan.event} history`
+    );
+
+    for (const log of logs) {
+      if (
+        log.blockNumber === scan.next &&
+        scan.afterLogIndex !== undefined &&
+        log.index <= scan.afterLogIndex
+      ) {
+        continue;
+      }
+      const key = `${log.transactionHash}:${log.index}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      events.push(decodeEvent(contract, scan.event, log));
+    }
+
+    from = to + 1;
+  }
+
+  events.sort(
+    (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+  );
+
+  if (events.length > limits.limit) {
+    const page = events.slice(0, limits.limit);
+    const last = page[page.length - 1]!;
+    return {
+      events: page,
+      fromBlock: scan.next,
+      toBlock: last.blockNumber,
+      cursor: encodeCursor({
+        ...scan,
+        next: last.blockNumber,
+        afterLogIndex: last.logIndex,
+      }),
+    };
+  }
+
+  return {
+    events,
+    fromBlock: scan.next,
+    toBlock: from - 1,
+    cursor:
+      from <= scan.to
+        ? encodeCursor({ ...scan, next: from, afterLogIndex: undefined })
+        : undefined,
+  };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
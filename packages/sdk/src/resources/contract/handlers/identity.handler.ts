@@ -0,0 +1,131 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import type { ContractIdentity } from "@/resources/contract/contract.types";
+import { IdentityMismatchError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { STABLEBIRR_TOKEN } from "@/constants/token";
+import { IMPLEMENTATION_SLOT } from "@/resources/contract/handlers/state.handler";
+
+/**
+ * Confirm that `provider` is on `expected.chainId` and that the contract is a StableBirr proxy:
+ * code at the address, a non-empty ERC-1967 implementation with code, and the token's
+ * name / symbol / decimals. When `expected.implementation` is given (from a deployment manifest),
+ * the proxy must point at exactly that implementation. Every read is pinned to one block.
+ *
+ * @throws IdentityMismatchError naming the first failed check.
+ */
+export async function verifyIdentity(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  expected: { network: string; chainId: number; implementation?: string }
+): Promise<ContractIdentity> {
+  const address = ethers.getAddress(contract.target as string);
+  if (address === ethers.ZeroAddress) {
+    throw new IdentityMismatchError(
+      `No StableBirr deployment configured for ${expected.network}; pass contractAddress`,
+      "address",
+      "a deployed proxy",
+      address
+    );
+  }
+
+  try {
+    const network = await provider.getNetwork();
+    const chainId = Number(network.chainId);
+    if (chainId !== expected.chainId) {
+      throw new IdentityMismatchError(
+        `Provider is on chain ${chainId}, but ${expected.network} is chain ${expected.chainId}`,
+        "chainId",
+        expected.chainId,
+        chainId
+      );
+    }
+
+    const blockNumber = await provider.getBlockNumber();
+    const [code, slot] = await Promise.all([
+      provider.getCode(address, blockNumber),
+      provider.getStorage(address, IMPLEMENTATION_SLOT, blockNumber),
+    ]);
+    if (code === "0x") {
+      throw new IdentityMismatchError(
+        `No contract code at ${address} on ${expected.network}`,
+        "code",
+        "contract code",
+        code
+      );
+    }
+
+    const implementation = ethers.getAddress(ethers.dataSlice(slot, 12));
+    const implementationCode =
+      implementation === ethers.ZeroAddress
+        ? "0x"
+        : await provider.getCode(implementation, blockNumber);
+    if (implementationCode === "0x") {
+      throw new IdentityMismatchError(
+        `${address} is not an ERC-1967 proxy with a deployed implementation`,
+        "implementation",
+        "an implementation with code",
+        implementation
+      );
+    }
+    if (
+      expected.implementation &&
+      implementation !== ethers.getAddress(expected.implementation)
+    ) {
+      throw new IdentityMismatchError(
+        `${address} points at implementation ${implementation}, but the deployment manifest expects ${expected.implementation}`,
+        "implementation",
+        expected.implementation,
+        implementation
+      );
+    }
+
+    const at = { blockTag: blockNumber };
+    const [name, symbol, decimals] = await Promise.all([
+      orMissing(contract.name(at)),
+      orMissing(contract.symbol(at)),
+      orMissing(contract.decimals(at).then(Number)),
+    ]);
+    const metadata = { name, symbol, decimals };
+    for (const check of ["name", "symbol", "decimals"] as const) {
+      if (metadata[check] !== STABLEBIRR_TOKEN[check]) {
+        throw new IdentityMismatchError(
+          `Token ${check} at ${address} is ${
+            metadata[check] ?? "missing"
+          }, expected ${STABLEBIRR_TOKEN[check]}`,
+          check,
+          STABLEBIRR_TOKEN[check],
+          metadata[check]
+        );
+      }
+    }
+
+    return {
+      network: expected.network,
+      chainId,
+      address,
+      implementation,
+      name: name!,
+      symbol: symbol!,
+      decimals: decimals!,
+      blockNumber,
+    };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Identity verification failed");
+  }
+}
+
+/** A metadata read the contract does not implement resolves to `undefined` instead of failing. */
+async function orMissing<T>(read: Promise<T>): Promise<T | undefined> {
+  try {
+    return await read;
+  } catch (error: unknown) {
+    if (
+      ethers.isError(error, "CALL_EXCEPTION") ||
+      ethers.isError(error, "BAD_DATA")
+    ) {
+      return undefined;
+    }
+    throw error;
+  }
+}
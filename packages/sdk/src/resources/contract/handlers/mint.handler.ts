@@ -1,7 +1,25 @@
 import type { StableBirr } from "@/typechain-types";
 import { ethers } from "ethers";
 import type { MintParams } from "@/resources/contract/contract.types";
-import { ContractError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toScaledRate, toWei } from "@/core/amount";
+import { usdToEtb } from "@/utils/conversion";
+
+/**
+ * Convert validated mint params into the exact `mint(to, amount, usdAmount, rate)` arguments.
+ * When `amount` is omitted it is derived with `usdToEtb`, exactly as `Conversion.usdToEtb` would.
+ */
+export function buildMintArgs(
+  params: MintParams
+): [string, bigint, bigint, bigint] {
+  const usdAmount = toWei(params.usdAmount);
+  const rate = toScaledRate(params.rate);
+  const amount =
+    params.amount === undefined
+      ? usdToEtb(usdAmount, rate)
+      : toWei(params.amount);
+  return [params.to, amount, usdAmount, rate];
+}
 
 export async function mint(
   contract: StableBirr,
@@ -11,15 +29,9 @@ export async function mint(
   try {
     const tx = await contract
       .connect(signer)
-      .mint(
-        params.to,
-        ethers.parseUnits(params.amount, 18),
-        ethers.parseUnits(params.usdAmount, 18),
-        ethers.parseUnits(params.rate.toString(), 18),
-        params.options || {}
-      );
+      .mint(...buildMintArgs(params), params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Mint failed", error);
+    throw toStableBirrError(error, "Mint failed");
   }
 }
@@ -1,8 +1,45 @@
 import { ethers } from "ethers";
-import type { PermitParams } from "@/resources/contract/contract.types";
-import { ContractError } from "@/core/errors";
+import type {
+  PermitParams,
+  PermitSignature,
+  SignPermitParams,
+} from "@/resources/contract/contract.types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toWei, formatTokenAmount } from "@/core/amount";
 import type { StableBirr } from "@/typechain-types";
 
+/** EIP-712 types of the EIP-2612 `Permit` message. */
+export const PERMIT_TYPES: Record<string, ethers.TypedDataField[]> = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/** Domain version OpenZeppelin's `ERC20PermitUpgradeable` initializes EIP-712 with. */
+const PERMIT_DOMAIN_VERSION = "1";
+
+/**
+ * Convert validated permit params into `permit(owner, spender, value, deadline, v, r, s)` arguments.
+ */
+export function buildPermitArgs(
+  params: PermitParams
+): [string, string, bigint, number, number, string, string] {
+  return [
+    params.owner,
+    params.spender,
+    toWei(params.value),
+    params.deadline,
+    params.v,
+    params.r,
+    params.s,
+  ];
+}
+
 export async function permit(
   contract: StableBirr,
   signer: ethers.Signer,
@@ -11,18 +48,90 @@ export async function permit(
   try {
     const tx = await contract
       .connect(signer)
-      .permit(
-        params.owner,
-        params.spender,
-        ethers.parseUnits(params.value, 18),
-        params.deadline,
-        params.v,
-        params.r,
-        params.s,
-        params.options || {}
-      );
+      .permit(...buildPermitArgs(params), params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Permit failed", error);
+    throw toStableBirrError(error, "Permit failed");
+  }
+}
+
+/**
+ * The token's EIP-712 domain, built from its name, the chain ID and the proxy address and checked
+ * against the contract's `DOMAIN_SEPARATOR`.
+ *
+ * @throws ValidationError if the computed domain does not match.
+ */
+export async function permitDomain(
+  contract: StableBirr,
+  provider: ethers.Provider
+): Promise<ethers.TypedDataDomain> {
+  const [name, network, separator] = await Promise.all([
+    contract.name(),
+    provider.getNetwork(),
+    contract.DOMAIN_SEPARATOR(),
+  ]);
+  const domain = {
+    name,
+    version: PERMIT_DOMAIN_VERSION,
+    chainId: network.chainId,
+    verifyingContract: ethers.getAddress(contract.target as string),
+  };
+  if (ethers.TypedDataEncoder.hashDomain(domain) !== separator) {
+    throw new ValidationError(
+      "Permit domain does not match the contract's DOMAIN_SEPARATOR"
+    );
+  }
+  return domain;
+}
+
+/**
+ * Sign an EIP-2612 permit as `params.owner` for the owner's current `nonces(owner)`. The domain
+ * comes from `permitDomain`, so a signature the contract would reject is never produced.
+ *
+ * @throws ValidationError if the signer is not `params.owner` or the domain does not match.
+ */
+export async function signPermit(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  signer: ethers.Signer,
+  params: SignPermitParams
+): Promise<PermitSignature> {
+  try {
+    const owner = ethers.getAddress(params.owner);
+    const spender = ethers.getAddress(params.spender);
+    const [signerAddress, nonce, domain] = await Promise.all([
+      signer.getAddress(),
+      contract.nonces(owner),
+      permitDomain(contract, provider),
+    ]);
+    if (signerAddress !== owner) {
+      throw new ValidationError(
+        `Permit owner ${owner} is not the configured signer ${signerAddress}`
+      );
+    }
+
+    const message = {
+      owner,
+      spender,
+      value: toWei(params.value),
+      nonce,
+      deadline: params.deadline,
+    };
+    const signature = ethers.Signature.from(
+      await signer.signTypedData(domain, PERMIT_TYPES, message)
+    );
+
+    return {
+      owner,
+      spender,
+      value: formatTokenAmount(params.value),
+      deadline: params.deadline,
+      nonce,
+      v: signature.v,
+      r: signature.r,
+      s: signature.s,
+    };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Failed to sign permit");
   }
 }
@@ -0,0 +1,276 @@
+import { ethers } from "ethers";
+import { toStableBirrError } from "@/core/error-decoder";
+import type {
+  PreflightResult,
+  PreflightViolation,
+} from "@/resources/contract/contract.types";
+import type { StableBirr } from "@/typechain-types";
+
+/**
+ * Evaluate every rule `StableBirrOperations.mint` enforces, reading all state at one block.
+ *
+ * @param caller - Address that will call `mint` (its minter config is checked).
+ */
+export async function preflightMint(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  caller: string,
+  [to, amount, usdAmount]: [string, bigint, bigint, bigint]
+): Promise<PreflightResult> {
+  try {
+    const blockTag = await provider.getBlockNumber();
+    const [
+      paused,
+      isMinter,
+      allowance,
+      blacklisted,
+      frozen,
+      supplyCap,
+      totalSupply,
+    ] = await Promise.all([
+      contract.paused({ blockTag }),
+      contract.isMinter(caller, { blockTag }),
+      contract.minterAllowance(caller, { blockTag }),
+      contract.isBlacklisted(to, { blockTag }),
+      contract.isFrozen(to, { blockTag }),
+      contract.supplyCap({ blockTag }),
+      contract.totalSupply({ blockTag }),
+    ]);
+
+    const violations: PreflightViolation[] = [];
+    if (!isMinter) violations.push(notMinter(caller));
+    if (paused) violations.push(pausedViolation());
+    if (to === ethers.ZeroAddress) violations.push(zeroAddress(to));
+    if (amount === 0n || usdAmount === 0n) {
+      violations.push({
+        code: "INVALID_AMOUNT",
+        message: "Amount and USD amount must be non-zero",
+      });
+    }
+    if (blacklisted) violations.push(blacklistedViolation(to));
+    if (frozen) violations.push(frozenViolation(to));
+    if (supplyCap !== 0n && totalSupply + amount > supplyCap) {
+      violations.push({
+        code: "SUPPLY_CAP_EXCEEDED",
+        message: "Mint would push total supply above the supply cap",
+        values: { cap: supplyCap, attempted: totalSupply + amount },
+      });
+    }
+    if (isMinter && allowance !== ethers.MaxUint256 && allowance < amount) {
+      violations.push({
+        code: "MINT_ALLOWANCE_EXCEEDED",
+        message: `Minter ${caller} has insufficient remaining allowance`,
+        account: caller,
+        values: { allowance, requested: amount },
+      });
+    }
+
+    return { ok: violations.length === 0, blockNumber: blockTag, violations };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Mint preflight failed");
+  }
+}
+
+/**
+ * Evaluate every rule `StableBirrOperations.burn` enforces, reading all state at one block.
+ *
+ * Burn permission mirrors `_hasBurnPermission`: the Schnl Operator always qualifies, other
+ * callers must be active minters with `canBurn`.
+ *
+ * @param caller - Address that will call `burn`.
+ */
+export async function preflightBurn(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  caller: string,
+  [from, amount]: [string, bigint, string]
+): Promise<PreflightResult> {
+  try {
+    const blockTag = await provider.getBlockNumber();
+    const [paused, operator, canBurn, balance, blacklisted, frozen] =
+      await Promise.all([
+        contract.paused({ blockTag }),
+        contract.schnlOperator({ blockTag }),
+        contract.minterCanBurn(caller, { blockTag }),
+        contract.balanceOf(from, { blockTag }),
+        contract.isBlacklisted(from, { blockTag }),
+        contract.isFrozen(from, { blockTag }),
+      ]);
+
+    const violations: PreflightViolation[] = [];
+    if (paused) violations.push(pausedViolation());
+    if (!canBurn && operator.toLowerCase() !== caller.toLowerCase()) {
+      violations.push({
+        code: "NOT_AUTHORIZED_MINTER",
+        message: `${caller} is not permitted to burn`,
+        account: caller,
+      });
+    }
+    if (from === ethers.ZeroAddress) violations.push(zeroAddress(from));
+    if (amount === 0n) {
+      violations.push({
+        code: "INVALID_AMOUNT",
+        message: "Amount must be non-zero",
+      });
+    }
+    if (balance < amount)
+      violations.push(insufficientBalance(from, balance, amount));
+    if (blacklisted) violations.push(blacklistedViolation(from));
+    if (frozen) violations.push(frozenViolation(from));
+
+    return { ok: violations.length === 0, blockNumber: blockTag, violations };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Burn preflight failed");
+  }
+}
+
+/**
+ * Evaluate every rule `StableBirrOperations.transfer` enforces, reading all state at one block.
+ *
+ * @param from - Address that will send the tokens.
+ */
+export async function preflightTransfer(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  from: string,
+  [to, amount]: [string, bigint]
+): Promise<PreflightResult> {
+  try {
+    const blockTag = await provider.getBlockNumber();
+    const [
+      paused,
+      balance,
+      fromBlacklisted,
+      fromFrozen,
+      toBlacklisted,
+      toFrozen,
+    ] = await Promise.all([
+      contract.paused({ blockTag }),
+      contract.balanceOf(from, { blockTag }),
+      contract.isBlacklisted(from, { blockTag }),
+      contract.isFrozen(from, { blockTag }),
+      contract.isBlacklisted(to, { blockTag }),
+      contract.isFrozen(to, { blockTag }),
+    ]);
+
+    const violations: PreflightViolation[] = [];
+    if (fromBlacklisted) violations.push(blacklistedViolation(from));
+    if (fromFrozen) violations.push(frozenViolation(from));
+    if (to === ethers.ZeroAddress) violations.push(zeroAddress(to));
+    if (toBlacklisted) violations.push(blacklistedViolation(to));
+    if (toFrozen) violations.push(frozenViolation(to));
+    if (paused) violations.push(pausedViolation());
+    if (balance < amount)
+      violations.push(insufficientBalance(from, balance, amount));
+
+    return { ok: violations.length === 0, blockNumber: blockTag, violations };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Transfer preflight failed");
+  }
+}
+
+/**
+ * Evaluate every rule `StableBirrOperations.transferFrom` enforces, reading all state at one
+ * block: blacklist/freeze status of `from` and `to`, the spender's allowance, paused state and
+ * the owner's balance.
+ *
+ * @param spender - Address that will call `transferFrom` (its allowance from `from` is checked).
+ */
+export async function preflightTransferFrom(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  spender: string,
+  [from, to, amount]: [string, string, bigint]
+): Promise<PreflightResult> {
+  try {
+    const blockTag = await provider.getBlockNumber();
+    const [
+      paused,
+      balance,
+      allowance,
+      fromBlacklisted,
+      fromFrozen,
+      toBlacklisted,
+      toFrozen,
+    ] = await Promise.all([
+      contract.paused({ blockTag }),
+      contract.balanceOf(from, { blockTag }),
+      contract.allowance(from, spender, { blockTag }),
+      contract.isBlacklisted(from, { blockTag }),
+      contract.isFrozen(from, { blockTag }),
+      contract.isBlacklisted(to, { blockTag }),
+      contract.isFrozen(to, { blockTag }),
+    ]);
+
+    const violations: PreflightViolation[] = [];
+    if (fromBlacklisted) violations.push(blacklistedViolation(from));
+    if (fromFrozen) violations.push(frozenViolation(from));
+    if (toBlacklisted) violations.push(blacklistedViolation(to));
+    if (toFrozen) violations.push(frozenViolation(to));
+    if (allowance !== ethers.MaxUint256 && allowance < amount) {
+      violations.push({
+        code: "INSUFFICIENT_ALLOWANCE",
+        message: `Spender ${spender} has insufficient allowance from ${from}`,
+        account: spender,
+        values: { allowance, needed: amount },
+      });
+    }
+    if (to === ethers.ZeroAddress) violations.push(zeroAddress(to));
+    if (paused) violations.push(pausedViolation());
+    if (balance < amount)
+      violations.push(insufficientBalance(from, balance, amount));
+
+    return { ok: violations.length === 0, blockNumber: blockTag, violations };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "TransferFrom preflight failed");
+  }
+}
+
+function pausedViolation(): PreflightViolation {
+  return { code: "CONTRACT_PAUSED", message: "Contract is paused" };
+}
+
+function notMinter(account: string): PreflightViolation {
+  return {
+    code: "NOT_AUTHORIZED_MINTER",
+    message: `${account} is not an authorized minter`,
+    account,
+  };
+}
+
+function zeroAddress(account: string): PreflightViolation {
+  return {
+    code: "INVALID_ADDRESS",
+    message: "Zero address is not allowed",
+    account,
+  };
+}
+
+function blacklistedViolation(account: string): PreflightViolation {
+  return {
+    code: "ACCOUNT_BLACKLISTED",
+    message: `Account ${account} is blacklisted`,
+    account,
+  };
+}
+
+function frozenViolation(account: string): PreflightViolation {
+  return {
+    code: "ACCOUNT_FROZEN",
+    message: `Account ${account} is frozen`,
+    account,
+  };
+}
+
+function insufficientBalance(
+  account: string,
+  balance: bigint,
+  needed: bigint
+): PreflightViolation {
+  return {
+    code: "INSUFFICIENT_BALANCE",
+    message: `Account ${account} has insufficient balance`,
+    account,
+    values: { balance, needed },
+  };
+}
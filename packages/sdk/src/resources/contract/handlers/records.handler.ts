@@ -0,0 +1,184 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import type {
+  BurnRecord,
+  MintRecord,
+} from "@/resources/contract/contract.types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toTokenAmount } from "@/core/amount";
+
+/**
+ * Reproduce the `mintRecords` key from `StableBirrOperations.mint`:
+ * `keccak256(abi.encodePacked(to, amount, usdAmount, rate, block.timestamp))`.
+ */
+export function computeMintRecordId(
+  to: string,
+  amount: bigint,
+  usdAmount: bigint,
+  rate: bigint,
+  timestamp: bigint | number
+): string {
+  return ethers.solidityPackedKeccak256(
+    ["address", "uint256", "uint256", "uint256", "uint256"],
+    [to, amount, usdAmount, rate, timestamp]
+  );
+}
+
+/**
+ * Reproduce the `burnRecords` key from `StableBirrOperations.burn`:
+ * `keccak256(abi.encodePacked(from, amount, merchantId, block.timestamp))`.
+ */
+export function computeBurnRecordId(
+  from: string,
+  amount: bigint,
+  merchantId: string,
+  timestamp: bigint | number
+): string {
+  return ethers.solidityPackedKeccak256(
+    ["address", "uint256", "string", "uint256"],
+    [from, amount, merchantId, timestamp]
+  );
+}
+
+/**
+ * Read `getMintRecord(recordId)`; `null` when no mint produced that ID.
+ */
+export async function getMintRecord(
+  contract: StableBirr,
+  recordId: string
+): Promise<MintRecord | null> {
+  try {
+    const record = await contract.getMintRecord(recordId);
+    if (!record.exists) return null;
+    return {
+      recordId,
+      to: ethers.getAddress(record.to),
+      amount: toTokenAmount(record.amount),
+      usdAmount: toTokenAmount(record.usdAmount),
+      rate: ethers.formatUnits(record.rate, 18),
+      rateWei: record.rate,
+      timestamp: Number(record.timestamp),
+    };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Failed to fetch mint record");
+  }
+}
+
+/**
+ * Read `getBurnRecord(recordId)`; `null` when no burn produced that ID.
+ */
+export async function getBurnRecord(
+  contract: StableBirr,
+  recordId: string
+): Promise<BurnRecord | null> {
+  try {
+    const record = await contract.getBurnRecord(recordId);
+    if (!record.exists) return null;
+    return {
+      recordId,
+      from: ethers.getAddress(record.from),
+      amount: toTokenAmount(record.amount),
+      merchantId: record.merchantId,
+      timestamp: Number(record.timestamp),
+    };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Failed to fetch burn record");
+  }
+}
+
+/**
+ * Resolve every mint record created by `txHash`.
+ *
+ * The record ID is never emitted, so it is recomputed from the `Minted` log arguments and the
+ * timestamp of the receipt's block — exactly the inputs `StableBirrOperations.mint` hashes.
+ */
+export async function getMintRecordsByTransaction(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  txHash: string
+): Promise<MintRecord[]> {
+  const { receipt, timestamp } = await loadReceipt(provider, txHash);
+  const ids = parseReceipt(contract, receipt, "Minted").map((args) =>
+    computeMintRecordId(
+      args.to,
+      args.amount,
+      args.usdAmount,
+      args.rate,
+      timestamp
+    )
+  );
+  const records = await Promise.all(
+    ids.map((id) => getMintRecord(contract, id))
+  );
+  return records.flatMap((record) =>
+    record
+      ? [
+          {
+            ...record,
+            transactionHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+          },
+        ]
+      : []
+  );
+}
+
+/**
+ * Resolve every burn record created by `txHash` (see `getMintRecordsByTransaction`).
+ */
+export async function getBurnRecordsByTransaction(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  txHash: string
+): Promise<BurnRecord[]> {
+  const { receipt, timestamp } = await loadReceipt(provider, txHash);
+  const ids = parseReceipt(contract, receipt, "Burned").map((args) =>
+    computeBurnRecordId(args.from, args.amount, args.merchantId, timestamp)
+  );
+  const records = await Promise.all(
+    ids.map((id) => getBurnRecord(contract, id))
+  );
+  return records.flatMap((record) =>
+    record
+      ? [
+          {
+            ...record,
+            transactionHash: receipt.hash,
+            blockNumber: receipt.blockNumber,
+          },
+        ]
+      : []
+  );
+}
+
+async function loadReceipt(
+  provider: ethers.Provider,
+  txHash: string
+): Promise<{ receipt: ethers.TransactionReceipt; timestamp: number }> {
+  let receipt: ethers.TransactionReceipt | null;
+  let block: ethers.Block | null;
+  try {
+    receipt = await provider.getTransactionReceipt(txHash);
+    block = receipt && (await provider.getBlock(receipt.blockNumber));
+  } catch (error: unknown) {
+    throw toStableBirrError(error, `Failed to load transaction ${txHash}`);
+  }
+  if (!receipt || !block) {
+    throw new ValidationError(`Transaction ${txHash} is not mined`);
+  }
+  return { receipt, timestamp: block.timestamp };
+}
+
+function parseReceipt(
+  contract: StableBirr,
+  receipt: ethers.TransactionReceipt,
+  name: "Minted" | "Burned"
+): ethers.Result[] {
+  const address = (contract.target as string).toLowerCase();
+  return receipt.logs.flatMap((log) => {
+    if (log.address.toLowerCase() !== address) return [];
+    const parsed = contract.interface.parseLog(log);
+    return parsed?.name === name ? [parsed.args] : [];
+  });
+}
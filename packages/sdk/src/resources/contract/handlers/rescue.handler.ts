@@ -1,8 +1,18 @@
 import { ethers } from "ethers";
 import type { RescueParams } from "@/resources/contract/contract.types";
-import { ContractError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toWei } from "@/core/amount";
 import type { StableBirr } from "@/typechain-types";
 
+/**
+ * Convert validated rescue params into `rescueERC20(token, to, amount)` arguments.
+ */
+export function buildRescueArgs(
+  params: RescueParams
+): [string, string, bigint] {
+  return [params.tokenAddress, params.to, toWei(params.amount)];
+}
+
 export async function rescue(
   contract: StableBirr,
   signer: ethers.Signer,
@@ -11,14 +21,9 @@ export async function rescue(
   try {
     const tx = await contract
       .connect(signer)
-      .rescueERC20(
-        params.tokenAddress,
-        params.to,
-        ethers.parseUnits(params.amount, 18),
-        params.options || {}
-      );
+      .rescueERC20(...buildRescueArgs(params), params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Rescue failed", error);
+    throw toStableBirrError(error, "Rescue failed");
   }
 }
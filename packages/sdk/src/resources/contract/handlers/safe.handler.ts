@@ -0,0 +1,116 @@
+import { ethers } from "ethers";
+import { ValidationError } from "@/core/errors";
+import type {
+  SafeSignableTransaction,
+  SafeTransactionData,
+  SafeTransactionOptions,
+} from "@/resources/contract/contract.types";
+
+/** Canonical MultiSendCallOnly from the Safe v1.3.0 deployments (same address on every chain). */
+export const DEFAULT_MULTI_SEND_CALL_ONLY =
+  "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D";
+
+/** EIP-712 types of `SafeTx` (Safe >= 1.3.0, whose domain includes the chain ID). */
+export const SAFE_TX_TYPES: Record<string, ethers.TypedDataField[]> = {
+  SafeTx: [
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "data", type: "bytes" },
+    { name: "operation", type: "uint8" },
+    { name: "safeTxGas", type: "uint256" },
+    { name: "baseGas", type: "uint256" },
+    { name: "gasPrice", type: "uint256" },
+    { name: "gasToken", type: "address" },
+    { name: "refundReceiver", type: "address" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+const MULTI_SEND_INTERFACE = new ethers.Interface([
+  "function multiSend(bytes transactions) payable",
+]);
+
+/**
+ * Pack calls into MultiSend's `bytes transactions`: per call
+ * `uint8 operation ‖ address to ‖ uint256 value ‖ uint256 dataLength ‖ bytes data`.
+ */
+export function encodeMultiSend(transactions: SafeTransactionData[]): string {
+  return ethers.concat(
+    transactions.map((tx) =>
+      ethers.solidityPacked(
+        ["uint8", "address", "uint256", "uint256", "bytes"],
+        [tx.operation, tx.to, tx.value, ethers.dataLength(tx.data), tx.data]
+      )
+    )
+  );
+}
+
+/**
+ * Wrap calls in a single `multiSend` delegatecall to MultiSendCallOnly.
+ *
+ * @throws ValidationError if the batch is empty or contains a delegatecall (MultiSendCallOnly
+ *   rejects them).
+ */
+export function buildMultiSend(
+  multiSendAddress: string,
+  transactions: SafeTransactionData[]
+): SafeTransactionData {
+  const calls = transactions.flatMap((tx) => tx.transactions ?? [tx]);
+  if (calls.length === 0) {
+    throw new ValidationError("A Safe batch needs at least one transaction");
+  }
+  if (calls.some((tx) => tx.operation !== 0)) {
+    throw new ValidationError(
+      "MultiSendCallOnly batches cannot contain delegatecalls"
+    );
+  }
+
+  return {
+    to: ethers.getAddress(multiSendAddress),
+    value: "0",
+    data: MULTI_SEND_INTERFACE.encodeFunctionData("multiSend", [
+      encodeMultiSend(calls),
+    ]),
+    operation: 1,
+    method: "multiSend",
+    args: { transactions: String(calls.length) },
+    transactions: calls,
+  };
+}
+
+/**
+ * Bind a Safe transaction to a Safe, chain and nonce and compute its EIP-712 `safeTxHash`.
+ */
+export function buildSafeTransaction(
+  transaction: SafeTransactionData,
+  safeAddress: string,
+  chainId: bigint,
+  nonce: bigint,
+  options: SafeTransactionOptions = {}
+): SafeSignableTransaction {
+  const domain = {
+    chainId: chainId.toString(),
+    verifyingContract: ethers.getAddress(safeAddress),
+  };
+  const message = {
+    to: transaction.to,
+    value: transaction.value,
+    data: transaction.data,
+    operation: transaction.operation,
+    safeTxGas: BigInt(options.safeTxGas ?? 0).toString(),
+    baseGas: BigInt(options.baseGas ?? 0).toString(),
+    gasPrice: BigInt(options.gasPrice ?? 0).toString(),
+    gasToken: options.gasToken ?? ethers.ZeroAddress,
+    refundReceiver: options.refundReceiver ?? ethers.ZeroAddress,
+    nonce: nonce.toString(),
+  };
+
+  return {
+    safeAddress: domain.verifyingContract,
+    chainId,
+    nonce,
+    transaction,
+    safeTxHash: ethers.TypedDataEncoder.hash(domain, SAFE_TX_TYPES, message),
+    typedData: { domain, types: SAFE_TX_TYPES, message },
+  };
+}
@@ -0,0 +1,76 @@
+import type { ethers } from "ethers";
+import { ContractError, ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import type {
+  SimulationResult,
+  StateDelta,
+} from "@/resources/contract/contract.types";
+import type { StableBirr } from "@/typechain-types";
+
+/**
+ * Reads the state a write will touch at `blockTag` and returns the expected before/after values.
+ */
+export type DeltaPlanner = (
+  contract: StableBirr,
+  blockTag: number
+) => Promise<StateDelta[]>;
+
+/**
+ * Dry-run a write method: `staticCall` at the latest block, then `estimateGas` and fee data for
+ * cost. Reverts are returned as `success: false` with the decoded error; transport failures are
+ * thrown because the simulation itself could not run.
+ */
+export async function simulate(
+  contract: StableBirr,
+  signer: ethers.Signer,
+  method: string,
+  args: readonly unknown[],
+  planDeltas?: DeltaPlanner
+): Promise<SimulationResult> {
+  const provider = signer.provider;
+  if (!provider) {
+    throw new ValidationError("Signer must be connected to a provider");
+  }
+
+  let blockNumber: number;
+  try {
+    blockNumber = await provider.getBlockNumber();
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Failed to read block number");
+  }
+  const fn = contract.connect(signer).getFunction(method);
+
+  try {
+    await fn.staticCall(...args, { blockTag: blockNumber });
+  } catch (error: unknown) {
+    const decoded = toStableBirrError(error, `Simulated ${method} reverted`);
+    if (!(decoded instanceof ContractError)) throw decoded;
+    return {
+      method,
+      success: false,
+      blockNumber,
+      error: decoded,
+      stateDeltas: [],
+    };
+  }
+
+  try {
+    const [gasEstimate, feeData, stateDeltas] = await Promise.all([
+      fn.estimateGas(...args),
+      provider.getFeeData(),
+      planDeltas ? planDeltas(contract, blockNumber) : Promise.resolve([]),
+    ]);
+    const feePerGas = feeData.maxFeePerGas ?? feeData.gasPrice;
+
+    return {
+      method,
+      success: true,
+      blockNumber,
+      gasEstimate,
+      estimatedCost: feePerGas !== null ? gasEstimate * feePerGas : undefined,
+      stateDeltas,
+    };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, `Failed to simulate ${method}`);
+  }
+}
@@ -0,0 +1,80 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import type { ContractState } from "@/resources/contract/contract.types";
+import { ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toTokenAmount } from "@/core/amount";
+
+/** `bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)` */
+export const IMPLEMENTATION_SLOT =
+  "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/**
+ * Read the contract's governance and monetary state, every value pinned to the block `blockTag`
+ * resolves to so the snapshot is internally consistent.
+ *
+ * @throws ValidationError if `blockTag` does not resolve to a block.
+ */
+export async function getState(
+  contract: StableBirr,
+  provider: ethers.Provider,
+  blockTag: ethers.BlockTag = "latest"
+): Promise<ContractState> {
+  try {
+    const block = await provider.getBlock(blockTag);
+    if (!block) throw new ValidationError(`Block not found: ${blockTag}`);
+    const at = { blockTag: block.number };
+
+    const [
+      name,
+      symbol,
+      decimals,
+      schnlAdmin,
+      schnlOperator,
+      paused,
+      implementationSlot,
+      domainSeparator,
+      totalSupply,
+      supplyCap,
+      totalUSDConverted,
+      totalBurned,
+      totalFrozenWiped,
+    ] = await Promise.all([
+      contract.name(at),
+      contract.symbol(at),
+      contract.decimals(at),
+      contract.schnlAdmin(at),
+      contract.schnlOperator(at),
+      contract.paused(at),
+      provider.getStorage(contract.target, IMPLEMENTATION_SLOT, block.number),
+      contract.DOMAIN_SEPARATOR(at),
+      contract.totalSupply(at),
+      contract.supplyCap(at),
+      contract.totalUSDConverted(at),
+      contract.totalBurned(at),
+      contract.totalFrozenWiped(at),
+    ]);
+
+    return {
+      blockNumber: block.number,
+      blockTimestamp: block.timestamp,
+      name,
+      symbol,
+      decimals: Number(decimals),
+      schnlAdmin,
+      schnlOperator,
+      paused,
+      implementation: ethers.getAddress(
+        ethers.dataSlice(implementationSlot, 12)
+      ),
+      domainSeparator,
+      totalSupply: toTokenAmount(totalSupply),
+      supplyCap: toTokenAmount(supplyCap),
+      totalUSDConverted: toTokenAmount(totalUSDConverted),
+      totalBurned: toTokenAmount(totalBurned),
+      totalFrozenWiped: toTokenAmount(totalFrozenWiped),
+    };
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Failed to read contract state");
+  }
+}
@@ -1,7 +1,19 @@
 import { ethers } from "ethers";
-import type { TransferParams } from "@/resources/contract/contract.types";
-import { ContractError } from "@/core/errors";
+import type {
+  TransferParams,
+  TransferFromParams,
+} from "@/resources/contract/contract.types";
+import { toStableBirrError } from "@/core/error-decoder";
+import { toWei } from "@/core/amount";
 import type { StableBirr } from "@/typechain-types";
+
+/**
+ * Convert validated transfer params into `transfer(to, amount)` arguments.
+ */
+export function buildTransferArgs(params: TransferParams): [string, bigint] {
+  return [params.to, toWei(params.amount)];
+}
+
 export async function transfer(
   contract: StableBirr,
   signer: ethers.Signer,
@@ -10,13 +22,33 @@ export async function transfer(
   try {
     const tx = await contract
       .connect(signer)
-      .transfer(
-        params.to,
-        ethers.parseUnits(params.amount, 18),
-        params.options || {}
-      );
+      .transfer(...buildTransferArgs(params), params.options || {});
+    return tx;
+  } catch (error: unknown) {
+    throw toStableBirrError(error, "Transfer failed");
+  }
+}
+
+/**
+ * Convert validated params into `transferFrom(from, to, amount)` arguments.
+ */
+export function buildTransferFromArgs(
+  params: TransferFromParams
+): [string, string, bigint] {
+  return [params.from, params.to, toWei(params.amount)];
+}
+
+export async function transferFrom(
+  contract: StableBirr,
+  signer: ethers.Signer,
+  params: TransferFromParams
+): Promise<ethers.TransactionResponse> {
+  try {
+    const tx = await contract
+      .connect(signer)
+      .transferFrom(...buildTransferFromArgs(params), params.options || {});
     return tx;
   } catch (error: unknown) {
-    throw new ContractError("Transfer failed", error);
+    throw toStableBirrError(error, "TransferFrom failed");
   }
 }
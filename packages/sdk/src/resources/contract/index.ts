@@ -1,3 +1,9 @@
 export * from "@/resources/contract/contract.resource";
+export * from "@/resources/contract/contract.simulator";
+export * from "@/resources/contract/contract.preflight";
+export * from "@/resources/contract/contract.events";
+export * from "@/resources/contract/contract.history";
+export * from "@/resources/contract/contract.safe";
+export * from "@/resources/contract/contract.offline";
 export * from "@/resources/contract/contract.types";
 export * from "@/resources/contract/contract.validator";
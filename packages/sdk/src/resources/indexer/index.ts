@@ -0,0 +1,3 @@
+export * from "@/resources/indexer/indexer.resource";
+export * from "@/resources/indexer/indexer.store";
+export * from "@/resources/indexer/indexer.types";
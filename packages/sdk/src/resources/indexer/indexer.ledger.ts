@@ -0,0 +1,126 @@
+import { ethers } from "ethers";
+import type {
+  BurnLedgerEntry,
+  FreezeHistoryEntry,
+  IndexedEvent,
+  MintLedgerEntry,
+} from "@/resources/indexer/indexer.types";
+import {
+  computeBurnRecordId,
+  computeMintRecordId,
+} from "@/resources/contract/handlers/records.handler";
+
+/**
+ * Views derived from the indexed event log. Rebuilt from scratch after loads and rollbacks, and
+ * updated incrementally as new events are ingested.
+ */
+export class IndexerLedger {
+  public readonly balances = new Map<string, bigint>();
+  public readonly mints = new Map<string, MintLedgerEntry>();
+  public readonly burns = new Map<string, BurnLedgerEntry>();
+  public readonly freezes: FreezeHistoryEntry[] = [];
+
+  public static from(events: IndexedEvent[]): IndexerLedger {
+    const ledger = new IndexerLedger();
+    events.forEach((event) => ledger.apply(event));
+    return ledger;
+  }
+
+  public apply(event: IndexedEvent): void {
+    const args = event.args;
+    switch (event.name) {
+      case "Transfer": {
+        const value = BigInt(args.value as string);
+        if (args.from !== ethers.ZeroAddress) {
+          this.credit(args.from as string, -value);
+        }
+        if (args.to !== ethers.ZeroAddress) {
+          this.credit(args.to as string, value);
+        }
+        break;
+      }
+      case "Minted": {
+        const entry: MintLedgerEntry = {
+          recordId: computeMintRecordId(
+            args.to as string,
+            BigInt(args.amount as string),
+            BigInt(args.usdAmount as string),
+            BigInt(args.rate as string),
+            BigInt(args.timestamp as string)
+          ),
+          to: args.to as string,
+          amountWei: BigInt(args.amount as string),
+          usdAmountWei: BigInt(args.usdAmount as string),
+          rateWei: BigInt(args.rate as string),
+          timestamp: Number(args.timestamp),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        };
+        this.mints.set(entry.recordId, entry);
+        break;
+      }
+      case "Burned": {
+        const entry: BurnLedgerEntry = {
+          recordId: computeBurnRecordId(
+            args.from as string,
+            BigInt(args.amount as string),
+            args.merchantId as string,
+            BigInt(args.timestamp as string)
+          ),
+          from: args.from as string,
+          amountWei: BigInt(args.amount as string),
+          merchantId: args.merchantId as string,
+          timestamp: Number(args.timestamp),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        };
+        this.burns.set(entry.recordId, entry);
+        break;
+      }
+      case "AccountFrozen":
+      case "AccountUnfrozen":
+      case "FrozenBalanceWiped":
+        this.freezes.push({
+          account: args.account as string,
+          action:
+            event.name === "AccountFrozen"
+              ? "FROZEN"
+              : event.name === "AccountUnfrozen"
+              ? "UNFROZEN"
+              : "WIPED",
+          triggeredBy: args.triggeredBy as string,
+          reason: (args.reason ?? args.caseId) as string,
+          amountWei:
+            event.name === "FrozenBalanceWiped"
+              ? BigInt(args.amount as string)
+              : undefined,
+          timestamp: Number(args.timestamp),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+        });
+        break;
+      default:
+        break;
+    }
+  }
+
+  private credit(account: string, delta: bigint): void {
+    this.balances.set(account, (this.balances.get(account) ?? 0n) + delta);
+  }
+}
+
+/**
+ * Argument names that identify the account(s) an event concerns.
+ */
+export const ACCOUNT_FIELDS: Record<IndexedEvent["name"], string[]> = {
+  Transfer: ["from", "to"],
+  Minted: ["to"],
+  Burned: ["from"],
+  AccountFrozen: ["account"],
+  AccountUnfrozen: ["account"],
+  FrozenBalanceWiped: ["account"],
+  Blacklisted: ["account"],
+  UnBlacklisted: ["account"],
+  MinterConfigured: ["minter"],
+  MinterRemoved: ["minter"],
+};
@@ -0,0 +1,513 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { NetworkError, StableBirrError, ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { validateAddress } from "@/core/validation";
+import * as HistoryHandler from "@/resources/contract/handlers/history.handler";
+import {
+  FileIndexerStore,
+  MemoryIndexerStore,
+} from "@/resources/indexer/indexer.store";
+import {
+  ACCOUNT_FIELDS,
+  IndexerLedger,
+} from "@/resources/indexer/indexer.ledger";
+import type {
+  BurnLedgerEntry,
+  FreezeHistoryEntry,
+  IndexedEvent,
+  IndexedEventName,
+  IndexerOptions,
+  IndexerRange,
+  IndexerSnapshot,
+  IndexerStore,
+  IndexerSyncResult,
+  MintLedgerEntry,
+} from "@/resources/indexer/indexer.types";
+
+const INDEXED_EVENTS: IndexedEventName[] = [
+  "Transfer",
+  "Minted",
+  "Burned",
+  "AccountFrozen",
+  "AccountUnfrozen",
+  "FrozenBalanceWiped",
+  "Blacklisted",
+  "UnBlacklisted",
+  "MinterConfigured",
+  "MinterRemoved",
+];
+
+/**
+ * Local, persistent index of StableBirr ledgers, created via `sbirr.contract.createIndexer()`.
+ *
+ * Dashboards and reconciliation jobs otherwise rebuild the same state from logs over and over.
+ * The indexer ingests every balance-, ledger- and compliance-relevant event into a pluggable store
+ * (a JSON file by default), resumes from the last saved block, and answers queries locally:
+ * per-account history and balances, the mint/burn ledgers keyed by their on-chain record IDs,
+ * freeze/blacklist history and minter configuration changes.
+ *
+ * **Reorgs**: after each ingested range the indexer records the block hash, after checking that
+ * every log in the range came from the canonical block with that number. Every `sync` first
+ * re-checks the last checkpoint; if the chain diverged it walks back to the newest checkpoint that
+ * still matches, discards everything above it and re-ingests. If no tracked checkpoint matches
+ * (reorg deeper than `reorgDepth`), the index is rebuilt from the block the store started at.
+ *
+ * ```ts
+ * const indexer = sbirr.contract.createIndexer({ path: "./sbirr-index.json", fromBlock: 52_000_000 });
+ * await indexer.sync();
+ * const mints = await indexer.getMintsBetween(new Date("2025-01-01"), new Date("2025-02-01"));
+ * ```
+ */
+export class StableBirrIndexer {
+  private readonly store: IndexerStore;
+  private readonly startBlock: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+  private readonly chunk: HistoryHandler.ChunkState;
+
+  private snapshot?: IndexerSnapshot;
+  /** Whether the store holds a snapshot that chunks can be appended to */
+  private persisted = false;
+  private ledger = new IndexerLedger();
+  private syncing?: Promise<IndexerSyncResult>;
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    options: IndexerOptions = {}
+  ) {
+    this.store =
+      options.store ??
+      (options.path
+        ? new FileIndexerStore(options.path)
+        : new MemoryIndexerStore());
+    this.startBlock = options.fromBlock ?? 0;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 128;
+    const maxBlockRange = options.maxBlockRange ?? 10_000;
+    this.chunk = {
+      range: maxBlockRange,
+      maxBlockRange,
+      retries: options.retries ?? 3,
+    };
+
+    for (const [name, value] of Object.entries({
+      fromBlock: this.startBlock,
+      confirmations: this.confirmations,
+    })) {
+      if (!Number.isInteger(value) || value < 0) {
+        throw new ValidationError(`${name} must be a non-negative integer`);
+      }
+    }
+    for (const [name, value] of Object.entries({
+      maxBlockRange,
+      reorgDepth: this.reorgDepth,
+    })) {
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new ValidationError(`${name} must be a positive integer`);
+      }
+    }
+  }
+
+  /**
+   * Last block fully ingested, or `undefined` before the first sync/load.
+   */
+  public get lastBlock(): number | undefined {
+    return this.snapshot && this.snapshot.lastBlock >= this.snapshot.startBlock
+      ? this.snapshot.lastBlock
+      : undefined;
+  }
+
+  /**
+   * Ingest everything between the last saved block and the confirmed chain head.
+   *
+   * Progress is saved after each `eth_getLogs` chunk (appended to the store when it supports
+   * `append`), so an interrupted sync resumes where it stopped. Concurrent calls share the
+   * in-flight sync.
+   *
+   * @throws NetworkError if the RPC keeps failing after `retries` attempts.
+   * @throws StableBirrError (`INDEXER_STORE_MISMATCH`) if the store belongs to another contract/chain.
+   */
+  public sync(): Promise<IndexerSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = undefined;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Keep syncing every `pollingInterval` ms until `stop()` is called. Errors are passed to
+   * `onError` and the next tick retries from the last saved block.
+   */
+  public start(
+    pollingInterval: number = 4000,
+    onError?: (error: StableBirrError) => void
+  ): void {
+    if (this.timer) return;
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error: unknown) {
+        onError?.(toStableBirrError(error, "Indexer sync failed"));
+      }
+      if (this.timer) this.timer = setTimeout(tick, pollingInterval);
+    };
+    this.timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stop the polling loop started by `start()`. An in-flight sync finishes and is saved.
+   */
+  public stop(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Every indexed event that involves `account` (as sender, recipient, minter or compliance
+   * subject), in chain order.
+   */
+  public async getAccountHistory(
+    account: string,
+    range: IndexerRange = {}
+  ): Promise<IndexedEvent[]> {
+    const target = ethers.getAddress(validateAddress(account));
+    const snapshot = await this.ensureLoaded();
+    return snapshot.events.filter(
+      (event) =>
+        inRange(event.blockNumber, range) &&
+        ACCOUNT_FIELDS[event.name].some((field) => event.args[field] === target)
+    );
+  }
+
+  /**
+   * Balance of `account` as of `lastBlock`, derived from indexed `Transfer` events (wei).
+   */
+  public async getBalance(account: string): Promise<bigint> {
+    const target = ethers.getAddress(validateAddress(account));
+    await this.ensureLoaded();
+    return this.ledger.balances.get(target) ?? 0n;
+  }
+
+  /**
+   * Freeze, unfreeze and wipe actions, optionally restricted to one account.
+   */
+  public async getFreezeHistory(
+    account?: string,
+    range: IndexerRange = {}
+  ): Promise<FreezeHistoryEntry[]> {
+    const target = account && ethers.getAddress(validateAddress(account));
+    await this.ensureLoaded();
+    return this.ledger.freezes.filter(
+      (entry) =>
+        (!target || entry.account === target) &&
+        inRange(entry.blockNumber, range)
+    );
+  }
+
+  /**
+   * Blacklist / unblacklist events, optionally restricted to one account.
+   */
+  public async getBlacklistHistory(
+    account?: string,
+    range: IndexerRange = {}
+  ): Promise<IndexedEvent[]> {
+    return this.eventsFor(["Blacklisted", "UnBlacklisted"], account, range);
+  }
+
+  /**
+   * Minter configuration changes and removals, optionally restricted to one minter.
+   */
+  public async getMinterHistory(
+    minter?: string,
+    range: IndexerRange = {}
+  ): Promise<IndexedEvent[]> {
+    return this.eventsFor(["MinterConfigured", "MinterRemoved"], minter, range);
+  }
+
+  /**
+   * Mints whose contract timestamp falls within `[from, to]` (inclusive).
+   *
+   * @param from - Start as a `Date` or unix seconds.
+   * @param to - End as a `Date` or unix seconds.
+   */
+  public async getMintsBetween(
+    from: Date | number,
+    to: Date | number
+  ): Promise<MintLedgerEntry[]> {
+    const [start, end] = toWindow(from, to);
+    await this.ensureLoaded();
+    return [...this.ledger.mints.values()].filter(
+      (entry) => entry.timestamp >= start && entry.timestamp <= end
+    );
+  }
+
+  /**
+   * Burns whose contract timestamp falls within `[from, to]` (inclusive).
+   */
+  public async getBurnsBetween(
+    from: Date | number,
+    to: Date | number
+  ): Promise<BurnLedgerEntry[]> {
+    const [start, end] = toWindow(from, to);
+    await this.ensureLoaded();
+    return [...this.ledger.burns.values()].filter(
+      (entry) => entry.timestamp >= start && entry.timestamp <= end
+    );
+  }
+
+  /**
+   * Look up a mint ledger entry by its on-chain `mintRecords` ID.
+   */
+  public async getMint(recordId: string): Promise<MintLedgerEntry | undefined> {
+    await this.ensureLoaded();
+    return this.ledger.mints.get(recordId.toLowerCase());
+  }
+
+  /**
+   * Look up a burn ledger entry by its on-chain `burnRecords` ID.
+   */
+  public async getBurn(recordId: string): Promise<BurnLedgerEntry | undefined> {
+    await this.ensureLoaded();
+    return this.ledger.burns.get(recordId.toLowerCase());
+  }
+
+  private async runSync(): Promise<IndexerSyncResult> {
+    const snapshot = await this.ensureLoaded();
+    let rolledBackTo: number | undefined;
+
+    try {
+      rolledBackTo = await this.detectReorg(snapshot);
+      const head = await this.provider.getBlockNumber();
+      const target = head - this.confirmations;
+      const fromBlock = snapshot.lastBlock + 1;
+      const address = await this.contract.getAddress();
+      const topics = [
+        INDEXED_EVENTS.map(
+          (name) => this.contract.interface.getEvent(name).topicHash
+        ),
+      ];
+
+      let eventsIndexed = 0;
+      let forkedReads = 0;
+      while (snapshot.lastBlock < target) {
+        const { logs, to } = await HistoryHandler.fetchLogChunk(
+          this.provider,
+          { address, topics },
+          snapshot.lastBlock + 1,
+          target,
+          this.chunk,
+          "Indexer failed to fetch logs"
+        );
+        const hashes = await this.blockHashes([
+          ...new Set([...logs.map((log) => log.blockNumber), to]),
+        ]);
+        const hash = hashes.get(to);
+        if (!hash) break;
+
+        // A reorg between eth_getLogs and the header reads would store logs of one fork under a
+        // checkpoint of the other; read the range again instead.
+        if (logs.some((log) => log.blockHash !== hashes.get(log.blockNumber))) {
+          if (++forkedReads > this.chunk.retries) {
+            throw new NetworkError(
+              `Indexer kept reading logs that disagree with the block hashes of blocks ${
+                snapshot.lastBlock + 1
+              }-${to}`
+            );
+          }
+          continue;
+        }
+        forkedReads = 0;
+
+        const events = logs
+          .map((log) => this.toIndexedEvent(log))
+          .sort(
+            (a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex
+          );
+        events.forEach((event) => {
+          snapshot.events.push(event);
+          this.ledger.apply(event);
+        });
+        eventsIndexed += events.length;
+
+        const checkpoint = { number: to, hash };
+        snapshot.lastBlock = to;
+        snapshot.checkpoints.push(checkpoint);
+        this.trimCheckpoints(snapshot);
+        await (this.store.append && this.persisted
+          ? this.store.append({ events, lastBlock: to, checkpoint })
+          : this.store.save(snapshot));
+        this.persisted = true;
+      }
+
+      return {
+        fromBlock,
+        toBlock: snapshot.lastBlock,
+        eventsIndexed,
+        rolledBackTo,
+      };
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Indexer sync failed");
+    }
+  }
+
+  /**
+   * Compare stored checkpoints with the canonical chain and roll back past any divergence.
+   *
+   * @returns The block rolled back to, or `undefined` if the chain still matches.
+   */
+  private async detectReorg(
+    snapshot: IndexerSnapshot
+  ): Promise<number | undefined> {
+    const checkpoints = snapshot.checkpoints;
+    if (checkpoints.length === 0) return undefined;
+
+    for (let i = checkpoints.length - 1; i >= 0; i--) {
+      const checkpoint = checkpoints[i]!;
+      const block = await this.provider.getBlock(checkpoint.number);
+      if (block?.hash === checkpoint.hash) {
+        if (i === checkpoints.length - 1) return undefined;
+        await this.rollback(snapshot, checkpoint.number, i + 1);
+        return checkpoint.number;
+      }
+    }
+
+    await this.rollback(snapshot, snapshot.startBlock - 1, 0);
+    return snapshot.startBlock - 1;
+  }
+
+  /**
+   * Canonical hash of each block in `numbers`. Reads run in parallel so the provider can batch them.
+   */
+  private async blockHashes(numbers: number[]): Promise<Map<number, string>> {
+    const blocks = await Promise.all(
+      numbers.map((number) => this.provider.getBlock(number))
+    );
+    const hashes = new Map<number, string>();
+    blocks.forEach((block, i) => {
+      if (block?.hash) hashes.set(numbers[i]!, block.hash);
+    });
+    return hashes;
+  }
+
+  private trimCheckpoints(snapshot: IndexerSnapshot): void {
+    snapshot.checkpoints.splice(
+      0,
+      Math.max(0, snapshot.checkpoints.length - this.reorgDepth)
+    );
+  }
+
+  private async rollback(
+    snapshot: IndexerSnapshot,
+    toBlock: number,
+    keepCheckpoints: number
+  ): Promise<void> {
+    snapshot.events = snapshot.events.filter(
+      (event) => event.blockNumber <= toBlock
+    );
+    snapshot.checkpoints = snapshot.checkpoints.slice(0, keepCheckpoints);
+    snapshot.lastBlock = toBlock;
+    this.ledger = IndexerLedger.from(snapshot.events);
+    await this.store.save(snapshot);
+    this.persisted = true;
+  }
+
+  private async ensureLoaded(): Promise<IndexerSnapshot> {
+    if (this.snapshot) return this.snapshot;
+
+    const [address, network] = await Promise.all([
+      this.contract.getAddress(),
+      this.provider.getNetwork(),
+    ]).catch((error: unknown) => {
+      throw toStableBirrError(error, "Indexer failed to resolve network");
+    });
+    const chainId = network.chainId.toString();
+    const stored = await this.store.load();
+
+    if (
+      stored &&
+      (stored.address.toLowerCase() !== address.toLowerCase() ||
+        stored.chainId !== chainId)
+    ) {
+      throw new StableBirrError(
+        `Indexer store belongs to ${stored.address} on chain ${stored.chainId}, not ${address} on chain ${chainId}`,
+        "INDEXER_STORE_MISMATCH"
+      );
+    }
+
+    if (stored) this.trimCheckpoints(stored);
+    this.persisted = stored !== undefined;
+    this.snapshot = stored ?? {
+      version: 1,
+      address,
+      chainId,
+      startBlock: this.startBlock,
+      lastBlock: this.startBlock - 1,
+      checkpoints: [],
+      events: [],
+    };
+    this.ledger = IndexerLedger.from(this.snapshot.events);
+    return this.snapshot;
+  }
+
+  private async eventsFor(
+    names: IndexedEventName[],
+    account: string | undefined,
+    range: IndexerRange
+  ): Promise<IndexedEvent[]> {
+    const target = account && ethers.getAddress(validateAddress(account));
+    const snapshot = await this.ensureLoaded();
+    return snapshot.events.filter(
+      (event) =>
+        names.includes(event.name) &&
+        inRange(event.blockNumber, range) &&
+        (!target ||
+          ACCOUNT_FIELDS[event.name].some(
+            (field) => event.args[field] === target
+          ))
+    );
+  }
+
+  private toIndexedEvent(log: ethers.Log): IndexedEvent {
+    const parsed = this.contract.interface.parseLog(log)!;
+    const args: Record<string, string | boolean> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] =
+        input.type === "address"
+          ? ethers.getAddress(value)
+          : typeof value === "bigint"
+          ? value.toString()
+          : value;
+    });
+    return {
+      name: parsed.name as IndexedEventName,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args,
+    };
+  }
+}
+
+function inRange(blockNumber: number, range: IndexerRange): boolean {
+  return (
+    (range.fromBlock === undefined || blockNumber >= range.fromBlock) &&
+    (range.toBlock === undefined || blockNumber <= range.toBlock)
+  );
+}
+
+function toWindow(from: Date | number, to: Date | number): [number, number] {
+  const seconds = (value: Date | number) =>
+    value instanceof Date ? Math.floor(value.getTime() / 1000) : value;
+  const window: [number, number] = [seconds(from), seconds(to)];
+  if (window.some((value) => !Number.isFinite(value))) {
+    throw new ValidationError("Invalid time window");
+  }
+  return window;
+}
@@ -0,0 +1,125 @@
+import { StableBirrError } from "@/core/errors";
+import type {
+  IndexerChunk,
+  IndexerSnapshot,
+  IndexerStore,
+} from "@/resources/indexer/indexer.types";
+
+/**
+ * Keeps the snapshot in memory. Useful for tests and short-lived scripts; nothing survives a
+ * restart.
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private snapshot?: IndexerSnapshot;
+
+  public async load(): Promise<IndexerSnapshot | undefined> {
+    return this.snapshot && structuredClone(this.snapshot);
+  }
+
+  public async save(snapshot: IndexerSnapshot): Promise<void> {
+    this.snapshot = structuredClone(snapshot);
+  }
+
+  public async append(chunk: IndexerChunk): Promise<void> {
+    if (!this.snapshot) {
+      throw new StableBirrError(
+        "Cannot append to an empty indexer store",
+        "INDEXER_STORE_ERROR"
+      );
+    }
+    applyChunk(this.snapshot, structuredClone(chunk));
+  }
+}
+
+/**
+ * Persists the snapshot as a JSON file (Node.js / Bun only).
+ *
+ * The first line holds a full snapshot; every ingested range is appended as one more line, so
+ * a sync costs one small write per range however large the index grows. `save` (first run,
+ * rollbacks) writes `<path>.tmp` and renames it over the target, so a crash mid-write leaves the
+ * previous file intact. A range torn by a crash mid-append is dropped on load and the file is
+ * compacted; the indexer simply re-ingests from the last complete range.
+ */
+export class FileIndexerStore implements IndexerStore {
+  constructor(private readonly path: string) {}
+
+  public async load(): Promise<IndexerSnapshot | undefined> {
+    const fs = await import("node:fs/promises");
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.path, "utf8");
+    } catch (error: unknown) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw new StableBirrError(
+        `Failed to read indexer store ${this.path}`,
+        "INDEXER_STORE_ERROR",
+        error
+      );
+    }
+
+    const lines = raw.split("\n").filter((line) => line.trim() !== "");
+    let snapshot: IndexerSnapshot;
+    try {
+      snapshot = JSON.parse(lines[0] ?? "") as IndexerSnapshot;
+    } catch (error: unknown) {
+      throw new StableBirrError(
+        `Indexer store ${this.path} is not valid JSON`,
+        "INDEXER_STORE_ERROR",
+        error
+      );
+    }
+
+    for (const [index, line] of lines.slice(1).entries()) {
+      let chunk: IndexerChunk;
+      try {
+        chunk = JSON.parse(line) as IndexerChunk;
+      } catch (error: unknown) {
+        if (index === lines.length - 2) {
+          await this.save(snapshot);
+          break;
+        }
+        throw new StableBirrError(
+          `Indexer store ${this.path} has a corrupt range at line ${index + 2}`,
+          "INDEXER_STORE_ERROR",
+          error
+        );
+      }
+      applyChunk(snapshot, chunk);
+    }
+    return snapshot;
+  }
+
+  public async save(snapshot: IndexerSnapshot): Promise<void> {
+    const fs = await import("node:fs/promises");
+    const tmp = `${this.path}.tmp`;
+    try {
+      await fs.writeFile(tmp, JSON.stringify(snapshot) + "\n", "utf8");
+      await fs.rename(tmp, this.path);
+    } catch (error: unknown) {
+      throw new StableBirrError(
+        `Failed to write indexer store ${this.path}`,
+        "INDEXER_STORE_ERROR",
+        error
+      );
+    }
+  }
+
+  public async append(chunk: IndexerChunk): Promise<void> {
+    const fs = await import("node:fs/promises");
+    try {
+      await fs.appendFile(this.path, JSON.stringify(chunk) + "\n", "utf8");
+    } catch (error: unknown) {
+      throw new StableBirrError(
+        `Failed to write indexer store ${this.path}`,
+        "INDEXER_STORE_ERROR",
+        error
+      );
+    }
+  }
+}
+
+function applyChunk(snapshot: IndexerSnapshot, chunk: IndexerChunk): void {
+  for (const event of chunk.events) snapshot.events.push(event);
+  snapshot.lastBlock = chunk.lastBlock;
+  snapshot.checkpoints.push(chunk.checkpoint);
+}
@@ -0,0 +1,171 @@
+/**
+ * StableBirr events the indexer ingests.
+ */
+export type IndexedEventName =
+  | "Transfer"
+  | "Minted"
+  | "Burned"
+  | "AccountFrozen"
+  | "AccountUnfrozen"
+  | "FrozenBalanceWiped"
+  | "Blacklisted"
+  | "UnBlacklisted"
+  | "MinterConfigured"
+  | "MinterRemoved";
+
+/**
+ * A persisted log. `args` holds the decoded event arguments in JSON-safe form: checksummed
+ * addresses, `uint256` values as decimal wei strings, strings and booleans as-is.
+ */
+export interface IndexedEvent {
+  name: IndexedEventName;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string | boolean>;
+}
+
+/**
+ * Block hash recorded after each ingested range, used to detect reorgs on the next sync.
+ */
+export interface BlockCheckpoint {
+  number: number;
+  hash: string;
+}
+
+/**
+ * Everything the indexer persists. Derived views (balances, ledgers) are rebuilt from `events`
+ * on load, so the snapshot can never disagree with itself.
+ */
+export interface IndexerSnapshot {
+  version: 1;
+  /** Contract address the snapshot belongs to */
+  address: string;
+  /** Chain ID as a decimal string */
+  chainId: string;
+  /** First block that was indexed */
+  startBlock: number;
+  /** Last fully ingested block */
+  lastBlock: number;
+  checkpoints: BlockCheckpoint[];
+  events: IndexedEvent[];
+}
+
+/**
+ * One ingested `eth_getLogs` range, persisted on top of the stored snapshot.
+ */
+export interface IndexerChunk {
+  /** Events of the range, in chain order */
+  events: IndexedEvent[];
+  /** New `lastBlock` */
+  lastBlock: number;
+  /** Hash of `lastBlock` */
+  checkpoint: BlockCheckpoint;
+}
+
+/**
+ * Pluggable persistence for the indexer. The SDK ships `FileIndexerStore` (JSON file) and
+ * `MemoryIndexerStore`; implement this interface to back the indexer with SQLite, Redis, etc.
+ *
+ * `save` replaces the whole snapshot (first run, reorg rollbacks). `append` adds one ingested
+ * range; stores without it get `save` with the full snapshot after every range instead. `load`
+ * may return more checkpoints than `reorgDepth`; the indexer keeps the newest ones.
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerSnapshot | undefined>;
+  save(snapshot: IndexerSnapshot): Promise<void>;
+  append?(chunk: IndexerChunk): Promise<void>;
+}
+
+/**
+ * Options for `sbirr.contract.createIndexer`.
+ */
+export interface IndexerOptions {
+  /** Persistence backend. Defaults to `FileIndexerStore(path)` when `path` is set, else memory. */
+  store?: IndexerStore;
+  /** JSON file used when `store` is omitted */
+  path?: string;
+  /**
+   * Block to start indexing from on first run (usually the deployment block).
+   * @default the manifest's `deployBlock` with `config.deployment`, else 0
+   */
+  fromBlock?: number;
+  /**
+   * Blocks to stay behind the chain head. Zero indexes up to `latest` and relies on reorg
+   * rollback; larger values avoid rollbacks entirely on chains with bounded reorgs.
+   * @default 0
+   */
+  confirmations?: number;
+  /** Largest `eth_getLogs` span per request (halved automatically when rejected). @default 10000 */
+  maxBlockRange?: number;
+  /** Number of block checkpoints kept for reorg detection. @default 128 */
+  reorgDepth?: number;
+  /** Attempts per chunk on transient RPC failures. @default 3 */
+  retries?: number;
+}
+
+/**
+ * Outcome of one `sync` call.
+ */
+export interface IndexerSyncResult {
+  /** First block ingested by this sync (after any rollback) */
+  fromBlock: number;
+  /** Last ingested block */
+  toBlock: number;
+  /** Number of new events stored */
+  eventsIndexed: number;
+  /** Set when a reorg was detected: every event above this block was discarded and re-ingested */
+  rolledBackTo?: number;
+}
+
+/**
+ * Optional block / time window for indexer queries.
+ */
+export interface IndexerRange {
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * Entry in the mint ledger, keyed by the on-chain `mintRecords` ID.
+ */
+export interface MintLedgerEntry {
+  recordId: string;
+  to: string;
+  amountWei: bigint;
+  usdAmountWei: bigint;
+  rateWei: bigint;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Entry in the burn ledger, keyed by the on-chain `burnRecords` ID.
+ */
+export interface BurnLedgerEntry {
+  recordId: string;
+  from: string;
+  amountWei: bigint;
+  merchantId: string;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+/**
+ * Freeze lifecycle entry for an account.
+ */
+export interface FreezeHistoryEntry {
+  account: string;
+  action: "FROZEN" | "UNFROZEN" | "WIPED";
+  triggeredBy: string;
+  /** Freeze/unfreeze reason or wipe case ID */
+  reason: string;
+  /** Amount burned (only for `WIPED`) */
+  amountWei?: bigint;
+  timestamp: number;
+  blockNumber: number;
+  transactionHash: string;
+}
@@ -0,0 +1,5 @@
+export * from "@/resources/relayer/relayer.resource";
+export * from "@/resources/relayer/relayer.client";
+export * from "@/resources/relayer/relayer.limiter";
+export * from "@/resources/relayer/relayer.intent";
+export * from "@/resources/relayer/relayer.types";
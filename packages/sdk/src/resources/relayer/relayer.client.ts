@@ -0,0 +1,190 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import {
+  NetworkError,
+  RateLimitError,
+  RelayRejectedError,
+  StableBirrError,
+  ValidationError,
+} from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { validateParams } from "@/core/validation";
+import { formatTokenAmount } from "@/core/amount";
+import * as PermitHandler from "@/resources/contract/handlers/permit.handler";
+import {
+  RELAYED_TRANSFER_TYPES,
+  intentDomain,
+  intentMessage,
+} from "@/resources/relayer/relayer.intent";
+import { RelayTransferParamsSchema } from "@/resources/relayer/relayer.validator";
+import type {
+  RelayerInfo,
+  RelayRequest,
+  RelayResult,
+  RelayTransferParams,
+} from "@/resources/relayer/relayer.types";
+
+/** Default signature lifetime when `deadline` is omitted. */
+const DEFAULT_DEADLINE_SECONDS = 600;
+
+/**
+ * Client for a StableBirr relayer, created via `sbirr.contract.createRelayerClient(url)` on the
+ * user's SDK instance. The configured signer signs the permit and intent; the relayer pays gas.
+ *
+ * ```ts
+ * const relayer = sbirr.contract.createRelayerClient("https://relayer.example.com");
+ * const { transferHash } = await relayer.transfer({ to: merchant, amount: "120" });
+ * ```
+ */
+export class RelayerClient {
+  private readonly baseUrl: string;
+  private cachedInfo?: Promise<RelayerInfo>;
+
+  constructor(
+    url: string,
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    private readonly signer?: ethers.Signer
+  ) {
+    this.baseUrl = url.replace(/\/+$/, "");
+  }
+
+  /**
+   * Relayer address, chain and limits (cached after the first call).
+   */
+  public info(): Promise<RelayerInfo> {
+    if (!this.cachedInfo) {
+      this.cachedInfo = this.request<RelayerInfo>("GET", "/info");
+      this.cachedInfo.catch(() => {
+        this.cachedInfo = undefined;
+      });
+    }
+    return this.cachedInfo;
+  }
+
+  /**
+   * Sign a gasless transfer without submitting it: a permit naming the relayer as spender and
+   * the `RelayedTransfer` intent, both for the owner's current permit nonce.
+   *
+   * @throws ValidationError if parameters are invalid, no signer is configured or the relayer
+   *   serves another chain or contract.
+   */
+  public async sign(params: RelayTransferParams): Promise<RelayRequest> {
+    if (!this.signer) {
+      throw new ValidationError("Signer required to sign relay requests");
+    }
+    validateParams(RelayTransferParamsSchema, params, "relay transfer");
+
+    const [info, owner, network] = await Promise.all([
+      this.info(),
+      this.signer.getAddress(),
+      this.provider.getNetwork(),
+    ]);
+    const contract = ethers.getAddress(this.contract.target as string);
+    if (info.chainId !== network.chainId.toString()) {
+      throw new ValidationError(
+        `Relayer serves chain ${info.chainId}, provider is on ${network.chainId}`
+      );
+    }
+    if (info.contract !== contract) {
+      throw new ValidationError(
+        `Relayer serves contract ${info.contract}, not ${contract}`
+      );
+    }
+
+    const deadline =
+      params.deadline ??
+      Math.floor(Date.now() / 1000) + DEFAULT_DEADLINE_SECONDS;
+    const permit = await PermitHandler.signPermit(
+      this.contract,
+      this.provider,
+      this.signer,
+      { owner, spender: info.relayer, value: params.amount, deadline }
+    );
+    const request = {
+      owner: permit.owner,
+      to: ethers.getAddress(params.to),
+      amount: formatTokenAmount(params.amount),
+      nonce: permit.nonce.toString(),
+      deadline,
+    };
+
+    let signature: string;
+    try {
+      signature = await this.signer.signTypedData(
+        intentDomain(network.chainId, contract),
+        RELAYED_TRANSFER_TYPES,
+        intentMessage(request, info.relayer)
+      );
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to sign relay intent");
+    }
+
+    return {
+      ...request,
+      permit: { v: permit.v, r: permit.r, s: permit.s },
+      signature,
+    };
+  }
+
+  /**
+   * Submit a signed request and wait for the relayer to confirm it.
+   *
+   * @throws ValidationError if the relayer rejects the request as invalid.
+   * @throws RelayRejectedError if the transfer would fail on-chain (see `violations`).
+   * @throws RateLimitError if the owner exceeded the relayer's quota.
+   * @throws NetworkError if the relayer cannot be reached.
+   */
+  public relay(request: RelayRequest): Promise<RelayResult> {
+    return this.request<RelayResult>("POST", "/relay", request);
+  }
+
+  /**
+   * Sign and relay a transfer in one step.
+   */
+  public async transfer(params: RelayTransferParams): Promise<RelayResult> {
+    return this.relay(await this.sign(params));
+  }
+
+  private async request<T>(
+    method: "GET" | "POST",
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    let response: Response;
+    let payload: any;
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      payload = await response.json();
+    } catch (error: unknown) {
+      throw new NetworkError(`Relayer request ${method} ${path} failed`, error);
+    }
+    if (response.ok) return payload as T;
+
+    const error = payload?.error ?? {};
+    const message = `Relayer: ${error.message ?? `HTTP ${response.status}`}`;
+    switch (response.status) {
+      case 400:
+        throw new ValidationError(message, error);
+      case 422:
+        throw new RelayRejectedError(message, error.violations ?? [], error);
+      case 429:
+        throw new RateLimitError(
+          message,
+          String(body && (body as RelayRequest).owner),
+          Number(error.retryAfterMs ?? 0),
+          error
+        );
+      default:
+        throw new StableBirrError(
+          message,
+          error.code ?? "RELAYER_ERROR",
+          error
+        );
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { ethers } from "ethers";
+import { PERMIT_TYPES } from "@/resources/contract/handlers/permit.handler";
+import { toWei } from "@/core/amount";
+import type { RelayRequest } from "@/resources/relayer/relayer.types";
+
+/** EIP-712 types of the intent an owner signs next to the permit. */
+export const RELAYED_TRANSFER_TYPES: Record<string, ethers.TypedDataField[]> = {
+  RelayedTransfer: [
+    { name: "owner", type: "address" },
+    { name: "to", type: "address" },
+    { name: "amount", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+    { name: "relayer", type: "address" },
+  ],
+};
+
+/**
+ * Off-chain EIP-712 domain of relay intents. Nothing verifies it on-chain; it only has to match
+ * between client and relayer and keep intents from being replayed on another chain or token.
+ */
+export function intentDomain(
+  chainId: bigint,
+  contract: string
+): ethers.TypedDataDomain {
+  return {
+    name: "StableBirr Relayer",
+    version: "1",
+    chainId,
+    verifyingContract: ethers.getAddress(contract),
+  };
+}
+
+/**
+ * The `RelayedTransfer` message of a request, for signing or verification.
+ */
+export function intentMessage(
+  request: Omit<RelayRequest, "permit" | "signature">,
+  relayer: string
+): Record<string, unknown> {
+  return {
+    owner: request.owner,
+    to: request.to,
+    amount: toWei(request.amount),
+    nonce: BigInt(request.nonce),
+    deadline: request.deadline,
+    relayer,
+  };
+}
+
+/**
+ * Address that signed the request's intent.
+ */
+export function recoverIntentSigner(
+  request: RelayRequest,
+  domain: ethers.TypedDataDomain,
+  relayer: string
+): string {
+  return ethers.verifyTypedData(
+    domain,
+    RELAYED_TRANSFER_TYPES,
+    intentMessage(request, relayer),
+    request.signature
+  );
+}
+
+/**
+ * Address that signed the request's permit, given the token's EIP-712 domain.
+ */
+export function recoverPermitSigner(
+  request: RelayRequest,
+  domain: ethers.TypedDataDomain,
+  relayer: string
+): string {
+  return ethers.verifyTypedData(
+    domain,
+    PERMIT_TYPES,
+    {
+      owner: request.owner,
+      spender: relayer,
+      value: toWei(request.amount),
+      nonce: BigInt(request.nonce),
+      deadline: request.deadline,
+    },
+    ethers.Signature.from(request.permit)
+  );
+}
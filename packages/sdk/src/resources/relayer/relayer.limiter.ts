@@ -0,0 +1,97 @@
+import { RateLimitError, ValidationError } from "@/core/errors";
+import { toWei } from "@/core/amount";
+import type { RelayerRateLimit } from "@/resources/relayer/relayer.types";
+
+/** Number of tracked owners above which expired ones are swept. */
+const SWEEP_THRESHOLD = 10_000;
+
+interface Usage {
+  at: number;
+  amount: bigint;
+}
+
+/**
+ * In-memory sliding-window quota per owner: at most `maxRequests` relays and (optionally)
+ * `maxAmount` SBirr within any `windowMs`. State is lost on restart, which only ever resets
+ * quotas in the users' favour.
+ */
+export class RelayerRateLimiter {
+  public readonly maxRequests: number;
+  public readonly windowMs: number;
+  public readonly maxAmount?: string;
+  private readonly maxAmountWei?: bigint;
+  private readonly usage = new Map<string, Usage[]>();
+
+  constructor(options: RelayerRateLimit = {}) {
+    this.maxRequests = options.maxRequests ?? 5;
+    this.windowMs = options.windowMs ?? 3_600_000;
+    for (const [name, value] of Object.entries({
+      maxRequests: this.maxRequests,
+      windowMs: this.windowMs,
+    })) {
+      if (!Number.isInteger(value) || value <= 0) {
+        throw new ValidationError(`${name} must be a positive integer`);
+      }
+    }
+    if (options.maxAmount !== undefined) {
+      this.maxAmount = options.maxAmount;
+      this.maxAmountWei = toWei(options.maxAmount);
+    }
+  }
+
+  /**
+   * Record a relay of `amount` wei for `account`, or throw if it would exceed the quota.
+   *
+   * @throws RateLimitError with the time until enough of the window has expired.
+   */
+  public consume(account: string, amount: bigint, now = Date.now()): void {
+    const key = account.toLowerCase();
+    const recent = (this.usage.get(key) ?? []).filter(
+      (entry) => entry.at > now - this.windowMs
+    );
+
+    if (recent.length >= this.maxRequests) {
+      const retryAfterMs = recent[0]!.at + this.windowMs - now;
+      throw new RateLimitError(
+        `Rate limit exceeded: ${this.maxRequests} relays per ${this.windowMs} ms`,
+        account,
+        retryAfterMs
+      );
+    }
+    if (this.maxAmountWei !== undefined) {
+      let used = recent.reduce((sum, entry) => sum + entry.amount, 0n);
+      if (used + amount > this.maxAmountWei) {
+        if (amount > this.maxAmountWei) {
+          throw new ValidationError(
+            `Amount exceeds the relayer's per-window limit of ${this.maxAmount} SBirr`
+          );
+        }
+        // Wait until enough old relays have left the window.
+        let retryAfterMs = 0;
+        for (const entry of recent) {
+          used -= entry.amount;
+          retryAfterMs = entry.at + this.windowMs - now;
+          if (used + amount <= this.maxAmountWei) break;
+        }
+        throw new RateLimitError(
+          `Rate limit exceeded: ${this.maxAmount} SBirr per ${this.windowMs} ms`,
+          account,
+          retryAfterMs
+        );
+      }
+    }
+
+    recent.push({ at: now, amount });
+    this.usage.set(key, recent);
+    if (this.usage.size > SWEEP_THRESHOLD) this.sweep(now);
+  }
+
+  /** Drop owners whose relays have all left the window. */
+  private sweep(now: number): void {
+    for (const [key, entries] of this.usage) {
+      if (entries.every((entry) => entry.at <= now - this.windowMs)) {
+        this.usage.delete(key);
+      }
+    }
+  }
+}
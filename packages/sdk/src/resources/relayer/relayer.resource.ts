@@ -0,0 +1,302 @@
+import { ethers } from "ethers";
+import type { StableBirr } from "@/typechain-types";
+import { RelayRejectedError, ValidationError } from "@/core/errors";
+import { toStableBirrError } from "@/core/error-decoder";
+import { validateParams } from "@/core/validation";
+import { toWei } from "@/core/amount";
+import type { StableBirrContract } from "@/resources/contract/contract.resource";
+import * as PermitHandler from "@/resources/contract/handlers/permit.handler";
+import { RelayerRateLimiter } from "@/resources/relayer/relayer.limiter";
+import {
+  intentDomain,
+  recoverIntentSigner,
+  recoverPermitSigner,
+} from "@/resources/relayer/relayer.intent";
+import { RelayRequestSchema } from "@/resources/relayer/relayer.validator";
+import { serveRelayer } from "@/resources/relayer/relayer.server";
+import type {
+  RelayerInfo,
+  RelayerOptions,
+  RelayerServer,
+  RelayerServerOptions,
+  RelayRequest,
+  RelayResult,
+} from "@/resources/relayer/relayer.types";
+
+/** The permit sets the allowance, so a missing one is expected before the relay. */
+const IGNORED_VIOLATIONS = new Set(["INSUFFICIENT_ALLOWANCE"]);
+
+interface RelayerContext {
+  relayer: string;
+  chainId: bigint;
+  permitDomain: ethers.TypedDataDomain;
+  intentDomain: ethers.TypedDataDomain;
+}
+
+/**
+ * Gasless transfer relayer, created via `sbirr.contract.createRelayer()` on an SDK instance whose
+ * signer is the relayer key (it pays the gas).
+ *
+ * Users holding SBirr but no gas token sign a permit for the relayer plus a `RelayedTransfer`
+ * intent (see `RelayerClient`). For each request the relayer:
+ *
+ * 1. validates it and checks both signatures locally (free to reject),
+ * 2. checks the permit nonce is still current and runs `preflight.transferFrom`, rejecting
+ *    blacklisted/frozen parties, insufficient balance or a paused contract before paying gas,
+ * 3. charges the owner's rate limit, so replayed or rejected requests cost no quota,
+ * 4. sends `permit` and then `transferFrom`, waiting for both.
+ *
+ * Relays are executed one at a time so the relayer's own nonces never collide. Every permit
+ * consumes the owner's permit nonce, so a request can be relayed at most once.
+ *
+ * ```ts
+ * const relayer = relayerSdk.contract.createRelayer({ rateLimit: { maxRequests: 10 } });
+ * const server = await relayer.listen({ port: 8787 });
+ * ```
+ */
+export class StableBirrRelayer {
+  private readonly limiter: RelayerRateLimiter;
+  private readonly maxAmountWei?: bigint;
+  private readonly maxDeadlineSeconds: number;
+  private context?: Promise<RelayerContext>;
+  private queue: Promise<unknown> = Promise.resolve();
+  /** Next nonce of the relayer key when no nonce manager is configured */
+  private nextNonce?: number;
+
+  constructor(
+    private readonly sdk: StableBirrContract,
+    private readonly contract: StableBirr,
+    private readonly provider: ethers.Provider,
+    private readonly signer: ethers.Signer,
+    private readonly options: RelayerOptions = {}
+  ) {
+    this.limiter = new RelayerRateLimiter(options.rateLimit);
+    this.maxDeadlineSeconds = options.maxDeadlineSeconds ?? 3600;
+    if (
+      !Number.isInteger(this.maxDeadlineSeconds) ||
+      this.maxDeadlineSeconds <= 0
+    ) {
+      throw new ValidationError(
+        "maxDeadlineSeconds must be a positive integer"
+      );
+    }
+    if (options.maxAmount !== undefined) {
+      this.maxAmountWei = toWei(options.maxAmount);
+    }
+  }
+
+  /**
+   * Relayer address, contract, chain and limits, as clients need them to build requests.
+   */
+  public async info(): Promise<RelayerInfo> {
+    const { relayer, chainId } = await this.load();
+    return {
+      relayer,
+      contract: ethers.getAddress(this.contract.target as string),
+      chainId: chainId.toString(),
+      maxAmount: this.options.maxAmount,
+      maxDeadlineSeconds: this.maxDeadlineSeconds,
+      rateLimit: {
+        maxRequests: this.limiter.maxRequests,
+        windowMs: this.limiter.windowMs,
+        maxAmount: this.limiter.maxAmount,
+      },
+    };
+  }
+
+  /**
+   * Verify and execute a relay request.
+   *
+   * @throws ValidationError if the request is malformed, expired, too large, signed by someone
+   *   else or its permit nonce is no longer current.
+   * @throws RateLimitError if the owner exceeded their quota.
+   * @throws RelayRejectedError if preflight finds the transfer would revert.
+   * @throws ContractError if a transaction fails on-chain.
+   */
+  public async relay(request: RelayRequest): Promise<RelayResult> {
+    validateParams(RelayRequestSchema, request, "relay request");
+    const context = await this.load();
+    const owner = ethers.getAddress(request.owner);
+    const amount = this.parseAmount(request.amount);
+
+    const now = Math.floor(Date.now() / 1000);
+    if (request.deadline <= now) {
+      throw new ValidationError("Relay request has expired");
+    }
+    if (request.deadline > now + this.maxDeadlineSeconds) {
+      throw new ValidationError(
+        `Relay request deadline is more than ${this.maxDeadlineSeconds} s away`
+      );
+    }
+    if (this.maxAmountWei !== undefined && amount > this.maxAmountWei) {
+      throw new ValidationError(
+        `Amount exceeds the relayer's limit of ${this.options.maxAmount} SBirr`
+      );
+    }
+    this.verifySignatures(request, owner, context);
+
+    return this.exclusive(() => this.execute(request, owner, amount, context));
+  }
+
+  /**
+   * Serve this relayer over HTTP (Node.js / Bun only): `GET /info`, `GET /health` and
+   * `POST /relay`. Errors map to 400 (invalid), 422 (rejected by preflight), 429 (rate limited,
+   * with `Retry-After`) and 500.
+   */
+  public listen(options: RelayerServerOptions = {}): Promise<RelayerServer> {
+    return serveRelayer(this, options);
+  }
+
+  private verifySignatures(
+    request: RelayRequest,
+    owner: string,
+    context: RelayerContext
+  ): void {
+    let intentSigner: string;
+    let permitSigner: string;
+    try {
+      intentSigner = recoverIntentSigner(
+        request,
+        context.intentDomain,
+        context.relayer
+      );
+      permitSigner = recoverPermitSigner(
+        request,
+        context.permitDomain,
+        context.relayer
+      );
+    } catch (error: unknown) {
+      throw new ValidationError("Malformed relay request signature", error);
+    }
+    if (intentSigner !== owner) {
+      throw new ValidationError("Transfer intent is not signed by the owner");
+    }
+    if (permitSigner !== owner) {
+      throw new ValidationError(
+        "Permit is not signed by the owner for this relayer, amount and nonce"
+      );
+    }
+  }
+
+  private async execute(
+    request: RelayRequest,
+    owner: string,
+    amount: bigint,
+    context: RelayerContext
+  ): Promise<RelayResult> {
+    let nonce: bigint;
+    try {
+      nonce = await this.contract.nonces(owner);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to read permit nonce");
+    }
+    if (nonce !== BigInt(request.nonce)) {
+      throw new ValidationError(
+        `Permit nonce ${request.nonce} is no longer current (now ${nonce}); sign a new request`
+      );
+    }
+
+    const check = await this.sdk.preflight.transferFrom(
+      { from: owner, to: request.to, amount: request.amount },
+      { caller: context.relayer }
+    );
+    const violations = check.violations.filter(
+      (violation) => !IGNORED_VIOLATIONS.has(violation.code)
+    );
+    if (violations.length > 0) {
+      throw new RelayRejectedError(
+        `Transfer would fail: ${violations.map((v) => v.code).join(", ")}`,
+        violations
+      );
+    }
+    this.limiter.consume(owner, amount);
+
+    const txNonce = await this.nextRelayerNonce(context.relayer);
+    const permitTx = await this.sdk.permit({
+      owner,
+      spender: context.relayer,
+      value: request.amount,
+      deadline: request.deadline,
+      v: request.permit.v,
+      r: request.permit.r,
+      s: request.permit.s,
+      options: txNonce === undefined ? undefined : { nonce: txNonce },
+    });
+    if (txNonce !== undefined) this.nextNonce = txNonce + 1;
+    await permitTx.wait();
+
+    const transferTx = await this.sdk.transferFrom({
+      from: owner,
+      to: request.to,
+      amount: request.amount,
+      options: txNonce === undefined ? undefined : { nonce: txNonce + 1 },
+    });
+    if (txNonce !== undefined) this.nextNonce = txNonce + 2;
+    const receipt = await transferTx.wait();
+
+    return {
+      owner,
+      to: ethers.getAddress(request.to),
+      amount: request.amount,
+      permitHash: permitTx.hash,
+      transferHash: transferTx.hash,
+      blockNumber: receipt.blockNumber,
+    };
+  }
+
+  /**
+   * Without a nonce manager, hand out the relayer's nonces locally: the provider's pending count
+   * can lag right after a confirmation.
+   */
+  private async nextRelayerNonce(relayer: string): Promise<number | undefined> {
+    if (this.sdk.nonceManager) return undefined;
+    try {
+      const pending = await this.provider.getTransactionCount(
+        relayer,
+        "pending"
+      );
+      return Math.max(pending, this.nextNonce ?? 0);
+    } catch (error: unknown) {
+      throw toStableBirrError(error, "Failed to read relayer nonce");
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private parseAmount(amount: string): bigint {
+    const wei = toWei(amount);
+    if (wei === 0n) throw new ValidationError("Amount must be positive");
+    return wei;
+  }
+
+  private load(): Promise<RelayerContext> {
+    if (!this.context) {
+      this.context = (async () => {
+        try {
+          const [relayer, permitDomain] = await Promise.all([
+            this.signer.getAddress(),
+            PermitHandler.permitDomain(this.contract, this.provider),
+          ]);
+          const chainId = BigInt(permitDomain.chainId!);
+          return {
+            relayer: ethers.getAddress(relayer),
+            chainId,
+            permitDomain,
+            intentDomain: intentDomain(chainId, this.contract.target as string),
+          };
+        } catch (error: unknown) {
+          throw toStableBirrError(error, "Failed to initialise relayer");
+        }
+      })();
+      // Retry on the next call instead of caching a failure.
+      this.context.catch(() => {
+        this.context = undefined;
+      });
+    }
+    return this.context;
+  }
+}
@@ -0,0 +1,139 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  RateLimitError,
+  RelayRejectedError,
+  StableBirrError,
+  ValidationError,
+} from "@/core/errors";
+import type { StableBirrRelayer } from "@/resources/relayer/relayer.resource";
+import type {
+  RelayerServer,
+  RelayerServerOptions,
+} from "@/resources/relayer/relayer.types";
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Start an HTTP server for `relayer` (Node.js / Bun only). See `StableBirrRelayer.listen`.
+ */
+export async function serveRelayer(
+  relayer: StableBirrRelayer,
+  options: RelayerServerOptions = {}
+): Promise<RelayerServer> {
+  const http = await import("node:http");
+  const host = options.host ?? "127.0.0.1";
+  const maxBodyBytes = options.maxBodyBytes ?? 16_384;
+
+  const server = http.createServer((req, res) => {
+    route(relayer, req, maxBodyBytes)
+      .then((body) => send(res, 200, body))
+      .catch((error: unknown) => sendError(res, error));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 8787, host, () => {
+      server.off("error", reject);
+      resolve();
+    });
+  });
+  const address = server.address();
+  const port = typeof address === "object" && address ? address.port : 0;
+
+  return {
+    url: `http://${host.includes(":") ? `[${host}]` : host}:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      }),
+  };
+}
+
+async function route(
+  relayer: StableBirrRelayer,
+  req: IncomingMessage,
+  maxBodyBytes: number
+): Promise<unknown> {
+  const path = new URL(req.url ?? "/", "http://relayer").pathname;
+  const routes: Record<string, string> = {
+    "/health": "GET",
+    "/info": "GET",
+    "/relay": "POST",
+  };
+  if (!routes[path]) throw new HttpError(404, `Unknown route ${path}`);
+  if (req.method !== routes[path]) {
+    throw new HttpError(405, `${path} only accepts ${routes[path]}`);
+  }
+
+  if (path === "/health") return { ok: true };
+  if (path === "/info") return relayer.info();
+
+  let request: unknown;
+  try {
+    request = JSON.parse(await readBody(req, maxBodyBytes));
+  } catch (error: unknown) {
+    if (error instanceof HttpError) throw error;
+    throw new ValidationError("Request body is not valid JSON");
+  }
+  return relayer.relay(request as Parameters<StableBirrRelayer["relay"]>[0]);
+}
+
+async function readBody(
+  req: IncomingMessage,
+  maxBodyBytes: number
+): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBodyBytes) {
+      throw new HttpError(413, `Request body exceeds ${maxBodyBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function sendError(res: ServerResponse, error: unknown): void {
+  if (error instanceof HttpError) {
+    send(res, error.status, { error: { message: error.message } });
+    return;
+  }
+  if (!(error instanceof StableBirrError)) {
+    send(res, 500, { error: { message: "Internal relayer error" } });
+    return;
+  }
+
+  const body: Record<string, unknown> = {
+    name: error.name,
+    code: error.code,
+    message: error.message,
+  };
+  let status = 500;
+  if (error instanceof ValidationError) {
+    status = 400;
+  } else if (error instanceof RelayRejectedError) {
+    status = 422;
+    body.violations = error.violations;
+  } else if (error instanceof RateLimitError) {
+    status = 429;
+    body.retryAfterMs = error.retryAfterMs;
+    res.setHeader("Retry-After", Math.ceil(error.retryAfterMs / 1000));
+  }
+  send(res, status, { error: body });
+}
+
+function send(res: ServerResponse, status: number, body: unknown): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(
+    JSON.stringify(body, (_key, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    )
+  );
+}
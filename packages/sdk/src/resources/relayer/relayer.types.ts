@@ -0,0 +1,109 @@
+import type { Amount } from "@/types";
+
+/**
+ * A gasless transfer as sent to the relayer over HTTP (JSON-safe).
+ *
+ * The owner signs two EIP-712 messages: an EIP-2612 permit that lets the relayer spend exactly
+ * `amount`, and a `RelayedTransfer` intent that binds the recipient to that permit, so nobody who
+ * sees the permit can redirect the funds.
+ */
+export interface RelayRequest {
+  /** Token holder paying with SBirr instead of gas */
+  owner: string;
+  /** Recipient address */
+  to: string;
+  /** Amount to transfer (in SBirr); also the permitted value */
+  amount: string;
+  /** Owner's permit nonce both signatures were made for, as a decimal string */
+  nonce: string;
+  /** Unix timestamp (seconds) after which neither signature is valid */
+  deadline: number;
+  /** EIP-2612 permit signature naming the relayer as spender */
+  permit: { v: number; r: string; s: string };
+  /** EIP-712 `RelayedTransfer` signature over the intent */
+  signature: string;
+}
+
+/**
+ * Outcome of a relayed transfer. Both transactions are confirmed when it is returned.
+ */
+export interface RelayResult {
+  owner: string;
+  to: string;
+  amount: string;
+  permitHash: string;
+  transferHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Per-owner quota enforced by the relayer over a sliding window.
+ */
+export interface RelayerRateLimit {
+  /** Relays allowed per owner per window. @default 5 */
+  maxRequests?: number;
+  /** Window length in ms. @default 3_600_000 (one hour) */
+  windowMs?: number;
+  /** Total SBirr an owner may move per window. Unlimited when omitted */
+  maxAmount?: string;
+}
+
+/**
+ * Options for `sbirr.contract.createRelayer`.
+ */
+export interface RelayerOptions {
+  rateLimit?: RelayerRateLimit;
+  /** Largest single transfer accepted (in SBirr). Unlimited when omitted */
+  maxAmount?: string;
+  /** Longest signature lifetime accepted, in seconds from now. @default 3600 */
+  maxDeadlineSeconds?: number;
+}
+
+/**
+ * What a client needs to build requests for a relayer, served at `GET /info`.
+ */
+export interface RelayerInfo {
+  /** Address that pays gas and must be the permit spender */
+  relayer: string;
+  /** StableBirr proxy the relayer submits to */
+  contract: string;
+  /** Chain ID as a decimal string */
+  chainId: string;
+  maxAmount?: string;
+  maxDeadlineSeconds: number;
+  rateLimit: Required<Omit<RelayerRateLimit, "maxAmount">> &
+    Pick<RelayerRateLimit, "maxAmount">;
+}
+
+/**
+ * Options for serving a relayer over HTTP.
+ */
+export interface RelayerServerOptions {
+  /** Port to listen on (0 picks a free one). @default 8787 */
+  port?: number;
+  /** Interface to bind. @default "127.0.0.1" */
+  host?: string;
+  /** Largest request body accepted, in bytes. @default 16384 */
+  maxBodyBytes?: number;
+}
+
+/**
+ * A running relayer HTTP server.
+ */
+export interface RelayerServer {
+  /** Base URL, e.g. `http://127.0.0.1:8787` */
+  url: string;
+  close(): Promise<void>;
+}
+
+/**
+ * Parameters for `RelayerClient.transfer` / `RelayerClient.sign`.
+ */
+export interface RelayTransferParams {
+  /** Recipient address */
+  to: string;
+  /** Amount to transfer */
+  amount: Amount;
+  /** Unix timestamp (seconds) the signatures expire at. @default now + 10 minutes */
+  deadline?: number;
+}
@@ -0,0 +1,42 @@
+import { z } from "zod/v4";
+import { ethers } from "ethers";
+import { AmountSchema } from "@/core/amount";
+
+const AddressSchema = z
+  .string()
+  .refine((val: string) => ethers.isAddress(val), {
+    message: "Invalid Ethereum address",
+  });
+
+/** Amounts travel as decimal SBirr strings over HTTP. */
+const DecimalAmountSchema = z
+  .string()
+  .regex(/^\d+(\.\d{1,18})?$/, "Invalid amount format");
+
+const Bytes32Schema = z
+  .string()
+  .refine((val: string) => ethers.isHexString(val, 32), {
+    message: "Invalid 32-byte hex string",
+  });
+
+export const RelayRequestSchema = z.object({
+  owner: AddressSchema,
+  to: AddressSchema,
+  amount: DecimalAmountSchema,
+  nonce: z.string().regex(/^\d+$/, "Nonce must be a decimal string"),
+  deadline: z.number().int().positive("Deadline must be positive"),
+  permit: z.object({
+    v: z.number().int().min(27).max(28),
+    r: Bytes32Schema,
+    s: Bytes32Schema,
+  }),
+  signature: z.string().refine((val: string) => ethers.isHexString(val, 65), {
+    message: "Invalid signature",
+  }),
+});
+
+export const RelayTransferParamsSchema = z.object({
+  to: AddressSchema,
+  amount: AmountSchema,
+  deadline: z.number().int().positive("Deadline must be positive").optional(),
+});
@@ -1,4 +1,5 @@
-import type { TransactionReceipt } from "ethers";
+import type { Signer, TransactionReceipt } from "ethers";
+import type { StableBirrError } from "@/core/errors";
 
 /**
  * Configuration envelope shared by every StableBirr SDK resource.
@@ -17,7 +18,14 @@ export interface StableBirrConfig {
    * canonical SBirr deployment address.
    * @default 'polygon'
    */
-  network?: "mainnet" | "polygon" | "amoy" | "local";
+  network?: NetworkName;
+
+  /**
+   * An EVM network outside the built-in set. Takes precedence over `network`: supplies the chain
+   * ID `verify()` checks, the RPC endpoint when `rpcUrl` is omitted, and the contract address
+   * when `contractAddress` is omitted.
+   */
+  chain?: NetworkDefinition;
 
   /**
    * Fully qualified RPC URL. When omitted the SDK falls back to ethers.js default providers,
@@ -25,26 +33,502 @@ export interface StableBirrConfig {
    */
   rpcUrl?: string;
 
+  /**
+   * Several RPC endpoints with priorities, failover, retries on throttling and optional quorum
+   * reads, served by a `FallbackRpcProvider`. Mutually exclusive with `rpcUrl`.
+   */
+  rpc?: RpcConfig;
+
   /**
    * Hex-encoded private key used to sign privileged transactions (mint, burn, blacklist, etc.).
    * Can be omitted for read-only flows such as balance queries or public metadata calls.
    */
   privateKey?: string;
 
+  /**
+   * Any ethers.js signer (hardware wallet, KMS adapter, browser wallet, …). Used as-is when it
+   * already has a provider, otherwise connected to the SDK's provider. Mutually exclusive with
+   * `privateKey`, `keystore` and `remoteSigner`.
+   */
+  signer?: Signer;
+
+  /**
+   * Encrypted JSON keystore (Web3 Secret Storage v3) plus its password. Decrypted lazily on the
+   * first signature so the password can come from a secrets manager at runtime.
+   */
+  keystore?: KeystoreConfig;
+
+  /**
+   * External signing service reachable over JSON-RPC (web3signer, Clef, a custody API, …). The
+   * key never enters this process.
+   */
+  remoteSigner?: RemoteSignerConfig;
+
   /**
    * Optional override for the StableBirr contract address. Useful for local forks/tests or when
    * interacting with pre-release deployments before addresses are promoted to the constants file.
    */
   contractAddress?: string;
+
+  /**
+   * Route sends from `privateKey` through a `NonceManagedSigner`, which allocates nonces locally so
+   * parallel writes from one key do not collide. Pass options to tune retries or to coordinate
+   * several processes sharing the key through a lock file.
+   * @default false
+   */
+  nonceManager?: boolean | NonceManagerOptions;
+
+  /**
+   * Default EIP-1559 pricing, gas-limit headroom and fee-spike protection for every write.
+   * Without it the SDK keeps ethers.js' default pricing.
+   */
+  fees?: FeeConfig;
+
+  /**
+   * The Safe multisig that holds `schnlAdmin`. Used as the default Safe for
+   * `sbirr.contract.safe` proposals and transaction hashes.
+   */
+  safe?: SafeConfig;
+
+  /**
+   * Deployment manifest written by the contracts package's deploy / upgrade scripts
+   * (`deployments/<network>.json`, see `loadDeploymentManifest`). Supplies the proxy address when
+   * `contractAddress` is omitted, the default start block for `history` and `createIndexer`, and
+   * the implementation `verify()` expects.
+   */
+  deployment?: DeploymentManifest;
+}
+
+/**
+ * One implementation a StableBirr proxy has pointed at, as recorded in a `DeploymentManifest`.
+ */
+export interface DeploymentImplementation {
+  address: string;
+  /** Block of the deploy or upgrade transaction that activated it */
+  block: number;
+  transactionHash: string | null;
+  /** Git commit the implementation was built from (`-dirty` if the tree had local changes) */
+  commit: string | null;
+  /** ISO timestamp */
+  activatedAt: string;
+}
+
+/**
+ * Versioned record of a StableBirr deployment on one network, maintained by the contracts
+ * package's `deploy.ts` and `upgrade-proxy.ts`.
+ */
+export interface DeploymentManifest {
+  version: 1;
+  /** Hardhat network name (`polygon`, `amoy`, `localhost`, …) */
+  network: string;
+  chainId: number;
+  /** UUPS proxy, the address integrators use */
+  proxy: string;
+  /** Block the proxy was deployed in; event scans start here */
+  deployBlock: number;
+  deployTransaction: string | null;
+  schnlAdmin: string;
+  schnlOperator: string;
+  /** Oldest first; the last entry is the current implementation */
+  implementations: DeploymentImplementation[];
+  /** ISO timestamp of the last write */
+  updatedAt: string;
+}
+
+/**
+ * Networks with built-in RPC defaults and SBirr deployment addresses.
+ */
+export type NetworkName = "mainnet" | "polygon" | "amoy" | "local";
+
+/**
+ * A custom EVM network (`StableBirrConfig.chain`, `StableBirrMultiNetwork.register`).
+ */
+export interface NetworkDefinition {
+  /** Human-readable name used in errors, e.g. "Base Sepolia" */
+  name: string;
+  chainId: number;
+  /** Default RPC endpoint */
+  rpcUrl: string;
+  /** StableBirr proxy on this network */
+  contractAddress?: string;
+  /**
+   * Lowest priority fee (wei per gas) preset fee strategies use, for chains that reject low tips
+   * the way Polygon PoS does.
+   * @default 0n
+   */
+  minPriorityFee?: bigint;
+}
+
+/**
+ * Key of a network in a `StableBirrMultiNetwork`: a built-in network or a registered custom one.
+ */
+export type NetworkKey = NetworkName | (string & {});
+
+/**
+ * Per-network settings of a `StableBirrMultiNetwork`. The network itself comes from the key.
+ */
+export type NetworkClientConfig = Omit<StableBirrConfig, "network" | "chain">;
+
+/**
+ * Configuration of a `StableBirrMultiNetwork`.
+ */
+export interface MultiNetworkConfig {
+  /**
+   * Settings applied to every network (signer source, fees, nonce manager, Safe). A network that
+   * configures its own signer source replaces the default one instead of conflicting with it.
+   */
+  defaults?: Omit<
+    NetworkClientConfig,
+    "rpcUrl" | "rpc" | "contractAddress" | "deployment"
+  >;
+  /** Built-in networks to connect to, with per-network overrides */
+  networks?: Partial<Record<NetworkName, NetworkClientConfig>>;
+  /** Custom EVM networks, keyed by the name used to route calls to them */
+  chains?: Record<string, NetworkClientConfig & { chain: NetworkDefinition }>;
+}
+
+/**
+ * One read fanned out over several networks. Networks that failed are listed in `errors` instead
+ * of failing the whole read.
+ */
+export interface NetworkAggregate<T> {
+  /** Result of every network that answered */
+  networks: Partial<Record<NetworkKey, T>>;
+  /** Error of every network that did not */
+  errors: Partial<Record<NetworkKey, StableBirrError>>;
+  /** `true` when every network answered */
+  complete: boolean;
+}
+
+/**
+ * A token amount summed across networks. `total` covers only the networks in `networks`; check
+ * `complete` before using it for reconciliation.
+ */
+export interface AmountAggregate extends NetworkAggregate<TokenAmount> {
+  total: TokenAmount;
+}
+
+/**
+ * One RPC endpoint of an `RpcConfig`.
+ */
+export interface RpcEndpoint {
+  url: string;
+  /** Lower values are tried first; endpoints of equal priority are ordered by health. @default 0 */
+  priority?: number;
+  /** Extra HTTP headers (e.g. an API key) sent with every request */
+  headers?: Record<string, string>;
+}
+
+/**
+ * RPC endpoints and failover policy (`StableBirrConfig.rpc`).
+ */
+export interface RpcConfig {
+  /** Endpoint URLs or `RpcEndpoint`s */
+  endpoints: Array<string | RpcEndpoint>;
+  /**
+   * Extra rounds over the endpoints after every one of them failed (throttled, timed out,
+   * unreachable, HTTP 5xx). Each round waits for the first endpoint's backoff to end.
+   * @default 3
+   */
+  retries?: number;
+  /**
+   * Backoff of an endpoint after a failure, doubled (with jitter) for each consecutive failure.
+   * A throttled endpoint waits for `Retry-After` instead when it sends one.
+   * @default 250
+   */
+  retryDelay?: number;
+  /** Longest backoff, and longest honoured `Retry-After`, in milliseconds. @default 10000 */
+  maxRetryDelay?: number;
+  /** Per-request timeout in milliseconds. @default 10000 */
+  timeout?: number;
+  /** Require several endpoints to agree on critical reads */
+  quorum?: RpcQuorumConfig;
+}
+
+export interface RpcQuorumConfig {
+  /** Endpoints that must return the same result */
+  size: number;
+  /**
+   * StableBirr view functions the quorum applies to.
+   * @default ["totalSupply", "balanceOf", "supplyCap", "totalUSDConverted", "totalBurned", "totalFrozenWiped"]
+   */
+  reads?: string[];
 }
 
+/**
+ * Options for `FallbackRpcProvider` beyond its `RpcConfig`.
+ */
+export interface FallbackRpcProviderOptions {
+  /** Chain every endpoint must be on. Endpoints on another chain are taken out of rotation. */
+  chainId?: number;
+  /** Which `eth_call`s need quorum agreement. Defaults to all of them when `quorum` is set. */
+  isQuorumCall?: (call: { to: string; data: string }) => boolean;
+}
+
+/**
+ * Health of one endpoint of a `FallbackRpcProvider` (`provider.health()`).
+ */
+export interface RpcEndpointHealth {
+  /** Position in `RpcConfig.endpoints` */
+  index: number;
+  /** Endpoint origin; paths and query strings often carry API keys and are left out */
+  origin: string;
+  priority: number;
+  requests: number;
+  failures: number;
+  /** Failures caused by rate limiting */
+  throttled: number;
+  /** Moving average of the failure rate, 0..1 */
+  errorRate: number;
+  /** Moving average latency of successful requests in milliseconds, if any succeeded */
+  latency?: number;
+  /** Expected latency plus a penalty per unit of error rate; lower is better */
+  score: number;
+  /** Set while the endpoint backs off after a failure (epoch milliseconds) */
+  coolingDownUntil?: number;
+  /** Why the endpoint was taken out of rotation (e.g. it is on another chain) */
+  disabled?: string;
+}
+
+/**
+ * Password for a keystore: the string itself or a function that fetches it when first needed.
+ */
+export type KeystorePassword = string | (() => string | Promise<string>);
+
+export interface KeystoreConfig {
+  /** Keystore file contents */
+  json: string;
+  password: KeystorePassword;
+}
+
+export interface RemoteSignerConfig {
+  /** JSON-RPC endpoint of the signing service */
+  url: string;
+  /** Account to sign with. Defaults to the first entry of `eth_accounts`. */
+  address?: string;
+  /** Extra HTTP headers (e.g. `Authorization`) sent with every request */
+  headers?: Record<string, string>;
+  /**
+   * `remote`: the service signs and broadcasts (`eth_sendTransaction`).
+   * `local`: the service only signs (`eth_signTransaction`) and the SDK broadcasts through its own
+   * provider.
+   * @default "remote"
+   */
+  broadcast?: "remote" | "local";
+}
+
+export interface SafeConfig {
+  /** Safe address */
+  address: string;
+  /**
+   * MultiSendCallOnly deployment used to batch proposals.
+   * @default 0x40A2aCCbd92BCA938b02010E17A5b8929b49130D (canonical Safe v1.3.0)
+   */
+  multiSendCallOnlyAddress?: string;
+}
+
+/**
+ * Options for `NonceManagedSigner`.
+ */
+export interface NonceManagerOptions {
+  /**
+   * JSON file shared by every process sending from the same key. When set, each send takes an
+   * exclusive `<lockFile>.lock` and records the next nonce in the file, so processes never hand
+   * out the same nonce.
+   */
+  lockFile?: string;
+  /** Milliseconds to wait for the cross-process lock. @default 30000 */
+  lockTimeout?: number;
+  /** Locks older than this are treated as left behind by a crashed process. @default 60000 */
+  staleLockAfter?: number;
+  /** Resends with a fresh nonce after "nonce too low" / "replacement underpriced". @default 3 */
+  maxRetries?: number;
+}
+
+/**
+ * A token amount (SBirr, or USD for `usdAmount`, both with 18 decimals). The unit is never
+ * guessed from the value:
+ *
+ * - `{ wei: 1500000000000000000n }` or a bare `bigint`: base units.
+ * - `{ sbirr: "1.5" }` or a bare decimal `string`: whole tokens, at most 18 fractional digits.
+ *
+ * A `TokenAmount` returned by a getter can be passed back as is (its `wei` is used).
+ */
+export type Amount = bigint | string | { wei: bigint } | { sbirr: string };
+
+/**
+ * A token amount read from the chain, in both forms.
+ */
+export interface TokenAmount {
+  /** Base units */
+  wei: bigint;
+  /** Whole tokens with 18 decimals, e.g. `"1.5"` */
+  formatted: string;
+}
+
+/**
+ * An ETB-per-USD exchange rate: a decimal string such as `"155.25"` (at most 18 fractional
+ * digits), or a `bigint` already scaled by `RATE_SCALE` (1e18) as the contract stores it.
+ * Must lie between `MIN_RATE` (1) and `MAX_RATE` (1000) like `Conversion.sol` requires.
+ */
+export type Rate = bigint | string;
+
 export interface TransactionOptions {
   gasLimit?: number;
+  /** Legacy gas price in wei. Prefer the EIP-1559 fields below. */
   gasPrice?: string;
+  /** Highest total fee per gas (base + tip) in wei */
+  maxFeePerGas?: bigint | string;
+  /** Tip per gas to the block producer in wei */
+  maxPriorityFeePerGas?: bigint | string;
   nonce?: number;
+  /** Price from `eth_feeHistory` with this strategy instead of `config.fees.strategy` */
+  feeStrategy?: FeeStrategy;
+  /** Multiply the gas estimate by this factor (e.g. `1.2`) instead of `config.fees.gasLimitMultiplier` */
+  gasLimitMultiplier?: number;
+  /** Bypass the fee ceiling for admin calls that cannot wait (incident response) */
+  urgent?: boolean;
 }
 
+/**
+ * Built-in pricing presets over recent `eth_feeHistory` data:
+ *
+ * - `economy`: 10th-percentile tip, maxFee = 1.25 × next base fee + tip.
+ * - `standard`: median tip, maxFee = 2 × next base fee + tip.
+ * - `fast`: 90th-percentile tip, maxFee = 2.5 × next base fee + tip.
+ */
+export type FeeStrategyName = "economy" | "standard" | "fast";
+
+/**
+ * Recent fee market data as returned by `eth_feeHistory`, with rewards sampled at the 10th, 50th
+ * and 90th percentiles.
+ */
+export interface FeeHistory {
+  oldestBlock: number;
+  /** One entry per block plus the next block's base fee as the last entry */
+  baseFeePerGas: bigint[];
+  gasUsedRatio: number[];
+  /** Per block: tips at the 10th, 50th and 90th percentile */
+  reward: bigint[][];
+}
+
+/**
+ * EIP-1559 fees the SDK will attach to a transaction.
+ */
+export interface FeeSuggestion {
+  /** Base fee expected for the next block */
+  baseFeePerGas: bigint;
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+/**
+ * A preset name or a custom function that prices from the fee history.
+ */
+export type FeeStrategy =
+  | FeeStrategyName
+  | ((history: FeeHistory) => FeeSuggestion);
+
+/**
+ * SDK-wide fee settings (`StableBirrConfig.fees`).
+ */
+export interface FeeConfig {
+  /** Default pricing strategy for writes without explicit fees */
+  strategy?: FeeStrategy;
+  /** Multiply gas estimates by this factor. @default 1 */
+  gasLimitMultiplier?: number;
+  /**
+   * Highest acceptable `baseFee + tip` (wei per gas) for non-urgent admin calls (oracle, roles,
+   * limits, supply cap, minters, rescue, unpause). Their `maxFeePerGas` is also capped at this
+   * value.
+   */
+  ceiling?: bigint | string;
+  /**
+   * What to do with a non-urgent admin call while fees are above `ceiling`: fail with
+   * `FeeCeilingExceededError`, or hold it until fees drop.
+   * @default "reject"
+   */
+  onSpike?: "reject" | "queue";
+  /** Longest a queued call waits for fees to drop before failing. @default 600000 */
+  queueTimeout?: number;
+  /** How often a queued call re-checks fees. @default 15000 */
+  queuePollingInterval?: number;
+  /** Blocks of `eth_feeHistory` to sample. @default 10 */
+  historyBlocks?: number;
+}
+
+/**
+ * Lifecycle of a managed transaction.
+ *
+ * - `submitted`: broadcast, not yet in a block (also re-entered if a reorg un-mines it).
+ * - `mined`: included in a block, fewer confirmations than requested.
+ * - `confirmed`: included with the requested number of confirmations.
+ * - `replaced`: superseded by a speed-up (followed transparently) or by a different transaction.
+ * - `failed`: mined but reverted.
+ * - `dropped`: evicted from the mempool with its nonce still unused.
+ */
+export type TransactionState =
+  | "submitted"
+  | "mined"
+  | "confirmed"
+  | "replaced"
+  | "failed"
+  | "dropped";
+
+/**
+ * Payload delivered to `ManagedTransaction.onStateChange` listeners.
+ */
+export interface TransactionStateChange {
+  state: TransactionState;
+  /** Hash currently being tracked (the replacement's after a speed-up) */
+  hash: string;
+  /** Confirmations observed so far (0 until mined) */
+  confirmations: number;
+}
+
+/**
+ * Options for `ManagedTransaction.wait`.
+ */
+export interface WaitOptions {
+  /** Confirmations required before resolving. @default 1 */
+  confirmations?: number;
+  /** Give up after this many milliseconds with `TransactionTimeoutError` */
+  timeout?: number;
+  /** Stop waiting with `TransactionAbortedError` (the transaction itself is unaffected) */
+  signal?: AbortSignal;
+  /** Receipt polling interval in milliseconds. @default 1000 */
+  pollingInterval?: number;
+}
+
+/**
+ * A contract event emitted by the transaction, decoded against the StableBirr ABI.
+ */
+export interface TransactionEventLog {
+  name: string;
+  logIndex: number;
+  /** Event arguments keyed by parameter name (raw values: `bigint`, checksummed addresses, …) */
+  args: Record<string, unknown>;
+}
+
+/**
+ * Outcome of a confirmed transaction.
+ */
 export interface TransactionResult {
+  /** Hash of the transaction that was mined (the replacement's after a speed-up) */
   hash: string;
-  wait: () => Promise<TransactionReceipt | null>;
+  /** Hash originally returned by the SDK call */
+  originalHash: string;
+  /** Set when a speed-up (same call, higher fee) replaced the original transaction */
+  replaced: boolean;
+  receipt: TransactionReceipt;
+  blockNumber: number;
+  confirmations: number;
+  gasUsed: bigint;
+  effectiveGasPrice: bigint;
+  /** `gasUsed * effectiveGasPrice`, in wei */
+  fee: bigint;
+  /** Decoded StableBirr events in log order (`Minted`, `Transfer`, `AccountFrozen`, …) */
+  events: TransactionEventLog[];
+  /** Milliseconds between submission and the requested confirmation depth */
+  durationMs: number;
 }
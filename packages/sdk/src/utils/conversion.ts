@@ -1,28 +1,110 @@
- 
-import { ValidationError } from "@/core/errors";
+import { ethers } from "ethers";
+import {
+  ContractRevertError,
+  InvalidAmountError,
+  InvalidRateError,
+  ValidationError,
+} from "@/core/errors";
+import { MAX_RATE, MIN_RATE, RATE_SCALE } from "@/core/amount";
 
 /**
- * Calculate ETB amount from USD amount and rate
- * @param usdAmount USD amount
- * @param rate Exchange rate (ETB per USD)
- * @returns ETB amount
+ * Bigint port of `libraries/Conversion.sol`. Amounts and rates are scaled by 1e18, division
+ * truncates, and each function throws what the library reverts with: `InvalidAmountError`,
+ * `InvalidRateError`, or a `ContractRevertError` named `Panic` (code `0x11`) when the
+ * intermediate product overflows `uint256`.
  */
-export function calculateEtbAmount(usdAmount: number, rate: number): number {
-  if (usdAmount < 0) throw new ValidationError("USD amount must be positive");
-  if (rate <= 0) throw new ValidationError("Rate must be positive");
 
-  return usdAmount * rate;
+/** Solidity panic code for checked arithmetic overflow. */
+const PANIC_ARITHMETIC_OVERFLOW = 0x11n;
+
+function assertUint256(value: bigint, name: string): void {
+  if (typeof value !== "bigint" || value < 0n || value > ethers.MaxUint256) {
+    throw new ValidationError(
+      `${name} must be a uint256 bigint, got ${String(value)}`
+    );
+  }
+}
+
+function checkedMul(a: bigint, b: bigint): bigint {
+  const product = a * b;
+  if (product > ethers.MaxUint256) {
+    throw new ContractRevertError(
+      "Conversion: arithmetic overflow",
+      "Panic",
+      [PANIC_ARITHMETIC_OVERFLOW],
+      undefined,
+      "ARITHMETIC_OVERFLOW"
+    );
+  }
+  return product;
+}
+
+/**
+ * `Conversion.validateRate`: returns `true` or throws `InvalidRateError`.
+ * @param rate Exchange rate (ETB per USD, scaled by 1e18)
+ */
+export function validateRate(rate: bigint): true {
+  assertUint256(rate, "rate");
+  if (rate < MIN_RATE || rate > MAX_RATE) {
+    throw new InvalidRateError(
+      `Conversion: rate ${ethers.formatUnits(
+        rate,
+        18
+      )} is outside 1..1000 ETB per USD`
+    );
+  }
+  return true;
+}
+
+/**
+ * `Conversion.usdToEtb`: `usdAmount * rate / RATE_SCALE`, truncated.
+ * @param usdAmount Amount in USD (scaled by 1e18)
+ * @param rate Exchange rate (ETB per USD, scaled by 1e18)
+ * @returns Amount in ETB (scaled by 1e18)
+ */
+export function usdToEtb(usdAmount: bigint, rate: bigint): bigint {
+  assertUint256(usdAmount, "usdAmount");
+  if (usdAmount === 0n) {
+    throw new InvalidAmountError("Conversion: amount must be non-zero");
+  }
+  validateRate(rate);
+  return checkedMul(usdAmount, rate) / RATE_SCALE;
 }
 
 /**
- * Calculate USD amount from ETB amount and rate
- * @param etbAmount ETB amount
- * @param rate Exchange rate (ETB per USD)
- * @returns USD amount
+ * `Conversion.etbToUsd`: `etbAmount * RATE_SCALE / rate`, truncated.
+ * @param etbAmount Amount in ETB (scaled by 1e18)
+ * @param rate Exchange rate (ETB per USD, scaled by 1e18)
+ * @returns Amount in USD (scaled by 1e18)
  */
-export function calculateUsdAmount(etbAmount: number, rate: number): number {
-  if (etbAmount < 0) throw new ValidationError("ETB amount must be positive");
-  if (rate <= 0) throw new ValidationError("Rate must be positive");
+export function etbToUsd(etbAmount: bigint, rate: bigint): bigint {
+  assertUint256(etbAmount, "etbAmount");
+  if (etbAmount === 0n) {
+    throw new InvalidAmountError("Conversion: amount must be non-zero");
+  }
+  validateRate(rate);
+  return checkedMul(etbAmount, RATE_SCALE) / rate;
+}
 
-  return etbAmount / rate;
+/**
+ * `Conversion.calculateEtbAmount`: validates the rate, then `usdToEtb`.
+ * @param usdAmount USD amount (scaled by 1e18)
+ * @param rate Exchange rate (ETB per USD, scaled by 1e18)
+ * @returns ETB amount (scaled by 1e18)
+ */
+export function calculateEtbAmount(usdAmount: bigint, rate: bigint): bigint {
+  validateRate(rate);
+  return usdToEtb(usdAmount, rate);
+}
+
+/**
+ * Counterpart of `calculateEtbAmount` (the library has none): validates the rate, then
+ * `etbToUsd`.
+ * @param etbAmount ETB amount (scaled by 1e18)
+ * @param rate Exchange rate (ETB per USD, scaled by 1e18)
+ * @returns USD amount (scaled by 1e18)
+ */
+export function calculateUsdAmount(etbAmount: bigint, rate: bigint): bigint {
+  validateRate(rate);
+  return etbToUsd(etbAmount, rate);
 }
@@ -0,0 +1,120 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { AllowanceChangedError } from "@/core/errors";
+import { parseAllowance } from "@/resources/contract/handlers/approve.handler";
+import { StableBirr__factory } from "@/typechain-types";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+let chain: LocalChain;
+let owner: StableBirr;
+let spender: StableBirr;
+let ownerAddress: string;
+let spenderAddress: string;
+let token: string;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  token = await chain.deploy();
+  const admin = await chain.client(token, {
+    privateKey: chain.accounts[0]!.privateKey,
+  });
+  owner = await chain.client(token, {
+    privateKey: chain.accounts[1]!.privateKey,
+  });
+  spender = await chain.client(token, {
+    privateKey: chain.accounts[2]!.privateKey,
+  });
+  ownerAddress = chain.accounts[1]!.address;
+  spenderAddress = chain.accounts[2]!.address;
+
+  await (
+    await admin.contract.mint({ to: ownerAddress, usdAmount: "1", rate: "150" })
+  ).wait();
+  await settle();
+});
+
+afterAll(() => chain?.stop());
+
+const allowance = async () =>
+  (await owner.contract.getAllowance(ownerAddress, spenderAddress)).wei;
+
+describe("parseAllowance", () => {
+  test("expands max and parses decimals", () => {
+    expect(parseAllowance("max")).toBe(ethers.MaxUint256);
+    expect(parseAllowance("1.5")).toBe(ethers.parseEther("1.5"));
+  });
+});
+
+describe("allowances", () => {
+  test("approve then spend with transferFrom", async () => {
+    await (
+      await owner.contract.approve({ spender: spenderAddress, amount: "10" })
+    ).wait();
+    await settle();
+
+    const check = await spender.contract.preflight.transferFrom({
+      from: ownerAddress,
+      to: spenderAddress,
+      amount: "20",
+    });
+    await (
+      await spender.contract.transferFrom({
+        from: ownerAddress,
+        to: spenderAddress,
+        amount: "4",
+      })
+    ).wait();
+    await settle();
+
+    expect(check.violations.map((violation) => violation.code)).toEqual([
+      "INSUFFICIENT_ALLOWANCE",
+    ]);
+    expect(await allowance()).toBe(ethers.parseEther("6"));
+  });
+
+  test("safeApprove resets a live allowance before changing it", async () => {
+    const from = await chain.provider.getBlockNumber();
+
+    await (
+      await owner.contract.safeApprove({ spender: spenderAddress, amount: "3" })
+    ).wait();
+    await settle();
+
+    const contract = StableBirr__factory.connect(token, chain.provider);
+    const approvals = await contract.queryFilter(
+      contract.filters.Approval(ownerAddress, spenderAddress),
+      from + 1
+    );
+    expect(approvals.map((log) => log.args.value)).toEqual([
+      0n,
+      ethers.parseEther("3"),
+    ]);
+    expect(await allowance()).toBe(ethers.parseEther("3"));
+  });
+
+  test("safeApprove compare-and-set refuses a stale expectation", async () => {
+    const error = await owner.contract
+      .safeApprove({
+        spender: spenderAddress,
+        amount: "8",
+        expectedAllowance: "6",
+      })
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(AllowanceChangedError);
+    expect((error as AllowanceChangedError).current).toBe(
+      ethers.parseEther("3")
+    );
+
+    await (
+      await owner.contract.safeApprove({
+        spender: spenderAddress,
+        amount: "8",
+        expectedAllowance: "3",
+      })
+    ).wait();
+    await settle();
+    expect(await allowance()).toBe(ethers.parseEther("8"));
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { ValidationError } from "@/core/errors";
+import {
+  AmountSchema,
+  MAX_RATE,
+  MIN_RATE,
+  RateSchema,
+  formatTokenAmount,
+  toScaledRate,
+  toTokenAmount,
+  toWei,
+} from "@/core/amount";
+import { buildMintArgs } from "@/resources/contract/handlers/mint.handler";
+
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("toWei", () => {
+  test("reads every amount form without guessing the unit", () => {
+    expect(toWei("1.5")).toBe(ethers.parseEther("1.5"));
+    expect(toWei({ sbirr: "2" })).toBe(ethers.parseEther("2"));
+    expect(toWei(15n)).toBe(15n);
+    expect(toWei({ wei: 15n })).toBe(15n);
+    expect(toWei(toTokenAmount(7n))).toBe(7n);
+  });
+
+  test("keeps full precision on large balances", () => {
+    const amount = "123456789012345678.123456789012345678";
+
+    expect(formatTokenAmount(toWei(amount))).toBe(amount);
+  });
+
+  test("rejects ambiguous and out-of-range amounts", () => {
+    for (const amount of [
+      "1.1234567890123456789",
+      "1e18",
+      "-1",
+      " 1",
+      -1n,
+      ethers.MaxUint256 + 1n,
+    ]) {
+      expect(() => toWei(amount)).toThrow(ValidationError);
+    }
+  });
+});
+
+describe("AmountSchema", () => {
+  test("agrees with toWei", () => {
+    expect(
+      AmountSchema.safeParse({ sbirr: "0.000000000000000001" }).success
+    ).toBe(true);
+    expect(AmountSchema.safeParse("0.0000000000000000001").success).toBe(false);
+    expect(AmountSchema.safeParse(1.5).success).toBe(false);
+  });
+});
+
+describe("toTokenAmount", () => {
+  test("returns both forms", () => {
+    expect(toTokenAmount(ethers.parseEther("1500"))).toEqual({
+      wei: ethers.parseEther("1500"),
+      formatted: "1500.0",
+    });
+  });
+});
+
+describe("rates", () => {
+  test("scale decimal strings by 1e18 and pass bigints through", () => {
+    expect(toScaledRate("155.25")).toBe(155_250_000_000_000_000_000n);
+    expect(toScaledRate(MIN_RATE)).toBe(MIN_RATE);
+    expect(toScaledRate("1000")).toBe(MAX_RATE);
+  });
+
+  test("enforce the Conversion.sol bounds", () => {
+    for (const rate of [
+      "0.999999999999999999",
+      MAX_RATE + 1n,
+      "1e2",
+      "150.0.",
+    ]) {
+      expect(() => toScaledRate(rate)).toThrow(ValidationError);
+      expect(RateSchema.safeParse(rate).success).toBe(false);
+    }
+    expect(RateSchema.safeParse("1").success).toBe(true);
+  });
+});
+
+describe("buildMintArgs", () => {
+  test("derives the amount from usdAmount and rate, truncating", () => {
+    expect(
+      buildMintArgs({ to: holder, usdAmount: "10", rate: "155.25" })
+    ).toEqual([
+      holder,
+      ethers.parseEther("1552.5"),
+      ethers.parseEther("10"),
+      ethers.parseEther("155.25"),
+    ]);
+    expect(buildMintArgs({ to: holder, usdAmount: 3n, rate: "1.5" })[1]).toBe(
+      4n
+    );
+  });
+
+  test("keeps an explicit amount", () => {
+    expect(
+      buildMintArgs({
+        to: holder,
+        amount: "1",
+        usdAmount: "10",
+        rate: "150",
+      })[1]
+    ).toBe(ethers.parseEther("1"));
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ethers } from "ethers";
+import {
+  InsufficientBalanceError,
+  NetworkError,
+  TransactionTimeoutError,
+  ValidationError,
+} from "@/core/errors";
+import type { ManagedTransaction } from "@/core/transaction";
+import type { StableBirrContract } from "@/resources/contract/contract.resource";
+import { MemoryBulkJournal, StableBirrBulk } from "@/resources/bulk";
+import {
+  formatCsv,
+  parseCsv,
+  parseJsonRows,
+} from "@/resources/bulk/bulk.parser";
+
+const alice = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const bob = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const transfers = `to,amount\n${alice},1\n${bob},2\n`;
+
+type Outcome = "confirm" | "timeout" | Error;
+
+/**
+ * A contract whose writes follow a script: `sendOutcomes` by call order (throw or send), then
+ * `waitOutcomes` by hash. Unscripted calls succeed. A blacklist takes effect in `blacklisted`
+ * even when its send then throws, as if the error came after broadcast.
+ */
+function fakeContract(
+  sendOutcomes: Array<Error | undefined> = [],
+  waitOutcomes: Record<string, Outcome> = {},
+  blacklisted = new Set<string>()
+) {
+  const sent: unknown[] = [];
+  const known = new Map<string, ManagedTransaction>();
+  const transaction = (hash: string, nonce: number) => {
+    const tx = {
+      hash,
+      nonce,
+      async wait() {
+        const outcome = waitOutcomes[hash] ?? "confirm";
+        if (outcome === "timeout") {
+          throw new TransactionTimeoutError("not confirmed", hash);
+        }
+        if (outcome instanceof Error) throw outcome;
+        return { hash, blockNumber: 10 + nonce };
+      },
+    } as unknown as ManagedTransaction;
+    known.set(hash, tx);
+    return tx;
+  };
+  const send = async (params: unknown) => {
+    const error = sendOutcomes[sent.length];
+    sent.push(params);
+    if (error) throw error;
+    return transaction(ethers.id(String(sent.length)), sent.length);
+  };
+  const contract = {
+    transfer: send,
+    blacklist: (params: { account: string }) => {
+      blacklisted.add(params.account);
+      return send(params);
+    },
+    isBlacklisted: async (account: string) => blacklisted.has(account),
+    getTransaction: async (hash: string) => known.get(hash) ?? null,
+  } as unknown as StableBirrContract;
+  return { bulk: new StableBirrBulk(contract), sent };
+}
+
+describe("bulk parser", () => {
+  test("reads quoted CSV fields", () => {
+    expect(parseCsv('a,b\r\n"x, ""y""", z \n\n')).toEqual([
+      { a: 'x, "y"', b: "z" },
+    ]);
+  });
+
+  test("rejects ragged rows and unterminated quotes", () => {
+    expect(() => parseCsv("a,b\n1\n")).toThrow("has 1 fields, expected 2");
+    expect(() => parseCsv('a\n"1\n')).toThrow(ValidationError);
+  });
+
+  test("round-trips what it writes", () => {
+    const records = [{ line: "1", reason: 'court order, "A"' }];
+
+    expect(parseCsv(formatCsv(records))).toEqual(records);
+  });
+
+  test("accepts only JSON arrays of objects", () => {
+    expect(parseJsonRows('[{"to":"x"}]')).toEqual([{ to: "x" }]);
+    expect(() => parseJsonRows('{"to":"x"}')).toThrow(ValidationError);
+    expect(() => parseJsonRows("[1]")).toThrow(ValidationError);
+  });
+});
+
+describe("StableBirrBulk", () => {
+  test("normalizes amounts and rejects invalid files before sending", async () => {
+    const { bulk, sent } = fakeContract();
+
+    expect(
+      bulk.parse("transfer", [{ to: alice, amount: 5n * 10n ** 17n }])[0]!
+        .params
+    ).toEqual({ to: alice, amount: "0.5" });
+    await expect(
+      bulk.run("transfer", `to,amount\n${alice},1\nnot-an-address,1\n`)
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(sent).toHaveLength(0);
+  });
+
+  test("refuses a journal from another input", async () => {
+    const journal = new MemoryBulkJournal();
+    await fakeContract().bulk.run("transfer", transfers, { journal });
+
+    await expect(
+      fakeContract().bulk.run("transfer", `to,amount\n${alice},3\n`, {
+        journal,
+      })
+    ).rejects.toThrow("different run");
+  });
+
+  describe("resume", () => {
+    let dir: string;
+    let journal: string;
+    let file = 0;
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "sbirr-bulk-"));
+    });
+    beforeEach(() => {
+      journal = path.join(dir, `run-${++file}.journal`);
+    });
+    afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+    test("skips finished rows", async () => {
+      const first = fakeContract();
+      await first.bulk.run("transfer", transfers, { journal });
+      const second = fakeContract();
+
+      const report = await second.bulk.run("transfer", transfers, { journal });
+
+      expect(report.confirmed).toBe(2);
+      expect(report.rows.every((row) => row.resumed)).toBe(true);
+      expect(second.sent).toHaveLength(0);
+    });
+
+    test("re-attaches to submitted transactions instead of re-sending", async () => {
+      const waits: Record<string, Outcome> = { [ethers.id("2")]: "timeout" };
+      const { bulk, sent } = fakeContract([], waits);
+      const interrupted = await bulk.run("transfer", transfers, { journal });
+      waits[ethers.id("2")] = "confirm";
+
+      const report = await bulk.run("transfer", transfers, { journal });
+
+      expect(interrupted.pending).toBe(1);
+      expect(report.rows[1]).toMatchObject({
+        status: "confirmed",
+        resumed: true,
+        transactionHash: ethers.id("2"),
+      });
+      expect(sent).toHaveLength(2);
+    });
+
+    test("retries rows that failed before broadcast", async () => {
+      const revert = new InsufficientBalanceError(
+        "Transfer failed: insufficient balance",
+        "ERC20InsufficientBalance",
+        [alice, 0n, 1n],
+        alice,
+        0n,
+        1n
+      );
+      const first = fakeContract([revert]);
+      const failed = await first.bulk.run("transfer", transfers, { journal });
+      const second = fakeContract();
+
+      const report = await second.bulk.run("transfer", transfers, { journal });
+
+      expect(failed.rows[0]).toMatchObject({
+        status: "failed",
+        error: { code: revert.code },
+      });
+      expect(report.confirmed).toBe(2);
+      expect(second.sent).toEqual([{ to: alice, amount: "1" }]);
+    });
+
+    test("never re-sends a row whose send may have been broadcast", async () => {
+      const first = fakeContract([
+        new NetworkError("Transfer failed: timeout"),
+      ]);
+      const interrupted = await first.bulk.run("transfer", transfers, {
+        journal,
+      });
+      const second = fakeContract();
+
+      const report = await second.bulk.run("transfer", transfers, { journal });
+
+      expect(interrupted.rows[0]!.status).toBe("needs_review");
+      expect(report.rows[0]).toMatchObject({
+        status: "needs_review",
+        resumed: true,
+      });
+      expect(report.needsReview).toBe(1);
+      expect(second.sent).toHaveLength(0);
+    });
+
+    test("resolves idempotent rows from on-chain state", async () => {
+      const accounts = `account\n${alice}\n${bob}\n`;
+      const blacklisted = new Set<string>();
+      const first = fakeContract(
+        [undefined, new Error("socket hang up")],
+        {},
+        blacklisted
+      );
+      const interrupted = await first.bulk.run("blacklist", accounts, {
+        journal,
+      });
+      const second = fakeContract([], {}, blacklisted);
+
+      const report = await second.bulk.run("blacklist", accounts, { journal });
+
+      expect(interrupted.rows[1]!.status).toBe("needs_review");
+      expect(report.rows.map((row) => row.status)).toEqual([
+        "confirmed",
+        "skipped",
+      ]);
+      expect(second.sent).toHaveLength(0);
+    });
+  });
+});
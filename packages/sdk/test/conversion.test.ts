@@ -0,0 +1,261 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { ContractRevertError } from "@/core/errors";
+import { MAX_RATE, MIN_RATE, RATE_SCALE } from "@/core/amount";
+import * as Conversion from "@/utils/conversion";
+import {
+  ConversionHarness__factory,
+  Conversion__factory,
+  type ConversionHarness,
+} from "@/typechain-types";
+import { startHardhat, type LocalChain } from "./helpers/hardhat";
+
+/**
+ * Parity between the bigint port in `utils/conversion.ts` and `libraries/Conversion.sol`: same
+ * values, and the same revert (`InvalidAmount`, `InvalidRate`, overflow `Panic(0x11)`) on the
+ * same inputs. Treasury tooling derives mint amounts off-chain, so a single wei of disagreement
+ * breaks reconciliation; inputs are biased towards the rate bounds and the overflow threshold.
+ */
+
+const RUNS = 2000;
+const SEED = "stablebirr-conversion-parity";
+const PANIC_SELECTOR = "0x4e487b71";
+const conversionErrors = Conversion__factory.createInterface();
+
+type Outcome = { value: bigint | boolean } | { error: string; args: bigint[] };
+
+let chain: LocalChain;
+let harness: ConversionHarness;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  harness = await new ConversionHarness__factory(chain.accounts[0]!).deploy();
+  await harness.waitForDeployment();
+});
+
+afterAll(() => chain?.stop());
+
+// Deterministic inputs so a failing case can be replayed
+let counter = 0n;
+function randomWord(): bigint {
+  return BigInt(
+    ethers.solidityPackedKeccak256(["string", "uint256"], [SEED, counter++])
+  );
+}
+
+function randomRate(): bigint {
+  const word = randomWord();
+  const bounds = [
+    0n,
+    1n,
+    MIN_RATE - 1n,
+    MIN_RATE,
+    MIN_RATE + 1n,
+    MAX_RATE - 1n,
+    MAX_RATE,
+    MAX_RATE + 1n,
+    ethers.MaxUint256,
+  ];
+  switch (word % 4n) {
+    case 0n:
+      return bounds[Number((word >> 8n) % BigInt(bounds.length))]!;
+    case 1n:
+      return word >> word % 256n; // any magnitude, mostly out of range
+    default:
+      return MIN_RATE + ((word >> 8n) % (MAX_RATE - MIN_RATE + 1n));
+  }
+}
+
+/** Amount paired with `multiplier`, the factor the library multiplies it by. */
+function randomAmount(multiplier: bigint): bigint {
+  const word = randomWord();
+  switch (word % 8n) {
+    case 0n:
+      return 0n;
+    case 1n:
+    case 2n: {
+      // Straddle the overflow threshold of `amount * multiplier`
+      if (multiplier === 0n) return word;
+      const limit = ethers.MaxUint256 / multiplier;
+      const amount = limit + ((word >> 8n) % 3n) - 1n;
+      return amount > ethers.MaxUint256 ? ethers.MaxUint256 : amount;
+    }
+    case 3n:
+      return (word >> 8n) % 1_000_000n; // dust, exercises truncation
+    default:
+      return word >> word % 256n;
+  }
+}
+
+async function solidityOutcome(
+  call: () => Promise<bigint | boolean>
+): Promise<Outcome> {
+  try {
+    return { value: await call() };
+  } catch (error: unknown) {
+    if (!ethers.isError(error, "CALL_EXCEPTION") || !error.data) throw error;
+    const data = error.data;
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const [code] = ethers.AbiCoder.defaultAbiCoder().decode(
+        ["uint256"],
+        ethers.dataSlice(data, 4)
+      );
+      return { error: "Panic", args: [code] };
+    }
+    const decoded = conversionErrors.parseError(data);
+    if (!decoded) throw error;
+    return { error: decoded.name, args: [...decoded.args] };
+  }
+}
+
+function sdkOutcome(call: () => bigint | boolean): Outcome {
+  try {
+    return { value: call() };
+  } catch (error: unknown) {
+    if (!(error instanceof ContractRevertError)) throw error;
+    return {
+      error: error.errorName,
+      args: error.args.map((arg) => BigInt(arg as bigint)),
+    };
+  }
+}
+
+/** Compares outcomes next to `label` so a failure names the inputs to replay. */
+async function expectParity(
+  label: string,
+  sdk: () => bigint | boolean,
+  solidity: () => Promise<bigint | boolean>
+) {
+  expect([label, sdkOutcome(sdk)]).toEqual([
+    label,
+    await solidityOutcome(solidity),
+  ]);
+}
+
+describe("known cases", () => {
+  test("match the library's scale and rate bounds", async () => {
+    expect(await harness.RATE_SCALE()).toBe(RATE_SCALE);
+    expect(await harness.MIN_RATE()).toBe(MIN_RATE);
+    expect(await harness.MAX_RATE()).toBe(MAX_RATE);
+  });
+
+  test("truncate like Solidity", async () => {
+    const usd = ethers.parseUnits("100.37", 18);
+    const rate = ethers.parseUnits("154.125", 18);
+
+    expect(Conversion.usdToEtb(usd, rate)).toBe(
+      ethers.parseUnits("15469.52625", 18)
+    );
+    await expectParity(
+      "etbToUsd(1 wei, 3)",
+      () => Conversion.etbToUsd(1n, 3n * RATE_SCALE),
+      () => harness.etbToUsd(1n, 3n * RATE_SCALE)
+    );
+  });
+
+  test("reject the same boundary rates", async () => {
+    for (const rate of [MIN_RATE - 1n, MIN_RATE, MAX_RATE, MAX_RATE + 1n]) {
+      await expectParity(
+        `validateRate(${rate})`,
+        () => Conversion.validateRate(rate),
+        () => harness.validateRate(rate)
+      );
+    }
+  });
+
+  test("check the amount before the rate", async () => {
+    await expectParity(
+      "usdToEtb(0, 0)",
+      () => Conversion.usdToEtb(0n, 0n),
+      () => harness.usdToEtb(0n, 0n)
+    );
+  });
+
+  test("panic on overflow", async () => {
+    const usd = ethers.MaxUint256 / MAX_RATE + 1n;
+
+    await expectParity(
+      `usdToEtb(${usd}, MAX_RATE)`,
+      () => Conversion.usdToEtb(usd, MAX_RATE),
+      () => harness.usdToEtb(usd, MAX_RATE)
+    );
+  });
+});
+
+describe("fuzzing", () => {
+  const FUZZ_TIMEOUT = 600_000;
+
+  /**
+   * Draw every input first so the sequence stays deterministic, then compare concurrently so the
+   * provider batches the calls.
+   */
+  const fuzz = (
+    draw: () => [
+      string,
+      () => bigint | boolean,
+      () => Promise<bigint | boolean>
+    ]
+  ) =>
+    Promise.all(
+      Array.from({ length: RUNS }, draw).map((args) => expectParity(...args))
+    );
+
+  test(
+    `agree on validateRate for ${RUNS} rates`,
+    () =>
+      fuzz(() => {
+        const rate = randomRate();
+        return [
+          `validateRate(${rate})`,
+          () => Conversion.validateRate(rate),
+          () => harness.validateRate(rate),
+        ];
+      }),
+    FUZZ_TIMEOUT
+  );
+
+  test(
+    `agree on usdToEtb for ${RUNS} inputs`,
+    () =>
+      fuzz(() => {
+        const rate = randomRate();
+        const usd = randomAmount(rate);
+        return [
+          `usdToEtb(${usd}, ${rate})`,
+          () => Conversion.usdToEtb(usd, rate),
+          () => harness.usdToEtb(usd, rate),
+        ];
+      }),
+    FUZZ_TIMEOUT
+  );
+
+  test(
+    `agree on etbToUsd for ${RUNS} inputs`,
+    () =>
+      fuzz(() => {
+        const rate = randomRate();
+        const etb = randomAmount(RATE_SCALE);
+        return [
+          `etbToUsd(${etb}, ${rate})`,
+          () => Conversion.etbToUsd(etb, rate),
+          () => harness.etbToUsd(etb, rate),
+        ];
+      }),
+    FUZZ_TIMEOUT
+  );
+
+  test(
+    `agree on calculateEtbAmount for ${RUNS} inputs`,
+    () =>
+      fuzz(() => {
+        const rate = randomRate();
+        const usd = randomAmount(rate);
+        return [
+          `calculateEtbAmount(${usd}, ${rate})`,
+          () => Conversion.calculateEtbAmount(usd, rate),
+          () => harness.calculateEtbAmount(usd, rate),
+        ];
+      }),
+    FUZZ_TIMEOUT
+  );
+});
@@ -0,0 +1,171 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ethers } from "ethers";
+import { StableBirr } from "@/client";
+import { STABLEBIRR_ADDRESSES } from "@/constants/addresses";
+import { IdentityMismatchError, ValidationError } from "@/core/errors";
+import {
+  currentImplementation,
+  loadDeploymentManifest,
+  parseDeploymentManifest,
+} from "@/core/deployment";
+import type { DeploymentManifest } from "@/types";
+import { startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const admin = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+const hash = (label: string) => ethers.id(label);
+
+function manifest(
+  proxy: string,
+  implementations: string[],
+  overrides: Partial<DeploymentManifest> = {}
+): DeploymentManifest {
+  return {
+    version: 1,
+    network: "localhost",
+    chainId: 31337,
+    proxy,
+    deployBlock: 3,
+    deployTransaction: hash("deploy"),
+    schnlAdmin: admin,
+    schnlOperator: admin,
+    implementations: implementations.map((address, index) => ({
+      address,
+      block: 3 + index,
+      transactionHash: hash(`upgrade ${index}`),
+      commit: null,
+      activatedAt: "2026-01-01T00:00:00.000Z",
+    })),
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    ...overrides,
+  };
+}
+
+const proxy = ethers.Wallet.createRandom().address;
+const first = ethers.Wallet.createRandom().address;
+const second = ethers.Wallet.createRandom().address;
+
+describe("manifests", () => {
+  test("checksum addresses and expose the latest implementation", () => {
+    const parsed = parseDeploymentManifest(
+      manifest(proxy.toLowerCase(), [first, second.toLowerCase()])
+    );
+
+    expect(parsed.proxy).toBe(proxy);
+    expect(currentImplementation(parsed).address).toBe(second);
+  });
+
+  test("reject unknown versions and empty histories", () => {
+    expect(() =>
+      parseDeploymentManifest({ ...manifest(proxy, [first]), version: 2 })
+    ).toThrow(ValidationError);
+    expect(() => parseDeploymentManifest(manifest(proxy, []))).toThrow(
+      ValidationError
+    );
+  });
+
+  test("load from a file", async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "sbirr-manifest-"));
+    const file = path.join(dir, "localhost.json");
+    fs.writeFileSync(file, JSON.stringify(manifest(proxy, [first])));
+    fs.writeFileSync(path.join(dir, "broken.json"), "{");
+
+    try {
+      expect((await loadDeploymentManifest(file)).proxy).toBe(proxy);
+      await expect(
+        loadDeploymentManifest(path.join(dir, "missing.json"))
+      ).rejects.toBeInstanceOf(ValidationError);
+      await expect(
+        loadDeploymentManifest(path.join(dir, "broken.json"))
+      ).rejects.toThrow("not valid JSON");
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test("supply the address and refuse conflicting config", () => {
+    const deployment = manifest(proxy, [first]);
+    const config = { network: "local" as const, rpcUrl: "http://127.0.0.1:1" };
+
+    const sbirr = new StableBirr({ ...config, deployment });
+
+    expect(
+      sbirr.contract.offline.encode("blacklist", { account: first }).to
+    ).toBe(proxy);
+    expect(
+      () =>
+        new StableBirr({
+          ...config,
+          deployment: { ...deployment, chainId: 137 },
+        })
+    ).toThrow(ValidationError);
+    expect(
+      () => new StableBirr({ ...config, deployment, contractAddress: first })
+    ).toThrow("does not match the manifest proxy");
+  });
+});
+
+describe("default addresses", () => {
+  const contracts = path.resolve(__dirname, "../../contracts");
+
+  test("polygon is the live proxy recorded in the contracts package", async () => {
+    const { proxies } = JSON.parse(
+      fs.readFileSync(
+        path.join(contracts, ".openzeppelin/polygon.json"),
+        "utf8"
+      )
+    );
+    const manifest = path.join(contracts, "deployments/polygon.json");
+
+    expect(STABLEBIRR_ADDRESSES.polygon).toBe(
+      ethers.getAddress(proxies[proxies.length - 1].address)
+    );
+    if (fs.existsSync(manifest)) {
+      expect((await loadDeploymentManifest(manifest)).proxy).toBe(
+        STABLEBIRR_ADDRESSES.polygon
+      );
+    }
+  });
+});
+
+describe("verify with a manifest", () => {
+  let chain: LocalChain;
+  let token: string;
+  let implementation: string;
+
+  beforeAll(async () => {
+    chain = await startHardhat();
+    token = await chain.deploy();
+    implementation = ethers.getAddress(
+      ethers.dataSlice(
+        await chain.provider.getStorage(
+          token,
+          "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc"
+        ),
+        12
+      )
+    );
+  });
+
+  afterAll(() => chain?.stop());
+
+  const sdk = (deployment: DeploymentManifest) =>
+    new StableBirr({ network: "local", rpcUrl: chain.url, deployment });
+
+  test("accepts the implementation the manifest records last", async () => {
+    const sbirr = await sdk(manifest(token, [first, implementation])).connect();
+
+    expect(sbirr.contract.identity?.implementation).toBe(implementation);
+  });
+
+  test("catches an upgrade the manifest does not know about", async () => {
+    const error = await sdk(manifest(token, [implementation, first]))
+      .connect()
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(IdentityMismatchError);
+    expect((error as IdentityMismatchError).check).toBe("implementation");
+  });
+});
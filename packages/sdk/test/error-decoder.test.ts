@@ -0,0 +1,138 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { StableBirr__factory } from "@/typechain-types";
+import {
+  decodeRevertData,
+  extractRevertData,
+  toStableBirrError,
+} from "@/core/error-decoder";
+import {
+  AccountBlacklistedError,
+  ContractError,
+  ContractRevertError,
+  EnforcedPauseError,
+  InsufficientBalanceError,
+  MintAllowanceExceededError,
+  NetworkError,
+  SupplyCapExceededError,
+  ValidationError,
+} from "@/core/errors";
+
+const iface = StableBirr__factory.createInterface();
+const account = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("extractRevertData", () => {
+  test("finds revert data nested in provider errors", () => {
+    const data = iface.encodeErrorResult("EnforcedPause", []);
+    const error = { info: { error: { data: { data } } } };
+
+    expect(extractRevertData(error)).toBe(data);
+  });
+
+  test("ignores hex strings shorter than a selector", () => {
+    expect(extractRevertData({ data: "0x" })).toBeUndefined();
+    expect(extractRevertData(new Error("boom"))).toBeUndefined();
+  });
+
+  test("survives cyclic error objects", () => {
+    const error: Record<string, unknown> = {};
+    error.cause = error;
+
+    expect(extractRevertData(error)).toBeUndefined();
+  });
+});
+
+describe("decodeRevertData", () => {
+  test("decodes StableBirr custom errors", () => {
+    const data = iface.encodeErrorResult("AccountBlacklisted", [account]);
+
+    expect(decodeRevertData(data)?.name).toBe("AccountBlacklisted");
+  });
+
+  test("returns null for unknown selectors", () => {
+    expect(decodeRevertData("0xdeadbeef")).toBeNull();
+  });
+});
+
+describe("toStableBirrError", () => {
+  const revert = (name: string, args: unknown[] = []) => ({
+    code: "CALL_EXCEPTION",
+    data: iface.encodeErrorResult(name, args),
+  });
+
+  test("passes SDK errors through", () => {
+    const error = new ValidationError("bad input");
+
+    expect(toStableBirrError(error, "Mint failed")).toBe(error);
+  });
+
+  test("maps reverts to typed subclasses with decoded arguments", () => {
+    const error = toStableBirrError(
+      revert("SupplyCapExceeded", [100n, 150n]),
+      "Mint failed"
+    );
+
+    expect(error).toBeInstanceOf(SupplyCapExceededError);
+    expect(error).toMatchObject({
+      cap: 100n,
+      attempted: 150n,
+      code: "SUPPLY_CAP_EXCEEDED",
+    });
+    expect(error.message).toStartWith("Mint failed:");
+  });
+
+  test("maps OpenZeppelin errors", () => {
+    const balance = toStableBirrError(
+      revert("ERC20InsufficientBalance", [account, 1n, 2n]),
+      "Transfer failed"
+    );
+    const paused = toStableBirrError(revert("EnforcedPause"), "Burn failed");
+
+    expect(balance).toBeInstanceOf(InsufficientBalanceError);
+    expect(balance).toMatchObject({ needed: 2n });
+    expect(paused).toBeInstanceOf(EnforcedPauseError);
+  });
+
+  test("keeps the account of blacklist and allowance errors", () => {
+    expect(
+      toStableBirrError(revert("AccountBlacklisted", [account]), "x")
+    ).toMatchObject({ account });
+    expect(
+      toStableBirrError(revert("MintAllowanceExceeded", [account, 5n, 6n]), "x")
+    ).toBeInstanceOf(MintAllowanceExceededError);
+  });
+
+  test("falls back to ContractRevertError for unmapped errors", () => {
+    const error = toStableBirrError(
+      revert("UUPSUnauthorizedCallContext"),
+      "Upgrade failed"
+    );
+
+    expect(error.constructor).toBe(ContractRevertError);
+    expect((error as ContractRevertError).errorName).toBe(
+      "UUPSUnauthorizedCallContext"
+    );
+  });
+
+  test("treats transport failures as retryable network errors", () => {
+    const error = toStableBirrError(
+      ethers.makeError("request timed out", "TIMEOUT", {
+        operation: "call",
+        reason: "timeout",
+      }),
+      "Read failed"
+    );
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.retryable).toBe(true);
+  });
+
+  test("wraps anything else in a ContractError", () => {
+    const cause = new Error("unexpected");
+    const error = toStableBirrError(cause, "Mint failed");
+
+    expect(error.constructor).toBe(ContractError);
+    expect(error.details).toBe(cause);
+    expect(error.retryable).toBe(false);
+  });
+});
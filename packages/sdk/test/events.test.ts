@@ -0,0 +1,154 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { ValidationError } from "@/core/errors";
+import { StableBirr__factory } from "@/typechain-types";
+import {
+  buildEventTopics,
+  decodeEvent,
+} from "@/resources/contract/handlers/events.handler";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const contract = StableBirr__factory.connect(ethers.ZeroAddress);
+const iface: ethers.Interface = contract.interface;
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+function log(name: string, args: unknown[]): ethers.Log {
+  const fragment = iface.getEvent(name)!;
+  return {
+    ...iface.encodeEventLog(fragment, args),
+    blockNumber: 7,
+    blockHash: ethers.ZeroHash,
+    transactionHash: ethers.ZeroHash,
+    index: 2,
+  } as unknown as ethers.Log;
+}
+
+describe("decodeEvent", () => {
+  test("formats amounts and checksums addresses", () => {
+    const event = decodeEvent(
+      contract,
+      "Minted",
+      log("Minted", [
+        holder.toLowerCase(),
+        ethers.parseEther("1500"),
+        ethers.parseEther("10"),
+        ethers.parseEther("150"),
+        1_700_000_000n,
+      ])
+    );
+
+    expect(event).toMatchObject({
+      name: "Minted",
+      blockNumber: 7,
+      logIndex: 2,
+      data: {
+        to: holder,
+        amount: { wei: ethers.parseEther("1500"), formatted: "1500.0" },
+        rate: "150.0",
+        timestamp: 1_700_000_000,
+      },
+    });
+  });
+
+  test("reports an unlimited minter allowance as such", () => {
+    const event = decodeEvent(
+      contract,
+      "MinterConfigured",
+      log("MinterConfigured", [holder, ethers.MaxUint256, true])
+    );
+
+    expect(event.data.allowance).toEqual({
+      wei: ethers.MaxUint256,
+      formatted: "unlimited",
+    });
+  });
+
+  test("rejects a log of another event", () => {
+    const decode = () =>
+      decodeEvent(
+        contract,
+        "Burned",
+        log("MinterConfigured", [holder, 0n, false])
+      );
+
+    expect(decode).toThrow(ValidationError);
+    expect(decode).toThrow("is not Burned");
+  });
+});
+
+describe("buildEventTopics", () => {
+  test("filters indexed arguments", () => {
+    const [selector, to] = buildEventTopics(contract, "Minted", {
+      to: holder,
+    });
+
+    expect(selector).toBe(contract.interface.getEvent("Minted")!.topicHash);
+    expect(to).toBe(ethers.zeroPadValue(holder.toLowerCase(), 32));
+  });
+
+  test("matches any value for omitted filters", () => {
+    expect(buildEventTopics(contract, "Transfer")).toHaveLength(1);
+  });
+});
+
+describe("subscriptions", () => {
+  let chain: LocalChain;
+  let admin: StableBirr;
+
+  beforeAll(async () => {
+    chain = await startHardhat();
+    admin = await chain.client(await chain.deploy(), {
+      privateKey: chain.accounts[0]!.privateKey,
+    });
+  });
+
+  afterAll(() => chain?.stop());
+
+  test("delivers an event once it has enough confirmations", async () => {
+    const next = admin.contract.events.once("Minted", {
+      confirmations: 2,
+      pollingInterval: 50,
+    });
+    await settle();
+    const receipt = await (
+      await admin.contract.mint({ to: holder, usdAmount: "1", rate: "150" })
+    ).wait();
+
+    let delivered = false;
+    next.then(() => (delivered = true));
+    await settle();
+    expect(delivered).toBe(false);
+
+    await chain.mine(2);
+    const event = await next;
+    expect(event.transactionHash).toBe(receipt.hash);
+    expect(event.data.amount.wei).toBe(ethers.parseEther("150"));
+  });
+
+  test("ends async iteration when the signal aborts", async () => {
+    const controller = new AbortController();
+    const seen: string[] = [];
+    const done = (async () => {
+      for await (const event of admin.contract.events.iterate("Burned", {
+        pollingInterval: 50,
+        signal: controller.signal,
+      })) {
+        seen.push(event.data.merchantId);
+      }
+    })();
+    await settle();
+    await (
+      await admin.contract.burn({
+        from: holder,
+        amount: "1",
+        merchantId: "M-7",
+      })
+    ).wait();
+    await settle();
+
+    controller.abort();
+    await done;
+    expect(seen).toEqual(["M-7"]);
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { FeeCeilingExceededError, ValidationError } from "@/core/errors";
+import { FeeManager, suggestFees } from "@/core/fees";
+import type { FeeHistory } from "@/types";
+
+const gwei = (value: number) => ethers.parseUnits(String(value), "gwei");
+
+const history: FeeHistory = {
+  oldestBlock: 100,
+  baseFeePerGas: [gwei(20), gwei(30), gwei(40)],
+  gasUsedRatio: [0.5, 0.5],
+  reward: [
+    [gwei(1), gwei(2), gwei(5)],
+    [gwei(3), gwei(4), gwei(9)],
+    [gwei(2), gwei(3), gwei(7)],
+  ],
+};
+
+/** A provider without raw JSON-RPC, so fees come from successive `(baseFee, tip)` readings. */
+function feedProvider(readings: Array<[number, number]>): ethers.Provider {
+  let index = 0;
+  const next = () => readings[Math.min(index++, readings.length - 1)]!;
+  let current = next();
+  return {
+    async getBlock() {
+      return {
+        number: 1,
+        baseFeePerGas: gwei(current[0]),
+        gasUsed: 1n,
+        gasLimit: 2n,
+      };
+    },
+    async getFeeData() {
+      const tip = gwei(current[1]);
+      current = next();
+      return { maxPriorityFeePerGas: tip };
+    },
+  } as unknown as ethers.Provider;
+}
+
+const signer = {
+  async estimateGas() {
+    return 100_000n;
+  },
+} as unknown as ethers.Signer;
+
+describe("suggestFees", () => {
+  test("takes the median tip of the preset percentile", () => {
+    expect(suggestFees(history, "economy")).toEqual({
+      baseFeePerGas: gwei(40),
+      maxPriorityFeePerGas: gwei(2),
+      maxFeePerGas: gwei(50) + gwei(2),
+    });
+    expect(suggestFees(history, "fast").maxFeePerGas).toBe(gwei(100) + gwei(7));
+  });
+
+  test("rejects unknown presets", () => {
+    expect(() => suggestFees(history, "turbo" as "fast")).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe("FeeManager", () => {
+  test("leaves transactions alone without a strategy or ceiling", async () => {
+    const fees = new FeeManager(feedProvider([[30, 2]]));
+
+    expect(await fees.prepare(signer, { to: ethers.ZeroAddress })).toEqual({
+      to: ethers.ZeroAddress,
+    });
+  });
+
+  test("adds gas headroom and strategy fees", async () => {
+    const fees = new FeeManager(feedProvider([[30, 2]]), {
+      strategy: "standard",
+      gasLimitMultiplier: 1.2,
+    });
+
+    expect(await fees.prepare(signer, {})).toEqual({
+      gasLimit: 120_000n,
+      maxFeePerGas: gwei(62),
+      maxPriorityFeePerGas: gwei(2),
+    });
+  });
+
+  test("raises preset tips to the chain minimum", async () => {
+    const fees = new FeeManager(feedProvider([[30, 2]]), {}, gwei(25));
+
+    expect(await fees.suggest("economy")).toMatchObject({
+      maxPriorityFeePerGas: gwei(25),
+      maxFeePerGas: gwei(37.5) + gwei(25),
+    });
+  });
+
+  test("keeps explicit fees and urgent admin calls off the ceiling", async () => {
+    const fees = new FeeManager(feedProvider([[500, 2]]), {
+      ceiling: gwei(100),
+    });
+
+    await expect(
+      fees.prepare(signer, { gasPrice: gwei(1) }, {}, true)
+    ).resolves.toEqual({ gasPrice: gwei(1) });
+    await expect(
+      fees.prepare(signer, {}, { urgent: true }, true)
+    ).resolves.toEqual({});
+  });
+
+  test("rejects admin calls during a fee spike", async () => {
+    const fees = new FeeManager(feedProvider([[500, 2]]), {
+      ceiling: gwei(100),
+    });
+
+    const error = await fees
+      .prepare(signer, {}, {}, true)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(FeeCeilingExceededError);
+  });
+
+  test("queues admin calls until fees drop, capped at the ceiling", async () => {
+    const fees = new FeeManager(
+      feedProvider([
+        [500, 2],
+        [300, 2],
+        [60, 2],
+      ]),
+      { ceiling: gwei(100), onSpike: "queue", queuePollingInterval: 10 }
+    );
+
+    expect(await fees.prepare(signer, {}, {}, true)).toEqual({
+      maxFeePerGas: gwei(100),
+      maxPriorityFeePerGas: gwei(2),
+    });
+  });
+});
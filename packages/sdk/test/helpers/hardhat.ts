@@ -0,0 +1,143 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { createRequire } from "node:module";
+import * as path from "node:path";
+import { ethers } from "ethers";
+import { StableBirr } from "@/client";
+import { StableBirr__factory } from "@/typechain-types";
+import type { StableBirrConfig } from "@/types";
+
+const CONTRACTS_DIR = path.resolve(__dirname, "../../../contracts");
+const MNEMONIC = "test test test test test test test test test test test junk";
+const contractsRequire = createRequire(
+  path.join(CONTRACTS_DIR, "package.json")
+);
+
+/**
+ * A throwaway `hardhat node` (chain 31337) on a free port with fresh StableBirr deployments.
+ */
+export interface LocalChain {
+  url: string;
+  provider: ethers.JsonRpcProvider;
+  /** Hardhat's funded default accounts; `accounts[0]` is the admin and operator. */
+  accounts: ethers.HDNodeWallet[];
+  /** Deploy an unpaused StableBirr proxy and return its address. */
+  deploy(): Promise<string>;
+  /** A `local` SDK client for `contractAddress`, already verified when it has a signer. */
+  client(
+    contractAddress: string,
+    config?: Omit<StableBirrConfig, "network" | "rpcUrl" | "contractAddress">
+  ): Promise<StableBirr>;
+  /** Mine a block, e.g. to push an event past its confirmation depth. */
+  mine(blocks?: number): Promise<void>;
+  stop(): Promise<void>;
+}
+
+export async function startHardhat(): Promise<LocalChain> {
+  const node = spawn(
+    "node",
+    [
+      contractsRequire.resolve("hardhat/internal/cli/cli"),
+      "node",
+      "--port",
+      "0",
+    ],
+    { cwd: CONTRACTS_DIR, stdio: ["ignore", "pipe", "pipe"] }
+  );
+  const url = await listening(node);
+  const provider = new ethers.JsonRpcProvider(url, 31337, {
+    staticNetwork: true,
+    pollingInterval: 50,
+  });
+  const accounts = Array.from({ length: 10 }, (_, index) =>
+    ethers.HDNodeWallet.fromPhrase(
+      MNEMONIC,
+      undefined,
+      `m/44'/60'/0'/0/${index}`
+    ).connect(provider)
+  );
+  const deployer = new ethers.NonceManager(accounts[0]!);
+
+  return {
+    url,
+    provider,
+    accounts,
+    async deploy() {
+      const { abi, bytecode } = contractsRequire(
+        "@openzeppelin/contracts/build/contracts/ERC1967Proxy.json"
+      );
+      const implementation = await new StableBirr__factory(deployer).deploy();
+      await implementation.waitForDeployment();
+      const proxy = await new ethers.ContractFactory(
+        abi,
+        bytecode,
+        deployer
+      ).deploy(
+        await implementation.getAddress(),
+        StableBirr__factory.createInterface().encodeFunctionData("initialize", [
+          accounts[0]!.address,
+          accounts[0]!.address,
+        ])
+      );
+      await proxy.waitForDeployment();
+      const address = await proxy.getAddress();
+      await (
+        await StableBirr__factory.connect(address, deployer).unpause(
+          "Test deployment"
+        )
+      ).wait();
+      return address;
+    },
+    async client(contractAddress, config = {}) {
+      const sbirr = new StableBirr({
+        ...config,
+        network: "local",
+        rpcUrl: url,
+        contractAddress,
+      });
+      if (config.privateKey || config.signer) await sbirr.connect();
+      return sbirr;
+    },
+    async mine(blocks = 1) {
+      for (let i = 0; i < blocks; i++) await provider.send("evm_mine", []);
+    },
+    async stop() {
+      provider.destroy();
+      if (node.exitCode === null) {
+        const exited = new Promise((resolve) => node.once("exit", resolve));
+        node.kill();
+        await exited;
+      }
+    },
+  };
+}
+
+function listening(node: ChildProcess): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let output = "";
+    const timer = setTimeout(() => {
+      node.kill();
+      reject(new Error(`hardhat node did not start:\n${output}`));
+    }, 60_000);
+    node.stdout!.on("data", (chunk: Buffer) => {
+      output += chunk.toString();
+      const match = output.match(/JSON-RPC server at http:\/\/[^:]+:(\d+)/);
+      if (match) {
+        clearTimeout(timer);
+        resolve(`http://127.0.0.1:${match[1]}`);
+      }
+    });
+    node.stderr!.on("data", (chunk: Buffer) => (output += chunk.toString()));
+    node.once("exit", (code) => {
+      clearTimeout(timer);
+      reject(new Error(`hardhat node exited with ${code}:\n${output}`));
+    });
+  });
+}
+
+/**
+ * Wait out ethers' 250 ms cache of identical RPC requests, so a read or send right after an
+ * automined transaction sees the new block number and nonce.
+ */
+export function settle(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 300));
+}
@@ -0,0 +1,219 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { StableBirr__factory } from "@/typechain-types";
+import { NetworkError, ValidationError } from "@/core/errors";
+import {
+  decodeCursor,
+  encodeCursor,
+  fetchLogChunk,
+  isRangeTooLargeError,
+  isThrottledError,
+  scanPage,
+  type ChunkState,
+} from "@/resources/contract/handlers/history.handler";
+
+const address = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const contract = StableBirr__factory.connect(address);
+const iface: ethers.Interface = contract.interface;
+const filter = { address, topics: [] };
+
+function rpcError(code: number, message: string) {
+  return ethers.makeError("could not coalesce error", "UNKNOWN_ERROR", {
+    error: { code, message },
+  });
+}
+
+/** A provider whose `getLogs` is `handler`, recording every requested range. */
+function fakeProvider(handler: (from: number, to: number) => ethers.Log[]): {
+  provider: ethers.Provider;
+  ranges: Array<[number, number]>;
+} {
+  const ranges: Array<[number, number]> = [];
+  const provider = {
+    async getLogs(request: { fromBlock: number; toBlock: number }) {
+      ranges.push([request.fromBlock, request.toBlock]);
+      return handler(request.fromBlock, request.toBlock);
+    },
+  } as unknown as ethers.Provider;
+  return { provider, ranges };
+}
+
+function burnedLog(
+  blockNumber: number,
+  merchantId: string,
+  index = 0
+): ethers.Log {
+  return {
+    ...iface.encodeEventLog("Burned", [ethers.ZeroAddress, 1n, merchantId, 0n]),
+    blockNumber,
+    blockHash: ethers.ZeroHash,
+    transactionHash: ethers.id(merchantId),
+    index,
+  } as unknown as ethers.Log;
+}
+
+describe("error classification", () => {
+  test("recognizes range limits", () => {
+    expect(
+      isRangeTooLargeError(
+        rpcError(-32005, "query returned more than 10000 results")
+      )
+    ).toBe(true);
+    expect(
+      isRangeTooLargeError(rpcError(-32000, "block range is too wide"))
+    ).toBe(true);
+  });
+
+  test("treats a bare -32005 as throttling, not a range limit", () => {
+    const error = rpcError(-32005, "limit exceeded");
+
+    expect(isRangeTooLargeError(error)).toBe(false);
+    expect(isThrottledError(error)).toBe(true);
+  });
+
+  test("a range message wins over the throttling code", () => {
+    expect(
+      isThrottledError(
+        rpcError(-32005, "query returned more than 10000 results")
+      )
+    ).toBe(false);
+  });
+});
+
+describe("cursors", () => {
+  test("round-trip the scan", () => {
+    const scan = { event: "Minted" as const, next: 10, to: 99 };
+
+    expect(decodeCursor(encodeCursor(scan), "Minted")).toEqual(scan);
+  });
+
+  test("reject garbage and cursors of other events", () => {
+    const cursor = encodeCursor({ event: "Minted" as const, next: 1, to: 2 });
+
+    expect(() => decodeCursor("not base64!", "Minted")).toThrow(
+      ValidationError
+    );
+    expect(() => decodeCursor(cursor, "Burned")).toThrow(ValidationError);
+  });
+});
+
+describe("fetchLogChunk", () => {
+  const chunkState = (range: number, retries = 0): ChunkState => ({
+    range,
+    maxBlockRange: range,
+    retries,
+  });
+
+  test("halves the range until the RPC accepts it, then grows back", async () => {
+    const { provider, ranges } = fakeProvider((from, to) => {
+      if (to - from + 1 > 250) {
+        throw rpcError(-32005, "query returned more than 10000 results");
+      }
+      return [];
+    });
+    const state = chunkState(1000);
+
+    const result = await fetchLogChunk(provider, filter, 0, 5000, state, "x");
+
+    expect(result.to).toBe(249);
+    expect(ranges).toEqual([
+      [0, 999],
+      [0, 499],
+      [0, 249],
+    ]);
+    expect(state.range).toBe(500);
+  });
+
+  test("retries a throttled range without splitting it", async () => {
+    let calls = 0;
+    const { provider, ranges } = fakeProvider(() => {
+      if (calls++ === 0) throw rpcError(-32005, "limit exceeded");
+      return [];
+    });
+    const state = chunkState(1000, 1);
+
+    await fetchLogChunk(provider, filter, 0, 5000, state, "x");
+
+    expect(ranges).toEqual([
+      [0, 999],
+      [0, 999],
+    ]);
+  });
+
+  test("gives up on throttling with a retryable NetworkError", async () => {
+    const { provider, ranges } = fakeProvider(() => {
+      throw rpcError(-32005, "limit exceeded");
+    });
+
+    const error = await fetchLogChunk(
+      provider,
+      filter,
+      0,
+      5000,
+      chunkState(1000),
+      "Fetch failed"
+    ).catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(ranges).toHaveLength(1);
+  });
+});
+
+describe("scanPage", () => {
+  test("sorts events and pages by limit", async () => {
+    const { provider } = fakeProvider((from, to) =>
+      [burnedLog(5, "a"), burnedLog(3, "b"), burnedLog(12, "c")].filter(
+        (log) => log.blockNumber >= from && log.blockNumber <= to
+      )
+    );
+    const scan = { event: "Burned" as const, next: 0, to: 19 };
+    const limits = { limit: 2, maxBlockRange: 10, retries: 0 };
+
+    const first = await scanPage(contract, provider, scan, limits);
+    const rest = await scanPage(
+      contract,
+      provider,
+      decodeCursor(first.cursor!, "Burned"),
+      limits
+    );
+
+    const merchants = (page: typeof first) =>
+      page.events.map((event) => event.data.merchantId);
+    expect(merchants(first)).toEqual(["b", "a"]);
+    expect(first.toBlock).toBe(9);
+    expect(merchants(rest)).toEqual(["c"]);
+    expect(rest.cursor).toBeUndefined();
+  });
+
+  test("cuts a chunk with more events than the limit inside a block", async () => {
+    const logs = [
+      burnedLog(2, "a"),
+      burnedLog(4, "b", 0),
+      burnedLog(4, "c", 1),
+      burnedLog(4, "d", 2),
+      burnedLog(6, "e"),
+    ];
+    const { provider } = fakeProvider((from, to) =>
+      logs.filter((log) => log.blockNumber >= from && log.blockNumber <= to)
+    );
+    const scan = { event: "Burned" as const, next: 0, to: 9 };
+    const limits = { limit: 2, maxBlockRange: 10, retries: 0 };
+
+    const pages = [await scanPage(contract, provider, scan, limits)];
+    while (pages.at(-1)!.cursor) {
+      pages.push(
+        await scanPage(
+          contract,
+          provider,
+          decodeCursor(pages.at(-1)!.cursor!, "Burned"),
+          limits
+        )
+      );
+    }
+
+    expect(
+      pages.map((page) => page.events.map((event) => event.data.merchantId))
+    ).toEqual([["a", "b"], ["c", "d"], ["e"]]);
+    expect(pages.map((page) => page.toBlock)).toEqual([4, 4, 9]);
+  });
+});
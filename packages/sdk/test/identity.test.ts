@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { StableBirr } from "@/client";
+import { STABLEBIRR_ADDRESSES } from "@/constants/addresses";
+import { IdentityMismatchError, UnverifiedContractError } from "@/core/errors";
+import type { StableBirrConfig } from "@/types";
+import { startHardhat, type LocalChain } from "./helpers/hardhat";
+
+let chain: LocalChain;
+let token: string;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  token = await chain.deploy();
+});
+
+afterAll(() => chain?.stop());
+
+const sdk = (config: Partial<StableBirrConfig> = {}) =>
+  new StableBirr({
+    network: "local",
+    rpcUrl: chain.url,
+    privateKey: chain.accounts[0]!.privateKey,
+    ...config,
+  });
+
+/** The error `connect()` fails with. */
+const mismatch = (sbirr: StableBirr) =>
+  sbirr.connect().then(
+    () => {
+      throw new Error("Expected verification to fail");
+    },
+    (error: unknown) => error as IdentityMismatchError
+  );
+
+describe("verify", () => {
+  test("the default local address is the first proxy Hardhat deploys", async () => {
+    const sbirr = await sdk().connect();
+
+    expect(token).toBe(STABLEBIRR_ADDRESSES.local);
+    expect(sbirr.contract.identity).toMatchObject({
+      network: "local",
+      chainId: 31337,
+      address: token,
+      name: "StableBirr",
+      symbol: "SBirr",
+      decimals: 18,
+    });
+  });
+
+  test("refuses privileged calls until it passes", async () => {
+    const sbirr = sdk({ contractAddress: token });
+    const params = {
+      to: chain.accounts[1]!.address,
+      usdAmount: "1",
+      rate: "150",
+    };
+
+    const error = await sbirr.contract
+      .mint(params)
+      .catch((error: unknown) => error);
+    await sbirr.connect();
+    const tx = await sbirr.contract.mint(params);
+
+    expect(error).toBeInstanceOf(UnverifiedContractError);
+    expect((await tx.wait()).events.map((event) => event.name)).toContain(
+      "Minted"
+    );
+  });
+
+  test("rejects a provider on another chain", async () => {
+    const error = await mismatch(
+      sdk({ network: "polygon", contractAddress: token })
+    );
+
+    expect(error).toBeInstanceOf(IdentityMismatchError);
+    expect(error).toMatchObject({
+      check: "chainId",
+      expected: 137,
+      actual: 31337,
+    });
+  });
+
+  test("rejects addresses that are not a StableBirr proxy", async () => {
+    const implementation = ethers.getAddress(
+      ethers.dataSlice(
+        await chain.provider.getStorage(
+          token,
+          "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc"
+        ),
+        12
+      )
+    );
+
+    const empty = await mismatch(
+      sdk({ contractAddress: ethers.Wallet.createRandom().address })
+    );
+    const notProxy = await mismatch(sdk({ contractAddress: implementation }));
+
+    expect(empty.check).toBe("code");
+    expect(notProxy.check).toBe("implementation");
+  });
+
+  test("rejects a missing amoy address", async () => {
+    const error = await mismatch(sdk({ network: "amoy" }));
+
+    expect(error.check).toBe("address");
+  });
+});
@@ -0,0 +1,224 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { StableBirr__factory } from "@/typechain-types";
+import {
+  FileIndexerStore,
+  MemoryIndexerStore,
+  StableBirrIndexer,
+  type IndexedEvent,
+  type IndexerSnapshot,
+} from "@/resources/indexer";
+import { IndexerLedger } from "@/resources/indexer/indexer.ledger";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const alice = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const bob = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+function transfer(
+  blockNumber: number,
+  from: string,
+  to: string,
+  value: bigint
+): IndexedEvent {
+  return {
+    name: "Transfer",
+    blockNumber,
+    blockHash: ethers.ZeroHash,
+    transactionHash: ethers.ZeroHash,
+    logIndex: 0,
+    args: { from, to, value: value.toString() },
+  };
+}
+
+function snapshot(): IndexerSnapshot {
+  return {
+    version: 1,
+    address: ethers.ZeroAddress,
+    chainId: "31337",
+    startBlock: 0,
+    lastBlock: 1,
+    checkpoints: [{ number: 1, hash: ethers.id("1") }],
+    events: [transfer(1, ethers.ZeroAddress, alice, 5n)],
+  };
+}
+
+const chunk = (block: number) => ({
+  events: [transfer(block, alice, bob, 1n)],
+  lastBlock: block,
+  checkpoint: { number: block, hash: ethers.id(String(block)) },
+});
+
+describe("IndexerLedger", () => {
+  test("derives balances from transfers", () => {
+    const ledger = IndexerLedger.from([
+      transfer(1, ethers.ZeroAddress, alice, 10n),
+      transfer(2, alice, bob, 3n),
+      transfer(3, bob, ethers.ZeroAddress, 1n),
+    ]);
+
+    expect(ledger.balances.get(alice)).toBe(7n);
+    expect(ledger.balances.get(bob)).toBe(2n);
+    expect(ledger.balances.has(ethers.ZeroAddress)).toBe(false);
+  });
+});
+
+describe("FileIndexerStore", () => {
+  let dir: string;
+  let file: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "sbirr-indexer-"));
+  });
+  afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+  test("loads nothing before the first save", async () => {
+    file = path.join(dir, "missing.json");
+
+    expect(await new FileIndexerStore(file).load()).toBeUndefined();
+  });
+
+  test("appends ranges instead of rewriting the snapshot", async () => {
+    file = path.join(dir, "append.json");
+    const store = new FileIndexerStore(file);
+    await store.save(snapshot());
+    await store.append(chunk(2));
+    await store.append(chunk(3));
+
+    const lines = (await fs.readFile(file, "utf8")).trim().split("\n");
+    const loaded = await store.load();
+
+    expect(lines).toHaveLength(3);
+    expect(loaded?.lastBlock).toBe(3);
+    expect(loaded?.events).toHaveLength(3);
+    expect(loaded?.checkpoints.map((checkpoint) => checkpoint.number)).toEqual([
+      1, 2, 3,
+    ]);
+  });
+
+  test("drops a range torn by a crash and compacts the file", async () => {
+    file = path.join(dir, "torn.json");
+    const store = new FileIndexerStore(file);
+    await store.save(snapshot());
+    await store.append(chunk(2));
+    await fs.appendFile(file, JSON.stringify(chunk(3)).slice(0, 20));
+
+    const loaded = await store.load();
+    await store.append(chunk(3));
+
+    expect(loaded?.lastBlock).toBe(2);
+    expect((await store.load())?.lastBlock).toBe(3);
+  });
+
+  test("reads single-line snapshots", async () => {
+    file = path.join(dir, "legacy.json");
+    await fs.writeFile(file, JSON.stringify(snapshot()));
+
+    expect(await new FileIndexerStore(file).load()).toEqual(snapshot());
+  });
+});
+
+describe("StableBirrIndexer", () => {
+  let chain: LocalChain;
+  let admin: StableBirr;
+
+  const mint = async (to: string) => {
+    await (
+      await admin.contract.mint({ to, usdAmount: "1", rate: "150" })
+    ).wait();
+    await settle();
+  };
+
+  beforeAll(async () => {
+    chain = await startHardhat();
+    admin = await chain.client(await chain.deploy(), {
+      privateKey: chain.accounts[0]!.privateKey,
+    });
+  });
+  afterAll(() => chain?.stop());
+
+  test("rolls back and re-ingests after a reorg", async () => {
+    const indexer = admin.contract.createIndexer();
+    await indexer.sync();
+    const fork = await chain.provider.send("evm_snapshot", []);
+
+    await mint(alice);
+    await indexer.sync();
+    expect(await indexer.getBalance(alice)).toBe(ethers.parseEther("150"));
+
+    await chain.provider.send("evm_revert", [fork]);
+    await chain.mine();
+    await settle();
+    await mint(bob);
+    const result = await indexer.sync();
+
+    expect(result.rolledBackTo).toBeDefined();
+    expect(await indexer.getBalance(alice)).toBe(0n);
+    expect(await indexer.getBalance(bob)).toBe(ethers.parseEther("150"));
+  });
+
+  test("re-reads a range whose logs come from another fork", async () => {
+    await mint(alice);
+    let forged = false;
+    const provider = new Proxy(chain.provider, {
+      get(target, property) {
+        if (property === "getLogs") {
+          return async (filter: ethers.Filter) => {
+            const logs = await target.getLogs(filter);
+            if (forged || logs.length === 0) return logs;
+            forged = true;
+            return logs.map((log) => ({
+              ...log,
+              blockHash: ethers.id("fork"),
+            }));
+          };
+        }
+        const value = Reflect.get(target, property, target);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    });
+    const indexer = new StableBirrIndexer(
+      StableBirr__factory.connect(String(admin.contract.address), provider),
+      provider,
+      { store: new MemoryIndexerStore() }
+    );
+
+    await indexer.sync();
+
+    expect(forged).toBe(true);
+    const history = await indexer.getAccountHistory(alice);
+    expect(history.length).toBeGreaterThan(0);
+    expect(
+      history.every((event) => event.blockHash !== ethers.id("fork"))
+    ).toBe(true);
+  });
+
+  test("rebuilds a reopened store from its own start block", async () => {
+    await mint(alice);
+    const startBlock = await chain.provider.getBlockNumber();
+    const store = new MemoryIndexerStore();
+    await store.save({
+      version: 1,
+      address: String(admin.contract.address),
+      chainId: "31337",
+      startBlock,
+      lastBlock: startBlock,
+      checkpoints: [{ number: startBlock, hash: ethers.id("orphaned") }],
+      events: [],
+    });
+    const indexer = admin.contract.createIndexer({ store, fromBlock: 0 });
+
+    const result = await indexer.sync();
+
+    expect(result.rolledBackTo).toBe(startBlock - 1);
+    expect(result.fromBlock).toBe(startBlock);
+    expect(
+      (await indexer.getAccountHistory(alice)).every(
+        (event) => event.blockNumber >= startBlock
+      )
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { IdentityMismatchError, ValidationError } from "@/core/errors";
+import { StableBirrMultiNetwork } from "@/multi-network";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("routing", () => {
+  test("needs a chain definition for custom networks", () => {
+    const sbirr = new StableBirrMultiNetwork();
+
+    expect(() => sbirr.register("base-sepolia")).toThrow(ValidationError);
+    expect(() => sbirr.network("polygon")).toThrow("is not registered");
+  });
+
+  test("registers each network once", () => {
+    const sbirr = new StableBirrMultiNetwork({
+      networks: { local: { rpcUrl: "http://127.0.0.1:1" } },
+    });
+
+    expect(() => sbirr.register("local")).toThrow("already registered");
+    expect(sbirr.unregister("local")).toBe(true);
+    expect(sbirr.networks).toEqual([]);
+  });
+
+  test("refuses a connected signer as a shared default", () => {
+    const signer = ethers.Wallet.createRandom().connect(
+      new ethers.JsonRpcProvider("http://127.0.0.1:1", 137, {
+        staticNetwork: true,
+      })
+    );
+
+    expect(() => new StableBirrMultiNetwork({ defaults: { signer } })).toThrow(
+      ValidationError
+    );
+  });
+});
+
+describe("aggregated reads", () => {
+  let chain: LocalChain;
+  let sbirr: StableBirrMultiNetwork;
+
+  beforeAll(async () => {
+    chain = await startHardhat();
+    const first = await chain.deploy();
+    const second = await chain.deploy();
+    const define = (contractAddress: string) => ({
+      name: "Hardhat",
+      chainId: 31337,
+      rpcUrl: chain.url,
+      contractAddress,
+    });
+    sbirr = new StableBirrMultiNetwork({
+      defaults: { privateKey: chain.accounts[0]!.privateKey },
+      networks: { local: { rpcUrl: chain.url, contractAddress: first } },
+      chains: {
+        "local-copy": { chain: define(second) },
+        // No contract at this address, so every read fails
+        "local-empty": { chain: define(holder) },
+      },
+    });
+
+    for (const [network, usdAmount] of [
+      ["local", "1"],
+      ["local-copy", "2"],
+    ] as const) {
+      await sbirr.network(network).connect();
+      await (
+        await sbirr
+          .network(network)
+          .contract.mint({ to: holder, usdAmount, rate: "150" })
+      ).wait();
+      await settle();
+    }
+  });
+
+  afterAll(() => chain?.stop());
+
+  test("route calls by network", async () => {
+    const [local, copy] = await Promise.all([
+      sbirr.network("local").contract.getBalance(holder),
+      sbirr.network("local-copy").contract.getBalance(holder),
+    ]);
+
+    expect(local.formatted).toBe("150.0");
+    expect(copy.formatted).toBe("300.0");
+  });
+
+  test("sum the networks that answered and report the rest", async () => {
+    const supply = await sbirr.getTotalSupply();
+
+    expect(supply.total.formatted).toBe("450.0");
+    expect(Object.keys(supply.networks)).toEqual(["local", "local-copy"]);
+    expect(Object.keys(supply.errors)).toEqual(["local-empty"]);
+    expect(supply.complete).toBe(false);
+  });
+
+  test("aggregate only the requested networks", async () => {
+    const balance = await sbirr.getBalance(holder, ["local-copy"]);
+
+    expect(balance).toMatchObject({
+      total: { formatted: "300.0" },
+      complete: true,
+    });
+  });
+
+  test("connect verifies every network and reports the first failure", async () => {
+    const error = await sbirr.connect().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(IdentityMismatchError);
+    expect((error as IdentityMismatchError).check).toBe("code");
+    expect(sbirr.network("local").contract.identity?.chainId).toBe(31337);
+  });
+});
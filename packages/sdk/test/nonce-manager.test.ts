@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as fs from "node:fs/promises";
+import * as os from "node:os";
+import * as path from "node:path";
+import { ethers } from "ethers";
+import { NonceManagedSigner } from "@/core/nonce-manager";
+
+/**
+ * A signer backed by an in-memory "chain": sends with a taken nonce fail like a node would, and
+ * `taken` lets a test consume nonces behind the manager's back.
+ */
+function fakeSigner(pending = 0) {
+  const sent: number[] = [];
+  const taken = new Set<number>();
+  const signer = {
+    provider: null,
+    async getAddress() {
+      return "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+    },
+    async getNonce() {
+      return Math.max(pending, ...[...taken].map((nonce) => nonce + 1));
+    },
+    async estimateGas() {
+      return 21_000n;
+    },
+    async sendTransaction(tx: ethers.TransactionRequest) {
+      const nonce = Number(tx.nonce);
+      if (taken.has(nonce) || nonce < pending) {
+        throw ethers.makeError("nonce too low", "NONCE_EXPIRED", {
+          transaction: tx,
+        });
+      }
+      taken.add(nonce);
+      sent.push(nonce);
+      return { nonce } as ethers.TransactionResponse;
+    },
+  } as unknown as ethers.Signer;
+  return { signer, sent, taken };
+}
+
+describe("NonceManagedSigner", () => {
+  test("hands out consecutive nonces to concurrent sends", async () => {
+    const { signer, sent } = fakeSigner(4);
+    const manager = new NonceManagedSigner(signer);
+
+    await Promise.all(
+      Array.from({ length: 5 }, () => manager.sendTransaction({}))
+    );
+
+    expect(sent).toEqual([4, 5, 6, 7, 8]);
+    expect(await manager.getNonce("pending")).toBe(9);
+  });
+
+  test("skips a nonce taken by another sender", async () => {
+    const { signer, sent, taken } = fakeSigner();
+    const manager = new NonceManagedSigner(signer);
+    await manager.sendTransaction({});
+    taken.add(1);
+
+    await manager.sendTransaction({});
+
+    expect(sent).toEqual([0, 2]);
+  });
+
+  test("does not consume the nonce of a failed send", async () => {
+    const { signer, sent } = fakeSigner();
+    const manager = new NonceManagedSigner(signer);
+    const send = signer.sendTransaction.bind(signer);
+    signer.sendTransaction = async () => {
+      throw new Error("insufficient funds");
+    };
+
+    await expect(manager.sendTransaction({})).rejects.toThrow(
+      "insufficient funds"
+    );
+    signer.sendTransaction = send;
+    await manager.sendTransaction({});
+
+    expect(sent).toEqual([0]);
+  });
+
+  describe("with a lock file", () => {
+    let dir: string;
+
+    beforeAll(async () => {
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "sbirr-nonce-"));
+    });
+    afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+    test("shares nonces between signers of the same key", async () => {
+      const lockFile = path.join(dir, "nonces.json");
+      const { signer, sent } = fakeSigner();
+      const first = new NonceManagedSigner(signer, { lockFile });
+      const second = new NonceManagedSigner(signer, { lockFile });
+
+      await Promise.all([
+        first.sendTransaction({}),
+        second.sendTransaction({}),
+        first.sendTransaction({}),
+      ]);
+
+      expect(sent.sort()).toEqual([0, 1, 2]);
+      expect(JSON.parse(await fs.readFile(lockFile, "utf8"))).toEqual({
+        "0x70997970c51812dc3a010c7d01b50e0d17dc79c8": 3,
+      });
+    });
+
+    test("breaks a stale lock", async () => {
+      const lockFile = path.join(dir, "stale.json");
+      await fs.writeFile(`${lockFile}.lock`, "1");
+      const { signer, sent } = fakeSigner();
+      const manager = new NonceManagedSigner(signer, {
+        lockFile,
+        staleLockAfter: 0,
+      });
+
+      await manager.sendTransaction({});
+
+      expect(sent).toEqual([0]);
+    });
+  });
+});
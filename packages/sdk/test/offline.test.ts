@@ -0,0 +1,161 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { ValidationError } from "@/core/errors";
+import { FeeManager } from "@/core/fees";
+import { StableBirr__factory } from "@/typechain-types";
+import { StableBirrOffline } from "@/resources/contract/contract.offline";
+
+const token = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const account = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const admin = new ethers.Wallet(ethers.id("offline admin"));
+
+/** The online side: chain 137, the admin's pending nonce is 4, and broadcasts are recorded. */
+function onlineProvider() {
+  const broadcasts: string[] = [];
+  const provider = {
+    async getNetwork() {
+      return new ethers.Network("matic", 137n);
+    },
+    async getTransactionCount() {
+      return 4;
+    },
+    async estimateGas() {
+      return 60_000n;
+    },
+    async getFeeData() {
+      return new ethers.FeeData(null, 50n, 2n);
+    },
+    async getBlockNumber() {
+      return 1;
+    },
+    async broadcastTransaction(signed: string) {
+      broadcasts.push(signed);
+      return { hash: ethers.keccak256(signed), nonce: 4 };
+    },
+  } as unknown as ethers.Provider;
+  return { provider, broadcasts };
+}
+
+function offline(provider: ethers.Provider, signer?: ethers.Signer) {
+  return new StableBirrOffline(
+    StableBirr__factory.connect(token),
+    provider,
+    new FeeManager(provider),
+    signer
+  );
+}
+
+describe("calldata", () => {
+  const { provider } = onlineProvider();
+
+  test("encodes validated params and decodes them back", () => {
+    const call = offline(provider).encode("freeze", {
+      account,
+      reason: "CASE-1",
+    });
+
+    expect(call).toMatchObject({
+      to: token,
+      method: "freeze",
+      args: { account, reason: "CASE-1" },
+    });
+    const tx = ethers.Transaction.from({ to: token, data: call.data });
+    expect(offline(provider).decode(tx.unsignedSerialized)).toMatchObject({
+      signed: false,
+      method: "freeze",
+      args: call.args,
+    });
+  });
+
+  test("rejects params the SDK method would reject", () => {
+    expect(() =>
+      offline(provider).encode("blacklist", { account: "0x1234" })
+    ).toThrow(ValidationError);
+  });
+
+  test("leaves calls to other contracts undecoded", () => {
+    const tx = ethers.Transaction.from({ to: account, data: "0xabcdef01" });
+
+    expect(offline(provider).decode(tx.unsignedSerialized).method).toBe(
+      undefined
+    );
+  });
+});
+
+describe("offline signing", () => {
+  test("builds, signs without a provider, verifies and broadcasts", async () => {
+    const { provider, broadcasts } = onlineProvider();
+    const online = offline(provider);
+    const airGapped = offline({} as ethers.Provider, admin);
+
+    const unsigned = await online.buildUnsigned(
+      "pause",
+      { reason: "INC-42" },
+      { from: admin.address }
+    );
+    const signed = await airGapped.sign(unsigned.serialized);
+    const tx = await online.broadcast(signed, unsigned);
+
+    expect(unsigned).toMatchObject({
+      from: admin.address,
+      nonce: 4,
+      chainId: 137n,
+      gasLimit: 60_000n,
+      maxFeePerGas: 50n,
+      maxPriorityFeePerGas: 2n,
+    });
+    expect(online.verify(signed, unsigned)).toMatchObject({
+      valid: true,
+      transaction: { from: admin.address, method: "pause" },
+    });
+    expect(broadcasts).toEqual([signed]);
+    expect(tx.nonce).toBe(4);
+  });
+
+  test("refuses to broadcast a transaction that differs from the intent", async () => {
+    const { provider, broadcasts } = onlineProvider();
+    const online = offline(provider);
+    const intended = await online.buildUnsigned(
+      "blacklist",
+      { account },
+      { from: admin.address }
+    );
+    const swapped = await online.buildUnsigned(
+      "blacklist",
+      { account: admin.address, options: { nonce: 9 } },
+      { from: admin.address }
+    );
+    const signed = await offline({} as ethers.Provider, admin).sign(
+      swapped.serialized
+    );
+
+    const verification = online.verify(signed, intended);
+
+    expect(verification.valid).toBe(false);
+    expect(verification.mismatches.map((line) => line.split(":")[0])).toEqual([
+      "data",
+      "nonce",
+    ]);
+    await expect(online.broadcast(signed, intended)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(online.broadcast(intended.serialized)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(broadcasts).toHaveLength(0);
+  });
+
+  test("will not re-sign a signed transaction", async () => {
+    const { provider } = onlineProvider();
+    const unsigned = await offline(provider).buildUnsigned(
+      "unpause",
+      { reason: "INC-42" },
+      { from: admin.address }
+    );
+    const airGapped = offline({} as ethers.Provider, admin);
+
+    await expect(
+      airGapped.sign(await airGapped.sign(unsigned.serialized))
+    ).rejects.toThrow("already signed");
+  });
+});
@@ -0,0 +1,128 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { ValidationError } from "@/core/errors";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+let chain: LocalChain;
+let owner: StableBirr;
+let spender: StableBirr;
+let ownerAddress: string;
+let spenderAddress: string;
+const recipient = ethers.Wallet.createRandom().address;
+const deadline = () => Math.floor(Date.now() / 1000) + 3600;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  const token = await chain.deploy();
+  const admin = await chain.client(token, {
+    privateKey: chain.accounts[0]!.privateKey,
+  });
+  owner = await chain.client(token, {
+    privateKey: chain.accounts[1]!.privateKey,
+  });
+  spender = await chain.client(token, {
+    privateKey: chain.accounts[2]!.privateKey,
+  });
+  ownerAddress = chain.accounts[1]!.address;
+  spenderAddress = chain.accounts[2]!.address;
+
+  await (
+    await admin.contract.mint({ to: ownerAddress, usdAmount: "1", rate: "150" })
+  ).wait();
+  await settle();
+});
+
+afterAll(() => chain?.stop());
+
+describe("signPermit", () => {
+  test("signs for the owner's current nonce", async () => {
+    const permit = await owner.contract.signPermit({
+      owner: ownerAddress,
+      spender: spenderAddress,
+      value: "10",
+      deadline: deadline(),
+    });
+
+    expect(permit).toMatchObject({
+      owner: ownerAddress,
+      spender: spenderAddress,
+      value: "10.0",
+      nonce: 0n,
+    });
+  });
+
+  test("refuses expired permits and foreign owners", async () => {
+    await expect(
+      owner.contract.signPermit({
+        owner: ownerAddress,
+        spender: spenderAddress,
+        value: "10",
+        deadline: 1,
+      })
+    ).rejects.toThrow("deadline has already passed");
+    await expect(
+      owner.contract.signPermit({
+        owner: spenderAddress,
+        spender: ownerAddress,
+        value: "10",
+        deadline: deadline(),
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
+
+describe("permitAndTransferFrom", () => {
+  test("submits the permit and pulls the funds", async () => {
+    const permit = await owner.contract.signPermit({
+      owner: ownerAddress,
+      spender: spenderAddress,
+      value: "10",
+      deadline: deadline(),
+    });
+
+    await (
+      await spender.contract.permitAndTransferFrom({
+        ...permit,
+        to: recipient,
+        amount: "4",
+      })
+    ).wait();
+    await settle();
+
+    expect((await owner.contract.getBalance(recipient)).formatted).toBe("4.0");
+    expect(await owner.contract.getPermitNonce(ownerAddress)).toBe(1n);
+  });
+
+  test("skips a permit someone else already submitted", async () => {
+    const permit = await owner.contract.signPermit({
+      owner: ownerAddress,
+      spender: spenderAddress,
+      value: "5",
+      deadline: deadline(),
+    });
+    await (await spender.contract.permit(permit)).wait();
+    await settle();
+
+    await (
+      await spender.contract.permitAndTransferFrom({ ...permit, to: recipient })
+    ).wait();
+    await settle();
+
+    expect((await owner.contract.getBalance(recipient)).formatted).toBe("9.0");
+    expect(await owner.contract.getPermitNonce(ownerAddress)).toBe(2n);
+  });
+
+  test("requires the caller to be the permitted spender", async () => {
+    const permit = await owner.contract.signPermit({
+      owner: ownerAddress,
+      spender: recipient,
+      value: "1",
+      deadline: deadline(),
+    });
+
+    await expect(
+      spender.contract.permitAndTransferFrom({ ...permit, to: recipient })
+    ).rejects.toThrow("is not the configured signer");
+  });
+});
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { ValidationError } from "@/core/errors";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+let chain: LocalChain;
+let admin: StableBirr;
+let reader: StableBirr;
+const holder = ethers.Wallet.createRandom().address;
+const flagged = ethers.Wallet.createRandom().address;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  const address = await chain.deploy();
+  admin = await chain.client(address, {
+    privateKey: chain.accounts[0]!.privateKey,
+  });
+  reader = await chain.client(address);
+
+  await (
+    await admin.contract.mint({ to: holder, usdAmount: "1", rate: "150" })
+  ).wait();
+  await settle();
+  await (await admin.contract.blacklist({ account: flagged })).wait();
+  await settle();
+  await (
+    await admin.contract.freeze({ account: flagged, reason: "CASE-1" })
+  ).wait();
+  await settle();
+});
+
+afterAll(() => chain?.stop());
+
+describe("preflight", () => {
+  test("passes a valid mint", async () => {
+    const result = await admin.contract.preflight.mint({
+      to: holder,
+      usdAmount: "1",
+      rate: "150",
+    });
+
+    expect(result).toMatchObject({ ok: true, violations: [] });
+  });
+
+  test("lists every violated rule at once", async () => {
+    const stranger = chain.accounts[5]!.address;
+    const result = await reader.contract.preflight.mint(
+      { to: flagged, usdAmount: "1", rate: "150" },
+      { caller: stranger }
+    );
+
+    expect(result.ok).toBe(false);
+    expect(result.violations.map((violation) => violation.code)).toEqual([
+      "NOT_AUTHORIZED_MINTER",
+      "ACCOUNT_BLACKLISTED",
+      "ACCOUNT_FROZEN",
+    ]);
+  });
+
+  test("reports balances behind a failed transfer", async () => {
+    const result = await reader.contract.preflight.transfer(
+      { to: chain.accounts[1]!.address, amount: "200" },
+      { caller: holder }
+    );
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        code: "INSUFFICIENT_BALANCE",
+        account: holder,
+        values: {
+          balance: ethers.parseEther("150"),
+          needed: ethers.parseEther("200"),
+        },
+      }),
+    ]);
+  });
+
+  test("needs a caller when there is no signer", async () => {
+    await expect(
+      reader.contract.preflight.burn({
+        from: holder,
+        amount: "1",
+        merchantId: "M-1",
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+  });
+});
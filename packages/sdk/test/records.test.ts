@@ -0,0 +1,107 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { ValidationError } from "@/core/errors";
+import {
+  computeBurnRecordId,
+  computeMintRecordId,
+} from "@/resources/contract/handlers/records.handler";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("record IDs", () => {
+  test("hash the packed mint arguments", () => {
+    const packed = ethers.concat([
+      holder,
+      ethers.toBeHex(1500n, 32),
+      ethers.toBeHex(10n, 32),
+      ethers.toBeHex(150n, 32),
+      ethers.toBeHex(1_700_000_000, 32),
+    ]);
+
+    expect(computeMintRecordId(holder, 1500n, 10n, 150n, 1_700_000_000)).toBe(
+      ethers.keccak256(packed)
+    );
+  });
+
+  test("hash the merchant ID as raw bytes", () => {
+    const packed = ethers.concat([
+      holder,
+      ethers.toBeHex(5n, 32),
+      ethers.toUtf8Bytes("M-1"),
+      ethers.toBeHex(1_700_000_000, 32),
+    ]);
+
+    expect(computeBurnRecordId(holder, 5n, "M-1", 1_700_000_000n)).toBe(
+      ethers.keccak256(packed)
+    );
+  });
+});
+
+describe("record lookups", () => {
+  let chain: LocalChain;
+  let admin: StableBirr;
+
+  beforeAll(async () => {
+    chain = await startHardhat();
+    admin = await chain.client(await chain.deploy(), {
+      privateKey: chain.accounts[0]!.privateKey,
+    });
+  });
+  afterAll(() => chain?.stop());
+
+  test("resolve the mint record of a transaction", async () => {
+    const receipt = await (
+      await admin.contract.mint({ to: holder, usdAmount: "10", rate: "150" })
+    ).wait();
+    await settle();
+    const block = await chain.provider.getBlock(receipt.blockNumber);
+
+    const [record] = await admin.contract.getMintRecordsByTransaction(
+      receipt.hash
+    );
+
+    expect(record).toMatchObject({
+      to: holder,
+      usdAmount: { formatted: "10.0" },
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    });
+    expect(record!.recordId).toBe(
+      admin.contract.computeMintRecordId(
+        { to: holder, usdAmount: "10", rate: "150" },
+        block!.timestamp
+      )
+    );
+    expect(await admin.contract.getMintRecord(record!.recordId)).toMatchObject({
+      recordId: record!.recordId,
+      timestamp: block!.timestamp,
+    });
+  });
+
+  test("resolve the burn record of a transaction", async () => {
+    const receipt = await (
+      await admin.contract.burn({
+        from: holder,
+        amount: "100",
+        merchantId: "M-9",
+      })
+    ).wait();
+    await settle();
+
+    const [record] = await admin.contract.getBurnRecordsByTransaction(
+      receipt.hash
+    );
+
+    expect(record).toMatchObject({ from: holder, merchantId: "M-9" });
+    expect(await admin.contract.getBurnRecord(record!.recordId)).not.toBeNull();
+  });
+
+  test("return null for unknown IDs and reject malformed ones", async () => {
+    expect(await admin.contract.getMintRecord(ethers.ZeroHash)).toBeNull();
+    await expect(admin.contract.getBurnRecord("0x1234")).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
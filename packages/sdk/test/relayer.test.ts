@@ -0,0 +1,114 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { RateLimitError, ValidationError } from "@/core/errors";
+import { RelayerRateLimiter } from "@/resources/relayer/relayer.limiter";
+import type { RelayerServer } from "@/resources/relayer/relayer.types";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const account = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+describe("RelayerRateLimiter", () => {
+  test("limits relays per owner within the window", () => {
+    const limiter = new RelayerRateLimiter({ maxRequests: 2, windowMs: 1000 });
+
+    limiter.consume(account, 1n, 0);
+    limiter.consume(account.toLowerCase(), 1n, 100);
+    const error = (() => {
+      try {
+        limiter.consume(account, 1n, 500);
+      } catch (error: unknown) {
+        return error;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfterMs).toBe(500);
+    expect(() => limiter.consume(account, 1n, 1000)).not.toThrow();
+  });
+
+  test("limits the amount moved per window", () => {
+    const limiter = new RelayerRateLimiter({ maxAmount: "10" });
+
+    limiter.consume(account, ethers.parseEther("6"), 0);
+
+    expect(() => limiter.consume(account, ethers.parseEther("5"), 1)).toThrow(
+      RateLimitError
+    );
+    expect(() => limiter.consume(account, ethers.parseEther("11"), 1)).toThrow(
+      ValidationError
+    );
+    expect(() =>
+      limiter.consume(account, ethers.parseEther("4"), 1)
+    ).not.toThrow();
+  });
+});
+
+describe("relayer over HTTP", () => {
+  let chain: LocalChain;
+  let owner: StableBirr;
+  let server: RelayerServer;
+  const recipient = ethers.Wallet.createRandom().address;
+
+  beforeAll(async () => {
+    chain = await startHardhat();
+    const token = await chain.deploy();
+    const admin = await chain.client(token, {
+      privateKey: chain.accounts[0]!.privateKey,
+    });
+    owner = await chain.client(token, {
+      privateKey: chain.accounts[1]!.privateKey,
+    });
+    const relayerSdk = await chain.client(token, {
+      privateKey: chain.accounts[3]!.privateKey,
+    });
+
+    await (
+      await admin.contract.mint({
+        to: chain.accounts[1]!.address,
+        usdAmount: "1",
+        rate: "150",
+      })
+    ).wait();
+    await settle();
+    server = await relayerSdk.contract
+      .createRelayer({ rateLimit: { maxRequests: 3 } })
+      .listen({ port: 0 });
+  });
+
+  afterAll(async () => {
+    await server?.close();
+    chain?.stop();
+  });
+
+  test("relays a signed permit and intent end to end", async () => {
+    const client = owner.contract.createRelayerClient(server.url);
+
+    const info = await client.info();
+    const result = await client.transfer({ to: recipient, amount: "7" });
+    await settle();
+
+    expect(info.relayer).toBe(chain.accounts[3]!.address);
+    expect(result).toMatchObject({ to: recipient, amount: "7.0" });
+    expect((await owner.contract.getBalance(recipient)).formatted).toBe("7.0");
+    expect(
+      await owner.contract.getPermitNonce(chain.accounts[1]!.address)
+    ).toBe(1n);
+  });
+
+  test("rejects a replayed request without charging the quota", async () => {
+    const client = owner.contract.createRelayerClient(server.url);
+    const request = await client.sign({ to: recipient, amount: "1" });
+    await client.relay(request);
+    await settle();
+
+    const replay = await client.relay(request).catch((error: unknown) => error);
+    const fresh = await client.sign({ to: recipient, amount: "1" });
+    await client.relay(fresh);
+    await settle();
+
+    expect(replay).toBeInstanceOf(ValidationError);
+    expect((replay as ValidationError).message).toContain("no longer current");
+    expect((await owner.contract.getBalance(recipient)).formatted).toBe("9.0");
+  });
+});
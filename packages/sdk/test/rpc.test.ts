@@ -0,0 +1,238 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import { NetworkError, QuorumNotReachedError } from "@/core/errors";
+import { FallbackRpcProvider } from "@/core/rpc";
+import type { RpcConfig } from "@/types";
+
+const token = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+
+type Reply =
+  | { result: unknown }
+  | { error: { code: number; message: string; data?: string } }
+  | { status: number; retryAfter?: string };
+
+/**
+ * A stand-in JSON-RPC endpoint on Polygon (or `chainId`). `reply` answers everything but
+ * `eth_chainId`; every request is recorded.
+ */
+async function startEndpoint(
+  reply: (method: string, params: any[]) => Reply,
+  chainId = 137
+) {
+  const requests: Array<{ method: string; params: any[] }> = [];
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", () => {
+      const { id, method, params } = JSON.parse(raw);
+      requests.push({ method, params });
+      const answer: Reply =
+        method === "eth_chainId"
+          ? { result: ethers.toQuantity(chainId) }
+          : reply(method, params);
+      if ("status" in answer) {
+        const headers = answer.retryAfter
+          ? { "retry-after": answer.retryAfter }
+          : undefined;
+        res.writeHead(answer.status, headers).end();
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({ jsonrpc: "2.0", id, ...answer }));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  servers.push(server);
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    calls: (method: string) =>
+      requests.filter((request) => request.method === method),
+  };
+}
+
+const servers: http.Server[] = [];
+const providers: FallbackRpcProvider[] = [];
+
+afterEach(async () => {
+  providers.splice(0).forEach((provider) => provider.destroy());
+  await Promise.all(
+    servers
+      .splice(0)
+      .map((server) => new Promise((resolve) => server.close(resolve)))
+  );
+});
+
+function provider(config: RpcConfig, chainId?: number) {
+  const created = new FallbackRpcProvider(
+    { retryDelay: 10, maxRetryDelay: 50, timeout: 2_000, ...config },
+    { chainId }
+  );
+  providers.push(created);
+  return created;
+}
+
+const block = (number: number) => () => ({
+  result: ethers.toQuantity(number),
+});
+
+describe("failover", () => {
+  test("moves to the next endpoint on HTTP errors", async () => {
+    const down = await startEndpoint(() => ({ status: 503 }));
+    const backup = await startEndpoint(block(16));
+    const rpc = provider({
+      endpoints: [
+        { url: down.url, priority: 0 },
+        { url: backup.url, priority: 1 },
+      ],
+    });
+
+    const head = await rpc.send("eth_blockNumber", []);
+
+    expect(head).toBe("0x10");
+    expect(rpc.health().map((endpoint) => endpoint.failures)).toEqual([1, 0]);
+    expect(rpc.health()[0]!.coolingDownUntil).toBeGreaterThan(0);
+  });
+
+  test("counts rate limiting and honours Retry-After", async () => {
+    const throttled = await startEndpoint(() => ({
+      status: 429,
+      retryAfter: "30",
+    }));
+    const limited = await startEndpoint(() => ({
+      error: { code: -32005, message: "daily request limit reached" },
+    }));
+    const backup = await startEndpoint(block(7));
+    const rpc = provider({
+      endpoints: [
+        { url: throttled.url, priority: 0 },
+        { url: limited.url, priority: 1 },
+        { url: backup.url, priority: 2 },
+      ],
+      maxRetryDelay: 60_000,
+    });
+
+    await rpc.send("eth_blockNumber", []);
+    const [http429, rpc429] = rpc.health();
+
+    expect(http429!.throttled).toBe(1);
+    expect(rpc429!.throttled).toBe(1);
+    expect(http429!.coolingDownUntil! - Date.now()).toBeGreaterThan(25_000);
+  });
+
+  test("retries with backoff until an endpoint recovers", async () => {
+    let failures = 2;
+    const flaky = await startEndpoint(() =>
+      failures-- > 0 ? { status: 502 } : { result: "0x1" }
+    );
+    const rpc = provider({ endpoints: [flaky.url], retries: 3 });
+
+    expect(await rpc.send("eth_blockNumber", [])).toBe("0x1");
+    expect(flaky.calls("eth_blockNumber")).toHaveLength(3);
+  });
+
+  test("gives up after the configured rounds", async () => {
+    const down = await startEndpoint(() => ({ status: 500 }));
+    const rpc = provider({ endpoints: [down.url], retries: 1 });
+
+    await expect(rpc.send("eth_blockNumber", [])).rejects.toBeInstanceOf(
+      NetworkError
+    );
+    expect(down.calls("eth_blockNumber")).toHaveLength(2);
+  });
+
+  test("returns JSON-RPC errors such as reverts without failing over", async () => {
+    const primary = await startEndpoint(() => ({
+      error: { code: 3, message: "execution reverted", data: "0x" },
+    }));
+    const backup = await startEndpoint(block(1));
+    const rpc = provider({
+      endpoints: [
+        { url: primary.url, priority: 0 },
+        { url: backup.url, priority: 1 },
+      ],
+    });
+
+    await expect(
+      rpc.send("eth_call", [{ to: token, data: "0x18160ddd" }, "latest"])
+    ).rejects.toThrow();
+    expect(backup.calls("eth_call")).toHaveLength(0);
+  });
+
+  test("takes endpoints on another chain out of rotation", async () => {
+    const amoy = await startEndpoint(block(1), 80002);
+    const polygon = await startEndpoint(block(2));
+    const rpc = provider(
+      {
+        endpoints: [
+          { url: amoy.url, priority: 0 },
+          { url: polygon.url, priority: 1 },
+        ],
+      },
+      137
+    );
+
+    expect(await rpc.send("eth_blockNumber", [])).toBe("0x2");
+    expect(await rpc.send("eth_blockNumber", [])).toBe("0x2");
+    expect(rpc.health()[0]!.disabled).toBe("on chain 80002, expected 137");
+    expect(amoy.calls("eth_blockNumber")).toHaveLength(0);
+  });
+});
+
+describe("quorum", () => {
+  const supply = (value: bigint) =>
+    ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [value]);
+  const call = [{ to: token, data: "0x18160ddd" }, "latest"];
+
+  test("answers once enough endpoints agree at a pinned block", async () => {
+    const a = await startEndpoint((method) =>
+      method === "eth_call" ? { result: supply(5n) } : block(12)()
+    );
+    const b = await startEndpoint((method) =>
+      method === "eth_call" ? { result: supply(9n) } : block(10)()
+    );
+    const c = await startEndpoint((method) =>
+      method === "eth_call" ? { result: supply(5n) } : block(11)()
+    );
+    const rpc = provider({
+      endpoints: [
+        { url: a.url, priority: 0 },
+        { url: b.url, priority: 1 },
+        { url: c.url, priority: 2 },
+      ],
+      quorum: { size: 2 },
+    });
+
+    const result = await rpc.send("eth_call", call);
+
+    expect(result).toBe(supply(5n));
+    expect(a.calls("eth_call")[0]!.params[1]).toBe("0xa");
+    expect(c.calls("eth_call")).toHaveLength(1);
+  });
+
+  test("fails when too few endpoints agree", async () => {
+    const endpoints = await Promise.all(
+      [1n, 2n].map((value) =>
+        startEndpoint((method) =>
+          method === "eth_call" ? { result: supply(value) } : block(3)()
+        )
+      )
+    );
+    const rpc = provider({
+      endpoints: endpoints.map((endpoint) => endpoint.url),
+      quorum: { size: 2 },
+    });
+
+    const error = await rpc
+      .send("eth_call", call)
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(QuorumNotReachedError);
+    expect(
+      Object.values((error as QuorumNotReachedError).results).sort()
+    ).toEqual([`result:"${supply(1n)}"`, `result:"${supply(2n)}"`]);
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import { ValidationError } from "@/core/errors";
+import { StableBirr__factory } from "@/typechain-types";
+import { StableBirrSafe } from "@/resources/contract/contract.safe";
+import {
+  buildMultiSend,
+  encodeMultiSend,
+} from "@/resources/contract/handlers/safe.handler";
+import type { SafeTransactionData } from "@/resources/contract/contract.types";
+
+const token = "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512";
+const safeAddress = "0x5FbDB2315678afecb367f032d93F642f64180aa3";
+const account = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const owner = new ethers.Wallet(ethers.id("safe owner"));
+
+/** Polygon, with a Safe whose `nonce()` is 7. */
+const provider = {
+  async getNetwork() {
+    return new ethers.Network("matic", 137n);
+  },
+  async call() {
+    return ethers.AbiCoder.defaultAbiCoder().encode(["uint256"], [7n]);
+  },
+} as unknown as ethers.Provider;
+
+const safe = new StableBirrSafe(
+  StableBirr__factory.connect(token),
+  provider,
+  { address: safeAddress },
+  owner
+);
+
+const raw = (
+  to: string,
+  value: string,
+  data: string,
+  operation: 0 | 1 = 0
+): SafeTransactionData => ({
+  to,
+  value,
+  data,
+  operation,
+  method: "",
+  args: {},
+});
+
+/** `getTransactionHash` as implemented by the Safe contract (v1.3.0+). */
+function safeContractHash(tx: SafeTransactionData, nonce: bigint): string {
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const domainSeparator = ethers.keccak256(
+    coder.encode(
+      ["bytes32", "uint256", "address"],
+      [
+        ethers.id("EIP712Domain(uint256 chainId,address verifyingContract)"),
+        137n,
+        safeAddress,
+      ]
+    )
+  );
+  const safeTx = ethers.keccak256(
+    coder.encode(
+      [
+        "bytes32",
+        "address",
+        "uint256",
+        "bytes32",
+        "uint8",
+        "uint256",
+        "uint256",
+        "uint256",
+        "address",
+        "address",
+        "uint256",
+      ],
+      [
+        "0xbb8310d486368db6bd6f849402fdd73ad53d316b5a4b2644ad6efe0f941286d8",
+        tx.to,
+        tx.value,
+        ethers.keccak256(tx.data),
+        tx.operation,
+        0n,
+        0n,
+        0n,
+        ethers.ZeroAddress,
+        ethers.ZeroAddress,
+        nonce,
+      ]
+    )
+  );
+  return ethers.keccak256(ethers.concat(["0x1901", domainSeparator, safeTx]));
+}
+
+describe("MultiSend", () => {
+  test("packs operation, target, value, length and data per call", () => {
+    const calls = [raw(token, "0", "0xabcdef"), raw(account, "5", "0x")];
+
+    expect(encodeMultiSend(calls)).toBe(
+      ethers.concat([
+        "0x00",
+        token,
+        ethers.toBeHex(0, 32),
+        ethers.toBeHex(3, 32),
+        "0xabcdef",
+        "0x00",
+        account,
+        ethers.toBeHex(5, 32),
+        ethers.toBeHex(0, 32),
+      ])
+    );
+  });
+
+  test("flattens nested batches into one delegatecall", () => {
+    const inner = safe.batch([safe.blacklist({ account })]);
+    const batch = safe.batch([inner, safe.pause({ reason: "INC-7" })]);
+
+    expect(batch).toMatchObject({ operation: 1, args: { transactions: "2" } });
+    expect(batch.transactions!.map((tx) => tx.method)).toEqual([
+      "blacklist",
+      "pause",
+    ]);
+  });
+
+  test("rejects empty batches and delegatecalls", () => {
+    expect(() => safe.batch([])).toThrow(ValidationError);
+    expect(() =>
+      buildMultiSend(safeAddress, [raw(token, "0", "0x", 1)])
+    ).toThrow("delegatecalls");
+  });
+});
+
+describe("Safe transactions", () => {
+  test("hash proposals the way the Safe contract does", async () => {
+    const proposal = safe.setSupplyCap({ cap: "5000000" });
+
+    const prepared = await safe.prepare(proposal);
+
+    expect(prepared).toMatchObject({ chainId: 137n, nonce: 7n });
+    expect(prepared.safeTxHash).toBe(safeContractHash(proposal, 7n));
+  });
+
+  test("binds the hash to the nonce", async () => {
+    const proposal = safe.unpause({ reason: "INC-7" });
+
+    expect(await safe.getTransactionHash(proposal, { nonce: 8 })).toBe(
+      safeContractHash(proposal, 8n)
+    );
+  });
+
+  test("signs as a Safe owner", async () => {
+    const prepared = await safe.prepare(safe.blacklist({ account }));
+    const { domain, types, message } = prepared.typedData;
+
+    const signature = await safe.sign(prepared);
+
+    expect(signature.signer).toBe(owner.address);
+    expect(
+      ethers.verifyTypedData(domain, types, message, signature.signature)
+    ).toBe(owner.address);
+  });
+
+  test("exports batches for the Transaction Builder call by call", async () => {
+    const batch = safe.batch([
+      safe.blacklist({ account }),
+      safe.freeze({ account, reason: "CASE-1" }),
+    ]);
+
+    const file = await safe.toTransactionBuilderJson([batch]);
+
+    expect(file.chainId).toBe("137");
+    expect(file.meta.createdFromSafeAddress).toBe(safeAddress);
+    expect(file.transactions.map((tx) => tx.data)).toEqual(
+      batch.transactions!.map((tx) => tx.data)
+    );
+  });
+});
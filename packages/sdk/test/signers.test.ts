@@ -0,0 +1,210 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import { StableBirrError, ValidationError } from "@/core/errors";
+import { createSigner, KeystoreSigner, RemoteSigner } from "@/core/signers";
+
+const wallet = new ethers.Wallet(ethers.id("remote signer"));
+
+/**
+ * A JSON-RPC signing service holding `wallet`. `failNext` makes the next request answer with an
+ * HTTP 503 or a JSON-RPC error; every request is recorded.
+ */
+async function startSigningService() {
+  const requests: Array<{ method: string; params: any[]; auth?: string }> = [];
+  let failure: "http" | "rpc" | undefined;
+
+  const handle = async (method: string, params: any[]) => {
+    switch (method) {
+      case "eth_accounts":
+        return [wallet.address.toLowerCase()];
+      case "personal_sign":
+        return wallet.signMessage(ethers.getBytes(params[0]));
+      case "eth_signTypedData_v4": {
+        const { domain, types, message } = JSON.parse(params[1]);
+        delete types.EIP712Domain;
+        return wallet.signTypedData(domain, types, message);
+      }
+      case "eth_signTransaction": {
+        const { gas, ...tx } = params[0];
+        return wallet.signTransaction({ ...tx, gasLimit: gas });
+      }
+      default:
+        throw new Error(`${method} is not supported`);
+    }
+  };
+
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (chunk) => (raw += chunk));
+    req.on("end", async () => {
+      const { id, method, params } = JSON.parse(raw);
+      requests.push({ method, params, auth: req.headers.authorization });
+      const kind = failure;
+      failure = undefined;
+      if (kind === "http") {
+        res.writeHead(503).end();
+        return;
+      }
+      const reply = await (kind === "rpc"
+        ? Promise.reject(new Error("request denied by policy"))
+        : handle(method, params)
+      ).then(
+        (result) => ({ jsonrpc: "2.0", id, result }),
+        (error: Error) => ({
+          jsonrpc: "2.0",
+          id,
+          error: { code: -32000, message: error.message },
+        })
+      );
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify(reply));
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    failNext(kind: "http" | "rpc") {
+      failure = kind;
+    },
+    stop: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+describe("RemoteSigner", () => {
+  let service: Awaited<ReturnType<typeof startSigningService>>;
+
+  beforeAll(async () => {
+    service = await startSigningService();
+  });
+  afterAll(() => service?.stop());
+
+  test("asks the service again after a failed account lookup", async () => {
+    const signer = new RemoteSigner({ url: service.url });
+    service.failNext("http");
+
+    await expect(signer.getAddress()).rejects.toThrow("eth_accounts");
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(
+      service.requests.filter((request) => request.method === "eth_accounts")
+    ).toHaveLength(2);
+  });
+
+  test("delegates message and typed-data signatures", async () => {
+    const signer = new RemoteSigner({
+      url: service.url,
+      address: wallet.address,
+      headers: { authorization: "Bearer token" },
+    });
+    const domain = { name: "StableBirr", version: "1", chainId: 137 };
+    const types = { Ping: [{ name: "value", type: "uint256" }] };
+
+    const message = await signer.signMessage("hello");
+    const typed = await signer.signTypedData(domain, types, { value: 1n });
+
+    expect(ethers.verifyMessage("hello", message)).toBe(wallet.address);
+    expect(ethers.verifyTypedData(domain, types, { value: 1n }, typed)).toBe(
+      wallet.address
+    );
+    expect(service.requests.at(-1)?.auth).toBe("Bearer token");
+  });
+
+  test("sends quantities as hex and gets back a signed transaction", async () => {
+    const signer = new RemoteSigner({
+      url: service.url,
+      address: wallet.address,
+    });
+
+    const signed = await signer.signTransaction({
+      to: ethers.ZeroAddress,
+      value: 1000n,
+      nonce: 3,
+      gasLimit: 21_000n,
+      maxFeePerGas: 2n,
+      maxPriorityFeePerGas: 1n,
+      chainId: 137n,
+      type: 2,
+    });
+
+    expect(service.requests.at(-1)?.params[0]).toMatchObject({
+      from: wallet.address,
+      value: "0x3e8",
+      nonce: "0x3",
+      gas: "0x5208",
+    });
+    expect(ethers.Transaction.from(signed).from).toBe(wallet.address);
+  });
+
+  test("surfaces JSON-RPC errors from the service", async () => {
+    const signer = new RemoteSigner({
+      url: service.url,
+      address: wallet.address,
+    });
+    service.failNext("rpc");
+
+    const error = await signer
+      .signMessage("hello")
+      .catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(StableBirrError);
+    expect((error as StableBirrError).code).toBe("REMOTE_SIGNER_ERROR");
+    expect((error as Error).message).toContain("request denied by policy");
+  });
+});
+
+describe("KeystoreSigner", () => {
+  const json = ethers.encryptKeystoreJsonSync(
+    { address: wallet.address, privateKey: wallet.privateKey },
+    "secret",
+    { scrypt: { N: 1024 } }
+  );
+
+  test("reads the address without asking for the password", async () => {
+    let asked = false;
+    const signer = new KeystoreSigner(json, () => {
+      asked = true;
+      return "secret";
+    });
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+    expect(asked).toBe(false);
+  });
+
+  test("asks for the password again after a failed unlock", async () => {
+    const answers: Array<() => Promise<string>> = [
+      () => Promise.reject(new Error("vault sealed")),
+      async () => "wrong",
+      async () => "secret",
+    ];
+    const signer = new KeystoreSigner(json, () => answers.shift()!());
+
+    await expect(signer.signMessage("hi")).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    await expect(signer.signMessage("hi")).rejects.toBeInstanceOf(
+      ValidationError
+    );
+    expect(ethers.verifyMessage("hi", await signer.signMessage("hi"))).toBe(
+      wallet.address
+    );
+  });
+});
+
+describe("createSigner", () => {
+  test("rejects more than one signer source", () => {
+    expect(() =>
+      createSigner(
+        {
+          network: "local",
+          privateKey: wallet.privateKey,
+          remoteSigner: { url: "http://127.0.0.1:1" },
+        },
+        {} as ethers.Provider
+      )
+    ).toThrow("privateKey, remoteSigner");
+  });
+});
@@ -0,0 +1,97 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import * as http from "node:http";
+import type { AddressInfo } from "node:net";
+import { ethers } from "ethers";
+import { StableBirr } from "@/client";
+import {
+  AccountBlacklistedError,
+  InsufficientBalanceError,
+  NetworkError,
+} from "@/core/errors";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+let chain: LocalChain;
+let admin: StableBirr;
+const holder = ethers.Wallet.createRandom().address;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  const address = await chain.deploy();
+  admin = await chain.client(address, {
+    privateKey: chain.accounts[0]!.privateKey,
+  });
+  await (
+    await admin.contract.mint({
+      to: holder,
+      usdAmount: "10",
+      rate: "150",
+    })
+  ).wait();
+  await settle();
+});
+
+afterAll(() => chain?.stop());
+
+describe("simulate", () => {
+  test("reports state deltas without sending anything", async () => {
+    const before = await chain.provider.getBlockNumber();
+    const result = await admin.contract.simulate.mint({
+      to: holder,
+      usdAmount: "1",
+      rate: "150",
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.gasEstimate).toBeGreaterThan(0n);
+    expect(result.stateDeltas).toContainEqual({
+      field: "balanceOf",
+      account: holder,
+      before: ethers.parseEther("1500"),
+      after: ethers.parseEther("1650"),
+    });
+    expect(await chain.provider.getBlockNumber()).toBe(before);
+  });
+
+  test("returns decoded reverts instead of throwing", async () => {
+    const result = await admin.contract.simulate.burn({
+      from: holder,
+      amount: "2000",
+      merchantId: "M-1",
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(InsufficientBalanceError);
+    expect(result.stateDeltas).toEqual([]);
+  });
+
+  test("sees compliance reverts", async () => {
+    const blocked = ethers.Wallet.createRandom().address;
+    await (await admin.contract.blacklist({ account: blocked })).wait();
+    await settle();
+
+    const result = await admin.contract.simulate.mint({
+      to: blocked,
+      usdAmount: "1",
+      rate: "150",
+    });
+
+    expect(result.error).toBeInstanceOf(AccountBlacklistedError);
+  });
+
+  test("throws transport failures as NetworkError", async () => {
+    const down = http.createServer((_req, res) => res.writeHead(503).end());
+    await new Promise<void>((resolve) => down.listen(0, "127.0.0.1", resolve));
+    const sbirr = new StableBirr({
+      network: "local",
+      rpcUrl: `http://127.0.0.1:${(down.address() as AddressInfo).port}`,
+      privateKey: chain.accounts[0]!.privateKey,
+    });
+
+    const error = await sbirr.contract.simulate
+      .mint({ to: holder, usdAmount: "1", rate: "150" })
+      .catch((error: unknown) => error);
+    down.close();
+
+    expect(error).toBeInstanceOf(NetworkError);
+  });
+});
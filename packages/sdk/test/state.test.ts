@@ -0,0 +1,71 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ethers } from "ethers";
+import type { StableBirr } from "@/client";
+import { ValidationError } from "@/core/errors";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+let chain: LocalChain;
+let admin: StableBirr;
+let before: number;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  admin = await chain.client(await chain.deploy(), {
+    privateKey: chain.accounts[0]!.privateKey,
+  });
+  before = await chain.provider.getBlockNumber();
+  await (
+    await admin.contract.mint({ to: holder, usdAmount: "10", rate: "150" })
+  ).wait();
+  await settle();
+});
+
+afterAll(() => chain?.stop());
+
+describe("state getters", () => {
+  test("read governance state", async () => {
+    expect(await admin.contract.getSchnlAdmin()).toBe(
+      chain.accounts[0]!.address
+    );
+    expect(await admin.contract.isPaused()).toBe(false);
+    expect(await admin.contract.getPermitNonce(holder)).toBe(0n);
+  });
+
+  test("read monetary totals as of a past block", async () => {
+    expect((await admin.contract.getTotalUSDConverted()).formatted).toBe(
+      "10.0"
+    );
+    expect((await admin.contract.getTotalUSDConverted(before)).wei).toBe(0n);
+    expect((await admin.contract.getBalance(holder, before)).wei).toBe(0n);
+  });
+});
+
+describe("getState", () => {
+  test("pins every read to one block", async () => {
+    const latest = await admin.contract.getState();
+    const past = await admin.contract.getState(before);
+
+    expect(latest).toMatchObject({
+      blockNumber: before + 1,
+      name: "StableBirr",
+      decimals: 18,
+      paused: false,
+      totalSupply: { wei: ethers.parseEther("1500"), formatted: "1500.0" },
+      totalUSDConverted: { formatted: "10.0" },
+    });
+    expect(ethers.isAddress(latest.implementation)).toBe(true);
+    expect(past).toMatchObject({
+      blockNumber: before,
+      totalSupply: { wei: 0n, formatted: "0.0" },
+    });
+    expect(past.implementation).toBe(latest.implementation);
+  });
+
+  test("rejects blocks that do not exist", async () => {
+    await expect(admin.contract.getState(before + 1000)).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+});
@@ -0,0 +1,61 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { StableBirr } from "@/client";
+import { TransactionTimeoutError } from "@/core/errors";
+import { settle, startHardhat, type LocalChain } from "./helpers/hardhat";
+
+const holder = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+
+let chain: LocalChain;
+let admin: StableBirr;
+
+beforeAll(async () => {
+  chain = await startHardhat();
+  admin = await chain.client(await chain.deploy(), {
+    privateKey: chain.accounts[0]!.privateKey,
+  });
+});
+
+afterAll(() => chain?.stop());
+
+describe("ManagedTransaction.wait", () => {
+  test("resolves with the decoded events", async () => {
+    const tx = await admin.contract.mint({
+      to: holder,
+      usdAmount: "1",
+      rate: "150",
+    });
+    const states: string[] = [];
+    tx.onStateChange(({ state }) => states.push(state));
+
+    const result = await tx.wait({ pollingInterval: 50 });
+    await settle();
+
+    expect(result.receipt.hash).toBe(tx.hash);
+    expect(result.events.map((event) => event.name)).toContain("Minted");
+    expect(states).toEqual(["confirmed"]);
+  });
+
+  test("accepts a confirmation count like ethers", async () => {
+    const tx = await admin.contract.pause({ reason: "INC-1" });
+    const waiting = tx.wait(3);
+    await chain.mine(2);
+
+    expect((await waiting).confirmations).toBeGreaterThanOrEqual(3);
+    await settle();
+    await (await admin.contract.unpause({ reason: "INC-1" })).wait();
+    await settle();
+  });
+
+  test("times out without touching the transaction", async () => {
+    const tx = await admin.contract.burn({
+      from: holder,
+      amount: "1",
+      merchantId: "M-1",
+    });
+
+    await expect(
+      tx.wait({ confirmations: 50, timeout: 200, pollingInterval: 50 })
+    ).rejects.toBeInstanceOf(TransactionTimeoutError);
+    expect(tx.state).toBe("mined");
+  });
+});